@@ -0,0 +1,287 @@
+import fs from 'fs'
+import path from 'path'
+import readline from 'readline'
+import { fileLogger } from './fileLogger'
+import type { ChatMessage } from './chatWebSocket'
+import type { ChatLine } from './chatProvider'
+
+/**
+ * One archived chat line. Same normalized fields as CombinedChat's CombinedItem (source, tsMs, nick, content),
+ * plus the channel the item belongs to. Chat providers produce these via toChatLine / eventToChatLine.
+ */
+export type ArchivedChatItem = ChatLine
+
+export interface ChatArchiveSearchQuery {
+  /** Whitespace-separated terms; all must appear in content or nick (case-insensitive). */
+  text?: string
+  source?: string
+  channel?: string
+  /** Exact nick (case-insensitive). */
+  nick?: string
+  sinceMs?: number
+  untilMs?: number
+  limit?: number
+}
+
+export interface ChatArchiveSearchResult {
+  items: ArchivedChatItem[]
+  /** True when more matches exist beyond limit. */
+  truncated: boolean
+}
+
+const DEFAULT_SEARCH_DAYS = 7
+const DEFAULT_SEARCH_LIMIT = 200
+const MAX_SEARCH_LIMIT = 2000
+/** Remember this many recent ids so Kick history refetches / reconnects don't write duplicates. */
+const SEEN_IDS_MAX = 10000
+/** Day folders older than this are deleted (on startup and when a new day starts). */
+const RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function dayKey(tsMs: number): string {
+  const d = new Date(tsMs)
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, '0')
+  const day = String(d.getDate()).padStart(2, '0')
+  return `${y}-${m}-${day}`
+}
+
+/** Filename-safe token. Underscore is reserved as the source/channel separator. */
+function safeToken(s: string): string {
+  return String(s || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .slice(0, 80)
+}
+
+function isDayFolder(name: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(name)
+}
+
+function fileNameFor(source: string, channel: string): string {
+  const src = safeToken(source) || 'unknown'
+  const ch = safeToken(channel)
+  return ch ? `${src}_${ch}.jsonl` : `${src}.jsonl`
+}
+
+/** Normalize a primary chat MSG payload (`chat-websocket-message` data.message). */
+export function archiveItemFromPrimary(sourceId: string, msg: ChatMessage | null | undefined): ArchivedChatItem | null {
+  if (!msg || typeof msg !== 'object') return null
+  return {
+    source: sourceId,
+    channel: '',
+    tsMs: typeof msg.timestamp === 'number' ? msg.timestamp : Date.now(),
+    nick: String(msg.nick ?? ''),
+    content: String(msg.data ?? ''),
+    id: msg.id != null ? String(msg.id) : msg.uuid ? String(msg.uuid) : undefined,
+  }
+}
+
+/**
+ * On-disk archive of combined chat traffic. Lives next to the app logs (see fileLogger):
+ * `<logs>/chat-archive/<YYYY-MM-DD>/<source>_<channel>.jsonl`, one ArchivedChatItem per line.
+ * Only the last RETENTION_DAYS days are kept.
+ */
+class ChatArchive {
+  private archiveDir: string | null = null
+  private streams: Map<string, fs.WriteStream> = new Map()
+  private seenIds: Set<string> = new Set()
+
+  getArchiveDirectoryPath(): string {
+    if (!this.archiveDir) {
+      this.archiveDir = path.join(fileLogger.getLogsDirectoryPath(), 'chat-archive')
+    }
+    return this.archiveDir
+  }
+
+  private markSeen(item: ArchivedChatItem): boolean {
+    if (!item.id) return true
+    const key = `${item.source}:${item.id}`
+    if (this.seenIds.has(key)) return false
+    this.seenIds.add(key)
+    if (this.seenIds.size > SEEN_IDS_MAX) {
+      const first = this.seenIds.values().next().value
+      if (first !== undefined) this.seenIds.delete(first)
+    }
+    return true
+  }
+
+  private getStream(day: string, fileName: string): fs.WriteStream | null {
+    const key = `${day}/${fileName}`
+    const existing = this.streams.get(key)
+    if (existing) return existing
+
+    // New day (or first write): drop folders past retention
+    if (!Array.from(this.streams.keys()).some((k) => k.startsWith(`${day}/`))) void this.prune()
+
+    // New day: close streams for previous days so we don't hold handles forever.
+    for (const [k, s] of this.streams) {
+      if (!k.startsWith(`${day}/`)) {
+        try {
+          s.end()
+        } catch {
+          // ignore
+        }
+        this.streams.delete(k)
+      }
+    }
+
+    try {
+      const dir = path.join(this.getArchiveDirectoryPath(), day)
+      fs.mkdirSync(dir, { recursive: true })
+      const stream = fs.createWriteStream(path.join(dir, fileName), { flags: 'a' })
+      stream.on('error', (e) => {
+        fileLogger.writeLog('error', 'main', '[ChatArchive] write_stream_error', [key, String(e)])
+        this.streams.delete(key)
+      })
+      this.streams.set(key, stream)
+      return stream
+    } catch (e) {
+      fileLogger.writeLog('error', 'main', '[ChatArchive] open_failed', [key, String(e)])
+      return null
+    }
+  }
+
+  append(item: ArchivedChatItem | null) {
+    if (!item || !item.source) return
+    if (!this.markSeen(item)) return
+    const stream = this.getStream(dayKey(Date.now()), fileNameFor(item.source, item.channel))
+    if (!stream) return
+    try {
+      stream.write(`${JSON.stringify(item)}\n`)
+    } catch {
+      // ignore
+    }
+  }
+
+  /** Delete day folders older than RETENTION_DAYS. */
+  async prune(): Promise<void> {
+    const root = this.getArchiveDirectoryPath()
+    const oldestKept = dayKey(Date.now() - RETENTION_DAYS * DAY_MS)
+    let days: string[] = []
+    try {
+      days = (await fs.promises.readdir(root)).filter((d) => isDayFolder(d) && d < oldestKept)
+    } catch {
+      return
+    }
+    for (const day of days) {
+      try {
+        await fs.promises.rm(path.join(root, day), { recursive: true, force: true })
+      } catch (e) {
+        fileLogger.writeLog('warn', 'main', '[ChatArchive] prune_failed', [day, String(e)])
+      }
+    }
+    if (days.length > 0) fileLogger.writeLog('info', 'main', '[ChatArchive] pruned', [days.length])
+  }
+
+  /**
+   * Search archived messages, newest first. Scans day folders from untilMs back to sinceMs and stops once limit is
+   * reached. Files are streamed line by line, and at most ~2 × limit matches are held per day.
+   */
+  async search(query: ChatArchiveSearchQuery): Promise<ChatArchiveSearchResult> {
+    const untilMs = Number.isFinite(query.untilMs) ? Number(query.untilMs) : Date.now()
+    const sinceMs = Number.isFinite(query.sinceMs) ? Number(query.sinceMs) : untilMs - DEFAULT_SEARCH_DAYS * DAY_MS
+    const limit = Math.max(1, Math.min(MAX_SEARCH_LIMIT, Math.floor(Number(query.limit) || DEFAULT_SEARCH_LIMIT)))
+    const terms = String(query.text || '')
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(Boolean)
+    const source = query.source?.trim().toLowerCase() || ''
+    const channel = query.channel?.trim().toLowerCase() || ''
+    const nick = query.nick?.trim().toLowerCase() || ''
+
+    const root = this.getArchiveDirectoryPath()
+    let days: string[] = []
+    try {
+      days = (await fs.promises.readdir(root)).filter(isDayFolder)
+    } catch {
+      return { items: [], truncated: false }
+    }
+    // Day folders are local-date named; compare with a one-day margin so edge-of-day messages are included.
+    const sinceDay = dayKey(sinceMs - DAY_MS)
+    const untilDay = dayKey(untilMs + DAY_MS)
+    days = days.filter((d) => d >= sinceDay && d <= untilDay).sort().reverse()
+
+    const filePrefix = source ? safeToken(source) : ''
+    const matches: ArchivedChatItem[] = []
+    let truncated = false
+
+    for (const day of days) {
+      let files: string[] = []
+      try {
+        files = await fs.promises.readdir(path.join(root, day))
+      } catch {
+        continue
+      }
+      // Lines are only in time order within a file, so a day is read whole; keep its newest `remaining` matches
+      const remaining = limit - matches.length
+      let dayMatches: ArchivedChatItem[] = []
+      let dayOverflow = false
+      for (const file of files) {
+        if (!file.endsWith('.jsonl')) continue
+        if (filePrefix && file !== `${filePrefix}.jsonl` && !file.startsWith(`${filePrefix}_`)) continue
+        const input = fs.createReadStream(path.join(root, day, file), { encoding: 'utf8' })
+        const lines = readline.createInterface({ input, crlfDelay: Infinity })
+        try {
+          for await (const line of lines) {
+            if (!line) continue
+            let item: ArchivedChatItem
+            try {
+              item = JSON.parse(line)
+            } catch {
+              continue
+            }
+            if (!item || typeof item.tsMs !== 'number') continue
+            if (item.tsMs < sinceMs || item.tsMs > untilMs) continue
+            if (source && String(item.source).toLowerCase() !== source) continue
+            if (channel && String(item.channel).toLowerCase() !== channel) continue
+            if (nick && String(item.nick).toLowerCase() !== nick) continue
+            if (terms.length > 0) {
+              const hay = `${item.nick}\n${item.content}`.toLowerCase()
+              if (!terms.every((t) => hay.includes(t))) continue
+            }
+            if (remaining === 0) {
+              // Limit already reached on a newer day: this match only tells us there are more
+              dayOverflow = true
+              break
+            }
+            dayMatches.push(item)
+            if (dayMatches.length >= remaining * 2) {
+              dayMatches = dayMatches.sort((a, b) => b.tsMs - a.tsMs).slice(0, remaining)
+              dayOverflow = true
+            }
+          }
+        } catch {
+          // Unreadable file: skip it
+        } finally {
+          lines.close()
+          input.destroy()
+        }
+        if (remaining === 0 && dayOverflow) break
+        // Let other main-process work run between files
+        await new Promise((resolve) => setImmediate(resolve))
+      }
+      dayMatches.sort((a, b) => b.tsMs - a.tsMs)
+      matches.push(...dayMatches.slice(0, remaining))
+      if (dayOverflow || dayMatches.length > remaining) {
+        truncated = true
+        break
+      }
+    }
+
+    return { items: matches, truncated }
+  }
+
+  close() {
+    for (const s of this.streams.values()) {
+      try {
+        s.end()
+      } catch {
+        // ignore
+      }
+    }
+    this.streams.clear()
+  }
+}
+
+export const chatArchive = new ChatArchive()
@@ -0,0 +1,157 @@
+import { fileLogger } from './fileLogger'
+
+/**
+ * Common interface for chat platforms read by Combined Chat (Kick, YouTube, Twitch, and extension-provided ones).
+ * main.ts wires every registered provider the same way: generic chat-provider-* IPC for targets/send/history/user
+ * count, archive + renderer forwarding for 'message' and 'event'.
+ */
+
+/** Platform-neutral chat line: what the archive stores and what the renderer shows for providers without bespoke rendering. */
+export interface ChatLine {
+  /** Provider id (e.g. 'kick'), or the primary chat source id. */
+  source: string
+  /** Channel the line belongs to (Kick slug, YouTube video id, Twitch login; empty for the primary chat source). */
+  channel: string
+  tsMs: number
+  nick: string
+  content: string
+  id?: string
+  /** Optional username color (hex). */
+  color?: string
+}
+
+export type ChatSendResult = { success: boolean; error?: string }
+
+/**
+ * A chat platform. Implementations are EventEmitters that emit:
+ * - 'message' (TMessage): one chat message, in the provider's own shape.
+ * - 'event' (TEvent): non-message events (moderation, subs, ...), in the provider's own shape.
+ */
+export interface ChatProvider<TMessage = unknown, TEvent = unknown> {
+  /** Stable id; used as the IPC providerId, CombinedItem source and archive source. Lowercase, no ':'. */
+  readonly id: string
+  /** Display name (e.g. "Kick"). */
+  readonly label: string
+  /**
+   * When set, messages/events are sent to the renderer as-is on these IPC channels (built-in platforms have
+   * dedicated rendering in CombinedChat). Otherwise they go out as ChatLines on chat-provider-message / chat-provider-event.
+   */
+  readonly rendererChannels?: { message: string; event: string }
+  /** Replace the set of channels to read (Kick slugs, YouTube video ids, Twitch logins, ...). Empty = disconnect. */
+  setTargets(targets: string[], opts?: Record<string, unknown>): Promise<void>
+  sendMessage?(target: string, content: string): Promise<ChatSendResult>
+  /** Re-fetch recent history for the given targets (all current targets when omitted). */
+  refetchHistory?(targets?: string[]): Promise<void>
+  /** Chat user/viewer count for a target, or null when unknown. */
+  getUserCount?(target: string): Promise<number | null>
+  /** Normalize a 'message' payload for the archive (and generic rendering). Return null to skip. */
+  toChatLine(msg: TMessage): ChatLine | null
+  /** Normalize an 'event' payload for the archive; events without text (deletions, mode changes) return null. */
+  eventToChatLine?(evt: TEvent): ChatLine | null
+  on(event: 'message', listener: (msg: TMessage) => void): unknown
+  on(event: 'event', listener: (evt: TEvent) => void): unknown
+  removeAllListeners?(event?: string): unknown
+}
+
+/** Summary of a registered provider for the renderer (chat-provider-list). */
+export interface ChatProviderInfo {
+  id: string
+  label: string
+  /** True for Kick/YouTube/Twitch (rendered by dedicated CombinedChat code). */
+  builtin: boolean
+  canSend: boolean
+  hasHistory: boolean
+  hasUserCount: boolean
+}
+
+type RegisteredProvider = { provider: ChatProvider; owner: string }
+
+/** Owner value for providers registered by the app itself (vs. an extension id). */
+export const BUILTIN_CHAT_PROVIDER_OWNER = 'builtin'
+
+const providers = new Map<string, RegisteredProvider>()
+const registeredListeners = new Set<(provider: ChatProvider) => void>()
+
+function isValidProvider(p: unknown): p is ChatProvider {
+  const c = p as Partial<ChatProvider> | null
+  return (
+    !!c &&
+    typeof c.id === 'string' &&
+    /^[a-z0-9][a-z0-9_-]*$/.test(c.id) &&
+    typeof c.setTargets === 'function' &&
+    typeof c.toChatLine === 'function' &&
+    typeof c.on === 'function'
+  )
+}
+
+/**
+ * Register a provider. Built-in ids can't be replaced by extensions; an extension re-registering its own id replaces it.
+ * Returns false (and logs) when the provider is invalid or the id is taken.
+ */
+export function registerChatProvider(provider: ChatProvider, owner: string = BUILTIN_CHAT_PROVIDER_OWNER): boolean {
+  if (!isValidProvider(provider)) {
+    fileLogger.writeLog('warn', 'main', '[ChatProvider] register_invalid', [owner])
+    return false
+  }
+  const existing = providers.get(provider.id)
+  if (existing && existing.owner !== owner) {
+    fileLogger.writeLog('warn', 'main', '[ChatProvider] register_id_taken', [provider.id, owner, existing.owner])
+    return false
+  }
+  if (existing) disposeProvider(existing.provider)
+  providers.set(provider.id, { provider, owner })
+  fileLogger.writeLog('info', 'main', '[ChatProvider] registered', [provider.id, owner])
+  for (const listener of registeredListeners) {
+    try {
+      listener(provider)
+    } catch (e) {
+      fileLogger.writeLog('warn', 'main', '[ChatProvider] registered_listener_failed', [provider.id, e instanceof Error ? e.message : String(e)])
+    }
+  }
+  return true
+}
+
+function disposeProvider(provider: ChatProvider): void {
+  provider.setTargets([]).catch(() => {})
+  try {
+    provider.removeAllListeners?.()
+  } catch {
+    // ignore
+  }
+}
+
+/** Remove all providers registered by an owner (extension id); their targets are cleared first. */
+export function unregisterChatProviders(owner: string): void {
+  for (const [id, entry] of providers) {
+    if (entry.owner !== owner) continue
+    disposeProvider(entry.provider)
+    providers.delete(id)
+    fileLogger.writeLog('info', 'main', '[ChatProvider] unregistered', [id, owner])
+  }
+}
+
+/** Remove every extension-registered provider (built-ins stay). Called before reloading extensions. */
+export function unregisterExtensionChatProviders(): void {
+  const owners = new Set(Array.from(providers.values(), (e) => e.owner).filter((o) => o !== BUILTIN_CHAT_PROVIDER_OWNER))
+  owners.forEach((owner) => unregisterChatProviders(owner))
+}
+
+export function getChatProvider(id: string): ChatProvider | undefined {
+  return providers.get(String(id || '').toLowerCase())?.provider
+}
+
+export function getChatProviderInfos(): ChatProviderInfo[] {
+  return Array.from(providers.values(), ({ provider, owner }) => ({
+    id: provider.id,
+    label: provider.label || provider.id,
+    builtin: owner === BUILTIN_CHAT_PROVIDER_OWNER,
+    canSend: typeof provider.sendMessage === 'function',
+    hasHistory: typeof provider.refetchHistory === 'function',
+    hasUserCount: typeof provider.getUserCount === 'function',
+  }))
+}
+
+/** Called for each provider as it is registered (main uses this to wire forwarding). */
+export function onChatProviderRegistered(listener: (provider: ChatProvider) => void): void {
+  registeredListeners.add(listener)
+}
@@ -1,5 +1,7 @@
-import type { ExtensionSettingsSection } from './types.js'
+import type { ExtensionSettingField, ExtensionSettingsSection, ExtensionSettingValue } from './types.js'
 import { fileLogger } from '../fileLogger.js'
+import { registerChatProvider, unregisterChatProviders, unregisterExtensionChatProviders, type ChatProvider } from '../chatProvider.js'
+import { deleteStorageValue, getSettingValues, getStorageKeys, getStorageValue, onSettingChanged, setStorageValue } from './extensionData.js'
 
 /** Full config for a chat source (WebSocket URLs, API paths, cookie domains). Provided by the extension that registers the source. */
 export interface ChatSourceConfig {
@@ -73,7 +75,7 @@ export interface ChatSourceRegistration {
   id: string
   getConfig: () => ChatSourceConfig
   /** Optional: called for each message from the live WebSocket (URL from getConfig().liveWssUrl). */
-  onLiveMessage?: (message: unknown, api: LiveMessageHandlerApi) => void
+  onLiveMessage?: (message: unknown, api: LiveMessageHandlerApi) => void | Promise<void>
 }
 
 /** Optional APIs a chat source extension can provide (e.g. mentions search, log search). */
@@ -88,27 +90,117 @@ export interface ChatSourceApi {
   ) => Promise<{ success: boolean; data?: unknown[]; searchAfter?: number; hasMore?: boolean; error?: string }>
 }
 
+/**
+ * Embed platform for the Omni Screen dock/grid (e.g. Rumble, Odysee). Everything except isLive is plain data and is
+ * sent to the renderer via get-app-config.
+ */
+export interface EmbedPlatformRegistration {
+  /** Platform id used in embed keys and # links (`rumble:channel`, `#rumble/channel`). Lowercase, not youtube/kick/twitch. */
+  id: string
+  label: string
+  /** Regex sources tested against pasted/linked URLs; the `id` named group (or the first group) is the embed id. */
+  urlPatterns: string[]
+  /** Iframe src for an embed; `{id}` is replaced with the URL-encoded id. */
+  embedUrlTemplate: string
+  /** Page URL for an embed (pasted links, bookmarks, open in browser); `{id}` is replaced. */
+  pageUrlTemplate: string
+  iconUrl?: string
+  /** Keep ids as-is in embed keys (like YouTube video ids); otherwise they are lowercased. */
+  caseSensitiveIds?: boolean
+  /** Chat provider (see registerChatProvider) that reads this platform's ids when an embed's chat is on. Defaults to id. */
+  chatProviderId?: string
+  /** Optional: whether the channel is live. Used to poll bookmarked streamers. */
+  isLive?: (id: string) => Promise<boolean>
+}
+
+/** Embed platform as sent to the renderer. */
+export type EmbedPlatformInfo = Omit<EmbedPlatformRegistration, 'isLive'> & { hasLiveCheck: boolean }
+
+const BUILTIN_EMBED_PLATFORMS = new Set(['youtube', 'kick', 'twitch'])
+
+/**
+ * Link Scroller link type (e.g. Instagram, Mastodon). Links matching urlPatterns get the name as label and platform
+ * display setting (filter / text / embed), and are embedded via embedUrlTemplate and/or fetchEmbed.
+ */
+export interface LinkTypeRegistration {
+  /** Display name and settings key; must not be a built-in type (YouTube, Twitter, …). */
+  name: string
+  /** Regex sources tested against link URLs; the `id` named group (or the first group) fills `{id}` in embedUrlTemplate. */
+  urlPatterns: string[]
+  iconUrl?: string
+  /** Iframe src; `{url}` is replaced with the URL-encoded link, `{id}` with the matched id. */
+  embedUrlTemplate?: string
+  /** Embed height in px; default 400. */
+  embedHeight?: number
+  /** Optional: resolve the embed (iframe URL or HTML, e.g. from oEmbed). HTML is shown in a sandboxed iframe. */
+  fetchEmbed?: (url: string) => Promise<{ embedUrl?: string; html?: string } | null>
+}
+
+/** Link type as sent to the renderer. */
+export type LinkTypeInfo = Omit<LinkTypeRegistration, 'fetchEmbed'> & { hasFetchEmbed: boolean; extensionId: string }
+
+/** context.storage: key/value storage scoped to the extension, kept by main across restarts and updates. */
+export interface ExtensionStorageApi {
+  get: (key: string) => Promise<unknown>
+  /** Values must be JSON-serializable; undefined deletes the key. */
+  set: (key: string, value: unknown) => Promise<void>
+  delete: (key: string) => Promise<void>
+  keys: () => Promise<string[]>
+}
+
+/** context.settings: current values of the fields registered with registerSettings (secrets decrypted). */
+export interface ExtensionSettingsApi {
+  get: (key: string) => Promise<ExtensionSettingValue>
+  getAll: () => Promise<Record<string, ExtensionSettingValue>>
+  /** Called when the user changes a setting. Returns a function that removes the listener. */
+  onDidChange: (listener: (key: string, value: ExtensionSettingValue) => void) => () => void
+}
+
+const BUILTIN_LINK_TYPES = new Set(['twitter', 'youtube', 'tiktok', 'kick', 'twitch', 'reddit', 'streamable', 'imgur', 'wikipedia', 'bluesky', 'lsf', 'link'])
+
 const chatSourceRegistry = new Map<string, ChatSourceRegistration>()
 const chatSourceApiRegistry = new Map<string, ChatSourceApi>()
-let rendererConfigOverlay: RendererConfigOverlay = {}
+/** Extension id that registered each chat source / chat source API (so one extension's config can be cleared). */
+const chatSourceOwners = new Map<string, string>()
+const chatSourceApiOwners = new Map<string, string>()
+/** Renderer config per extension, merged in load order by getRendererConfigOverlay. */
+const rendererConfigOverlays = new Map<string, RendererConfigOverlay>()
 const extensionSettingsRegistry = new Map<string, ExtensionSettingsSection[]>()
+const embedPlatformRegistry = new Map<string, EmbedPlatformRegistration>()
+const embedPlatformOwners = new Map<string, string>()
+/** Keyed by lowercased name. */
+const linkTypeRegistry = new Map<string, LinkTypeRegistration>()
+const linkTypeOwners = new Map<string, string>()
 
-/** First registered chat source that has getConfig (used for chat/live WebSocket and connections). */
-export function getPrimaryChatSource(): { id: string; config: ChatSourceConfig } | null {
+/** All registered chat sources with a usable config (baseUrl set), in registration order. The first is the primary source. */
+export function getChatSources(): Array<{ id: string; config: ChatSourceConfig }> {
+  const out: Array<{ id: string; config: ChatSourceConfig }> = []
   for (const [id, reg] of chatSourceRegistry) {
     if (!reg?.getConfig) continue
     try {
       const config = reg.getConfig()
-      if (config?.baseUrl) return { id, config }
+      if (config?.baseUrl) out.push({ id, config })
     } catch {
       continue
     }
   }
-  return null
+  return out
+}
+
+/** Chat source by id; the primary source when id is omitted. */
+export function getChatSource(id?: string | null): { id: string; config: ChatSourceConfig } | null {
+  const sources = getChatSources()
+  if (!id) return sources[0] ?? null
+  return sources.find((s) => s.id === id) ?? null
+}
+
+/** First registered chat source that has getConfig (used for the live WebSocket and as the default chat source). */
+export function getPrimaryChatSource(): { id: string; config: ChatSourceConfig } | null {
+  return getChatSources()[0] ?? null
 }
 
 /** Live message handler from the first chat source that has liveWssUrl and onLiveMessage. */
-export function getLiveMessageHandler(): ((message: unknown, api: LiveMessageHandlerApi) => void) | null {
+export function getLiveMessageHandler(): ((message: unknown, api: LiveMessageHandlerApi) => void | Promise<void>) | null {
   for (const [, reg] of chatSourceRegistry) {
     if (!reg?.onLiveMessage) continue
     try {
@@ -121,8 +213,16 @@ export function getLiveMessageHandler(): ((message: unknown, api: LiveMessageHan
   return null
 }
 
+/** Merged renderer config of all extensions: chatSources are merged by id, connectionPlatforms concatenated. */
 export function getRendererConfigOverlay(): RendererConfigOverlay {
-  return { ...rendererConfigOverlay }
+  const merged: RendererConfigOverlay = {}
+  for (const overlay of rendererConfigOverlays.values()) {
+    const { chatSources, connectionPlatforms, ...rest } = overlay
+    Object.assign(merged, rest)
+    if (chatSources) merged.chatSources = { ...merged.chatSources, ...chatSources }
+    if (connectionPlatforms) merged.connectionPlatforms = [...(merged.connectionPlatforms ?? []), ...connectionPlatforms]
+  }
+  return merged
 }
 
 export function hasPrimaryChatSource(): boolean {
@@ -134,6 +234,79 @@ export function getChatSourceApi(chatSourceId: string): ChatSourceApi | undefine
   return chatSourceApiRegistry.get(chatSourceId)
 }
 
+/** Extension embed platforms in registration order (renderer shape: isLive replaced by hasLiveCheck). */
+export function getEmbedPlatforms(): EmbedPlatformInfo[] {
+  return Array.from(embedPlatformRegistry.values()).map(({ isLive, ...info }) => ({ ...info, hasLiveCheck: typeof isLive === 'function' }))
+}
+
+export function getEmbedPlatform(id: string): EmbedPlatformRegistration | undefined {
+  return embedPlatformRegistry.get(String(id || '').toLowerCase())
+}
+
+/** Extension link types in registration order (renderer shape: fetchEmbed replaced by hasFetchEmbed). */
+export function getLinkTypes(): LinkTypeInfo[] {
+  return Array.from(linkTypeRegistry).map(([key, { fetchEmbed, ...info }]) => ({
+    ...info,
+    hasFetchEmbed: typeof fetchEmbed === 'function',
+    extensionId: linkTypeOwners.get(key) ?? '',
+  }))
+}
+
+export function getLinkType(name: string): LinkTypeRegistration | undefined {
+  return linkTypeRegistry.get(String(name || '').toLowerCase())
+}
+
+/** Regex sources that compile; others are dropped. */
+function validUrlPatterns(patterns: unknown): string[] {
+  return (Array.isArray(patterns) ? patterns : []).filter((p): p is string => {
+    if (typeof p !== 'string' || !p) return false
+    try {
+      new RegExp(p, 'i')
+      return true
+    } catch {
+      return false
+    }
+  })
+}
+
+/** Validate a link type registration; null if unusable. */
+function normalizeLinkType(linkType: LinkTypeRegistration): LinkTypeRegistration | null {
+  const name = String(linkType?.name ?? '').trim()
+  if (!name || BUILTIN_LINK_TYPES.has(name.toLowerCase())) return null
+  const urlPatterns = validUrlPatterns(linkType.urlPatterns)
+  if (urlPatterns.length === 0) return null
+  const embedUrlTemplate = typeof linkType.embedUrlTemplate === 'string' && /^https:\/\//i.test(linkType.embedUrlTemplate) ? linkType.embedUrlTemplate : undefined
+  const embedHeight = Number(linkType.embedHeight)
+  return {
+    name,
+    urlPatterns,
+    iconUrl: typeof linkType.iconUrl === 'string' ? linkType.iconUrl : undefined,
+    embedUrlTemplate,
+    embedHeight: Number.isFinite(embedHeight) && embedHeight > 0 ? Math.min(2000, Math.round(embedHeight)) : undefined,
+    fetchEmbed: typeof linkType.fetchEmbed === 'function' ? linkType.fetchEmbed : undefined,
+  }
+}
+
+/** Validate an embed platform registration; null if unusable. Invalid URL patterns are dropped. */
+function normalizeEmbedPlatform(platform: EmbedPlatformRegistration): EmbedPlatformRegistration | null {
+  const id = String(platform?.id ?? '').trim().toLowerCase()
+  if (!/^[a-z0-9][a-z0-9_-]*$/.test(id) || BUILTIN_EMBED_PLATFORMS.has(id)) return null
+  if (typeof platform.embedUrlTemplate !== 'string' || !/^https:\/\//i.test(platform.embedUrlTemplate)) return null
+  if (typeof platform.pageUrlTemplate !== 'string' || !/^https?:\/\//i.test(platform.pageUrlTemplate)) return null
+  const urlPatterns = validUrlPatterns(platform.urlPatterns)
+  return {
+    id,
+    label: String(platform.label || id),
+    urlPatterns,
+    embedUrlTemplate: platform.embedUrlTemplate,
+    pageUrlTemplate: platform.pageUrlTemplate,
+    iconUrl: typeof platform.iconUrl === 'string' ? platform.iconUrl : undefined,
+    caseSensitiveIds: platform.caseSensitiveIds === true,
+    chatProviderId: typeof platform.chatProviderId === 'string' && platform.chatProviderId ? platform.chatProviderId : undefined,
+    isLive: typeof platform.isLive === 'function' ? platform.isLive : undefined,
+  }
+}
+
 /** Get all extension settings schemas (for renderer to show settings UI). */
 export function getExtensionSettingsSchemas(): Record<string, ExtensionSettingsSection[]> {
   const out: Record<string, ExtensionSettingsSection[]> = {}
@@ -143,14 +316,61 @@ export function getExtensionSettingsSchemas(): Record<string, ExtensionSettingsS
   return out
 }
 
+/** Fields of all settings sections an extension registered. */
+export function getExtensionSettingFields(extensionId: string): ExtensionSettingField[] {
+  return (extensionSettingsRegistry.get(extensionId) ?? []).flatMap((sec) => (Array.isArray(sec.fields) ? sec.fields : []))
+}
+
 /** Clear extension-provided config (call before reloading extensions). */
 export function clearExtensionConfig(): void {
   chatSourceRegistry.clear()
   chatSourceApiRegistry.clear()
-  rendererConfigOverlay = {}
+  chatSourceOwners.clear()
+  chatSourceApiOwners.clear()
+  rendererConfigOverlays.clear()
   extensionSettingsRegistry.clear()
+  embedPlatformRegistry.clear()
+  embedPlatformOwners.clear()
+  linkTypeRegistry.clear()
+  linkTypeOwners.clear()
+  unregisterExtensionChatProviders()
+}
+
+/** Chat source ids registered by an extension. */
+export function getChatSourceIdsFor(extensionId: string): string[] {
+  return Array.from(chatSourceOwners).flatMap(([id, owner]) => (owner === extensionId ? [id] : []))
+}
+
+/** Clear config registered by one extension (e.g. its host process crashed and is being restarted). */
+export function clearExtensionConfigFor(extensionId: string): void {
+  for (const [id, owner] of chatSourceOwners) {
+    if (owner !== extensionId) continue
+    chatSourceRegistry.delete(id)
+    chatSourceOwners.delete(id)
+  }
+  for (const [id, owner] of chatSourceApiOwners) {
+    if (owner !== extensionId) continue
+    chatSourceApiRegistry.delete(id)
+    chatSourceApiOwners.delete(id)
+  }
+  for (const [id, owner] of embedPlatformOwners) {
+    if (owner !== extensionId) continue
+    embedPlatformRegistry.delete(id)
+    embedPlatformOwners.delete(id)
+  }
+  for (const [key, owner] of linkTypeOwners) {
+    if (owner !== extensionId) continue
+    linkTypeRegistry.delete(key)
+    linkTypeOwners.delete(key)
+  }
+  rendererConfigOverlays.delete(extensionId)
+  extensionSettingsRegistry.delete(extensionId)
+  unregisterChatProviders(extensionId)
 }
 
+/** Context object passed to an extension's register(context). */
+export type ExtensionContext = ReturnType<typeof createExtensionContext>
+
 /**
  * Create the context object passed to extension's register(context).
  */
@@ -163,7 +383,12 @@ export function createExtensionContext(
   registerChatSourceApi: (chatSourceId: string, api: ChatSourceApi) => void
   setRendererConfig: (partial: RendererConfigOverlay) => void
   registerSettings: (sections: ExtensionSettingsSection[]) => void
+  registerChatProvider: (provider: ChatProvider) => boolean
+  registerEmbedPlatform: (platform: EmbedPlatformRegistration) => boolean
+  registerLinkType: (linkType: LinkTypeRegistration) => boolean
   log: (level: 'info' | 'warn' | 'error' | 'debug', message: string, ...args: unknown[]) => void
+  storage: ExtensionStorageApi
+  settings: ExtensionSettingsApi
   extensionPath: string
   extensionId: string
 } {
@@ -178,21 +403,63 @@ export function createExtensionContext(
         // no-op so extension logging never breaks the host
       }
     },
+    storage: {
+      get: async (key) => getStorageValue(extensionId, key),
+      set: async (key, value) => setStorageValue(extensionId, key, value),
+      delete: async (key) => deleteStorageValue(extensionId, key),
+      keys: async () => getStorageKeys(extensionId),
+    },
+    settings: {
+      get: async (key) => {
+        const fields = getExtensionSettingFields(extensionId).filter((f) => f.key === key)
+        return getSettingValues(extensionId, fields, true)[key] ?? null
+      },
+      getAll: async () => getSettingValues(extensionId, getExtensionSettingFields(extensionId), true),
+      onDidChange: (listener) => onSettingChanged(extensionId, listener),
+    },
     registerChatSource(id: string, registration: Omit<ChatSourceRegistration, 'id'>) {
       if (id) {
         chatSourceRegistry.set(id, { id, ...registration })
+        chatSourceOwners.set(id, extensionId)
       }
     },
     registerChatSourceApi(chatSourceId: string, api: ChatSourceApi) {
-      if (chatSourceId && api) chatSourceApiRegistry.set(chatSourceId, api)
+      if (!chatSourceId || !api) return
+      chatSourceApiRegistry.set(chatSourceId, api)
+      chatSourceApiOwners.set(chatSourceId, extensionId)
     },
     setRendererConfig(partial: RendererConfigOverlay) {
-      rendererConfigOverlay = { ...rendererConfigOverlay, ...partial }
+      rendererConfigOverlays.set(extensionId, { ...rendererConfigOverlays.get(extensionId), ...partial })
     },
     registerSettings(sections: ExtensionSettingsSection[]) {
       if (extensionId && Array.isArray(sections) && sections.length > 0) {
         extensionSettingsRegistry.set(extensionId, sections)
       }
     },
+    /** Add a Combined Chat platform (see ChatProvider). Returns false if invalid or the id is a built-in/other extension's. */
+    registerChatProvider(provider: ChatProvider) {
+      return registerChatProvider(provider, extensionId)
+    },
+    /** Add an Omni Screen embed platform. Returns false if invalid or the id is a built-in/other extension's. */
+    registerEmbedPlatform(platform: EmbedPlatformRegistration) {
+      const normalized = normalizeEmbedPlatform(platform)
+      if (!normalized) return false
+      const owner = embedPlatformOwners.get(normalized.id)
+      if (owner && owner !== extensionId) return false
+      embedPlatformRegistry.set(normalized.id, normalized)
+      embedPlatformOwners.set(normalized.id, extensionId)
+      return true
+    },
+    /** Add a Link Scroller link type. Returns false if invalid or the name is a built-in/other extension's. */
+    registerLinkType(linkType: LinkTypeRegistration) {
+      const normalized = normalizeLinkType(linkType)
+      if (!normalized) return false
+      const key = normalized.name.toLowerCase()
+      const owner = linkTypeOwners.get(key)
+      if (owner && owner !== extensionId) return false
+      linkTypeRegistry.set(key, normalized)
+      linkTypeOwners.set(key, extensionId)
+      return true
+    },
   }
 }
@@ -0,0 +1,250 @@
+import { safeStorage } from 'electron'
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileLogger } from '../fileLogger.js'
+import { getExtensionDir } from './storage.js'
+import type { ExtensionSettingField, ExtensionSettingValue } from './types.js'
+
+/**
+ * Per-extension data kept by main: setting values (Settings > Extensions) and the extension's own key/value storage
+ * (context.storage). One JSON file per extension next to its folder, so it survives updates and rollbacks.
+ * Secret settings are encrypted with safeStorage and only ever decrypted for the extension itself.
+ */
+
+interface ExtensionDataFile {
+  settings: Record<string, ExtensionSettingValue>
+  /** Secret setting values, safeStorage-encrypted and base64-encoded. */
+  secrets: Record<string, string>
+  storage: Record<string, unknown>
+}
+
+type SettingChangeListener = (key: string, value: ExtensionSettingValue) => void
+
+const cache = new Map<string, ExtensionDataFile>()
+const settingListeners = new Map<string, Set<SettingChangeListener>>()
+
+/** Ids can't contain '.', so this never clashes with an extension folder. */
+function getDataPath(extensionId: string): string {
+  return `${getExtensionDir(extensionId)}.data.json`
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+function readData(extensionId: string): ExtensionDataFile {
+  const cached = cache.get(extensionId)
+  if (cached) return cached
+  const data: ExtensionDataFile = { settings: {}, secrets: {}, storage: {} }
+  try {
+    const dataPath = getDataPath(extensionId)
+    if (fs.existsSync(dataPath)) {
+      const parsed = JSON.parse(fs.readFileSync(dataPath, 'utf-8')) as unknown
+      if (isRecord(parsed)) {
+        if (isRecord(parsed.settings)) data.settings = parsed.settings as Record<string, ExtensionSettingValue>
+        if (isRecord(parsed.secrets)) data.secrets = parsed.secrets as Record<string, string>
+        if (isRecord(parsed.storage)) data.storage = parsed.storage
+      }
+    }
+  } catch (e) {
+    fileLogger.writeLog('warn', 'main', `[Extensions] Failed to read data for ${extensionId}: ${e instanceof Error ? e.message : String(e)}`, [])
+  }
+  cache.set(extensionId, data)
+  return data
+}
+
+function writeData(extensionId: string, data: ExtensionDataFile): void {
+  const dataPath = getDataPath(extensionId)
+  fs.mkdirSync(path.dirname(dataPath), { recursive: true })
+  fs.writeFileSync(dataPath, JSON.stringify(data, null, 2), 'utf-8')
+  cache.set(extensionId, data)
+}
+
+function decryptSecret(encrypted: string | undefined): string {
+  if (!encrypted) return ''
+  try {
+    return safeStorage.decryptString(Buffer.from(encrypted, 'base64'))
+  } catch {
+    return ''
+  }
+}
+
+function requireKey(key: unknown): string {
+  if (typeof key !== 'string' || !key) throw new Error('Storage key must be a non-empty string')
+  return key
+}
+
+/**
+ * Validate a value for a setting field. Returns the (cleaned up) value, or undefined if it doesn't fit the field type.
+ */
+export function normalizeSettingValue(field: ExtensionSettingField, value: unknown): ExtensionSettingValue | undefined {
+  const optionValues = Array.isArray(field.options) ? field.options.map((o) => o.value) : null
+  switch (field.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+    case 'string':
+    case 'secret':
+      return typeof value === 'string' ? value : undefined
+    case 'select':
+      return typeof value === 'string' && (!optionValues || optionValues.includes(value)) ? value : undefined
+    case 'multi-select':
+      if (!Array.isArray(value)) return undefined
+      return value.filter((v): v is string => typeof v === 'string' && (!optionValues || optionValues.includes(v)))
+    case 'color':
+      return typeof value === 'string' && (value === '' || /^#[0-9a-fA-F]{6}$/.test(value)) ? value : undefined
+    case 'list':
+      if (!Array.isArray(value)) return undefined
+      return value.flatMap((v) => (typeof v === 'string' && v.trim() ? [v.trim()] : []))
+    case 'keybind':
+      if (value === null) return null
+      if (!isRecord(value) || typeof value.key !== 'string' || !value.key) return undefined
+      return { key: value.key, ctrl: value.ctrl === true, shift: value.shift === true, alt: value.alt === true }
+    default:
+      return undefined
+  }
+}
+
+/** True once any setting of this extension was saved (otherwise the renderer may migrate its old localStorage copy). */
+export function hasStoredSettings(extensionId: string): boolean {
+  const data = readData(extensionId)
+  return Object.keys(data.settings).length > 0 || Object.keys(data.secrets).length > 0
+}
+
+/** Keys of the secret settings that have a value (the renderer only learns whether a secret is set). */
+export function getSetSecretKeys(extensionId: string): string[] {
+  return Object.keys(readData(extensionId).secrets)
+}
+
+/**
+ * Current value of each field (saved value or the field default). Secrets are only included, decrypted,
+ * with includeSecrets (for the extension itself).
+ */
+export function getSettingValues(
+  extensionId: string,
+  fields: ExtensionSettingField[],
+  includeSecrets: boolean
+): Record<string, ExtensionSettingValue> {
+  const data = readData(extensionId)
+  const out: Record<string, ExtensionSettingValue> = {}
+  for (const field of fields) {
+    if (field.type === 'secret') {
+      if (includeSecrets) out[field.key] = decryptSecret(data.secrets[field.key])
+      continue
+    }
+    const saved = field.key in data.settings ? normalizeSettingValue(field, data.settings[field.key]) : undefined
+    out[field.key] = saved ?? field.default ?? null
+  }
+  return out
+}
+
+/**
+ * Save setting values (Settings > Extensions). Unknown keys and invalid values fail the whole update.
+ * An empty secret clears it. Extensions listening with context.settings.onDidChange get each changed value.
+ */
+export function setSettingValues(
+  extensionId: string,
+  fields: ExtensionSettingField[],
+  values: Record<string, unknown>
+): { ok: boolean; error?: string } {
+  const updates: Array<{ field: ExtensionSettingField; value: ExtensionSettingValue }> = []
+  for (const [key, raw] of Object.entries(values)) {
+    const field = fields.find((f) => f.key === key)
+    if (!field) return { ok: false, error: `Unknown setting ${key}` }
+    const value = field.type === 'secret' && raw === null ? '' : normalizeSettingValue(field, raw)
+    if (value === undefined) return { ok: false, error: `Invalid value for ${field.label || key}` }
+    updates.push({ field, value })
+  }
+  if (updates.some((u) => u.field.type === 'secret' && u.value !== '') && !safeStorage.isEncryptionAvailable()) {
+    return { ok: false, error: 'Secure storage is not available on this system' }
+  }
+
+  const current = readData(extensionId)
+  const data: ExtensionDataFile = { ...current, settings: { ...current.settings }, secrets: { ...current.secrets } }
+  const changed: Array<[string, ExtensionSettingValue]> = []
+  for (const { field, value } of updates) {
+    if (field.type === 'secret') {
+      const secret = value as string
+      if (decryptSecret(data.secrets[field.key]) === secret) continue
+      if (secret) data.secrets[field.key] = safeStorage.encryptString(secret).toString('base64')
+      else delete data.secrets[field.key]
+    } else {
+      if (JSON.stringify(data.settings[field.key]) === JSON.stringify(value)) continue
+      data.settings[field.key] = value
+    }
+    changed.push([field.key, value])
+  }
+  if (changed.length === 0) return { ok: true }
+  try {
+    writeData(extensionId, data)
+  } catch (e) {
+    return { ok: false, error: `Failed to save settings: ${e instanceof Error ? e.message : String(e)}` }
+  }
+  const listeners = settingListeners.get(extensionId)
+  for (const [key, value] of changed) {
+    listeners?.forEach((listener) => {
+      try {
+        listener(key, value)
+      } catch {
+        // ignore
+      }
+    })
+  }
+  return { ok: true }
+}
+
+/** Called with each setting the user changes. Returns a function that removes the listener. */
+export function onSettingChanged(extensionId: string, listener: SettingChangeListener): () => void {
+  let listeners = settingListeners.get(extensionId)
+  if (!listeners) {
+    listeners = new Set()
+    settingListeners.set(extensionId, listeners)
+  }
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** context.storage.get: a copy of the stored value, or undefined. */
+export function getStorageValue(extensionId: string, key: string): unknown {
+  const value = readData(extensionId).storage[requireKey(key)]
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value))
+}
+
+/** context.storage.set: values must be JSON-serializable; undefined deletes the key. */
+export function setStorageValue(extensionId: string, key: string, value: unknown): void {
+  requireKey(key)
+  if (value === undefined) {
+    deleteStorageValue(extensionId, key)
+    return
+  }
+  const json = JSON.stringify(value)
+  if (json === undefined) throw new Error('Storage values must be JSON-serializable')
+  const current = readData(extensionId)
+  writeData(extensionId, { ...current, storage: { ...current.storage, [key]: JSON.parse(json) } })
+}
+
+export function deleteStorageValue(extensionId: string, key: string): void {
+  const current = readData(extensionId)
+  if (!(requireKey(key) in current.storage)) return
+  const storage = { ...current.storage }
+  delete storage[key]
+  writeData(extensionId, { ...current, storage })
+}
+
+export function getStorageKeys(extensionId: string): string[] {
+  return Object.keys(readData(extensionId).storage)
+}
+
+/** Remove an extension's settings and storage (uninstall). */
+export function deleteExtensionData(extensionId: string): void {
+  cache.delete(extensionId)
+  try {
+    const dataPath = getDataPath(extensionId)
+    if (fs.existsSync(dataPath)) fs.rmSync(dataPath)
+  } catch (e) {
+    fileLogger.writeLog('warn', 'main', `[Extensions] Failed to remove data for ${extensionId}: ${e instanceof Error ? e.message : String(e)}`, [])
+  }
+}
@@ -0,0 +1,434 @@
+import { EventEmitter } from 'node:events'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { app, utilityProcess, type UtilityProcess } from 'electron'
+import type { ChatLine, ChatProvider, ChatSendResult } from '../chatProvider.js'
+import { fileLogger } from '../fileLogger.js'
+import { clearExtensionConfigFor, createExtensionContext, type ChatSourceApi, type ChatSourceConfig, type EmbedPlatformRegistration, type ExtensionContext, type LinkTypeRegistration, type LiveMessageHandlerApi } from './context.js'
+import type { HostToMainMessage, InstalledExtension, MainToHostMessage } from './types.js'
+
+/** Built next to main.js (see vite.config.ts). Loads the bundle with the guarded loader (guardedRequire.ts). */
+const HOST_SCRIPT = path.join(path.dirname(fileURLToPath(import.meta.url)), 'extension-host.js')
+
+/** register(context) must finish within this time. */
+const LOAD_TIMEOUT_MS = 15_000
+/** getConfig / onLiveMessage / setTargets are expected to be quick; a timeout means the host is hung and it is restarted. */
+const CONFIG_TIMEOUT_MS = 5_000
+const LIVE_MESSAGE_TIMEOUT_MS = 5_000
+const PROVIDER_TIMEOUT_MS = 15_000
+/** Network-bound calls (mentions, log search, send) only fail on timeout. */
+const API_TIMEOUT_MS = 30_000
+/** deactivate() gets this long to close sockets/timers before the process is killed. */
+const DEACTIVATE_TIMEOUT_MS = 3_000
+/** Restart a crashed host at most this many times per window, then give up until the next reload. */
+const MAX_RESTARTS = 3
+const RESTART_WINDOW_MS = 60_000
+
+type CallTarget = Extract<MainToHostMessage, { type: 'call' }>['target']
+type PendingCall = { resolve: (value: unknown) => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }
+
+/**
+ * Chat provider living in an extension host. Calls are forwarded to the host; messages/events arrive with their
+ * ChatLine already computed there, so toChatLine / eventToChatLine just look it up.
+ */
+class ExtensionChatProviderProxy extends EventEmitter implements ChatProvider {
+  readonly id: string
+  readonly label: string
+  readonly rendererChannels?: { message: string; event: string }
+  sendMessage?: (target: string, content: string) => Promise<ChatSendResult>
+  refetchHistory?: (targets?: string[]) => Promise<void>
+  getUserCount?: (target: string) => Promise<number | null>
+  private lines = new WeakMap<object, ChatLine | null>()
+
+  constructor(
+    private host: ExtensionHost,
+    info: Extract<HostToMainMessage, { type: 'registerChatProvider' }>
+  ) {
+    super()
+    this.id = info.id
+    this.label = info.label
+    this.rendererChannels = info.rendererChannels
+    if (info.methods.includes('sendMessage')) {
+      this.sendMessage = (target, content) =>
+        this.call('sendMessage', [target, content], API_TIMEOUT_MS) as Promise<ChatSendResult>
+    }
+    if (info.methods.includes('refetchHistory')) {
+      this.refetchHistory = async (targets) => {
+        await this.call('refetchHistory', [targets], API_TIMEOUT_MS)
+      }
+    }
+    if (info.methods.includes('getUserCount')) {
+      this.getUserCount = (target) => this.call('getUserCount', [target], API_TIMEOUT_MS) as Promise<number | null>
+    }
+  }
+
+  private call(method: string, args: unknown[], timeoutMs: number): Promise<unknown> {
+    return this.host.call('chatProvider', this.id, method, args, timeoutMs)
+  }
+
+  async setTargets(targets: string[], opts?: Record<string, unknown>): Promise<void> {
+    await this.call('setTargets', [targets, opts], PROVIDER_TIMEOUT_MS)
+  }
+
+  /** Called by the host for each 'message' / 'event' the provider emitted. */
+  receive(event: 'message' | 'event', payload: unknown, line: unknown): void {
+    if (payload && typeof payload === 'object') this.lines.set(payload, (line as ChatLine | null) ?? null)
+    this.emit(event, payload)
+  }
+
+  toChatLine(msg: unknown): ChatLine | null {
+    return msg && typeof msg === 'object' ? (this.lines.get(msg) ?? null) : null
+  }
+
+  eventToChatLine(evt: unknown): ChatLine | null {
+    return this.toChatLine(evt)
+  }
+}
+
+/**
+ * Runs one extension in its own utility process and mirrors what it registers into the main-process registries
+ * (context.ts) through a regular extension context. A crash only affects that extension: its config is cleared
+ * and the process is restarted (a few times, with backoff).
+ */
+export class ExtensionHost {
+  private child: UtilityProcess | null = null
+  private context: ExtensionContext
+  private pending = new Map<number, PendingCall>()
+  private nextCallId = 1
+  private restartTimes: number[] = []
+  private restartTimer: ReturnType<typeof setTimeout> | null = null
+  private loadTimer: ReturnType<typeof setTimeout> | null = null
+  private stopped = false
+  private providers = new Map<string, ExtensionChatProviderProxy>()
+  /** Api of the live message currently being handled (liveApi messages from the host are applied to it). */
+  private liveApi: LiveMessageHandlerApi | null = null
+  /** Why the extension isn't running (load error, repeated crashes); null while it is (or is starting). */
+  private failure: string | null = null
+  /** Resolves the pending shutdown() once the host answered 'deactivated' (or exited). */
+  private deactivated: (() => void) | null = null
+  /** Stops forwarding setting changes to the host. */
+  private disposeSettingsListener: () => void
+
+  constructor(
+    private ext: InstalledExtension,
+    private onChange: () => void
+  ) {
+    this.context = createExtensionContext(ext.path, ext.id, ext.name)
+    this.disposeSettingsListener = this.context.settings.onDidChange((key, value) => this.post({ type: 'settingChanged', key, value }))
+  }
+
+  get loadError(): string | null {
+    return this.failure
+  }
+
+  start(): void {
+    this.stopped = false
+    this.failure = null
+    const child = utilityProcess.fork(HOST_SCRIPT, [], {
+      serviceName: `Extension: ${this.ext.name || this.ext.id}`,
+      // Node's permission model: the host may read the app (its own script) and the extension's folder, and can't
+      // write files, start processes or workers, or load native addons. Network access is not restricted.
+      execArgv: ['--permission', `--allow-fs-read=${app.getAppPath()}`, `--allow-fs-read=${this.ext.path}`],
+    })
+    this.child = child
+    child.on('message', (msg: HostToMainMessage) => {
+      if (this.child === child) this.handleMessage(msg)
+    })
+    child.on('exit', (code) => this.handleExit(child, code))
+    this.loadTimer = setTimeout(() => {
+      this.log('error', `[Extensions] ${this.ext.id} register() timed out`)
+      this.kill()
+    }, LOAD_TIMEOUT_MS)
+    this.post({ type: 'load', entryPath: path.join(this.ext.path, 'bundle.js'), extensionPath: this.ext.path, extensionId: this.ext.id, extensionName: this.ext.name })
+  }
+
+  /**
+   * Graceful stop (disable, reload, uninstall): call the extension's deactivate(), then end the process.
+   * Registered config is not cleared here.
+   */
+  async shutdown(): Promise<void> {
+    this.stopped = true
+    this.disposeSettingsListener()
+    if (this.restartTimer) clearTimeout(this.restartTimer)
+    this.restartTimer = null
+    if (!this.child) return
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+        this.deactivated = null
+        resolve()
+      }
+      const timer = setTimeout(done, DEACTIVATE_TIMEOUT_MS)
+      this.deactivated = done
+      this.post({ type: 'deactivate' })
+    })
+    this.kill()
+  }
+
+  /** Stop the process right away (quit). Registered config is not cleared here. */
+  stop(): void {
+    this.stopped = true
+    this.disposeSettingsListener()
+    if (this.restartTimer) clearTimeout(this.restartTimer)
+    this.restartTimer = null
+    this.kill()
+  }
+
+  call(target: CallTarget, id: string, method: string, args: unknown[], timeoutMs: number, restartOnTimeout = false): Promise<unknown> {
+    const child = this.child
+    if (!child) return Promise.reject(new Error(`Extension ${this.ext.id} is not running`))
+    const callId = this.nextCallId++
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(callId)
+        this.log('warn', `[Extensions] ${this.ext.id} ${target} ${id}.${method} timed out`)
+        reject(new Error(`${method} timed out`))
+        if (restartOnTimeout && this.child === child) this.kill()
+      }, timeoutMs)
+      this.pending.set(callId, { resolve, reject, timer })
+      this.post({ type: 'call', callId, target, id, method, args })
+    })
+  }
+
+  private post(msg: MainToHostMessage): void {
+    try {
+      this.child?.postMessage(msg)
+    } catch (e) {
+      this.log('warn', `[Extensions] ${this.ext.id} post failed: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  private kill(): void {
+    if (this.loadTimer) clearTimeout(this.loadTimer)
+    this.loadTimer = null
+    try {
+      this.child?.kill()
+    } catch {
+      // ignore
+    }
+  }
+
+  private log(level: 'info' | 'warn' | 'error' | 'debug', message: string, args: unknown[] = []): void {
+    try {
+      fileLogger.writeLog(level, 'main', message, args)
+    } catch {
+      // ignore
+    }
+  }
+
+  private handleMessage(msg: HostToMainMessage): void {
+    if (!msg || typeof msg !== 'object') return
+    // While stopping, only answers, logs and storage (deactivate() may save state) matter; late registrations must not come back
+    if (this.stopped && msg.type !== 'result' && msg.type !== 'log' && msg.type !== 'deactivated' && msg.type !== 'request') return
+    switch (msg.type) {
+      case 'deactivated':
+        this.deactivated?.()
+        break
+      case 'ready':
+        if (this.loadTimer) clearTimeout(this.loadTimer)
+        this.loadTimer = null
+        this.log('info', `[Extensions] Loaded ${this.ext.id}`)
+        this.onChange()
+        break
+      case 'loadError':
+        // Broken bundle: restarting won't help
+        this.failure = msg.error.split('\n')[0] || 'Failed to load'
+        console.error(`[Extensions] Failed to load ${this.ext.id}:`, msg.error)
+        this.log('error', `[Extensions] Failed to load ${this.ext.id}: ${msg.error.split('\n')[0]}`, [msg.error])
+        clearExtensionConfigFor(this.ext.id)
+        this.stop()
+        this.onChange()
+        break
+      case 'log':
+        this.context.log(msg.level, msg.message, ...(Array.isArray(msg.args) ? msg.args : []))
+        break
+      case 'registerChatSource':
+        void this.registerChatSource(msg.id, msg.hasLiveHandler)
+        break
+      case 'registerChatSourceApi':
+        this.registerChatSourceApi(msg.id, msg.methods)
+        break
+      case 'setRendererConfig':
+        this.context.setRendererConfig(msg.partial)
+        this.onChange()
+        break
+      case 'registerSettings':
+        this.context.registerSettings(msg.sections)
+        this.onChange()
+        break
+      case 'registerChatProvider': {
+        const proxy = new ExtensionChatProviderProxy(this, msg)
+        if (this.context.registerChatProvider(proxy)) {
+          this.providers.set(msg.id, proxy)
+          this.onChange()
+        }
+        break
+      }
+      case 'registerEmbedPlatform':
+        this.post({ type: 'response', requestId: msg.requestId, ok: true, value: this.registerEmbedPlatform(msg.platform, msg.hasLiveCheck) })
+        break
+      case 'registerLinkType':
+        this.post({ type: 'response', requestId: msg.requestId, ok: true, value: this.registerLinkType(msg.linkType, msg.hasFetchEmbed) })
+        break
+      case 'providerEmit':
+        this.providers.get(msg.id)?.receive(msg.event, msg.payload, msg.line)
+        break
+      case 'liveApi':
+        if (msg.method === 'sendToRenderer') {
+          const [channel, ...args] = msg.args
+          if (typeof channel === 'string') this.liveApi?.sendToRenderer(channel, ...args)
+        } else if (msg.method === 'setLiveEmbeds') {
+          const [keys, byKey] = msg.args as [string[], Record<string, { displayName?: string }> | undefined]
+          this.liveApi?.setLiveEmbeds(Array.isArray(keys) ? keys : [], byKey)
+        }
+        break
+      case 'result': {
+        const call = this.pending.get(msg.callId)
+        if (!call) return
+        clearTimeout(call.timer)
+        this.pending.delete(msg.callId)
+        if (msg.ok) call.resolve(msg.value)
+        else call.reject(new Error(msg.error || 'Extension call failed'))
+        break
+      }
+      case 'request':
+        void this.handleRequest(msg)
+        break
+    }
+  }
+
+  /** context.storage / context.settings from the host, answered through this extension's own context. */
+  private async handleRequest(msg: Extract<HostToMainMessage, { type: 'request' }>): Promise<void> {
+    const [key, value] = Array.isArray(msg.args) ? msg.args : []
+    try {
+      let result: unknown
+      switch (msg.method) {
+        case 'storage.get':
+          result = await this.context.storage.get(key as string)
+          break
+        case 'storage.set':
+          await this.context.storage.set(key as string, value)
+          break
+        case 'storage.delete':
+          await this.context.storage.delete(key as string)
+          break
+        case 'storage.keys':
+          result = await this.context.storage.keys()
+          break
+        case 'settings.get':
+          result = await this.context.settings.get(key as string)
+          break
+        case 'settings.getAll':
+          result = await this.context.settings.getAll()
+          break
+        default:
+          throw new Error(`Unknown request ${String(msg.method)}`)
+      }
+      this.post({ type: 'response', requestId: msg.requestId, ok: true, value: result })
+    } catch (e) {
+      this.post({ type: 'response', requestId: msg.requestId, ok: false, error: e instanceof Error ? e.message : String(e) })
+    }
+  }
+
+  /** getConfig is synchronous for main; fetch it once from the host and serve the cached copy. */
+  private async registerChatSource(id: string, hasLiveHandler: boolean): Promise<void> {
+    let config: ChatSourceConfig
+    try {
+      config = (await this.call('chatSource', id, 'getConfig', [], CONFIG_TIMEOUT_MS, true)) as ChatSourceConfig
+    } catch (e) {
+      this.log('warn', `[Extensions] ${this.ext.id} getConfig(${id}) failed: ${e instanceof Error ? e.message : String(e)}`)
+      return
+    }
+    this.context.registerChatSource(id, {
+      getConfig: () => config,
+      onLiveMessage: hasLiveHandler
+        ? async (message, api) => {
+            this.liveApi = api
+            await this.call('chatSource', id, 'onLiveMessage', [message], LIVE_MESSAGE_TIMEOUT_MS, true)
+          }
+        : undefined,
+    })
+    this.onChange()
+  }
+
+  private registerChatSourceApi(id: string, methods: string[]): void {
+    const api: ChatSourceApi = {}
+    if (methods.includes('fetchMentions')) {
+      api.fetchMentions = (username, size, offset) =>
+        this.call('chatSourceApi', id, 'fetchMentions', [username, size, offset], API_TIMEOUT_MS) as ReturnType<NonNullable<ChatSourceApi['fetchMentions']>>
+    }
+    if (methods.includes('fetchRustlesearch')) {
+      api.fetchRustlesearch = (filterTerms, searchAfter, size) =>
+        this.call('chatSourceApi', id, 'fetchRustlesearch', [filterTerms, searchAfter, size], API_TIMEOUT_MS) as ReturnType<
+          NonNullable<ChatSourceApi['fetchRustlesearch']>
+        >
+    }
+    this.context.registerChatSourceApi(id, api)
+  }
+
+  /** Register a platform from the host through this extension's context; false when it was rejected. */
+  private registerEmbedPlatform(platform: Record<string, unknown>, hasLiveCheck: boolean): boolean {
+    const info = platform as unknown as EmbedPlatformRegistration
+    const id = String(info.id ?? '').toLowerCase()
+    const registered = this.context.registerEmbedPlatform({
+      ...info,
+      // The host keys platforms by lowercased id as well
+      isLive: hasLiveCheck ? async (channelId) => (await this.call('embedPlatform', id, 'isLive', [channelId], API_TIMEOUT_MS)) === true : undefined,
+    })
+    if (registered) this.onChange()
+    else this.log('warn', `[Extensions] ${this.ext.id} embed platform ${id || '(no id)'} rejected`)
+    return registered
+  }
+
+  /** Register a link type from the host through this extension's context; false when it was rejected. */
+  private registerLinkType(linkType: Record<string, unknown>, hasFetchEmbed: boolean): boolean {
+    const info = linkType as unknown as LinkTypeRegistration
+    const key = String(info.name ?? '').trim().toLowerCase()
+    const registered = this.context.registerLinkType({
+      ...info,
+      fetchEmbed: hasFetchEmbed
+        ? (url) => this.call('linkType', key, 'fetchEmbed', [url], API_TIMEOUT_MS) as ReturnType<NonNullable<LinkTypeRegistration['fetchEmbed']>>
+        : undefined,
+    })
+    if (registered) this.onChange()
+    else this.log('warn', `[Extensions] ${this.ext.id} link type ${key || '(no name)'} rejected`)
+    return registered
+  }
+
+  private handleExit(child: UtilityProcess, code: number): void {
+    if (this.child !== child) return
+    this.child = null
+    if (this.loadTimer) clearTimeout(this.loadTimer)
+    this.loadTimer = null
+    for (const call of this.pending.values()) {
+      clearTimeout(call.timer)
+      call.reject(new Error(`Extension ${this.ext.id} exited`))
+    }
+    this.pending.clear()
+    this.providers.clear()
+    this.liveApi = null
+    this.deactivated?.()
+    if (this.stopped) return
+
+    this.log('error', `[Extensions] ${this.ext.id} host exited`, [code])
+    clearExtensionConfigFor(this.ext.id)
+    this.onChange()
+
+    const now = Date.now()
+    this.restartTimes = this.restartTimes.filter((t) => now - t < RESTART_WINDOW_MS)
+    if (this.restartTimes.length >= MAX_RESTARTS) {
+      this.log('error', `[Extensions] ${this.ext.id} crashed ${MAX_RESTARTS} times in a row; not restarting until extensions are reloaded`)
+      this.failure = `Crashed ${MAX_RESTARTS} times in a row`
+      this.onChange()
+      return
+    }
+    this.restartTimes.push(now)
+    const delayMs = 1000 * this.restartTimes.length
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null
+      if (this.stopped) return
+      this.log('info', `[Extensions] Restarting ${this.ext.id}`)
+      this.start()
+    }, delayMs)
+  }
+}
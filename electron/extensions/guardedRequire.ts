@@ -0,0 +1,121 @@
+import fs from 'node:fs'
+import { createRequire, isBuiltin } from 'node:module'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import vm from 'node:vm'
+
+/**
+ * Module loader for extension bundles in the extension host (host.ts). Works like require(), with limits:
+ * - `fs` / `fs/promises` only accept paths inside the extension folder;
+ * - built-ins that start processes or load code outside the loader (child_process, worker_threads, vm, …) are blocked;
+ * - files are only loaded from the extension folder (including its node_modules), and native addons are refused.
+ * The host process itself runs under Node's permission model (see ExtensionHost.start), which enforces the file,
+ * process and addon limits for everything, including `process.binding` / `process.dlopen`. This loader gives
+ * extensions a clear error early and also keeps them off the app's own files, which the process may read.
+ */
+
+/** Built-ins an extension can't require. */
+const BLOCKED_MODULES = new Set(['child_process', 'cluster', 'worker_threads', 'vm', 'module', 'inspector', 'repl', 'v8', 'wasi', 'trace_events'])
+/** fs methods whose second argument is a path as well. */
+const TWO_PATH_FS_METHODS = new Set(['copyFile', 'copyFileSync', 'cp', 'cpSync', 'rename', 'renameSync', 'link', 'linkSync', 'symlink', 'symlinkSync'])
+
+type LoadedModule = { exports: unknown }
+
+export interface GuardedLoader {
+  /** Load (and evaluate) a file of the extension; later calls with the same path return the cached exports. */
+  load(filename: string): unknown
+  /** Forget every module loaded so far, so loading again re-evaluates the code. */
+  clear(): void
+}
+
+function isInside(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
+
+function checkPath(extensionPath: string, value: unknown): void {
+  let target: string | null = null
+  if (typeof value === 'string') target = value
+  else if (Buffer.isBuffer(value)) target = value.toString('utf-8')
+  else if (value instanceof URL) target = value.protocol === 'file:' ? fileURLToPath(value) : null
+  // File descriptors, options objects, callbacks
+  if (target == null) return
+  if (!isInside(extensionPath, path.resolve(extensionPath, target))) {
+    throw new Error(`Extensions can only access files in their own folder (${target})`)
+  }
+}
+
+/** `fs` (or `fs.promises`, whose methods reject instead of throwing) limited to paths inside the extension folder. */
+function guardFs<T extends object>(fsModule: T, extensionPath: string, promises = false): T {
+  const wrapped = new Map<PropertyKey, unknown>()
+  return new Proxy(fsModule, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver)
+      if (prop === 'promises' && value && typeof value === 'object') {
+        if (!wrapped.has(prop)) wrapped.set(prop, guardFs(value, extensionPath, true))
+        return wrapped.get(prop)
+      }
+      // Leave constants and classes (ReadStream, Dirent, …) as they are
+      if (typeof value !== 'function' || typeof prop !== 'string' || /^[A-Z]/.test(prop)) return value
+      if (!wrapped.has(prop)) {
+        const fn = value as (...args: unknown[]) => unknown
+        wrapped.set(prop, (...args: unknown[]) => {
+          try {
+            checkPath(extensionPath, args[0])
+            if (TWO_PATH_FS_METHODS.has(prop)) checkPath(extensionPath, args[1])
+          } catch (e) {
+            if (promises) return Promise.reject(e)
+            throw e
+          }
+          return fn.apply(target, args)
+        })
+      }
+      return wrapped.get(prop)
+    },
+  })
+}
+
+export function createGuardedLoader(extensionPath: string): GuardedLoader {
+  const root = path.resolve(extensionPath)
+  const cache = new Map<string, LoadedModule>()
+  const guardedFsModule = guardFs(fs, root)
+  const guardedFsPromises = guardFs(fs.promises, root, true)
+
+  function requireBuiltin(id: string): unknown {
+    const name = id.replace(/^node:/, '').split('/')[0]
+    if (BLOCKED_MODULES.has(name)) throw new Error(`Extensions can't use the "${id}" module`)
+    if (name === 'fs') return id.endsWith('/promises') ? guardedFsPromises : guardedFsModule
+    return createRequire(path.join(root, 'bundle.js'))(id)
+  }
+
+  function load(filename: string): unknown {
+    const resolved = path.resolve(filename)
+    if (!isInside(root, resolved)) throw new Error(`Extensions can only load files from their own folder (${filename})`)
+    const cached = cache.get(resolved)
+    if (cached) return cached.exports
+    if (resolved.endsWith('.node')) throw new Error(`Extensions can't load native addons (${filename})`)
+    const mod: LoadedModule = { exports: {} }
+    cache.set(resolved, mod)
+    try {
+      const source = fs.readFileSync(resolved, 'utf-8')
+      if (resolved.endsWith('.json')) {
+        mod.exports = JSON.parse(source)
+        return mod.exports
+      }
+      const resolveFrom = createRequire(resolved)
+      const moduleRequire = (id: string): unknown => (isBuiltin(id) ? requireBuiltin(id) : load(resolveFrom.resolve(id)))
+      moduleRequire.resolve = (id: string) => resolveFrom.resolve(id)
+      const fn = vm.compileFunction(source.replace(/^#!.*/, ''), ['exports', 'require', 'module', '__filename', '__dirname'], { filename: resolved })
+      fn.call(mod.exports, mod.exports, moduleRequire, mod, resolved, path.dirname(resolved))
+      return mod.exports
+    } catch (e) {
+      cache.delete(resolved)
+      throw e
+    }
+  }
+
+  return {
+    load,
+    clear: () => cache.clear(),
+  }
+}
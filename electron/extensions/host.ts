@@ -0,0 +1,270 @@
+import type { ChatProvider } from '../chatProvider.js'
+import type {
+  ChatSourceApi,
+  ChatSourceRegistration,
+  EmbedPlatformRegistration,
+  ExtensionSettingsApi,
+  ExtensionStorageApi,
+  LinkTypeRegistration,
+  LiveMessageHandlerApi,
+  RendererConfigOverlay,
+} from './context.js'
+import { createGuardedLoader, type GuardedLoader } from './guardedRequire.js'
+import type { ExtensionDataMethod, ExtensionSettingsSection, ExtensionSettingValue, HostToMainMessage, MainToHostMessage } from './types.js'
+
+/**
+ * Extension host: runs one extension's bundle in an Electron utility process (see ExtensionHost in extensionHost.ts).
+ * Provides the same context API as the in-process one; every call is forwarded to main over parentPort.
+ * The bundle is loaded with the guarded loader (guardedRequire.ts), not plain require().
+ */
+
+const chatSources = new Map<string, Omit<ChatSourceRegistration, 'id'>>()
+const chatSourceApis = new Map<string, ChatSourceApi>()
+const chatProviders = new Map<string, ChatProvider>()
+const embedPlatforms = new Map<string, EmbedPlatformRegistration>()
+const linkTypes = new Map<string, LinkTypeRegistration>()
+const settingListeners = new Set<(key: string, value: ExtensionSettingValue) => void>()
+/** context.storage / context.settings calls waiting for main's response. */
+const pendingRequests = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>()
+let nextRequestId = 1
+/** The loaded bundle's exports (activate/register, deactivate). */
+let extensionModule: { activate?: unknown; register?: unknown; deactivate?: unknown } | null = null
+/** Loader of the extension's modules; cleared on deactivate so loading again re-evaluates the code. */
+let loader: GuardedLoader | null = null
+
+function post(message: HostToMainMessage): void {
+  try {
+    process.parentPort.postMessage(message)
+  } catch {
+    // Payload not cloneable (functions, class instances): send a JSON copy instead
+    try {
+      process.parentPort.postMessage(JSON.parse(JSON.stringify(message)))
+    } catch {
+      // ignore
+    }
+  }
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e)
+}
+
+const liveApi: LiveMessageHandlerApi = {
+  sendToRenderer(channel: string, ...args: unknown[]) {
+    post({ type: 'liveApi', method: 'sendToRenderer', args: [channel, ...args] })
+  },
+  setLiveEmbeds(keys, byKey) {
+    const byKeyObj = byKey instanceof Map ? Object.fromEntries(byKey) : byKey
+    post({ type: 'liveApi', method: 'setLiveEmbeds', args: [Array.from(keys), byKeyObj] })
+  },
+}
+
+/** Post a registration main validates, resolving with main's answer (true when registered). */
+function register(message: (requestId: number) => HostToMainMessage): Promise<boolean> {
+  const requestId = nextRequestId++
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(requestId, { resolve: (value) => resolve(value === true), reject })
+    post(message(requestId))
+  })
+}
+
+function request(method: ExtensionDataMethod, args: unknown[]): Promise<unknown> {
+  const requestId = nextRequestId++
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(requestId, { resolve, reject })
+    post({ type: 'request', requestId, method, args })
+  })
+}
+
+const storage: ExtensionStorageApi = {
+  get: (key) => request('storage.get', [key]),
+  set: async (key, value) => {
+    await request('storage.set', [key, value])
+  },
+  delete: async (key) => {
+    await request('storage.delete', [key])
+  },
+  keys: () => request('storage.keys', []) as Promise<string[]>,
+}
+
+const settings: ExtensionSettingsApi = {
+  get: (key) => request('settings.get', [key]) as Promise<ExtensionSettingValue>,
+  getAll: () => request('settings.getAll', []) as Promise<Record<string, ExtensionSettingValue>>,
+  onDidChange(listener) {
+    settingListeners.add(listener)
+    return () => {
+      settingListeners.delete(listener)
+    }
+  },
+}
+
+function methodsOf(obj: object, names: string[]): string[] {
+  const o = obj as Record<string, unknown>
+  return names.filter((n) => typeof o[n] === 'function')
+}
+
+function createContext(extensionPath: string, extensionId: string) {
+  return {
+    extensionPath,
+    extensionId,
+    log(level: 'info' | 'warn' | 'error' | 'debug', message: string, ...args: unknown[]) {
+      post({ type: 'log', level, message: String(message), args })
+    },
+    storage,
+    settings,
+    registerChatSource(id: string, registration: Omit<ChatSourceRegistration, 'id'>) {
+      if (!id || !registration) return
+      chatSources.set(id, registration)
+      post({ type: 'registerChatSource', id, hasLiveHandler: typeof registration.onLiveMessage === 'function' })
+    },
+    registerChatSourceApi(chatSourceId: string, api: ChatSourceApi) {
+      if (!chatSourceId || !api) return
+      chatSourceApis.set(chatSourceId, api)
+      post({ type: 'registerChatSourceApi', id: chatSourceId, methods: methodsOf(api, ['fetchMentions', 'fetchRustlesearch']) })
+    },
+    setRendererConfig(partial: RendererConfigOverlay) {
+      post({ type: 'setRendererConfig', partial })
+    },
+    registerSettings(sections: ExtensionSettingsSection[]) {
+      post({ type: 'registerSettings', sections })
+    },
+    /** Out of process the id check happens in main; false here only means the provider is obviously invalid. */
+    registerChatProvider(provider: ChatProvider) {
+      if (!provider || typeof provider.id !== 'string' || typeof provider.on !== 'function') return false
+      chatProviders.get(provider.id)?.removeAllListeners?.()
+      chatProviders.set(provider.id, provider)
+      provider.on('message', (msg) => {
+        let line: unknown = null
+        try {
+          line = provider.toChatLine(msg)
+        } catch {
+          // ignore
+        }
+        post({ type: 'providerEmit', id: provider.id, event: 'message', payload: msg, line })
+      })
+      provider.on('event', (evt) => {
+        let line: unknown = null
+        try {
+          line = provider.eventToChatLine?.(evt) ?? null
+        } catch {
+          // ignore
+        }
+        post({ type: 'providerEmit', id: provider.id, event: 'event', payload: evt, line })
+      })
+      post({
+        type: 'registerChatProvider',
+        id: provider.id,
+        label: provider.label,
+        rendererChannels: provider.rendererChannels,
+        methods: methodsOf(provider, ['sendMessage', 'refetchHistory', 'getUserCount']),
+      })
+      return true
+    },
+    /** Validation (id, templates, patterns, id taken) happens in main; resolves false when main rejected the platform. */
+    async registerEmbedPlatform(platform: EmbedPlatformRegistration): Promise<boolean> {
+      if (!platform || typeof platform.id !== 'string' || !platform.id) return false
+      const { isLive, ...info } = platform
+      const key = platform.id.toLowerCase()
+      embedPlatforms.set(key, platform)
+      const registered = await register((requestId) => ({ type: 'registerEmbedPlatform', requestId, platform: { ...info }, hasLiveCheck: typeof isLive === 'function' }))
+      if (!registered && embedPlatforms.get(key) === platform) embedPlatforms.delete(key)
+      return registered
+    },
+    /** Validation (name, template, patterns, name taken) happens in main; resolves false when main rejected the link type. */
+    async registerLinkType(linkType: LinkTypeRegistration): Promise<boolean> {
+      if (!linkType || typeof linkType.name !== 'string' || !linkType.name.trim()) return false
+      const { fetchEmbed, ...info } = linkType
+      const key = linkType.name.trim().toLowerCase()
+      linkTypes.set(key, linkType)
+      const registered = await register((requestId) => ({ type: 'registerLinkType', requestId, linkType: { ...info }, hasFetchEmbed: typeof fetchEmbed === 'function' }))
+      if (!registered && linkTypes.get(key) === linkType) linkTypes.delete(key)
+      return registered
+    },
+  }
+}
+
+function resolveCallTarget(target: string, id: string): Record<string, unknown> | undefined {
+  if (target === 'chatSource') return chatSources.get(id) as Record<string, unknown> | undefined
+  if (target === 'chatSourceApi') return chatSourceApis.get(id) as Record<string, unknown> | undefined
+  if (target === 'chatProvider') return chatProviders.get(id) as unknown as Record<string, unknown> | undefined
+  if (target === 'embedPlatform') return embedPlatforms.get(id) as unknown as Record<string, unknown> | undefined
+  if (target === 'linkType') return linkTypes.get(id) as unknown as Record<string, unknown> | undefined
+  return undefined
+}
+
+async function handleCall(msg: Extract<MainToHostMessage, { type: 'call' }>): Promise<void> {
+  try {
+    const obj = resolveCallTarget(msg.target, msg.id)
+    const fn = obj?.[msg.method]
+    if (typeof fn !== 'function') throw new Error(`No ${msg.target} ${msg.id}.${msg.method}`)
+    // onLiveMessage gets the forwarding api as its second argument
+    const args = msg.target === 'chatSource' && msg.method === 'onLiveMessage' ? [msg.args[0], liveApi] : msg.args
+    const value = await fn.apply(obj, args)
+    post({ type: 'result', callId: msg.callId, ok: true, value })
+  } catch (e) {
+    post({ type: 'result', callId: msg.callId, ok: false, error: errorMessage(e) })
+  }
+}
+
+async function load(msg: Extract<MainToHostMessage, { type: 'load' }>): Promise<void> {
+  try {
+    loader?.clear()
+    loader = createGuardedLoader(msg.extensionPath)
+    extensionModule = loader.load(msg.entryPath) as typeof extensionModule
+    // activate(context) is the lifecycle name; register(context) is kept for existing extensions
+    const activate = extensionModule?.activate ?? extensionModule?.register
+    if (typeof activate === 'function') {
+      await activate(createContext(msg.extensionPath, msg.extensionId))
+    }
+    post({ type: 'ready' })
+  } catch (err) {
+    post({ type: 'loadError', error: err instanceof Error ? `${err.message}\n${err.stack ?? ''}` : String(err) })
+  }
+}
+
+/** Let the extension close its sockets/timers, then drop everything it registered. */
+async function deactivate(): Promise<void> {
+  try {
+    if (typeof extensionModule?.deactivate === 'function') await extensionModule.deactivate()
+  } catch (err) {
+    post({ type: 'log', level: 'warn', message: `deactivate() failed: ${errorMessage(err)}`, args: [] })
+  }
+  chatProviders.forEach((provider) => provider.removeAllListeners?.())
+  chatProviders.clear()
+  chatSources.clear()
+  chatSourceApis.clear()
+  embedPlatforms.clear()
+  linkTypes.clear()
+  settingListeners.clear()
+  loader?.clear()
+  loader = null
+  extensionModule = null
+  post({ type: 'deactivated' })
+}
+
+process.parentPort.on('message', (e) => {
+  const msg = e.data as MainToHostMessage
+  if (!msg || typeof msg !== 'object') return
+  if (msg.type === 'load') void load(msg)
+  else if (msg.type === 'deactivate') void deactivate()
+  else if (msg.type === 'call') void handleCall(msg)
+  else if (msg.type === 'response') {
+    const pending = pendingRequests.get(msg.requestId)
+    if (!pending) return
+    pendingRequests.delete(msg.requestId)
+    if (msg.ok) pending.resolve(msg.value)
+    else pending.reject(new Error(msg.error || 'Request failed'))
+  } else if (msg.type === 'settingChanged') {
+    settingListeners.forEach((listener) => {
+      try {
+        listener(msg.key, msg.value)
+      } catch (err) {
+        post({ type: 'log', level: 'warn', message: `settings.onDidChange listener failed: ${errorMessage(err)}`, args: [] })
+      }
+    })
+  }
+})
+
+process.on('unhandledRejection', (reason) => {
+  post({ type: 'log', level: 'error', message: `Unhandled rejection: ${errorMessage(reason)}`, args: [] })
+})
@@ -0,0 +1,102 @@
+import crypto from 'node:crypto'
+
+/**
+ * Bundle integrity checks for extension installs: manifest `sha256` (required) and optional Ed25519
+ * `signature` + `publicKey`. The signature covers the bundle and renderer hashes and the capabilities (see
+ * `manifestSignaturePayload`), so none of them can be swapped without the publisher key. The publisher key is
+ * pinned on first install (trust on first use).
+ */
+
+/** Descriptions shown in the install prompt for known capability strings. Unknown ones are shown as-is. */
+const CAPABILITY_DESCRIPTIONS: Record<string, string> = {
+  chat: 'Connect to a chat service and show its messages in combined chat',
+  'chat-source': 'Connect to a chat service and show its messages in combined chat',
+  'chat-provider': 'Add a chat platform to combined chat (read and send messages)',
+  embeds: 'Add embed types to Omni Screen and Link Scroller',
+  emotes: 'Load emotes from remote URLs',
+  flairs: 'Load user flairs from remote URLs',
+  connections: 'Add a login entry to Connections and read its cookies',
+  cookies: 'Read cookies for its chat service domains',
+  live: 'Connect to a live feed WebSocket and update live embeds',
+  mentions: 'Search mentions and chat logs on your behalf',
+  network: 'Make network requests from the app',
+  settings: 'Add settings to the Extensions tab',
+}
+
+export function sha256Hex(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+/** True when the manifest's sha256 (hex, case-insensitive) matches the downloaded bundle. */
+export function verifyBundleChecksum(bundle: Buffer, expected: string): boolean {
+  const want = String(expected || '').trim().toLowerCase()
+  if (!/^[0-9a-f]{64}$/.test(want)) return false
+  const got = sha256Hex(bundle)
+  return crypto.timingSafeEqual(Buffer.from(got, 'hex'), Buffer.from(want, 'hex'))
+}
+
+function parsePublicKey(publicKey: string): crypto.KeyObject {
+  const key = publicKey.trim()
+  if (key.startsWith('-----BEGIN')) return crypto.createPublicKey(key)
+  // Base64 DER (SPKI)
+  return crypto.createPublicKey({ key: Buffer.from(key, 'base64'), format: 'der', type: 'spki' })
+}
+
+/** Short, stable id of a public key (SHA-256 of its SPKI DER), e.g. "3f2a:91c0:…". */
+export function publicKeyFingerprint(publicKey: string): string {
+  const der = parsePublicKey(publicKey).export({ format: 'der', type: 'spki' })
+  const hex = sha256Hex(der).slice(0, 32)
+  return hex.match(/.{4}/g)!.join(':')
+}
+
+/** Manifest fields covered by the publisher signature. */
+export interface SignedManifestFields {
+  id: string
+  version: string
+  sha256: string
+  rendererSha256?: string
+  capabilities?: unknown
+}
+
+/**
+ * The bytes a publisher signs: JSON of `{ id, version, sha256, rendererSha256, capabilities }` in that key order,
+ * hashes lowercased, `rendererSha256` null when there is no renderer, capabilities as `normalizeCapabilities` returns them.
+ */
+export function manifestSignaturePayload(manifest: SignedManifestFields): Buffer {
+  const payload = {
+    id: manifest.id,
+    version: manifest.version,
+    sha256: String(manifest.sha256).trim().toLowerCase(),
+    rendererSha256: manifest.rendererSha256 ? String(manifest.rendererSha256).trim().toLowerCase() : null,
+    capabilities: normalizeCapabilities(manifest.capabilities),
+  }
+  return Buffer.from(JSON.stringify(payload), 'utf-8')
+}
+
+/**
+ * Verify an Ed25519 signature (base64) over the manifest's signature payload (see `manifestSignaturePayload`).
+ * Returns the key fingerprint on success; throws with a readable message otherwise.
+ */
+export function verifyManifestSignature(manifest: SignedManifestFields, signature: string, publicKey: string): string {
+  let key: crypto.KeyObject
+  try {
+    key = parsePublicKey(publicKey)
+  } catch {
+    throw new Error('Invalid publisher public key')
+  }
+  if (key.asymmetricKeyType !== 'ed25519') throw new Error('Publisher public key must be Ed25519')
+  const ok = crypto.verify(null, manifestSignaturePayload(manifest), key, Buffer.from(String(signature).trim(), 'base64'))
+  if (!ok) throw new Error('Manifest signature does not match the publisher key')
+  return publicKeyFingerprint(publicKey)
+}
+
+export function describeCapability(capability: string): string {
+  return CAPABILITY_DESCRIPTIONS[capability.trim().toLowerCase()] ?? capability
+}
+
+/** Capability strings from a manifest: trimmed, non-empty, de-duplicated. */
+export function normalizeCapabilities(capabilities: unknown): string[] {
+  if (!Array.isArray(capabilities)) return []
+  const out = capabilities.filter((c): c is string => typeof c === 'string').map((c) => c.trim()).filter(Boolean)
+  return Array.from(new Set(out))
+}
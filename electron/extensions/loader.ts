@@ -1,58 +1,141 @@
-import { createRequire } from 'node:module'
+import fs from 'node:fs'
 import path from 'node:path'
-import { readExtensionsList } from './storage.js'
-import { clearExtensionConfig, createExtensionContext } from './context.js'
+import { readExtensionsList, RENDERER_SCRIPT_FILE } from './storage.js'
+import { clearExtensionConfig, clearExtensionConfigFor, getChatSourceIdsFor } from './context.js'
+import { ExtensionHost } from './extensionHost.js'
 import type { InstalledExtension } from './types.js'
-import { fileLogger } from '../fileLogger.js'
-
-const require = createRequire(import.meta.url)
 
 /** In-memory registry of loaded extensions (metadata + any registered config). */
 let loadedExtensions: InstalledExtension[] = []
+/** One utility process per enabled extension. */
+const hosts = new Map<string, ExtensionHost>()
+const changeListeners = new Set<() => void>()
+const deactivatingListeners = new Set<(extensionId: string, chatSourceIds: string[]) => void>()
+let changeTimer: ReturnType<typeof setTimeout> | null = null
+
+/** Registrations arrive asynchronously from the hosts; coalesce bursts into one notification. */
+function notifyExtensionsChanged(): void {
+  if (changeTimer) clearTimeout(changeTimer)
+  changeTimer = setTimeout(() => {
+    changeTimer = null
+    changeListeners.forEach((listener) => listener())
+  }, 200)
+}
+
+/** Keep loadedExtensions in installed-list order. */
+function refreshLoadedExtensions(list: InstalledExtension[] = readExtensionsList()): void {
+  loadedExtensions = list.filter((e) => hosts.has(e.id))
+}
+
+function startHost(ext: InstalledExtension): void {
+  const host = new ExtensionHost(ext, notifyExtensionsChanged)
+  hosts.set(ext.id, host)
+  host.start()
+}
 
 /**
- * Load all enabled extensions from disk and run their entry bundles. Call at app startup.
+ * Load all enabled extensions from disk and start their entry bundles, each in its own extension host process.
+ * Call at app startup (after app ready). What they register shows up asynchronously; see onExtensionsChanged.
  */
 export function loadExtensions(): InstalledExtension[] {
+  stopExtensions()
   clearExtensionConfig()
   const list = readExtensionsList()
-  loadedExtensions = list.filter((e) => e.enabled)
-
-  for (const ext of loadedExtensions) {
-    const entryPath = path.join(ext.path, 'bundle.js')
-    try {
-      const mod = require(entryPath)
-      const context = createExtensionContext(ext.path, ext.id, ext.name)
-      if (typeof mod.register === 'function') {
-        mod.register(context)
-      }
-      try {
-        fileLogger.writeLog('info', 'main', `[Extensions] Loaded ${ext.id}`, [])
-      } catch {
-        // ignore
-      }
-    } catch (e) {
-      const errMsg = e instanceof Error ? e.message : String(e)
-      const errStack = e instanceof Error ? e.stack : undefined
-      console.error(`[Extensions] Failed to load ${ext.id}:`, e)
-      try {
-        fileLogger.writeLog('error', 'main', `[Extensions] Failed to load ${ext.id}: ${errMsg}`, errStack ? [errStack] : [])
-      } catch {
-        // ignore
-      }
-    }
+  for (const ext of list) {
+    if (ext.enabled) startHost(ext)
   }
-
+  refreshLoadedExtensions(list)
   return loadedExtensions
 }
 
 /**
- * Reload extensions from disk (e.g. after install or menu "Reload extensions").
+ * Reload extensions from disk (e.g. menu "Reload extensions"): deactivate all of them, then load again.
  */
-export function reloadExtensions(): InstalledExtension[] {
+export async function reloadExtensions(): Promise<InstalledExtension[]> {
+  await Promise.all(Array.from(hosts.keys(), (id) => deactivateExtension(id)))
   return loadExtensions()
 }
 
+/**
+ * Start one installed, enabled extension (live enable). No-op when it is already running.
+ * Returns false if it isn't installed or is disabled.
+ */
+export function activateExtension(extensionId: string): boolean {
+  if (hosts.has(extensionId)) return true
+  const list = readExtensionsList()
+  const ext = list.find((e) => e.id === extensionId)
+  if (!ext || !ext.enabled) return false
+  startHost(ext)
+  refreshLoadedExtensions(list)
+  notifyExtensionsChanged()
+  return true
+}
+
+/**
+ * Stop one extension (live disable, uninstall, update): listeners tear down what main opened for its chat sources
+ * (chat/live WebSockets), its registrations are removed, then its deactivate() runs and the process ends.
+ */
+export async function deactivateExtension(extensionId: string): Promise<void> {
+  const host = hosts.get(extensionId)
+  if (!host) return
+  hosts.delete(extensionId)
+  const chatSourceIds = getChatSourceIdsFor(extensionId)
+  deactivatingListeners.forEach((listener) => listener(extensionId, chatSourceIds))
+  clearExtensionConfigFor(extensionId)
+  await host.shutdown()
+  refreshLoadedExtensions()
+  notifyExtensionsChanged()
+}
+
+/** Deactivate and start one extension again with fresh code (after install, update or rollback). */
+export async function reloadExtension(extensionId: string): Promise<boolean> {
+  await deactivateExtension(extensionId)
+  return activateExtension(extensionId)
+}
+
+/** Stop all extension host processes right away (quit). */
+export function stopExtensions(): void {
+  hosts.forEach((host) => host.stop())
+  hosts.clear()
+}
+
+/** Called whenever a running extension registers config or its host crashes/restarts. */
+export function onExtensionsChanged(listener: () => void): void {
+  changeListeners.add(listener)
+}
+
+/** Called before an extension is deactivated, with the chat source ids it registered. */
+export function onExtensionDeactivating(listener: (extensionId: string, chatSourceIds: string[]) => void): void {
+  deactivatingListeners.add(listener)
+}
+
+/** Extensions that failed to load or crashed repeatedly, with the reason (for rollback in the UI). */
+export function getExtensionLoadErrors(): Record<string, string> {
+  const out: Record<string, string> = {}
+  hosts.forEach((host, id) => {
+    if (host.loadError) out[id] = host.loadError
+  })
+  return out
+}
+
+/** Running extensions that ship a renderer.js (UI contributions, run by the renderer in sandboxed iframes). */
+export function getRendererExtensions(): Array<{ id: string; name: string }> {
+  return loadedExtensions
+    .filter((e) => !hosts.get(e.id)?.loadError && fs.existsSync(path.join(e.path, RENDERER_SCRIPT_FILE)))
+    .map((e) => ({ id: e.id, name: e.name }))
+}
+
+/** Source of a running extension's renderer.js, or null. */
+export function readRendererScript(extensionId: string): string | null {
+  const ext = loadedExtensions.find((e) => e.id === extensionId)
+  if (!ext || hosts.get(ext.id)?.loadError) return null
+  try {
+    return fs.readFileSync(path.join(ext.path, RENDERER_SCRIPT_FILE), 'utf-8')
+  } catch {
+    return null
+  }
+}
+
 /**
  * Get currently loaded extensions (metadata only).
  */
@@ -0,0 +1,100 @@
+import { fileLogger } from '../fileLogger.js'
+import { fetchJson, readExtensionsList } from './storage.js'
+import type { ExtensionRegistryEntry, ExtensionRegistryIndex } from './types.js'
+import { compareVersions } from './updates.js'
+
+/**
+ * Extension registry: an index JSON listing extension manifests (registry URL in App Settings), browsed and
+ * installed from the Extensions menu. Indexes are cached for a while so the installed/update state can be
+ * recomputed after every install or uninstall without fetching the index again.
+ */
+
+/** A registry entry and how it relates to the installed extension with the same id. */
+export interface ExtensionRegistryListing extends ExtensionRegistryEntry {
+  state: 'available' | 'installed' | 'update'
+  installedVersion?: string
+}
+
+const CACHE_TTL_MS = 10 * 60 * 1000
+const cache = new Map<string, { index: ExtensionRegistryIndex; fetchedAt: number }>()
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+/** Absolute http(s) URL, resolving relative URLs against the index URL; undefined when unusable. */
+function resolveUrl(value: unknown, base: string): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined
+  try {
+    const url = new URL(value.trim(), base)
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function stringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v) : undefined
+}
+
+/**
+ * Validate a fetched index. Entries without an id, version or usable updateUrl are skipped (and logged);
+ * for duplicate ids the first entry wins.
+ */
+export function parseRegistryIndex(raw: unknown, indexUrl: string): ExtensionRegistryIndex {
+  if (!isRecord(raw) || !Array.isArray(raw.extensions)) {
+    throw new Error('Registry index must be an object with an extensions array')
+  }
+  const extensions: ExtensionRegistryEntry[] = []
+  for (const item of raw.extensions) {
+    const entry = isRecord(item) ? item : {}
+    const updateUrl = resolveUrl(entry.updateUrl, indexUrl)
+    if (typeof entry.id !== 'string' || !entry.id || typeof entry.version !== 'string' || !entry.version || !updateUrl) {
+      fileLogger.writeLog('warn', 'main', `[Extensions] Skipping invalid registry entry in ${indexUrl}: ${JSON.stringify(entry.id ?? null)}`, [])
+      continue
+    }
+    const id = entry.id
+    if (extensions.some((e) => e.id === id)) continue
+    extensions.push({
+      id,
+      name: typeof entry.name === 'string' && entry.name ? entry.name : id,
+      version: entry.version,
+      updateUrl,
+      description: typeof entry.description === 'string' ? entry.description : undefined,
+      tags: stringList(entry.tags),
+      icon: resolveUrl(entry.icon, indexUrl),
+      capabilities: stringList(entry.capabilities),
+    })
+  }
+  return { name: typeof raw.name === 'string' && raw.name ? raw.name : undefined, extensions }
+}
+
+/** Fetch a registry index (cached for 10 minutes unless refresh is set). Throws with a readable message on failure. */
+export async function fetchRegistryIndex(indexUrl: string, refresh = false): Promise<ExtensionRegistryIndex> {
+  let url: URL
+  try {
+    url = new URL(indexUrl)
+  } catch {
+    throw new Error('Invalid registry URL')
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('Registry URL must use http or https')
+  const cached = cache.get(url.href)
+  if (cached && !refresh && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.index
+  const index = parseRegistryIndex(await fetchJson<unknown>(url.href), url.href)
+  cache.set(url.href, { index, fetchedAt: Date.now() })
+  return index
+}
+
+/** Registry entries with their state against extensions.json: not installed, installed, or a newer version listed. */
+export function getRegistryListings(index: ExtensionRegistryIndex): ExtensionRegistryListing[] {
+  const installed = readExtensionsList()
+  return index.extensions.map((entry) => {
+    const ext = installed.find((e) => e.id === entry.id)
+    if (!ext) return { ...entry, state: 'available' }
+    return {
+      ...entry,
+      state: compareVersions(entry.version, ext.version) > 0 ? 'update' : 'installed',
+      installedVersion: ext.version,
+    }
+  })
+}
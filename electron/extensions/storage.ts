@@ -3,10 +3,13 @@ import path from 'node:path'
 import fs from 'node:fs'
 import https from 'node:https'
 import http from 'node:http'
-import type { ExtensionManifest, InstalledExtension } from './types.js'
+import type { ExtensionInstallPrompt, ExtensionManifest, InstalledExtension } from './types.js'
+import { describeCapability, normalizeCapabilities, sha256Hex, verifyBundleChecksum, verifyManifestSignature } from './integrity.js'
 
 const EXTENSIONS_DIR_NAME = 'extensions'
 const EXTENSIONS_LIST_FILE = 'extensions.json'
+/** Optional renderer script in an extension folder (see loader getRendererExtensions). */
+export const RENDERER_SCRIPT_FILE = 'renderer.js'
 
 function getExtensionsDir(): string {
   const userData = app.getPath('userData')
@@ -24,48 +27,73 @@ function ensureExtensionsDir(): void {
   }
 }
 
-function fetchJson<T>(url: string): Promise<T> {
+/** Redirects followed per request (manifests, bundles, registry indexes). */
+const MAX_REDIRECTS = 5
+
+/**
+ * GET a URL over http(s), following up to MAX_REDIRECTS redirects (relative Locations resolve against the current
+ * URL). Rejects on non-2xx responses with the status code, and on timeout.
+ */
+function fetchRaw(url: string, headers: Record<string, string>, timeoutMs: number, redirectsLeft = MAX_REDIRECTS): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const parsed = new URL(url)
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      reject(new Error(`Unsupported URL protocol: ${parsed.protocol}`))
+      return
+    }
     const client = parsed.protocol === 'https:' ? https : http
-    const req = client.get(url, { headers: { 'Accept': 'application/json' } }, (res) => {
-      if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
-        fetchJson<T>(res.headers.location).then(resolve).catch(reject)
-        return
-      }
-      let data = ''
-      res.on('data', (chunk) => { data += chunk })
-      res.on('end', () => {
+    const req = client.get(parsed, { headers }, (res) => {
+      const status = res.statusCode ?? 0
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume()
+        if (redirectsLeft <= 0) {
+          reject(new Error('Too many redirects'))
+          return
+        }
+        let next: string
         try {
-          resolve(JSON.parse(data) as T)
-        } catch (e) {
-          reject(new Error('Invalid JSON'))
+          next = new URL(res.headers.location, parsed).href
+        } catch {
+          reject(new Error(`Invalid redirect location: ${res.headers.location}`))
+          return
         }
-      })
-    })
-    req.on('error', reject)
-    req.setTimeout(15000, () => { req.destroy(); reject(new Error('Timeout')) })
-  })
-}
-
-function fetchBuffer(url: string): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const parsed = new URL(url)
-    const client = parsed.protocol === 'https:' ? https : http
-    const req = client.get(url, (res) => {
-      if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
-        fetchBuffer(res.headers.location).then(resolve).catch(reject)
+        fetchRaw(next, headers, timeoutMs, redirectsLeft - 1).then(resolve, reject)
+        return
+      }
+      if (status < 200 || status >= 300) {
+        res.resume()
+        reject(new Error(`HTTP ${status}`))
         return
       }
       const chunks: Buffer[] = []
       res.on('data', (chunk: Buffer) => chunks.push(chunk))
       res.on('end', () => resolve(Buffer.concat(chunks)))
+      res.on('error', reject)
     })
     req.on('error', reject)
-    req.setTimeout(30000, () => { req.destroy(); reject(new Error('Timeout')) })
+    req.setTimeout(timeoutMs, () => { req.destroy(); reject(new Error('Timeout')) })
   })
 }
 
+/** GET a JSON document over http(s), following redirects (manifests, registry indexes). */
+export async function fetchJson<T>(url: string): Promise<T> {
+  const data = await fetchRaw(url, { 'Accept': 'application/json' }, 15000)
+  try {
+    return JSON.parse(data.toString('utf-8')) as T
+  } catch {
+    throw new Error('Invalid JSON')
+  }
+}
+
+function fetchBuffer(url: string): Promise<Buffer> {
+  return fetchRaw(url, {}, 30000)
+}
+
+/** Fetch an extension manifest (install and update checks). */
+export function fetchManifest(manifestUrl: string): Promise<ExtensionManifest> {
+  return fetchJson<ExtensionManifest>(manifestUrl)
+}
+
 /**
  * Read the list of installed extensions from disk.
  */
@@ -101,37 +129,133 @@ export function getExtensionDir(extensionId: string): string {
   return path.join(base, safeId)
 }
 
+/** Folder holding the bundle replaced by the last update (ids can't contain '.', so this never clashes). */
+function getPreviousExtensionDir(extensionId: string): string {
+  return `${getExtensionDir(extensionId)}.previous`
+}
+
+export interface InstallOptions {
+  /**
+   * Ask the user to accept the extension (capabilities, publisher). Called after the bundle passed its checks and
+   * before anything is written, for new installs and when an update declares capabilities not accepted before.
+   * Resolve false to cancel. When omitted, installs proceed without a prompt.
+   */
+  confirm?: (prompt: ExtensionInstallPrompt) => Promise<boolean>
+}
+
 /**
  * Install an extension from a manifest URL (e.g. from omnichat://install?url=...).
- * Fetches the manifest, downloads the entry bundle, and adds to the installed list.
+ * Fetches the manifest, downloads the entry bundle, verifies its sha256 (and the manifest signature when present),
+ * asks for confirmation, then writes it and adds it to the installed list.
  */
-export async function installFromManifestUrl(manifestUrl: string): Promise<{ ok: boolean; id?: string; error?: string }> {
+export async function installFromManifestUrl(manifestUrl: string, options?: InstallOptions): Promise<{ ok: boolean; id?: string; error?: string; cancelled?: boolean }> {
   ensureExtensionsDir()
   let manifest: ExtensionManifest
   try {
-    manifest = await fetchJson<ExtensionManifest>(manifestUrl)
+    manifest = await fetchManifest(manifestUrl)
   } catch (e) {
     return { ok: false, error: `Failed to fetch manifest: ${e instanceof Error ? e.message : String(e)}` }
   }
   if (!manifest.id || !manifest.entry || !manifest.version || !manifest.updateUrl) {
     return { ok: false, error: 'Manifest must include id, entry, version, and updateUrl' }
   }
+  if (!manifest.sha256 || typeof manifest.sha256 !== 'string') {
+    return { ok: false, error: 'Manifest must include the sha256 of the bundle' }
+  }
+  if (!!manifest.signature !== !!manifest.publicKey) {
+    return { ok: false, error: 'Manifest signature and publicKey must be given together' }
+  }
+  if (manifest.renderer && (!manifest.rendererSha256 || typeof manifest.rendererSha256 !== 'string')) {
+    return { ok: false, error: 'Manifest must include the rendererSha256 of the renderer script' }
+  }
+
+  let buffer: Buffer
+  try {
+    buffer = await fetchBuffer(manifest.entry)
+  } catch (e) {
+    return { ok: false, error: `Failed to download extension: ${e instanceof Error ? e.message : String(e)}` }
+  }
+  if (!verifyBundleChecksum(buffer, manifest.sha256)) {
+    return { ok: false, error: 'Bundle checksum does not match the manifest sha256' }
+  }
+  let rendererBuffer: Buffer | null = null
+  if (manifest.renderer && manifest.rendererSha256) {
+    try {
+      rendererBuffer = await fetchBuffer(manifest.renderer)
+    } catch (e) {
+      return { ok: false, error: `Failed to download renderer script: ${e instanceof Error ? e.message : String(e)}` }
+    }
+    if (!verifyBundleChecksum(rendererBuffer, manifest.rendererSha256)) {
+      return { ok: false, error: 'Renderer script checksum does not match the manifest rendererSha256' }
+    }
+  }
+
+  const list = readExtensionsList()
+  const existing = list.find((e) => e.id === manifest.id)
+  let publisherFingerprint: string | undefined
+  if (manifest.signature && manifest.publicKey) {
+    try {
+      publisherFingerprint = verifyManifestSignature(
+        { id: manifest.id, version: manifest.version, sha256: manifest.sha256, rendererSha256: manifest.rendererSha256, capabilities: manifest.capabilities },
+        manifest.signature,
+        manifest.publicKey
+      )
+    } catch (e) {
+      return { ok: false, error: e instanceof Error ? e.message : String(e) }
+    }
+  }
+  if (existing?.publisherFingerprint && existing.publisherFingerprint !== publisherFingerprint) {
+    return {
+      ok: false,
+      error: publisherFingerprint
+        ? `Manifest is signed by a different publisher key (${publisherFingerprint}, installed: ${existing.publisherFingerprint})`
+        : 'Manifest is not signed, but the installed version was signed by its publisher',
+    }
+  }
+
+  const capabilities = normalizeCapabilities(manifest.capabilities)
+  const accepted = new Set(existing?.capabilities ?? [])
+  const newCapabilities = existing ? capabilities.filter((c) => !accepted.has(c)) : capabilities
+  if (options?.confirm && (!existing || newCapabilities.length > 0)) {
+    const confirmed = await options.confirm({
+      id: manifest.id,
+      name: manifest.name || manifest.id,
+      version: manifest.version,
+      manifestUrl,
+      installedVersion: existing?.version,
+      capabilities: capabilities.map((c) => ({ id: c, description: describeCapability(c) })),
+      newCapabilities,
+      publisherFingerprint,
+      publisherKeyPinned: !!publisherFingerprint && existing?.publisherFingerprint === publisherFingerprint,
+    })
+    if (!confirmed) return { ok: false, cancelled: true, error: 'Installation cancelled' }
+  }
+
   const extDir = getExtensionDir(manifest.id)
-  if (fs.existsSync(extDir)) {
+  const prevDir = getPreviousExtensionDir(manifest.id)
+  // Keep the installed bundle for rollback
+  const keepPrevious = !!existing && fs.existsSync(extDir)
+  if (keepPrevious) {
+    try {
+      if (fs.existsSync(prevDir)) fs.rmSync(prevDir, { recursive: true })
+      fs.renameSync(extDir, prevDir)
+    } catch (e) {
+      return { ok: false, error: `Failed to keep previous version: ${e instanceof Error ? e.message : String(e)}` }
+    }
+  } else if (fs.existsSync(extDir)) {
     fs.rmSync(extDir, { recursive: true })
   }
   fs.mkdirSync(extDir, { recursive: true })
   try {
-    const buffer = await fetchBuffer(manifest.entry)
     const entryBasename = path.basename(new URL(manifest.entry).pathname)
     const entryPath = path.join(extDir, entryBasename)
     fs.writeFileSync(entryPath, buffer)
+    if (rendererBuffer) fs.writeFileSync(path.join(extDir, RENDERER_SCRIPT_FILE), rendererBuffer)
   } catch (e) {
     if (fs.existsSync(extDir)) fs.rmSync(extDir, { recursive: true })
-    return { ok: false, error: `Failed to download extension: ${e instanceof Error ? e.message : String(e)}` }
+    if (keepPrevious) fs.renameSync(prevDir, extDir)
+    return { ok: false, error: `Failed to write extension: ${e instanceof Error ? e.message : String(e)}` }
   }
-  const list = readExtensionsList()
-  const existing = list.find((e) => e.id === manifest.id)
   const installed: InstalledExtension = {
     id: manifest.id,
     name: manifest.name,
@@ -143,6 +267,17 @@ export async function installFromManifestUrl(manifestUrl: string): Promise<{ ok:
     description: manifest.description,
     tags: Array.isArray(manifest.tags) ? manifest.tags : undefined,
     icon: typeof manifest.icon === 'string' ? manifest.icon : undefined,
+    capabilities,
+    sha256: sha256Hex(buffer),
+    publisherFingerprint,
+    autoUpdate: existing?.autoUpdate,
+    latestVersion: existing?.latestVersion,
+    lastUpdateCheckAt: existing?.lastUpdateCheckAt,
+    skippedVersion: existing?.skippedVersion === manifest.version ? existing.skippedVersion : undefined,
+    previous:
+      keepPrevious && existing
+        ? { version: existing.version, sha256: existing.sha256, capabilities: existing.capabilities, installedAt: existing.installedAt }
+        : existing?.previous,
   }
   const newList = list.filter((e) => e.id !== manifest.id).concat(installed)
   writeExtensionsList(newList)
@@ -161,6 +296,47 @@ export function setExtensionEnabled(extensionId: string, enabled: boolean): bool
   return true
 }
 
+/** Turn automatic updates on/off for an installed extension. Returns true if found and updated. */
+export function setExtensionAutoUpdate(extensionId: string, autoUpdate: boolean): boolean {
+  const list = readExtensionsList()
+  const idx = list.findIndex((e) => e.id === extensionId)
+  if (idx < 0) return false
+  list[idx] = { ...list[idx], autoUpdate }
+  writeExtensionsList(list)
+  return true
+}
+
+/**
+ * Restore the bundle replaced by the last install/update. The rolled-back version is skipped by auto-update
+ * until a newer one is published.
+ */
+export function rollbackExtension(extensionId: string): { ok: boolean; version?: string; error?: string } {
+  const list = readExtensionsList()
+  const idx = list.findIndex((e) => e.id === extensionId)
+  if (idx < 0) return { ok: false, error: 'Extension not found' }
+  const ext = list[idx]
+  const prevDir = getPreviousExtensionDir(extensionId)
+  if (!ext.previous || !fs.existsSync(prevDir)) return { ok: false, error: 'No previous version to roll back to' }
+  const extDir = getExtensionDir(extensionId)
+  try {
+    if (fs.existsSync(extDir)) fs.rmSync(extDir, { recursive: true })
+    fs.renameSync(prevDir, extDir)
+  } catch (e) {
+    return { ok: false, error: `Failed to restore previous version: ${e instanceof Error ? e.message : String(e)}` }
+  }
+  list[idx] = {
+    ...ext,
+    version: ext.previous.version,
+    sha256: ext.previous.sha256,
+    capabilities: ext.previous.capabilities,
+    installedAt: ext.previous.installedAt,
+    skippedVersion: ext.version,
+    previous: undefined,
+  }
+  writeExtensionsList(list)
+  return { ok: true, version: ext.previous.version }
+}
+
 /**
  * Uninstall an extension: remove its folder and remove from the installed list.
  * Returns { ok: true } on success, { ok: false, error } on failure.
@@ -172,6 +348,8 @@ export function uninstallExtension(extensionId: string): { ok: boolean; error?:
   const extDir = getExtensionDir(extensionId)
   try {
     if (fs.existsSync(extDir)) fs.rmSync(extDir, { recursive: true })
+    const prevDir = getPreviousExtensionDir(extensionId)
+    if (fs.existsSync(prevDir)) fs.rmSync(prevDir, { recursive: true })
   } catch (e) {
     return { ok: false, error: `Failed to remove extension folder: ${e instanceof Error ? e.message : String(e)}` }
   }
@@ -19,8 +19,21 @@ export interface ExtensionManifest {
   tags?: string[]
   /** Optional: URL of icon image (shown in community list and installed list). */
   icon?: string
-  /** Optional: capabilities this extension provides (chat, embeds, emotes, flairs, etc.). */
+  /** Optional: capabilities this extension provides (chat, embeds, emotes, flairs, etc.). Shown to the user at install. */
   capabilities?: string[]
+  /** SHA-256 (hex) of the bundle at `entry`. Required; the bundle is rejected when it doesn't match. */
+  sha256?: string
+  /**
+   * Optional: Ed25519 signature (base64) over `sha256`, `rendererSha256` and `capabilities` (with `id` and `version`),
+   * verified with `publicKey`. See `manifestSignaturePayload` in integrity.ts.
+   */
+  signature?: string
+  /** Optional: publisher Ed25519 public key (PEM or base64 SPKI DER). Pinned on first install. */
+  publicKey?: string
+  /** Optional: URL of the renderer script (UI contributions), saved as renderer.js next to the bundle. */
+  renderer?: string
+  /** SHA-256 (hex) of the renderer script. Required when `renderer` is set. */
+  rendererSha256?: string
 }
 
 /**
@@ -43,11 +56,67 @@ export interface InstalledExtension {
   tags?: string[]
   /** From manifest: URL of icon image. */
   icon?: string
+  /** From manifest: capabilities the user accepted at install. */
+  capabilities?: string[]
+  /** SHA-256 (hex) of the installed bundle. */
+  sha256?: string
+  /** Fingerprint of the publisher key the bundle was signed with; later installs must use the same key. */
+  publisherFingerprint?: string
+  /** Install newer versions automatically when the periodic update check finds one. */
+  autoUpdate?: boolean
+  /** Version in the manifest at updateUrl as of the last update check. */
+  latestVersion?: string
+  /** When updateUrl was last checked (ISO string). */
+  lastUpdateCheckAt?: string
+  /** Version rolled back from; auto-update skips it. */
+  skippedVersion?: string
+  /** Bundle replaced by the last install/update, kept on disk for rollback. */
+  previous?: { version: string; sha256?: string; capabilities?: string[]; installedAt: string }
+}
+
+/**
+ * What the user is asked to confirm before an extension bundle is written to disk
+ * (after the checksum and signature checks passed).
+ */
+export interface ExtensionInstallPrompt {
+  id: string
+  name: string
+  version: string
+  manifestUrl: string
+  /** Version currently installed, when this is an update/reinstall. */
+  installedVersion?: string
+  capabilities: Array<{ id: string; description: string }>
+  /** Capabilities not accepted by a previous install (all of them for a new install). */
+  newCapabilities: string[]
+  /** Publisher key fingerprint when the bundle is signed; undefined for unsigned bundles. */
+  publisherFingerprint?: string
+  /**
+   * True when the installed version was signed with the same key. Otherwise the key only comes from the manifest
+   * itself: the signature proves nothing yet, the key is just pinned for later updates.
+   */
+  publisherKeyPinned: boolean
+}
+
+/**
+ * One extension listed in a registry index: the manifest fields shown when browsing.
+ * `updateUrl` is the manifest URL installed from; it and `icon` may be relative to the index URL.
+ */
+export type ExtensionRegistryEntry = Pick<ExtensionManifest, 'id' | 'name' | 'version' | 'updateUrl'> &
+  Pick<ExtensionManifest, 'description' | 'tags' | 'icon' | 'capabilities'>
+
+/**
+ * Registry index JSON (Settings > Extensions registry URL): a list of extension manifests to browse and install.
+ */
+export interface ExtensionRegistryIndex {
+  /** Optional: display name of the registry. */
+  name?: string
+  extensions: ExtensionRegistryEntry[]
 }
 
 /**
  * Result of handling a protocol URL (e.g. install success/failure).
  * For add-streamer, streamer is the new bookmarked streamer object (shape matches renderer BookmarkedStreamer).
+ * For workspace, workspace is the shared workspace (shape matches renderer Workspace).
  */
 export interface ProtocolHandleResult {
   ok: boolean
@@ -56,6 +125,8 @@ export interface ProtocolHandleResult {
   extensionId?: string
   /** Set when operation is add-streamer; renderer should merge into bookmarked streamers. */
   streamer?: Record<string, unknown>
+  /** Set when operation is workspace; renderer saves it to its workspaces. */
+  workspace?: Record<string, unknown>
 }
 
 /**
@@ -66,14 +137,37 @@ export interface ProtocolHandleResult {
  */
 export type ExtensionSettingsPlacement = 'omni_screen' | 'link_scroller' | 'connections'
 
+/**
+ * Setting field types:
+ * - boolean, string, number: toggle, text input, number input.
+ * - select / multi-select: one value / a list of values from options.
+ * - color: '#rrggbb' (or '' for none).
+ * - secret: string stored encrypted (safeStorage); never sent to the renderer, only to the extension.
+ * - list: list of strings.
+ * - keybind: ExtensionKeybind (or null for none).
+ */
+export type ExtensionSettingFieldType = 'boolean' | 'string' | 'number' | 'select' | 'multi-select' | 'color' | 'secret' | 'list' | 'keybind'
+
+/** Same shape as the app's own keybinds (Settings > Keybinds). */
+export interface ExtensionKeybind {
+  key: string
+  ctrl: boolean
+  shift: boolean
+  alt: boolean
+}
+
+export type ExtensionSettingValue = boolean | string | number | string[] | ExtensionKeybind | null
+
 export interface ExtensionSettingField {
   key: string
-  type: 'boolean' | 'string' | 'number'
+  type: ExtensionSettingFieldType
   label: string
-  default: boolean | string | number
+  default: ExtensionSettingValue
   description?: string
-  /** For type 'string', optional placeholder. */
+  /** For type 'string', 'secret' and 'list', optional placeholder. */
   placeholder?: string
+  /** For type 'select' and 'multi-select', the choices. */
+  options?: Array<{ value: string; label: string }>
 }
 
 export interface ExtensionSettingsSection {
@@ -82,3 +176,60 @@ export interface ExtensionSettingsSection {
   placement: ExtensionSettingsPlacement
   fields: ExtensionSettingField[]
 }
+
+/**
+ * Messages between main (ExtensionHost) and an extension's utility process (host.ts).
+ * Extensions run out of process; their context calls are forwarded to main as HostToMainMessage,
+ * and main calls back into registered objects with 'call' (each call has a timeout).
+ */
+export type MainToHostMessage =
+  | { type: 'load'; entryPath: string; extensionPath: string; extensionId: string; extensionName: string }
+  /** Call the extension's deactivate() before the process is stopped. */
+  | { type: 'deactivate' }
+  /** Answer to a 'request' (context.storage / context.settings) or to registerEmbedPlatform / registerLinkType. */
+  | { type: 'response'; requestId: number; ok: boolean; value?: unknown; error?: string }
+  /** The user changed one of the extension's settings (secrets arrive decrypted). */
+  | { type: 'settingChanged'; key: string; value: ExtensionSettingValue }
+  | {
+      type: 'call'
+      callId: number
+      target: 'chatSource' | 'chatSourceApi' | 'chatProvider' | 'embedPlatform' | 'linkType'
+      /** Chat source id, chat provider id, embed platform id or link type name. */
+      id: string
+      method: string
+      args: unknown[]
+    }
+
+export type HostToMainMessage =
+  | { type: 'ready' }
+  | { type: 'deactivated' }
+  | { type: 'loadError'; error: string }
+  | { type: 'log'; level: 'info' | 'warn' | 'error' | 'debug'; message: string; args: unknown[] }
+  | { type: 'registerChatSource'; id: string; hasLiveHandler: boolean }
+  | { type: 'registerChatSourceApi'; id: string; methods: string[] }
+  | { type: 'setRendererConfig'; partial: Record<string, unknown> }
+  | { type: 'registerSettings'; sections: ExtensionSettingsSection[] }
+  | {
+      type: 'registerChatProvider'
+      id: string
+      label: string
+      rendererChannels?: { message: string; event: string }
+      methods: string[]
+    }
+  /**
+   * platform is the registration without isLive; hasLiveCheck says whether isLive can be called. Main answers with a
+   * 'response' whose value is true when the platform was registered.
+   */
+  | { type: 'registerEmbedPlatform'; requestId: number; platform: Record<string, unknown>; hasLiveCheck: boolean }
+  /** linkType is the registration without fetchEmbed. Main answers with a 'response' (true when registered). */
+  | { type: 'registerLinkType'; requestId: number; linkType: Record<string, unknown>; hasFetchEmbed: boolean }
+  /** A provider emitted 'message' or 'event'; line is its toChatLine / eventToChatLine result, computed in the host. */
+  | { type: 'providerEmit'; id: string; event: 'message' | 'event'; payload: unknown; line: unknown }
+  /** onLiveMessage handler called the LiveMessageHandlerApi. */
+  | { type: 'liveApi'; method: 'sendToRenderer' | 'setLiveEmbeds'; args: unknown[] }
+  | { type: 'result'; callId: number; ok: boolean; value?: unknown; error?: string }
+  /** context.storage / context.settings call; main answers with 'response'. */
+  | { type: 'request'; requestId: number; method: ExtensionDataMethod; args: unknown[] }
+
+/** Extension data calls the host forwards to main (see extensionData.ts). */
+export type ExtensionDataMethod = 'storage.get' | 'storage.set' | 'storage.delete' | 'storage.keys' | 'settings.get' | 'settings.getAll'
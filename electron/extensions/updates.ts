@@ -0,0 +1,83 @@
+import { fetchManifest, readExtensionsList, writeExtensionsList } from './storage.js'
+import type { InstalledExtension } from './types.js'
+
+/** Result of checking one installed extension against its manifest updateUrl. */
+export interface ExtensionUpdateInfo {
+  id: string
+  currentVersion: string
+  latestVersion?: string
+  updateAvailable: boolean
+  error?: string
+}
+
+type ParsedVersion = { core: number[]; pre: string[] }
+
+function parseVersion(v: string): ParsedVersion | null {
+  const m = String(v || '')
+    .trim()
+    .replace(/^v/i, '')
+    .match(/^(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/)
+  if (!m) return null
+  return { core: [Number(m[1]), Number(m[2] ?? 0), Number(m[3] ?? 0)], pre: m[4] ? m[4].split('.') : [] }
+}
+
+/**
+ * Compare two semantic versions (build metadata ignored; missing minor/patch count as 0).
+ * Returns <0 when a < b, 0 when equal, >0 when a > b. Unparseable versions compare as strings.
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = parseVersion(a)
+  const pb = parseVersion(b)
+  if (!pa || !pb) return String(a).localeCompare(String(b))
+  for (let i = 0; i < 3; i++) {
+    if (pa.core[i] !== pb.core[i]) return pa.core[i] - pb.core[i]
+  }
+  // A release is newer than any of its pre-releases
+  if (pa.pre.length === 0 || pb.pre.length === 0) return pb.pre.length - pa.pre.length
+  for (let i = 0; i < Math.max(pa.pre.length, pb.pre.length); i++) {
+    const x = pa.pre[i]
+    const y = pb.pre[i]
+    if (x === undefined) return -1
+    if (y === undefined) return 1
+    const xNum = /^\d+$/.test(x)
+    const yNum = /^\d+$/.test(y)
+    if (xNum && yNum && Number(x) !== Number(y)) return Number(x) - Number(y)
+    if (xNum !== yNum) return xNum ? -1 : 1
+    if (x !== y) return x < y ? -1 : 1
+  }
+  return 0
+}
+
+export function isUpdateAvailable(ext: Pick<InstalledExtension, 'version' | 'latestVersion'>): boolean {
+  return !!ext.latestVersion && compareVersions(ext.latestVersion, ext.version) > 0
+}
+
+/**
+ * Fetch the manifest of every installed extension (or only `ids`) and record the latest version and check time
+ * in extensions.json. Nothing is downloaded or installed here.
+ */
+export async function checkExtensionUpdates(ids?: string[]): Promise<ExtensionUpdateInfo[]> {
+  const toCheck = readExtensionsList().filter((e) => !ids || ids.includes(e.id))
+  const results = await Promise.all(
+    toCheck.map(async (ext): Promise<ExtensionUpdateInfo> => {
+      try {
+        const manifest = await fetchManifest(ext.updateUrl)
+        if (!manifest.version) throw new Error('Manifest has no version')
+        return { id: ext.id, currentVersion: ext.version, latestVersion: manifest.version, updateAvailable: compareVersions(manifest.version, ext.version) > 0 }
+      } catch (e) {
+        return { id: ext.id, currentVersion: ext.version, updateAvailable: false, error: e instanceof Error ? e.message : String(e) }
+      }
+    })
+  )
+
+  // Re-read: installs/toggles may have happened while fetching
+  const checkedAt = new Date().toISOString()
+  const byId = new Map(results.map((r) => [r.id, r]))
+  const list = readExtensionsList().map((e) => {
+    const r = byId.get(e.id)
+    if (!r || r.error) return e
+    return { ...e, latestVersion: r.latestVersion, lastUpdateCheckAt: checkedAt }
+  })
+  writeExtensionsList(list)
+  return results
+}
@@ -2,6 +2,7 @@ import WebSocket from 'ws'
 import { EventEmitter } from 'events'
 import { fileLogger } from './fileLogger'
 import { net, session } from 'electron'
+import type { ChatLine, ChatProvider, ChatSendResult } from './chatProvider'
 
 export type KickChatMessage = {
   platform: 'kick'
@@ -24,6 +25,61 @@ export type KickChatMessage = {
   }
 }
 
+/** Kick user reference in moderation/sub payloads (only username is reliably present). */
+export type KickUserRef = { id?: number; username: string; slug?: string }
+
+/**
+ * Non-message Pusher events (emitted as 'event'): deletions, bans/timeouts, subs/gifts, pins, polls, stream start/stop.
+ * `slug` is resolved from the Pusher channel (chatroom_* / chatrooms.* / channel_*); 'unknown' if it can't be mapped.
+ */
+export type KickChatEvent =
+  | { platform: 'kick'; type: 'message_deleted'; slug: string; tsMs: number; messageId: string; aiModerated?: boolean }
+  | { platform: 'kick'; type: 'chat_cleared'; slug: string; tsMs: number }
+  | {
+      platform: 'kick'
+      type: 'user_banned'
+      slug: string
+      tsMs: number
+      user: KickUserRef
+      bannedBy?: KickUserRef
+      /** False for timeouts. */
+      permanent: boolean
+      /** Timeout length in minutes (Kick's unit). */
+      durationMin?: number
+    }
+  | { platform: 'kick'; type: 'user_unbanned'; slug: string; tsMs: number; user: KickUserRef; unbannedBy?: KickUserRef }
+  | { platform: 'kick'; type: 'subscription'; slug: string; tsMs: number; username: string; months?: number }
+  | { platform: 'kick'; type: 'gifted_subscriptions'; slug: string; tsMs: number; gifterUsername: string; giftedUsernames: string[]; gifterTotal?: number }
+  | { platform: 'kick'; type: 'host'; slug: string; tsMs: number; hostUsername: string; viewers?: number; optionalMessage?: string }
+  | { platform: 'kick'; type: 'pinned_message'; slug: string; tsMs: number; message: KickChatMessage; pinnedBy?: KickUserRef; durationSec?: number }
+  | { platform: 'kick'; type: 'pinned_message_deleted'; slug: string; tsMs: number }
+  | {
+      platform: 'kick'
+      type: 'poll_update'
+      slug: string
+      tsMs: number
+      title: string
+      options: Array<{ id: number; label: string; votes: number }>
+      durationSec?: number
+      remainingSec?: number
+    }
+  | { platform: 'kick'; type: 'poll_deleted'; slug: string; tsMs: number }
+  | { platform: 'kick'; type: 'stream_start'; slug: string; tsMs: number; title?: string }
+  | { platform: 'kick'; type: 'stream_stop'; slug: string; tsMs: number }
+
+/** Pusher events seen on the subscribed channels that we intentionally don't forward (not logged as discrepancies). */
+const IGNORED_KICK_EVENTS = new Set([
+  'App\\Events\\ChatroomUpdatedEvent',
+  'App\\Events\\ChannelSubscriptionEvent',
+  'App\\Events\\FollowersUpdated',
+  'App\\Events\\LivestreamUpdated',
+  'App\\Events\\LuckyUsersWhoGotGiftSubscriptionsEvent',
+  'App\\Events\\GiftsLeaderboardUpdated',
+  'App\\Events\\KicksGifted',
+  'App\\Events\\RewardRedeemedEvent',
+  'App\\Events\\ChatMoveToSupportedChannelEvent',
+])
+
 type KickChannelInfo = { channelId?: number; chatroomId: number; /** From API when available (e.g. chatroom viewers/chatters). */ chatUserCount?: number | null }
 
 const PUSHER_URL =
@@ -287,6 +343,155 @@ function normalizeKickMessage(parsed: any, slugHint?: string, chatroomIdHint?: n
   return msg
 }
 
+type KickUserPayload = { id?: number | string; username?: string; slug?: string; name?: string }
+
+/** Fields read from non-message Pusher event payloads (shapes observed on chatroom/channel events). */
+type KickEventPayload = {
+  chatroom_id?: number | string
+  message?: { id?: string | number } & Record<string, unknown>
+  message_id?: string
+  aiModerated?: boolean
+  user?: KickUserPayload
+  banned_by?: KickUserPayload
+  unbanned_by?: KickUserPayload
+  permanent?: boolean
+  duration?: number | string | null
+  username?: string
+  months?: number | string
+  gifted_usernames?: unknown[]
+  gifter_username?: string
+  gifter_total?: number | string
+  host_username?: string
+  number_viewers?: number | string
+  optional_message?: string
+  pinnedBy?: KickUserPayload
+  pinned_by?: KickUserPayload
+  poll?: {
+    title?: string
+    options?: Array<{ id?: number | string; label?: string; votes?: number | string }>
+    duration?: number | string
+    remaining?: number | string
+  }
+  livestream?: { session_title?: string }
+}
+
+function parseKickUserRef(raw: KickUserPayload | null | undefined): KickUserRef | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const username = String(raw.username || raw.slug || raw.name || '').trim()
+  if (!username) return undefined
+  const id = Number(raw.id)
+  return { id: Number.isFinite(id) && id > 0 ? id : undefined, username, slug: typeof raw.slug === 'string' ? raw.slug : undefined }
+}
+
+function optionalNumber(v: unknown): number | undefined {
+  if (v == null || v === '') return undefined
+  const n = Number(v)
+  return Number.isFinite(n) ? n : undefined
+}
+
+/**
+ * Normalize a non-ChatMessageEvent Pusher event. Returns null for events we don't forward and `undefined`
+ * for unrecognized event names (caller logs those as discrepancies).
+ */
+function normalizeKickEvent(ev: string, parsed: KickEventPayload, slug: string, chatroomId: number): KickChatEvent | null | undefined {
+  const base = { platform: 'kick' as const, slug, tsMs: Date.now() }
+  switch (ev) {
+    case 'App\\Events\\MessageDeletedEvent': {
+      const messageId = String(parsed?.message?.id ?? parsed?.message_id ?? '')
+      if (!messageId) return null
+      return { ...base, type: 'message_deleted', messageId, aiModerated: parsed?.aiModerated === true || undefined }
+    }
+    case 'App\\Events\\ChatroomClearEvent':
+      return { ...base, type: 'chat_cleared' }
+    case 'App\\Events\\UserBannedEvent': {
+      const user = parseKickUserRef(parsed?.user)
+      if (!user) return null
+      const permanent = parsed?.permanent === true || parsed?.duration == null
+      return {
+        ...base,
+        type: 'user_banned',
+        user,
+        bannedBy: parseKickUserRef(parsed?.banned_by),
+        permanent,
+        durationMin: permanent ? undefined : optionalNumber(parsed?.duration),
+      }
+    }
+    case 'App\\Events\\UserUnbannedEvent': {
+      const user = parseKickUserRef(parsed?.user)
+      if (!user) return null
+      return { ...base, type: 'user_unbanned', user, unbannedBy: parseKickUserRef(parsed?.unbanned_by) }
+    }
+    case 'App\\Events\\SubscriptionEvent': {
+      const username = String(parsed?.username ?? '').trim()
+      if (!username) return null
+      return { ...base, type: 'subscription', username, months: optionalNumber(parsed?.months) }
+    }
+    case 'App\\Events\\GiftedSubscriptionsEvent': {
+      const giftedUsernames = Array.isArray(parsed?.gifted_usernames) ? parsed.gifted_usernames.map((u) => String(u)) : []
+      return {
+        ...base,
+        type: 'gifted_subscriptions',
+        gifterUsername: String(parsed?.gifter_username || 'Anonymous'),
+        giftedUsernames,
+        gifterTotal: optionalNumber(parsed?.gifter_total),
+      }
+    }
+    case 'App\\Events\\StreamHostEvent': {
+      const hostUsername = String(parsed?.host_username ?? '').trim()
+      if (!hostUsername) return null
+      return {
+        ...base,
+        type: 'host',
+        hostUsername,
+        viewers: optionalNumber(parsed?.number_viewers),
+        optionalMessage: typeof parsed?.optional_message === 'string' && parsed.optional_message.trim() ? parsed.optional_message : undefined,
+      }
+    }
+    case 'App\\Events\\PinnedMessageCreatedEvent': {
+      const message = normalizeKickMessage(parsed?.message, slug, chatroomId || undefined)
+      if (!message) return null
+      return {
+        ...base,
+        type: 'pinned_message',
+        message,
+        pinnedBy: parseKickUserRef(parsed?.pinnedBy ?? parsed?.pinned_by),
+        durationSec: optionalNumber(parsed?.duration),
+      }
+    }
+    case 'App\\Events\\PinnedMessageDeletedEvent':
+      return { ...base, type: 'pinned_message_deleted' }
+    case 'App\\Events\\PollUpdateEvent': {
+      const poll = parsed?.poll
+      if (!poll || typeof poll !== 'object') return null
+      const options = (Array.isArray(poll.options) ? poll.options : []).map((o, i) => ({
+        id: optionalNumber(o?.id) ?? i,
+        label: String(o?.label ?? ''),
+        votes: optionalNumber(o?.votes) ?? 0,
+      }))
+      return {
+        ...base,
+        type: 'poll_update',
+        title: String(poll.title ?? ''),
+        options,
+        durationSec: optionalNumber(poll.duration),
+        remainingSec: optionalNumber(poll.remaining),
+      }
+    }
+    case 'App\\Events\\PollDeleteEvent':
+      return { ...base, type: 'poll_deleted' }
+    case 'App\\Events\\StreamerIsLive':
+      return {
+        ...base,
+        type: 'stream_start',
+        title: typeof parsed?.livestream?.session_title === 'string' ? parsed.livestream.session_title : undefined,
+      }
+    case 'App\\Events\\StopStreamBroadcast':
+      return { ...base, type: 'stream_stop' }
+    default:
+      return IGNORED_KICK_EVENTS.has(ev) ? null : undefined
+  }
+}
+
 function extractChatroomIdFromHtml(html: string): number {
   // Try a few common patterns seen in Kick pages.
   const patterns: RegExp[] = [
@@ -641,7 +846,11 @@ class KickPusherClient extends EventEmitter {
   }
 }
 
-export class KickChatManager extends EventEmitter {
+export class KickChatManager extends EventEmitter implements ChatProvider<KickChatMessage, KickChatEvent> {
+  readonly id = 'kick'
+  readonly label = 'Kick'
+  readonly rendererChannels = { message: 'kick-chat-message', event: 'kick-chat-event' }
+
   private pusher = new KickPusherClient()
 
   private desiredSlugs = new Set<string>()
@@ -649,6 +858,20 @@ export class KickChatManager extends EventEmitter {
   private chatroomToSlug = new Map<number, string>()
   private activeChannels = new Map<string, string[]>() // slug -> channels
   private seenIdsByChatroom = new Map<number, Set<string>>() // dedupe history + live
+  private loggedUnknownEvents = new Set<string>()
+  private recentEventKeys = new Map<string, number>() // event dedupe across chatroom_* / chatrooms.* / channel_*
+
+  /** True if the same event payload for the same slug was already handled in the last few seconds. */
+  private isDuplicateEvent(key: string): boolean {
+    const now = Date.now()
+    for (const [k, at] of this.recentEventKeys) {
+      if (now - at < 10_000) break
+      this.recentEventKeys.delete(k)
+    }
+    if (this.recentEventKeys.has(key)) return true
+    this.recentEventKeys.set(key, now)
+    return false
+  }
 
   private markSeen(chatroomId: number, id: string): boolean {
     if (!chatroomId || !id) return false
@@ -845,7 +1068,7 @@ export class KickChatManager extends EventEmitter {
   }
 
   /** Send a chat message to a Kick channel (uses cached slugToInfo if available). */
-  async sendMessage(slug: string, content: string): Promise<{ success: boolean; error?: string }> {
+  async sendMessage(slug: string, content: string): Promise<ChatSendResult> {
     const s = String(slug || '').trim().toLowerCase()
     const text = String(content || '').trim()
     if (!s || !text) return { success: false, error: 'Missing slug or content' }
@@ -864,24 +1087,79 @@ export class KickChatManager extends EventEmitter {
     }
   }
 
+  getUserCount(slug: string): Promise<number | null> {
+    return getKickChatUserCount(slug)
+  }
+
+  toChatLine(msg: KickChatMessage): ChatLine | null {
+    if (!msg || msg.platform !== 'kick') return null
+    const parsed = Date.parse(msg.createdAt)
+    return {
+      source: 'kick',
+      channel: msg.slug || 'kick',
+      tsMs: Number.isFinite(parsed) ? parsed : Date.now(),
+      nick: msg.sender?.username || msg.sender?.slug || 'kick',
+      content: String(msg.content ?? ''),
+      id: msg.id != null ? String(msg.id) : undefined,
+    }
+  }
+
+  /** Resolve slug + chatroom id for a Pusher channel name (chatrooms.{id}.v2, chatroom_{id}, chatrooms.{id}, channel_{id}). */
+  private resolvePusherChannel(channel: string): { slug: string; chatroomId: number } {
+    const chatroomMatch = /^chatrooms?[._](\d+)/.exec(channel)
+    if (chatroomMatch) {
+      const chatroomId = Number(chatroomMatch[1])
+      return { slug: this.chatroomToSlug.get(chatroomId) || 'unknown', chatroomId }
+    }
+    const channelMatch = /^channel[._](\d+)/.exec(channel)
+    if (channelMatch) {
+      const channelId = Number(channelMatch[1])
+      for (const [slug, info] of this.slugToInfo) {
+        if (info.channelId === channelId) return { slug, chatroomId: info.chatroomId }
+      }
+    }
+    return { slug: 'unknown', chatroomId: 0 }
+  }
+
   private handlePusherEvent(msg: any): void {
     const ev = String(msg?.event || '')
-    if (ev !== 'App\\Events\\ChatMessageEvent') return
-
     const channel = String(msg?.channel || '')
     const dataRaw = msg?.data
     const parsed = safeJsonParse<any>(typeof dataRaw === 'string' ? dataRaw : JSON.stringify(dataRaw ?? {}))
     if (!parsed) {
-      fileLogger.writeWsDiscrepancy('kick', 'chat_message_parse_error', { channel, preview: String(dataRaw || '').slice(0, 2000) })
+      fileLogger.writeWsDiscrepancy('kick', ev === 'App\\Events\\ChatMessageEvent' ? 'chat_message_parse_error' : 'event_parse_error', {
+        event: ev,
+        channel,
+        preview: String(dataRaw || '').slice(0, 2000),
+      })
       return
     }
 
-    const chatroomId = Number(parsed?.chatroom_id ?? parsed?.chatroomId) || 0
-    const slug = this.chatroomToSlug.get(chatroomId) || 'unknown'
-    const kickMsg = normalizeKickMessage(parsed, slug, chatroomId)
-    if (!kickMsg) return
-    if (this.markSeen(chatroomId, kickMsg.id)) return
-    this.emit('message', kickMsg)
+    if (ev === 'App\\Events\\ChatMessageEvent') {
+      const chatroomId = Number(parsed?.chatroom_id ?? parsed?.chatroomId) || 0
+      const slug = this.chatroomToSlug.get(chatroomId) || 'unknown'
+      const kickMsg = normalizeKickMessage(parsed, slug, chatroomId)
+      if (!kickMsg) return
+      if (this.markSeen(chatroomId, kickMsg.id)) return
+      this.emit('message', kickMsg)
+      return
+    }
+
+    const resolved = this.resolvePusherChannel(channel)
+    const chatroomId = Number(parsed?.chatroom_id) || resolved.chatroomId
+    const slug = this.chatroomToSlug.get(chatroomId) || resolved.slug
+    const evt = normalizeKickEvent(ev, parsed, slug, chatroomId)
+    if (evt === undefined) {
+      // Log each unknown event name once per session; the same event repeats on every subscribed channel.
+      if (!this.loggedUnknownEvents.has(ev)) {
+        this.loggedUnknownEvents.add(ev)
+        fileLogger.writeWsDiscrepancy('kick', 'unknown_event', { event: ev, channel, preview: JSON.stringify(parsed).slice(0, 2000) })
+      }
+      return
+    }
+    if (!evt) return
+    if (this.isDuplicateEvent(`${ev}|${slug}|${typeof dataRaw === 'string' ? dataRaw : JSON.stringify(parsed)}`)) return
+    this.emit('event', evt)
   }
 }
 
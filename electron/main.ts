@@ -1,27 +1,54 @@
 import dotenv from 'dotenv'
-import { app, BrowserWindow, dialog, ipcMain, Menu, clipboard, session, BrowserView, shell } from 'electron'
+import { app, BrowserWindow, dialog, ipcMain, Menu, clipboard, session, BrowserView, shell, Notification } from 'electron'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import { createServer } from 'http'
-import { readFileSync, statSync } from 'fs'
+import { mkdirSync, readFileSync, statSync } from 'fs'
 import { update } from './update'
 import { fileLogger } from './fileLogger'
 import { getPlatformUrls } from './envConfig'
-import { getPrimaryChatSource, getRendererConfigOverlay, getExtensionSettingsSchemas, getLiveMessageHandler, getChatSourceApi } from './extensions/context.js'
+import { getChatSource, getChatSources, getPrimaryChatSource, getRendererConfigOverlay, getExtensionSettingsSchemas, getLiveMessageHandler, getChatSourceApi, getEmbedPlatform, getEmbedPlatforms, getLinkType, getLinkTypes, getExtensionSettingFields } from './extensions/context.js'
 import type { LiveMessageHandlerApi } from './extensions/context.js'
 import { ChatWebSocket } from './chatWebSocket'
 import { LiveWebSocket } from './liveWebSocket'
 import { mentionCache } from './mentionCache'
-import { KickChatManager, fetchKickChannelMe, getKickChatUserCount, sendKickMessage } from './kickChatManager'
+import { chatArchive, archiveItemFromPrimary } from './chatArchive'
+import {
+  getChatProvider,
+  getChatProviderInfos,
+  onChatProviderRegistered,
+  registerChatProvider,
+  type ChatLine,
+  type ChatProvider,
+  type ChatSendResult,
+} from './chatProvider'
+import type { ChatArchiveSearchQuery } from './chatArchive'
+import { KickChatManager, fetchKickChannelMe } from './kickChatManager'
 import { YouTubeChatManager } from './youtubeChatManager'
-import { TwitchChatManager } from './twitchChatManager'
-import { getChannelIdByLogin, sendChatMessage as sendTwitchChatMessageGql } from './twitchGqlSend'
+import { TwitchChatManager, fetchTwitchTokenLogin, type TwitchIrcAuth } from './twitchChatManager'
+import { fetchChatBadges, getChannelIdByLogin, sendChatMessage as sendTwitchChatMessageGql } from './twitchGqlSend'
+import { fetchThirdPartyEmotes } from './twitchThirdPartyEmotes'
 import { getYouTubeLiveOrLatest, normalizeYouTubeChannelInput } from './youtubeLiveOrLatest'
 import { checkUrlIsLive } from './urlIsLive'
 import { handleProtocolUrl, parseProtocolUrl, PROTOCOL_SCHEME } from './urlHandler'
-import type { ProtocolHandleResult } from './extensions/types.js'
-import { loadExtensions, reloadExtensions, getLoadedExtensions } from './extensions/loader'
-import { installFromManifestUrl, readExtensionsList, setExtensionEnabled, uninstallExtension } from './extensions/storage'
+import type { ExtensionInstallPrompt, ProtocolHandleResult } from './extensions/types.js'
+import {
+  activateExtension,
+  deactivateExtension,
+  getExtensionLoadErrors,
+  getRendererExtensions,
+  loadExtensions,
+  onExtensionDeactivating,
+  onExtensionsChanged,
+  readRendererScript,
+  reloadExtension,
+  reloadExtensions,
+  stopExtensions,
+} from './extensions/loader'
+import { installFromManifestUrl, readExtensionsList, rollbackExtension, setExtensionAutoUpdate, setExtensionEnabled, uninstallExtension } from './extensions/storage'
+import { checkExtensionUpdates, isUpdateAvailable } from './extensions/updates'
+import { deleteExtensionData, getSetSecretKeys, getSettingValues, hasStoredSettings, setSettingValues } from './extensions/extensionData'
+import { fetchRegistryIndex, getRegistryListings } from './extensions/registry'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -64,39 +91,129 @@ export function getAppConfigForRenderer() {
     if (c?.loginUrl) platformUrlsFromOverlay[id] = c.loginUrl
     else if (c?.baseUrl) platformUrlsFromOverlay[id] = c.baseUrl
   }
+  // Every chat source gets a Connections entry (log in / cookies); extensions that don't provide one get a generic one.
+  const connectionPlatforms = [...(overlay.connectionPlatforms ?? [])]
+  for (const [id, c] of Object.entries(chatSources)) {
+    if (!c?.baseUrl || connectionPlatforms.some((p) => p.id === id)) continue
+    connectionPlatforms.push({
+      id,
+      label: id,
+      loginUrl: c.loginUrl || c.baseUrl,
+      loginService: id,
+      description: `Used for the ${id} chat in combined chat.`,
+      cookieNames: [],
+      snippet: `(function(){var o=document.cookie;console.log('Paste this into Omni Screen:',o);try{copy(JSON.stringify(o))}catch(e){}return o;})()`,
+    })
+  }
   return {
     chatSources,
     platformUrls: platformUrlsFromOverlay,
-    extensions: getLoadedExtensions().map((e) => ({ id: e.id, name: e.name, version: e.version })),
+    // All installed extensions (disabled ones too, so Settings → Extensions can turn them back on)
+    extensions: getInstalledExtensionsForRenderer(),
     extensionSettingsSchemas: getExtensionSettingsSchemas(),
-    connectionPlatforms: overlay.connectionPlatforms ?? [],
+    connectionPlatforms,
+    embedPlatforms: getEmbedPlatforms(),
+    linkTypes: getLinkTypes(),
+    rendererExtensions: getRendererExtensions(),
   }
 }
 
 ipcMain.handle('get-app-config', () => getAppConfigForRenderer())
 
-ipcMain.handle('get-installed-extensions', () => readExtensionsList())
+/** Installed extensions plus update/rollback state for the Extensions UI. */
+function getInstalledExtensionsForRenderer() {
+  const loadErrors = getExtensionLoadErrors()
+  return readExtensionsList().map((e) => ({
+    id: e.id,
+    name: e.name,
+    version: e.version,
+    updateUrl: e.updateUrl,
+    enabled: e.enabled,
+    description: e.description,
+    tags: e.tags,
+    icon: e.icon,
+    capabilities: e.capabilities,
+    publisherFingerprint: e.publisherFingerprint,
+    autoUpdate: e.autoUpdate ?? false,
+    latestVersion: e.latestVersion,
+    updateAvailable: isUpdateAvailable(e),
+    lastUpdateCheckAt: e.lastUpdateCheckAt,
+    previousVersion: e.previous?.version,
+    loadError: loadErrors[e.id],
+  }))
+}
+
+ipcMain.handle('get-installed-extensions', () => getInstalledExtensionsForRenderer())
+
+/**
+ * Install prompt: capabilities the extension declares and its publisher key. A key is only trusted (question style)
+ * once the installed version was signed with it; a new key comes from the manifest itself. Resolves true on Install.
+ */
+async function confirmExtensionInstall(prompt: ExtensionInstallPrompt): Promise<boolean> {
+  const isUpdate = prompt.installedVersion != null
+  const capabilityLines = prompt.capabilities.length
+    ? prompt.capabilities.map((c) => `• ${c.description}${isUpdate && prompt.newCapabilities.includes(c.id) ? ' (new)' : ''}`).join('\n')
+    : '• No capabilities declared'
+  const publisherLine = !prompt.publisherFingerprint
+    ? 'Not signed by its publisher.'
+    : prompt.publisherKeyPinned
+      ? `Signed with publisher key ${prompt.publisherFingerprint}, the same key as the installed version.`
+      : `Unverified publisher key ${prompt.publisherFingerprint} (it comes with the extension). ` +
+        'It will be pinned: updates must be signed with this key.'
+  const options: Electron.MessageBoxOptions = {
+    type: prompt.publisherKeyPinned ? 'question' : 'warning',
+    title: isUpdate ? 'Update Extension' : 'Install Extension',
+    message: isUpdate
+      ? `Update "${prompt.name}" from v${prompt.installedVersion} to v${prompt.version}?`
+      : `Install "${prompt.name}" v${prompt.version}?`,
+    detail:
+      `From: ${prompt.manifestUrl}\n${publisherLine}\n\nThis extension wants to:\n${capabilityLines}\n\n` +
+      "The extension runs in a separate Node.js process that can only read its own folder and can't write files or start programs, " +
+      'but has full network access. Its UI runs in a sandboxed frame. Only install extensions you trust.',
+    buttons: ['Cancel', isUpdate ? 'Update' : 'Install'],
+    defaultId: 0,
+    cancelId: 0,
+  }
+  const parent = win && !win.isDestroyed() ? win : null
+  const { response } = parent ? await dialog.showMessageBox(parent, options) : await dialog.showMessageBox(options)
+  fileLogger.writeLog('info', 'main', '[Extensions] install_prompt', [prompt.id, prompt.version, response === 1 ? 'accepted' : 'cancelled'])
+  return response === 1
+}
 
 ipcMain.handle('extension-install-from-url', async (_event, manifestUrl: string) => {
   if (!manifestUrl || typeof manifestUrl !== 'string') {
     return { ok: false, error: 'Missing or invalid manifest URL' }
   }
-  const result = await installFromManifestUrl(manifestUrl.trim())
-  if (result.ok) {
-    reloadExtensions()
-    if (win && !win.isDestroyed()) win.webContents.send('extensions-reloaded')
+  const result = await installFromManifestUrl(manifestUrl.trim(), { confirm: confirmExtensionInstall })
+  if (result.ok && result.id) {
+    await reloadExtension(result.id)
+    sendToChatWindows('extensions-reloaded')
   }
   return result
 })
 
+/** Registry browser: the index at url with each entry's installed/update state (index cached unless refresh). */
+ipcMain.handle('extension-registry-fetch', async (_event, payload: { url: string; refresh?: boolean }) => {
+  const url = typeof payload?.url === 'string' ? payload.url.trim() : ''
+  if (!url) return { ok: false, error: 'Missing registry URL' }
+  try {
+    const index = await fetchRegistryIndex(url, payload.refresh === true)
+    return { ok: true, name: index.name, extensions: getRegistryListings(index) }
+  } catch (e) {
+    return { ok: false, error: `Failed to load registry: ${e instanceof Error ? e.message : String(e)}` }
+  }
+})
+
 ipcMain.handle('extension-set-enabled', async (_event, payload: { id: string; enabled: boolean }) => {
   const id = typeof payload?.id === 'string' ? payload.id.trim() : ''
   const enabled = Boolean(payload?.enabled)
   if (!id) return { ok: false, error: 'Missing extension id' }
   const updated = setExtensionEnabled(id, enabled)
   if (!updated) return { ok: false, error: 'Extension not found' }
-  reloadExtensions()
-  if (win && !win.isDestroyed()) win.webContents.send('extensions-reloaded')
+  // Live: only this extension is started/stopped (its chat/live WebSockets are torn down on disable)
+  if (enabled) activateExtension(id)
+  else await deactivateExtension(id)
+  sendToChatWindows('extensions-reloaded')
   return { ok: true }
 })
 
@@ -106,10 +223,94 @@ ipcMain.handle('extension-reinstall', async (_event, extensionId: string) => {
   const list = readExtensionsList()
   const ext = list.find((e) => e.id === id)
   if (!ext) return { ok: false, error: 'Extension not found' }
-  const result = await installFromManifestUrl(ext.updateUrl)
+  const result = await installFromManifestUrl(ext.updateUrl, { confirm: confirmExtensionInstall })
   if (result.ok) {
-    reloadExtensions()
-    if (win && !win.isDestroyed()) win.webContents.send('extensions-reloaded')
+    await reloadExtension(id)
+    sendToChatWindows('extensions-reloaded')
+  }
+  return result
+})
+
+/**
+ * Check every extension's updateUrl and install newer versions of those with auto-update on.
+ * Updates that declare new capabilities still show the install prompt.
+ */
+async function runExtensionUpdateCheck(ids?: string[]) {
+  const results = await checkExtensionUpdates(ids)
+  for (const ext of readExtensionsList()) {
+    if (!ext.autoUpdate || !isUpdateAvailable(ext) || ext.latestVersion === ext.skippedVersion) continue
+    const result = await installFromManifestUrl(ext.updateUrl, { confirm: confirmExtensionInstall })
+    fileLogger.writeLog(result.ok ? 'info' : 'warn', 'main', '[Extensions] auto_update', [ext.id, ext.version, ext.latestVersion, result.error ?? 'ok'])
+    if (result.ok) await reloadExtension(ext.id)
+  }
+  sendToChatWindows('extensions-reloaded')
+  return results
+}
+
+const EXTENSION_UPDATE_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000
+const EXTENSION_UPDATE_CHECK_STARTUP_DELAY_MS = 30 * 1000
+
+function startExtensionUpdateChecks() {
+  const run = () => {
+    runExtensionUpdateCheck().catch((e) => fileLogger.writeLog('warn', 'main', '[Extensions] update_check_failed', [String(e)]))
+  }
+  setTimeout(run, EXTENSION_UPDATE_CHECK_STARTUP_DELAY_MS)
+  setInterval(run, EXTENSION_UPDATE_CHECK_INTERVAL_MS)
+}
+
+ipcMain.handle('extension-check-updates', async (_event, payload?: { ids?: string[] }) => {
+  try {
+    const ids = Array.isArray(payload?.ids) ? payload.ids.filter((id): id is string => typeof id === 'string') : undefined
+    const results = await runExtensionUpdateCheck(ids)
+    return { ok: true, results }
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) }
+  }
+})
+
+ipcMain.handle('extension-set-auto-update', async (_event, payload: { id: string; autoUpdate: boolean }) => {
+  const id = typeof payload?.id === 'string' ? payload.id.trim() : ''
+  if (!id) return { ok: false, error: 'Missing extension id' }
+  if (!setExtensionAutoUpdate(id, Boolean(payload?.autoUpdate))) return { ok: false, error: 'Extension not found' }
+  return { ok: true }
+})
+
+/** renderer.js of a running extension; the renderer runs it in sandboxed iframes (UI contributions). */
+ipcMain.handle('extension-renderer-script', async (_event, extensionId: string) => {
+  const id = typeof extensionId === 'string' ? extensionId.trim() : ''
+  const script = id ? readRendererScript(id) : null
+  if (script === null) return { success: false, error: `No renderer script for extension: ${id}` }
+  return { success: true, data: script }
+})
+
+/** Setting values for Settings > Extensions. Secrets are never sent; secretsSet lists the ones that have a value. */
+ipcMain.handle('extension-settings-get', async (_event, extensionId: string) => {
+  const id = typeof extensionId === 'string' ? extensionId.trim() : ''
+  if (!id) return { ok: false, error: 'Missing extension id' }
+  return {
+    ok: true,
+    values: getSettingValues(id, getExtensionSettingFields(id), false),
+    secretsSet: getSetSecretKeys(id),
+    stored: hasStoredSettings(id),
+  }
+})
+
+/** Save setting values (partial); the running extension is told about each change. */
+ipcMain.handle('extension-settings-set', async (_event, payload: { id: string; values: Record<string, unknown> }) => {
+  const id = typeof payload?.id === 'string' ? payload.id.trim() : ''
+  if (!id) return { ok: false, error: 'Missing extension id' }
+  if (!payload.values || typeof payload.values !== 'object') return { ok: false, error: 'Missing values' }
+  return setSettingValues(id, getExtensionSettingFields(id), payload.values)
+})
+
+ipcMain.handle('extension-rollback', async (_event, extensionId: string) => {
+  const id = typeof extensionId === 'string' ? extensionId.trim() : ''
+  if (!id) return { ok: false, error: 'Missing extension id' }
+  const result = rollbackExtension(id)
+  if (result.ok) {
+    fileLogger.writeLog('info', 'main', '[Extensions] rolled_back', [id, result.version])
+    await reloadExtension(id)
+    sendToChatWindows('extensions-reloaded')
   }
   return result
 })
@@ -117,10 +318,11 @@ ipcMain.handle('extension-reinstall', async (_event, extensionId: string) => {
 ipcMain.handle('extension-uninstall', async (_event, extensionId: string) => {
   const id = typeof extensionId === 'string' ? extensionId.trim() : ''
   if (!id) return { ok: false, error: 'Missing extension id' }
+  await deactivateExtension(id)
   const result = uninstallExtension(id)
   if (result.ok) {
-    reloadExtensions()
-    if (win && !win.isDestroyed()) win.webContents.send('extensions-reloaded')
+    deleteExtensionData(id)
+    sendToChatWindows('extensions-reloaded')
   }
   return result
 })
@@ -145,12 +347,16 @@ if (process.argv.includes('--version')) {
 
 let win: BrowserWindow | null
 let viewerWin: BrowserWindow | null = null
+/** Popout windows (OmniScreen embed tiles / combined chat) by popout id ('chat' or 'embed:<key>'); see src/utils/popouts.ts. */
+const popoutWindows = new Map<string, BrowserWindow>()
 /** Protocol results from launch URL (before renderer loaded); sent when main window finishes loading. */
 let pendingProtocolResults: ProtocolHandleResult[] = []
 
-// Chat WebSocket instance
-let chatWebSocket: ChatWebSocket | null = null
+/** One chat WebSocket per chat source id (see getChatSources). */
+const chatWebSockets = new Map<string, ChatWebSocket>()
 let liveWebSocket: LiveWebSocket | null = null
+/** Chat source whose config the live WebSocket was opened with. */
+let liveWebSocketSourceId: string | null = null
 /** Current embed keys (and optional display names) from the live WebSocket feed. Populated by the extension's onLiveMessage handler. Used e.g. to treat YouTube as live when it appears in the feed. */
 const currentLiveEmbedKeys = new Set<string>()
 const currentLiveEmbedByKey = new Map<string, { displayName?: string }>()
@@ -174,9 +380,6 @@ function getLiveFeedYouTubeVideoIdForStreamer(streamerNickname?: string): string
   }
   return ytKeys[0].slice('youtube:'.length)
 }
-let kickChatManager: KickChatManager | null = null
-let youTubeChatManager: YouTubeChatManager | null = null
-let twitchChatManager: TwitchChatManager | null = null
 
 // Update transparency menu to reflect current opacity
 function updateTransparencyMenu(opacity: number) {
@@ -274,9 +477,11 @@ async function getCookiesForUrl(url: string): Promise<string> {
     }
     
     // For extension chat source cookie domains, collect cookies from all configured domains
-    const primary = getPrimaryChatSource()
-    if (primary?.config.cookieDomains.some((d) => d === hostname || (d.startsWith('.') && (hostname === d.slice(1) || hostname.endsWith('.' + d.slice(1)))))) {
-      const domains = primary.config.cookieDomains
+    const chatSource = getChatSources().find((src) =>
+      src.config.cookieDomains.some((d) => d === hostname || (d.startsWith('.') && (hostname === d.slice(1) || hostname.endsWith('.' + d.slice(1)))))
+    )
+    if (chatSource) {
+      const domains = chatSource.config.cookieDomains
       const allCookies: Electron.Cookie[] = []
       for (const domain of domains) {
         try {
@@ -298,7 +503,7 @@ async function getCookiesForUrl(url: string): Promise<string> {
         .map(cookie => `${cookie.name}=${cookie.value}`)
         .join('; ')
       if (cookieString) {
-        console.log(`[connections] Found ${uniqueCookies.size} cookies for chat source (${primary.id})`)
+        console.log(`[connections] Found ${uniqueCookies.size} cookies for chat source (${chatSource.id})`)
       }
       return cookieString
     }
@@ -542,7 +747,8 @@ function createApplicationMenu() {
           label: 'Reload extensions',
           click: () => {
             reloadExtensions()
-            if (win && !win.isDestroyed()) win.webContents.send('extensions-reloaded')
+              .then(() => sendToChatWindows('extensions-reloaded'))
+              .catch((e) => fileLogger.writeLog('warn', 'main', '[Extensions] reload_failed', [String(e)]))
           }
         }
       ]
@@ -759,7 +965,12 @@ function createWindow() {
   })
 
   win.setMaxListeners(40) // avoid MaxListenersExceededWarning when multiple listeners attach (e.g. closed, webRequest)
-  win.on('closed', () => {})
+  win.on('closed', () => {
+    // Popouts only work with OmniScreen in the main window
+    for (const w of popoutWindows.values()) {
+      if (!w.isDestroyed()) w.close()
+    }
+  })
 
   // Configure webRequest handlers for YouTube and Reddit embeds
   const session = win.webContents.session
@@ -1018,16 +1229,15 @@ function createWindow() {
     }
   )
 
-  // Chat source embeds (CSP) – when a chat source extension is installed
-  const primary = getPrimaryChatSource()
-  if (primary) {
-    const { config } = primary
+  // Chat source embeds (CSP) – when chat source extensions are installed
+  const chatSourceCspUrls = getChatSources().flatMap(({ config }) => [
+    config.baseUrl + '/*',
+    ...config.cookieDomains.filter((d) => !d.startsWith('.')).map((d) => 'https://' + d + '/*'),
+  ])
+  if (chatSourceCspUrls.length > 0) {
     session.webRequest.onHeadersReceived(
       {
-        urls: [
-          config.baseUrl + '/*',
-          ...config.cookieDomains.filter((d) => !d.startsWith('.')).map((d) => 'https://' + d + '/*'),
-        ],
+        urls: chatSourceCspUrls,
       },
       (details, callback) => {
         console.log(`[Main Process] Modified CSP for chat source: ${details.url.substring(0, 80)}`)
@@ -1269,6 +1479,116 @@ function getOrCreateViewerWindow(): BrowserWindow {
   return viewerWin
 }
 
+const POPOUT_ID_REGEX = /^(chat|embed:[a-z0-9_-]+:\S+)$/i
+
+function getPopoutIdForSender(sender: Electron.WebContents): string | null {
+  for (const [id, w] of popoutWindows) {
+    if (!w.isDestroyed() && w.webContents === sender) return id
+  }
+  return null
+}
+
+function sendToPopoutWindow(id: string, channel: string, ...args: unknown[]) {
+  const w = popoutWindows.get(id)
+  try {
+    if (!w || w.isDestroyed() || w.webContents.isDestroyed()) return
+    w.webContents.send(channel, ...args)
+  } catch {
+    // ignore
+  }
+}
+
+/** Open (or focus) a frameless popout window; it loads the same renderer page with ?popout=<id>. */
+ipcMain.handle('popout-open', (_event, payload: { id?: string; title?: string; bounds?: { x: number; y: number; width: number; height: number } } | null) => {
+  const id = typeof payload?.id === 'string' ? payload.id : ''
+  if (!POPOUT_ID_REGEX.test(id)) return { success: false, error: 'Invalid popout id' }
+  if (!win || win.isDestroyed()) return { success: false, error: 'Main window is not open' }
+  const existing = popoutWindows.get(id)
+  if (existing && !existing.isDestroyed()) {
+    if (existing.isMinimized()) existing.restore()
+    existing.focus()
+    return { success: true }
+  }
+  const isChat = id === 'chat'
+  const b = payload?.bounds
+  const validBounds = b && [b.x, b.y, b.width, b.height].every((n) => typeof n === 'number' && Number.isFinite(n)) ? b : undefined
+  const w = new BrowserWindow({
+    ...(validBounds ?? { width: isChat ? 420 : 960, height: isChat ? 720 : 560 }),
+    minWidth: 280,
+    minHeight: 200,
+    title: typeof payload?.title === 'string' && payload.title ? payload.title : 'Omni Screen',
+    icon: path.join(process.env.VITE_PUBLIC, 'icon.png'),
+    frame: false,
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.mjs'),
+      // Same session as the main window: shared localStorage, cookies and the embed request handlers
+      partition: 'persist:main',
+      webSecurity: false,
+      webviewTag: true,
+    },
+  })
+  popoutWindows.set(id, w)
+  let lastBounds = w.getBounds()
+  w.on('close', () => {
+    lastBounds = w.getBounds()
+  })
+  w.on('closed', () => {
+    if (popoutWindows.get(id) === w) popoutWindows.delete(id)
+    sendToMainWindow('popout-closed', { id, bounds: lastBounds })
+  })
+  w.webContents.setWindowOpenHandler(({ url }) => {
+    if (isHttpUrl(url)) shell.openExternal(url).catch(() => {})
+    return { action: 'deny' }
+  })
+  const base = win.webContents.getURL().split(/[?#]/)[0]
+  w.loadURL(`${base}?popout=${encodeURIComponent(id)}`).catch(() => {})
+  return { success: true }
+})
+
+ipcMain.handle('popout-close', (_event, id: string) => {
+  const w = typeof id === 'string' ? popoutWindows.get(id) : undefined
+  if (w && !w.isDestroyed()) w.close()
+})
+
+/** OmniScreen -> popout: current state for that popout. */
+ipcMain.handle('popout-send-state', (_event, payload: { id?: string; state?: unknown } | null) => {
+  if (typeof payload?.id === 'string') sendToPopoutWindow(payload.id, 'popout-state', payload.state)
+})
+
+/** Popout loaded: ask OmniScreen to send its state. */
+ipcMain.handle('popout-ready', (event) => {
+  const id = getPopoutIdForSender(event.sender)
+  if (id) sendToMainWindow('popout-ready', id)
+})
+
+/** Popout -> OmniScreen: user action (chat setting, ignore list, link click...). */
+ipcMain.handle('popout-action', (event, action: unknown) => {
+  const id = getPopoutIdForSender(event.sender)
+  if (id) sendToMainWindow('popout-action', { id, action })
+})
+
+ipcMain.handle('popout-set-always-on-top', (event, value: boolean) => {
+  const w = BrowserWindow.fromWebContents(event.sender)
+  if (w && !w.isDestroyed() && w !== win) w.setAlwaysOnTop(value === true, 'floating')
+})
+
+/**
+ * Set volume/mute of the Kick player in the sender's embed iframes (the Kick player has no postMessage API and is
+ * cross-origin, so the renderer can't reach its video element). `url` is the embed URL; frames match it without query.
+ */
+ipcMain.handle('embed-frame-set-audio', async (event, payload: { url?: string; volume?: number; muted?: boolean }) => {
+  const target = typeof payload?.url === 'string' ? payload.url.split('?')[0].toLowerCase() : ''
+  if (!target.startsWith('https://player.kick.com/')) return
+  const v = Number(payload.volume)
+  const volume = Number.isFinite(v) ? Math.min(100, Math.max(0, Math.round(v))) / 100 : 1
+  const muted = payload.muted === true
+  const script = `document.querySelectorAll('video').forEach((v) => { v.volume = ${volume}; v.muted = ${muted}; });`
+  for (const frame of event.sender.mainFrame.framesInSubtree) {
+    if (frame.url.split('?')[0].toLowerCase() !== target) continue
+    frame.executeJavaScript(script).catch(() => {})
+  }
+})
+
 // Quit when all windows are closed, except on macOS. There, it's common
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
@@ -1340,6 +1660,11 @@ ipcMain.handle('link-scroller-handle-link', async (_event, payload: { url: strin
       return { success: true }
     }
 
+    // Only web links leave the app (no file:, custom protocol handlers, …)
+    if (!isHttpUrl(url)) {
+      return { success: false, error: 'Only http(s) links can be opened' }
+    }
+
     if (action === 'browser') {
       await shell.openExternal(url)
       return { success: true }
@@ -1349,11 +1674,7 @@ ipcMain.handle('link-scroller-handle-link', async (_event, payload: { url: strin
       const v = getOrCreateViewerWindow()
       v.show()
       v.focus()
-      if (isHttpUrl(url)) {
-        await v.loadURL(url)
-        return { success: true }
-      }
-      await shell.openExternal(url)
+      await v.loadURL(url)
       return { success: true }
     }
 
@@ -1371,6 +1692,34 @@ ipcMain.handle('open-external-url', async (_event, url: string) => {
   }
 })
 
+/** Shown notifications, kept referenced until closed so their click handlers aren't garbage collected. */
+const activeNotifications = new Set<Notification>()
+
+ipcMain.handle('show-notification', (event, payload: { title?: string; body?: string; target?: unknown } | null) => {
+  if (!Notification.isSupported() || typeof payload?.title !== 'string') return false
+  const sender = event.sender
+  const notification = new Notification({
+    title: payload.title,
+    body: typeof payload.body === 'string' ? payload.body : '',
+    icon: path.join(process.env.VITE_PUBLIC, 'icon.png'),
+  })
+  activeNotifications.add(notification)
+  notification.on('close', () => activeNotifications.delete(notification))
+  notification.on('click', () => {
+    activeNotifications.delete(notification)
+    if (sender.isDestroyed()) return
+    const w = BrowserWindow.fromWebContents(sender)
+    if (w && !w.isDestroyed()) {
+      if (w.isMinimized()) w.restore()
+      w.show()
+      w.focus()
+    }
+    if (payload.target !== undefined) sender.send('notification-clicked', payload.target)
+  })
+  notification.show()
+  return true
+})
+
 ipcMain.handle('set-chat-link-open-action', (_event, action: LinkOpenAction) => {
   if (action === 'none' || action === 'clipboard' || action === 'browser' || action === 'viewer') {
     chatLinkOpenAction = action
@@ -1467,6 +1816,27 @@ ipcMain.handle('fetch-rustlesearch', async (_event, filterTerms: string[], searc
   }
 })
 
+// Local chat archive (all combined chat traffic written by main; see chatArchive.ts)
+ipcMain.handle('chat-archive-search', async (_event, query: ChatArchiveSearchQuery) => {
+  try {
+    const result = await chatArchive.search(query && typeof query === 'object' ? query : {})
+    return { success: true, data: result.items, truncated: result.truncated }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('chat-archive-open-directory', async () => {
+  const dir = chatArchive.getArchiveDirectoryPath()
+  try {
+    mkdirSync(dir, { recursive: true })
+  } catch {
+    // ignore
+  }
+  const err = await shell.openPath(dir)
+  return err ? { success: false, error: err } : { success: true }
+})
+
 ipcMain.handle('fetch-twitter-embed', async (event, tweetUrl: string, theme: 'light' | 'dark' = 'dark') => {
   let browserView: BrowserView | null = null
   try {
@@ -2407,6 +2777,33 @@ ipcMain.handle('url-is-live', async (_event, url: string) => {
   }
 })
 
+/** Live check for an extension embed platform (bookmarked streamers). */
+ipcMain.handle('embed-platform-is-live', async (_event, payload: { platformId: string; id: string }) => {
+  const platform = getEmbedPlatform(payload?.platformId)
+  if (!platform?.isLive) return { live: false, error: `No live check for embed platform: ${payload?.platformId}` }
+  try {
+    return { live: (await platform.isLive(String(payload?.id ?? ''))) === true }
+  } catch (e) {
+    return { live: false, error: e instanceof Error ? e.message : 'Unknown error' }
+  }
+})
+
+/** Embed for an extension Link Scroller link type that provides fetchEmbed. */
+ipcMain.handle('link-type-fetch-embed', async (_event, payload: { name: string; url: string }) => {
+  const linkType = getLinkType(payload?.name)
+  if (!linkType?.fetchEmbed) return { success: false, error: `No embed fetcher for link type: ${payload?.name}` }
+  try {
+    const data = await linkType.fetchEmbed(String(payload?.url ?? ''))
+    // Only https iframe URLs, like embedUrlTemplate: a javascript: URL would run in the app's own origin
+    const embedUrl = typeof data?.embedUrl === 'string' && /^https:\/\//i.test(data.embedUrl) ? data.embedUrl : undefined
+    const html = typeof data?.html === 'string' ? data.html : undefined
+    if (data?.embedUrl && !embedUrl) fileLogger.writeLog('warn', 'main', '[Extensions] link_type_embed_url_rejected', [payload?.name, String(data.embedUrl).slice(0, 100)])
+    return { success: true, data: embedUrl || html ? { embedUrl, html } : null }
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : 'Unknown error' }
+  }
+})
+
 ipcMain.handle('fetch-reddit-embed', async (_event, redditUrl: string, theme: 'light' | 'dark' = 'dark') => {
   try {
     console.log('Fetching Reddit embed for URL:', redditUrl)
@@ -2594,9 +2991,8 @@ ipcMain.handle(
 
 // Domains that "Delete all sessions" clears. Chat source domains from extension when installed; others fixed.
 function getConnectionsClearDomains(): string[] {
-  const primary = getPrimaryChatSource()
   return [
-    ...(primary?.config.cookieDomains ?? []),
+    ...getChatSources().flatMap((src) => src.config.cookieDomains),
     'youtube.com',
     'www.youtube.com',
     '.youtube.com',
@@ -2654,16 +3050,8 @@ ipcMain.handle('connections-clear-all-sessions', async () => {
         // ignore per-cookie errors
       }
     }
-    // Disconnect chat WebSocket so it stops using the old auth. Next connect will use (now empty) cookies.
-    if (chatWebSocket) {
-      try {
-        chatWebSocket.disconnect()
-        chatWebSocket.destroy()
-      } catch {
-        // ignore
-      }
-      chatWebSocket = null
-    }
+    // Disconnect chat WebSockets so they stop using the old auth. Next connect will use (now empty) cookies.
+    destroyAllChatWebSockets()
 
     console.log(`[connections] Cleared ${total} cookies; chat disconnected (same session used by chat, embeds, etc.)`)
     return { success: true, count: total }
@@ -2691,15 +3079,7 @@ ipcMain.handle('connections-clear-entire-cookie-store', async () => {
         // ignore per-cookie errors
       }
     }
-    if (chatWebSocket) {
-      try {
-        chatWebSocket.disconnect()
-        chatWebSocket.destroy()
-      } catch {
-        // ignore
-      }
-      chatWebSocket = null
-    }
+    destroyAllChatWebSockets()
     console.log(`[connections] Cleared entire cookie store: ${total} cookies`)
     return { success: true, count: total }
   } catch (e) {
@@ -2711,9 +3091,8 @@ ipcMain.handle('connections-clear-entire-cookie-store', async () => {
   }
 })
 
-// URLs used to read cookies per platform (persist:main session). Extension platforms from getPrimaryChatSource.
+// URLs used to read cookies per platform (persist:main session). Extension platforms from getChatSources (one entry per source).
 function getConnectionsGetCookieUrls(): Record<string, string[]> {
-  const primary = getPrimaryChatSource()
   const base: Record<string, string[]> = {
     youtube: ['https://www.youtube.com', 'https://youtube.com', 'https://www.google.com', 'https://google.com'],
     kick: ['https://www.kick.com', 'https://kick.com', 'https://web.kick.com'],
@@ -2721,10 +3100,10 @@ function getConnectionsGetCookieUrls(): Record<string, string[]> {
     twitter: ['https://twitter.com', 'https://x.com', 'https://twimg.com'],
     reddit: ['https://www.reddit.com', 'https://reddit.com'],
   }
-  if (primary) {
-    base[primary.id] = [
-      primary.config.baseUrl,
-      ...primary.config.cookieDomains.filter((d) => !d.startsWith('.')).map((d) => 'https://' + d),
+  for (const src of getChatSources()) {
+    base[src.id] = [
+      src.config.baseUrl,
+      ...src.config.cookieDomains.filter((d) => !d.startsWith('.')).map((d) => 'https://' + d),
     ]
   }
   return base
@@ -2824,23 +3203,13 @@ ipcMain.handle('connections-clear-platform', async (_event, platformId: string)
       // ignore per-url
     }
   }
-  const primary = getPrimaryChatSource()
-  if (primary && platformId === primary.id && chatWebSocket) {
-    try {
-      chatWebSocket.disconnect()
-      chatWebSocket.destroy()
-    } catch {
-      // ignore
-    }
-    chatWebSocket = null
-  }
+  destroyChatWebSocket(platformId)
   return { success: true, count: total }
 })
 
 // Open login window for services
 ipcMain.handle('open-login-window', async (_event, service: string) => {
   try {
-    const primary = getPrimaryChatSource()
     const overlay = getRendererConfigOverlay()
     const loginUrls: Record<string, string> = {
       twitter: 'https://twitter.com/i/flow/login',
@@ -2856,7 +3225,7 @@ ipcMain.handle('open-login-window', async (_event, service: string) => {
       if (p.id) loginUrls[p.id.toLowerCase()] = p.loginUrl
       if (p.loginService) loginUrls[p.loginService.toLowerCase()] = p.loginUrl
     }
-    if (primary) loginUrls[primary.id] = primary.config.loginUrl
+    for (const src of getChatSources()) loginUrls[src.id] = src.config.loginUrl
 
     const url = loginUrls[service.toLowerCase()] || 'https://www.google.com'
     
@@ -2923,13 +3292,13 @@ ipcMain.handle('open-login-window', async (_event, service: string) => {
         }
       }
 
-      // Chat source login: cookie set for primary chat source domains
-      const primary = getPrimaryChatSource()
-      if (primary && !removed && cookie.domain && primary.config.cookieDomains.some((d) => cookie.domain === d || cookie.domain?.endsWith('.' + d.replace(/^\./, '')))) {
-        const authNames = getConnectionsAuthCookieNames()[primary.id]
+      // Chat source login: cookie set for a chat source's domains
+      for (const src of getChatSources()) {
+        if (removed || !cookie.domain || !src.config.cookieDomains.some((d) => cookie.domain === d || cookie.domain?.endsWith('.' + d.replace(/^\./, '')))) continue
+        const authNames = getConnectionsAuthCookieNames()[src.id]
         if (authNames?.includes(cookie.name)) {
-          console.log(`[connections] Chat source cookie set: ${cookie.name} for ${cookie.domain}`)
-          win?.webContents.send('login-success', primary.id)
+          console.log(`[connections] Chat source cookie set: ${cookie.name} for ${cookie.domain} (${src.id})`)
+          win?.webContents.send('login-success', src.id)
         }
       }
     })
@@ -2947,211 +3316,169 @@ ipcMain.handle('open-login-window', async (_event, service: string) => {
   }
 })
 
-// Chat WebSocket IPC handlers
-ipcMain.handle('chat-websocket-connect', async (_event) => {
+// Chat WebSocket IPC handlers (one connection per chat source; sourceId optional everywhere, primary source if omitted)
+
+/** ChatWebSocket events forwarded as-is to the renderer, with the IPC suffix used for each. */
+const CHAT_WEBSOCKET_FORWARDED_EVENTS: Array<[event: string, suffix: string]> = [
+  ['disconnected', 'disconnected'],
+  ['userEvent', 'user-event'],
+  ['paidEvents', 'paid-events'],
+  ['pin', 'pin'],
+  ['names', 'names'],
+  ['mute', 'mute'],
+  ['unmute', 'unmute'],
+  ['me', 'me'],
+  ['voteCast', 'vote-cast'],
+  ['privmsg', 'privmsg'],
+  ['death', 'death'],
+  ['unban', 'unban'],
+  ['subscription', 'subscription'],
+  ['broadcast', 'broadcast'],
+  ['ban', 'ban'],
+  ['subonly', 'subonly'],
+  ['reload', 'reload'],
+  ['privmsgsent', 'privmsgsent'],
+  ['addphrase', 'addphrase'],
+  ['removephrase', 'removephrase'],
+  ['giftsub', 'giftsub'],
+  ['massgift', 'massgift'],
+  ['donation', 'donation'],
+]
+
+/**
+ * Send a chat source event to the renderer on `chat-source:<sourceId>:<suffix>`. The primary source is also sent on
+ * the legacy `chat-websocket-<suffix>` channels, which CombinedChat's primary chat UI listens to.
+ */
+function sendChatSourceEvent(sourceId: string, suffix: string, ...args: unknown[]) {
+  sendToChatWindows(`chat-source:${sourceId}:${suffix}`, ...args)
+  if (getPrimaryChatSource()?.id === sourceId) sendToChatWindows(`chat-websocket-${suffix}`, ...args)
+}
+
+function destroyChatWebSocket(sourceId: string) {
+  const ws = chatWebSockets.get(sourceId)
+  if (!ws) return
+  chatWebSockets.delete(sourceId)
   try {
-    const primary = getPrimaryChatSource()
-    if (!primary) return { success: false, error: 'Chat source extension not installed', data: null }
-    if (!chatWebSocket) {
-      chatWebSocket = new ChatWebSocket(primary.config.chatWssUrl, primary.config.chatOrigin)
-      
-      // Helper function to safely send messages to renderer
-      const safeSend = (channel: string, ...args: any[]) => {
-        try {
-          // Check if window exists and is not destroyed
-          if (!win) return
-          
-          // Check if window is destroyed - this might throw, so wrap in try-catch
-          let isDestroyed = false
-          try {
-            isDestroyed = win.isDestroyed()
-          } catch {
-            // If checking isDestroyed throws, assume it's destroyed
-            return
-          }
-          
-          if (isDestroyed) return
-          
-          // Check if webContents exists and is not destroyed
-          if (!win.webContents) return
-          
-          let webContentsDestroyed = false
-          try {
-            webContentsDestroyed = win.webContents.isDestroyed()
-          } catch {
-            // If checking isDestroyed throws, assume it's destroyed
-            return
-          }
-          
-          if (webContentsDestroyed) return
-          
-          // Now safe to send
-          win.webContents.send(channel, ...args)
-        } catch (error) {
-          // Window or webContents was destroyed - silently ignore
-          // This is expected during app shutdown
-        }
-      }
-      
-      // Forward events to renderer
-      chatWebSocket.on('connected', () => {
-        safeSend('chat-websocket-connected')
-      })
-      
-      chatWebSocket.on('disconnected', (data) => {
-        safeSend('chat-websocket-disconnected', data)
-      })
-      
-      chatWebSocket.on('error', (error) => {
-        try {
-          const errorMessage = error instanceof Error ? error.message : (error?.message || String(error) || 'Unknown error')
-          safeSend('chat-websocket-error', { message: errorMessage })
-        } catch (sendError) {
-          console.error('[Main Process] Failed to send WebSocket error to renderer:', sendError)
-        }
-      })
-      
-      chatWebSocket.on('history', (history) => {
-        console.log(`[Main Process] Received history event with ${history.messages?.length || 0} messages`)
-        safeSend('chat-websocket-history', history)
-      })
-      
-      chatWebSocket.on('message', (data) => {
-        safeSend('chat-websocket-message', data)
-      })
-      
-      chatWebSocket.on('userEvent', (event) => {
-        safeSend('chat-websocket-user-event', event)
-      })
-      
-      chatWebSocket.on('paidEvents', (event) => {
-        safeSend('chat-websocket-paid-events', event)
-      })
-      
-      chatWebSocket.on('pin', (event) => {
-        safeSend('chat-websocket-pin', event)
-      })
-      
-      chatWebSocket.on('names', (event) => {
-        safeSend('chat-websocket-names', event)
-      })
-      
-      chatWebSocket.on('mute', (event) => {
-        safeSend('chat-websocket-mute', event)
-      })
+    ws.disconnect()
+    ws.destroy()
+  } catch {
+    // ignore
+  }
+}
 
-      chatWebSocket.on('unmute', (event) => {
-        safeSend('chat-websocket-unmute', event)
-      })
-      
-      chatWebSocket.on('me', (event) => {
-        safeSend('chat-websocket-me', event)
-      })
-      
-      chatWebSocket.on('pollStart', (event) => {
-        try {
-          fileLogger.writeLog('info', 'main', '[Chat WS] POLLSTART', [event?.poll?.question?.slice?.(0, 50)])
-        } catch {
-          // ignore
-        }
-        safeSend('chat-websocket-poll-start', event)
-      })
+function destroyAllChatWebSockets() {
+  for (const sourceId of Array.from(chatWebSockets.keys())) destroyChatWebSocket(sourceId)
+}
 
-      chatWebSocket.on('voteCast', (event) => {
-        safeSend('chat-websocket-vote-cast', event)
-      })
+/** Close the chat and live WebSockets opened for these chat sources (their extension is being deactivated). */
+function teardownChatSourceConnections(sourceIds: string[]) {
+  for (const sourceId of sourceIds) destroyChatWebSocket(sourceId)
+  if (liveWebSocket && liveWebSocketSourceId && sourceIds.includes(liveWebSocketSourceId)) {
+    try {
+      liveWebSocket.disconnect()
+      liveWebSocket.destroy()
+    } catch {
+      // ignore
+    }
+    liveWebSocket = null
+    liveWebSocketSourceId = null
+  }
+  if (sourceIds.length > 0) fileLogger.writeLog('info', 'main', '[Extensions] chat_source_connections_closed', sourceIds)
+}
 
-      chatWebSocket.on('pollStop', (event) => {
-        try {
-          fileLogger.writeLog('info', 'main', '[Chat WS] POLLSTOP', [])
-        } catch {
-          // ignore
-        }
-        safeSend('chat-websocket-poll-stop', event)
-      })
+function createChatWebSocket(sourceId: string, wssUrl: string, origin: string): ChatWebSocket {
+  const ws = new ChatWebSocket(wssUrl, origin)
+  const send = (suffix: string, ...args: unknown[]) => sendChatSourceEvent(sourceId, suffix, ...args)
 
-      chatWebSocket.on('voteCounted', (event: { vote?: string }) => {
-        try {
-          fileLogger.writeLog('info', 'main', '[Chat WS] Vote counted', [event?.vote])
-        } catch {
-          // ignore
-        }
-        safeSend('chat-websocket-vote-counted', event)
-      })
+  ws.on('connected', () => send('connected'))
 
-      chatWebSocket.on('pollVoteError', (event: { description?: string }) => {
-        try {
-          fileLogger.writeLog('info', 'main', '[Chat WS] Poll vote error', [event?.description])
-        } catch {
-          // ignore
-        }
-        safeSend('chat-websocket-poll-vote-error', event)
-      })
+  ws.on('error', (error) => {
+    try {
+      const errorMessage = error instanceof Error ? error.message : (error?.message || String(error) || 'Unknown error')
+      send('error', { message: errorMessage })
+    } catch (sendError) {
+      console.error('[Main Process] Failed to send WebSocket error to renderer:', sendError)
+    }
+  })
 
-      chatWebSocket.on('chatErr', (event: { description?: string }) => {
-        try {
-          fileLogger.writeLog('warn', 'main', '[Chat WS] Server ERR (e.g. whisper failed)', [event?.description])
-        } catch {
-          // ignore
-        }
-        safeSend('chat-websocket-err', event)
-      })
+  ws.on('history', (history) => {
+    console.log(`[Main Process] Received history event with ${history.messages?.length || 0} messages (${sourceId})`)
+    send('history', history)
+  })
 
-      chatWebSocket.on('privmsg', (event) => {
-        safeSend('chat-websocket-privmsg', event)
-      })
+  ws.on('message', (data) => {
+    if (data?.type === 'MSG') chatArchive.append(archiveItemFromPrimary(sourceId, data.message))
+    send('message', data)
+  })
 
-      chatWebSocket.on('death', (event) => {
-        safeSend('chat-websocket-death', event)
-      })
+  ws.on('pollStart', (event) => {
+    try {
+      fileLogger.writeLog('info', 'main', '[Chat WS] POLLSTART', [sourceId, event?.poll?.question?.slice?.(0, 50)])
+    } catch {
+      // ignore
+    }
+    send('poll-start', event)
+  })
 
-      chatWebSocket.on('unban', (event) => {
-        safeSend('chat-websocket-unban', event)
-      })
+  ws.on('pollStop', (event) => {
+    try {
+      fileLogger.writeLog('info', 'main', '[Chat WS] POLLSTOP', [sourceId])
+    } catch {
+      // ignore
+    }
+    send('poll-stop', event)
+  })
 
-      chatWebSocket.on('subscription', (event) => {
-        safeSend('chat-websocket-subscription', event)
-      })
+  ws.on('voteCounted', (event: { vote?: string }) => {
+    try {
+      fileLogger.writeLog('info', 'main', '[Chat WS] Vote counted', [sourceId, event?.vote])
+    } catch {
+      // ignore
+    }
+    send('vote-counted', event)
+  })
 
-      chatWebSocket.on('broadcast', (event) => {
-        safeSend('chat-websocket-broadcast', event)
-      })
+  ws.on('pollVoteError', (event: { description?: string }) => {
+    try {
+      fileLogger.writeLog('info', 'main', '[Chat WS] Poll vote error', [sourceId, event?.description])
+    } catch {
+      // ignore
+    }
+    send('poll-vote-error', event)
+  })
 
-      chatWebSocket.on('ban', (event) => {
-        safeSend('chat-websocket-ban', event)
-      })
-      chatWebSocket.on('subonly', (event) => {
-        safeSend('chat-websocket-subonly', event)
-      })
-      chatWebSocket.on('reload', (event) => {
-        safeSend('chat-websocket-reload', event)
-      })
-      chatWebSocket.on('privmsgsent', (event) => {
-        safeSend('chat-websocket-privmsgsent', event)
-      })
-      chatWebSocket.on('addphrase', (event) => {
-        safeSend('chat-websocket-addphrase', event)
-      })
-      chatWebSocket.on('removephrase', (event) => {
-        safeSend('chat-websocket-removephrase', event)
-      })
-      chatWebSocket.on('giftsub', (event) => {
-        safeSend('chat-websocket-giftsub', event)
-      })
-      chatWebSocket.on('massgift', (event) => {
-        safeSend('chat-websocket-massgift', event)
-      })
-      chatWebSocket.on('donation', (event) => {
-        safeSend('chat-websocket-donation', event)
-      })
+  ws.on('chatErr', (event: { description?: string }) => {
+    try {
+      fileLogger.writeLog('warn', 'main', '[Chat WS] Server ERR (e.g. whisper failed)', [sourceId, event?.description])
+    } catch {
+      // ignore
     }
+    send('err', event)
+  })
+
+  for (const [event, suffix] of CHAT_WEBSOCKET_FORWARDED_EVENTS) {
+    ws.on(event, (data: unknown) => send(suffix, data))
+  }
 
-    if (!chatWebSocket.isConnected()) {
-      const cookieStr = await getCookiesForUrl(primary.config.baseUrl)
-      chatWebSocket.connect({
+  return ws
+}
+
+ipcMain.handle('chat-websocket-connect', async (_event, payload?: { sourceId?: string }) => {
+  try {
+    const source = getChatSource(payload?.sourceId)
+    if (!source) return { success: false, error: 'Chat source extension not installed', data: null }
+    let ws = chatWebSockets.get(source.id)
+    if (!ws) {
+      ws = createChatWebSocket(source.id, source.config.chatWssUrl, source.config.chatOrigin)
+      chatWebSockets.set(source.id, ws)
+    }
+
+    if (!ws.isConnected()) {
+      const cookieStr = await getCookiesForUrl(source.config.baseUrl)
+      ws.connect({
         headers: {
           Cookie: cookieStr,
-          Origin: primary.config.chatOrigin,
+          Origin: source.config.chatOrigin,
         },
       })
     }
@@ -3163,13 +3490,10 @@ ipcMain.handle('chat-websocket-connect', async (_event) => {
   }
 })
 
-ipcMain.handle('chat-websocket-disconnect', async (_event) => {
+ipcMain.handle('chat-websocket-disconnect', async (_event, payload?: { sourceId?: string }) => {
   try {
-    if (chatWebSocket) {
-      chatWebSocket.disconnect()
-      chatWebSocket.destroy()
-      chatWebSocket = null
-    }
+    const source = getChatSource(payload?.sourceId)
+    if (source) destroyChatWebSocket(source.id)
     return { success: true }
   } catch (error) {
     console.error('[Main Process] Error disconnecting chat WebSocket:', error)
@@ -3177,32 +3501,40 @@ ipcMain.handle('chat-websocket-disconnect', async (_event) => {
   }
 })
 
-ipcMain.handle('chat-websocket-status', async (_event) => {
+ipcMain.handle('chat-websocket-status', async (_event, payload?: { sourceId?: string }) => {
+  const source = getChatSource(payload?.sourceId)
   return {
-    connected: chatWebSocket?.isConnected() || false
+    connected: (source && chatWebSockets.get(source.id)?.isConnected()) || false
   }
 })
 
-function sendChatRaw(line: string): boolean {
-  if (!chatWebSocket?.isConnected()) return false
+function getConnectedChatWebSocket(sourceId?: string): ChatWebSocket | null {
+  const source = getChatSource(sourceId)
+  const ws = source ? chatWebSockets.get(source.id) : undefined
+  return ws?.isConnected() ? ws : null
+}
+
+function sendChatRaw(line: string, sourceId?: string): boolean {
+  const ws = getConnectedChatWebSocket(sourceId)
+  if (!ws) return false
   try {
-    return chatWebSocket.send(line)
+    return ws.send(line)
   } catch {
     return false
   }
 }
 
-ipcMain.handle('chat-websocket-send', async (_event, payload: { data?: string }) => {
+ipcMain.handle('chat-websocket-send', async (_event, payload: { sourceId?: string; data?: string }) => {
   const text = typeof payload?.data === 'string' ? payload.data.trim() : ''
   if (!text) return { success: false, error: 'Empty message' }
-  const sent = sendChatRaw(`MSG ${JSON.stringify({ data: text })}`)
+  const sent = sendChatRaw(`MSG ${JSON.stringify({ data: text })}`, payload?.sourceId)
   return { success: sent }
 })
 
-ipcMain.handle('chat-websocket-cast-poll-vote', async (_event, payload: { option: number }) => {
+ipcMain.handle('chat-websocket-cast-poll-vote', async (_event, payload: { sourceId?: string; option: number }) => {
   const option = typeof payload?.option === 'number' ? payload.option : 0
   if (option < 1) return { success: false, error: 'Invalid option' }
-  const sent = sendChatRaw(`CASTVOTE ${JSON.stringify({ vote: String(option) })}`)
+  const sent = sendChatRaw(`CASTVOTE ${JSON.stringify({ vote: String(option) })}`, payload?.sourceId)
   try {
     fileLogger.writeLog('info', 'main', '[Main Process] Poll vote cast', [{ option, sent }])
   } catch {
@@ -3223,14 +3555,14 @@ ipcMain.handle('chat-source-send-whisper', async (_event, payload: { sourceId?:
     try { fileLogger.writeLog('warn', 'main', '[send-whisper] Missing message', []) } catch { /* ignore */ }
     return { success: false, error: 'Missing message' }
   }
-  if (!chatWebSocket?.isConnected()) {
-    try { fileLogger.writeLog('warn', 'main', '[send-whisper] Chat not connected', [recipient]) } catch { /* ignore */ }
+  if (!getConnectedChatWebSocket(payload?.sourceId)) {
+    try { fileLogger.writeLog('warn', 'main', '[send-whisper] Chat not connected', [recipient, payload?.sourceId]) } catch { /* ignore */ }
     return { success: false, error: 'Chat not connected. Connect to chat first.' }
   }
   try {
     try { fileLogger.writeLog('info', 'main', '[send-whisper] Attempt', [recipient, message.length]) } catch { /* ignore */ }
     const line = `PRIVMSG ${JSON.stringify({ nick: recipient, data: message })}`
-    const sent = sendChatRaw(line)
+    const sent = sendChatRaw(line, payload?.sourceId)
     if (sent) {
       try { fileLogger.writeLog('info', 'main', '[send-whisper] OK (WebSocket)', [recipient]) } catch { /* ignore */ }
     } else {
@@ -3246,11 +3578,11 @@ ipcMain.handle('chat-source-send-whisper', async (_event, payload: { sourceId?:
 })
 
 /** GET chat source API unread messages — returns list of unread private message summaries. sourceId optional; primary used if omitted. */
-ipcMain.handle('chat-source-messages-unread', async (_event, _payload?: { sourceId?: string }) => {
+ipcMain.handle('chat-source-messages-unread', async (_event, payload?: { sourceId?: string }) => {
   try {
-    const primary = getPrimaryChatSource()
-    if (!primary) return { success: false, error: 'Chat source extension not installed', data: null }
-    const { config } = primary
+    const source = getChatSource(payload?.sourceId)
+    if (!source) return { success: false, error: 'Chat source extension not installed', data: null }
+    const { config } = source
     const cookieStr = await getCookiesForUrl(config.baseUrl)
     if (!cookieStr) return { success: false, error: 'Not logged in (no cookies)', data: null }
     const res = await fetch(`${config.baseUrl}${config.apiUnread}`, {
@@ -3277,9 +3609,9 @@ ipcMain.handle('chat-source-messages-inbox', async (_event, payload: { sourceId?
   const username = typeof payload?.username === 'string' ? payload.username.trim() : ''
   if (!username) return { success: false, error: 'Missing username', data: null }
   try {
-    const primary = getPrimaryChatSource()
-    if (!primary) return { success: false, error: 'Chat source extension not installed', data: null }
-    const { config } = primary
+    const source = getChatSource(payload?.sourceId)
+    if (!source) return { success: false, error: 'Chat source extension not installed', data: null }
+    const { config } = source
     const cookieStr = await getCookiesForUrl(config.baseUrl)
     if (!cookieStr) return { success: false, error: 'Not logged in (no cookies)', data: null }
     const encoded = encodeURIComponent(username)
@@ -3304,12 +3636,12 @@ ipcMain.handle('chat-source-messages-inbox', async (_event, payload: { sourceId?
 
 /** Send "watching" to chat WebSocket so embeds can show who is watching what.
  * Not wired to UI yet (may be against TOS). Callable via ipcRenderer.invoke('chat-websocket-send-watching', { platform, id }). */
-ipcMain.handle('chat-websocket-send-watching', async (_event, payload: { platform: string; id: string }) => {
+ipcMain.handle('chat-websocket-send-watching', async (_event, payload: { sourceId?: string; platform: string; id: string }) => {
   const platform = typeof payload?.platform === 'string' ? payload.platform.trim() : ''
   const id = typeof payload?.id === 'string' ? payload.id.trim() : ''
   if (!platform || !id) return { success: false, error: 'Missing platform or id' }
   const line = JSON.stringify({ type: 'watching', data: { platform, id } })
-  const sent = sendChatRaw(line)
+  const sent = sendChatRaw(line, payload?.sourceId)
   return { success: sent }
 })
 
@@ -3320,6 +3652,7 @@ ipcMain.handle('live-websocket-connect', async (_event) => {
     if (!primary) return { success: false, error: 'Chat source extension not installed', data: null }
     if (!liveWebSocket) {
       liveWebSocket = new LiveWebSocket(primary.config.liveWssUrl, primary.config.liveOrigin)
+      liveWebSocketSourceId = primary.id
 
       const safeSend = (channel: string, ...args: any[]) => {
         try {
@@ -3366,12 +3699,13 @@ ipcMain.handle('live-websocket-connect', async (_event) => {
               }
             },
           }
-          try {
-            handler(data, api)
-          } catch (err) {
-            fileLogger.writeLog('warn', 'main', '[live-websocket] handler_error', [String(err)])
-            safeSend('live-websocket-message', data)
-          }
+          // Handlers run in the extension host, so failures (and timeouts) arrive asynchronously
+          Promise.resolve()
+            .then(() => handler(data, api))
+            .catch((err) => {
+              fileLogger.writeLog('warn', 'main', '[live-websocket] handler_error', [String(err)])
+              safeSend('live-websocket-message', data)
+            })
         } else {
           safeSend('live-websocket-message', data)
         }
@@ -3411,47 +3745,167 @@ ipcMain.handle('live-websocket-send', async (_event, data: { type: string; data:
   }
 })
 
-// Kick (Pusher) chat IPC handlers
-ipcMain.handle('kick-chat-set-targets', async (_event, payload: { slugs: string[] }) => {
+/** Send to the main window's renderer if it (and its webContents) is still alive. */
+function sendToMainWindow(channel: string, ...args: unknown[]) {
   try {
-    const slugs = Array.isArray(payload?.slugs) ? payload.slugs : []
-    if (!kickChatManager) {
-      kickChatManager = new KickChatManager()
+    if (!win || win.isDestroyed()) return
+    if (!win.webContents || win.webContents.isDestroyed()) return
+    win.webContents.send(channel, ...args)
+  } catch {
+    // ignore
+  }
+}
 
-      const safeSend = (channel: string, ...args: any[]) => {
-        try {
-          if (!win) return
-          let isDestroyed = false
-          try {
-            isDestroyed = win.isDestroyed()
-          } catch {
-            return
-          }
-          if (isDestroyed) return
-          if (!win.webContents) return
-          let webContentsDestroyed = false
-          try {
-            webContentsDestroyed = win.webContents.isDestroyed()
-          } catch {
-            return
-          }
-          if (webContentsDestroyed) return
-          win.webContents.send(channel, ...args)
-        } catch {
-          // ignore
-        }
-      }
+/** Send a chat event (or extensions-reloaded) to the main window and, when the combined chat is popped out, to the chat popout. */
+function sendToChatWindows(channel: string, ...args: unknown[]) {
+  sendToMainWindow(channel, ...args)
+  sendToPopoutWindow('chat', channel, ...args)
+}
+
+/** Normalize via the provider; extension providers may throw or return junk, which is logged and skipped. */
+function providerChatLine(provider: ChatProvider, kind: 'message' | 'event', payload: unknown): ChatLine | null {
+  try {
+    const line = kind === 'message' ? provider.toChatLine(payload) : provider.eventToChatLine?.(payload) ?? null
+    if (!line || typeof line !== 'object') return null
+    return {
+      source: provider.id,
+      channel: String(line.channel ?? ''),
+      tsMs: typeof line.tsMs === 'number' && Number.isFinite(line.tsMs) ? line.tsMs : Date.now(),
+      nick: String(line.nick ?? ''),
+      content: String(line.content ?? ''),
+      id: line.id != null ? String(line.id) : undefined,
+      color: typeof line.color === 'string' ? line.color : undefined,
+    }
+  } catch (e) {
+    fileLogger.writeLog('warn', 'main', '[ChatProvider] to_chat_line_failed', [provider.id, kind, e instanceof Error ? e.message : String(e)])
+    return null
+  }
+}
+
+// Every chat provider (built-in or extension) is archived and forwarded the same way.
+onChatProviderRegistered((provider) => {
+  provider.on('message', (msg) => {
+    const line = providerChatLine(provider, 'message', msg)
+    chatArchive.append(line)
+    if (provider.rendererChannels) sendToChatWindows(provider.rendererChannels.message, msg)
+    else if (line) sendToChatWindows('chat-provider-message', { providerId: provider.id, line })
+  })
+  provider.on('event', (evt) => {
+    const line = providerChatLine(provider, 'event', evt)
+    chatArchive.append(line)
+    if (provider.rendererChannels) sendToChatWindows(provider.rendererChannels.event, evt)
+    else if (line) sendToChatWindows('chat-provider-event', { providerId: provider.id, line })
+  })
+})
+
+/** Twitch OAuth token from the auth-token cookie (persist:main), set by logging in via Connections. */
+async function getTwitchAuthToken(): Promise<string | null> {
+  const cookies = await getDefaultSession().cookies.get({ url: 'https://www.twitch.tv/' })
+  const authCookie = cookies.find((c) => c.name === 'auth-token')
+  return authCookie?.value?.trim() || null
+}
+
+/** Current Twitch login (if any), so the IRC manager connects authenticated and can PRIVMSG. */
+async function resolveTwitchChatAuth(): Promise<TwitchIrcAuth | null> {
+  const token = await getTwitchAuthToken()
+  const login = token ? await fetchTwitchTokenLogin(token) : null
+  return token && login ? { token, login } : null
+}
+
+/** Twitch GQL send (gql.twitch.tv), used when IRC isn't authenticated. Uses the auth-token cookie from persist:main. */
+async function sendTwitchMessageGql(channel: string, content: string): Promise<ChatSendResult> {
+  const oauthToken = await getTwitchAuthToken()
+  if (!oauthToken) {
+    return { success: false, error: 'Not logged in to Twitch (add cookies in Connections)' }
+  }
+  const channelResult = await getChannelIdByLogin(channel)
+  if ('error' in channelResult) return { success: false, error: channelResult.error }
+  return await sendTwitchChatMessageGql(oauthToken, channelResult.channelId, content)
+}
 
-      kickChatManager.on('message', (msg) => safeSend('kick-chat-message', msg))
+let twitchAuthRefreshTimer: ReturnType<typeof setTimeout> | null = null
+
+/** Register Kick, YouTube and Twitch as chat providers. Called once at startup, before extensions load. */
+function registerBuiltinChatProviders() {
+  registerChatProvider(new KickChatManager())
+  registerChatProvider(new YouTubeChatManager())
+
+  const twitchChatManager = new TwitchChatManager()
+  twitchChatManager.setAuthResolver(resolveTwitchChatAuth)
+  twitchChatManager.setSendFallback(sendTwitchMessageGql)
+  // Login/logout via Connections (login window, pasted cookies, clear) changes auth-token; re-auth IRC.
+  getDefaultSession().cookies.on('changed', (_e, cookie) => {
+    if (cookie.name !== 'auth-token' || !cookie.domain?.includes('twitch.tv')) return
+    if (twitchAuthRefreshTimer) clearTimeout(twitchAuthRefreshTimer)
+    twitchAuthRefreshTimer = setTimeout(() => {
+      twitchAuthRefreshTimer = null
+      twitchChatManager.refreshAuth().catch(() => {})
+    }, 500)
+  })
+  registerChatProvider(twitchChatManager)
+}
+
+/** Registered chat providers (built-in + extension) for the renderer. */
+ipcMain.handle('chat-provider-list', async () => {
+  return getChatProviderInfos()
+})
+
+/**
+ * Set the channels a chat provider reads (Kick slugs, YouTube video ids, Twitch logins, extension targets).
+ * opts is provider-specific (e.g. YouTube { delayMultiplier }).
+ */
+ipcMain.handle(
+  'chat-provider-set-targets',
+  async (_event, payload: { providerId: string; targets: string[]; opts?: Record<string, unknown> }) => {
+    try {
+      const provider = getChatProvider(payload?.providerId)
+      if (!provider) return { success: false, error: `Unknown chat provider: ${payload?.providerId}` }
+      const targets = Array.isArray(payload?.targets) ? payload.targets.map((t) => String(t ?? '')) : []
+      await provider.setTargets(targets, payload?.opts)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) || 'Unknown error' }
     }
+  }
+)
+
+/** Send a chat message through a provider (Kick slug, YouTube video id, Twitch login, ...). */
+ipcMain.handle('chat-provider-send-message', async (_event, payload: { providerId: string; target: string; content: string }) => {
+  try {
+    const provider = getChatProvider(payload?.providerId)
+    if (!provider?.sendMessage) return { success: false, error: 'Sending is not supported for this chat' }
+    const target = typeof payload?.target === 'string' ? payload.target.trim() : ''
+    const content = typeof payload?.content === 'string' ? payload.content : ''
+    if (!target) return { success: false, error: 'Missing target' }
+    return await provider.sendMessage(target, content)
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : String(e) }
+  }
+})
 
-    await kickChatManager.setTargets(slugs)
+ipcMain.handle('chat-provider-refetch-history', async (_event, payload: { providerId: string; targets?: string[] }) => {
+  try {
+    const provider = getChatProvider(payload?.providerId)
+    if (!provider?.refetchHistory) return { success: false, error: 'History is not supported for this chat' }
+    await provider.refetchHistory(Array.isArray(payload?.targets) ? payload.targets : [])
     return { success: true }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) || 'Unknown error' }
   }
 })
 
+/** Chat user count for a provider target (e.g. Kick from API when available); null when unknown. */
+ipcMain.handle('chat-provider-user-count', async (_event, payload: { providerId: string; target: string }) => {
+  try {
+    const provider = getChatProvider(payload?.providerId)
+    const target = typeof payload?.target === 'string' ? payload.target.trim() : ''
+    if (!provider?.getUserCount || !target) return null
+    return await provider.getUserCount(target)
+  } catch {
+    return null
+  }
+})
+
 // Kick history helpers (Cloudflare/cookie priming + retry)
 ipcMain.handle('kick-open-cookie-window', async (_event, payload?: { slug?: string }) => {
   try {
@@ -3484,7 +3938,7 @@ ipcMain.handle('kick-open-cookie-window', async (_event, payload?: { slug?: stri
     // After the user closes the window, re-attempt history fetches.
     w.on('closed', () => {
       try {
-        kickChatManager?.refetchHistory().catch(() => {})
+        getChatProvider('kick')?.refetchHistory?.().catch(() => {})
       } catch {
         // ignore
       }
@@ -3499,17 +3953,6 @@ ipcMain.handle('kick-open-cookie-window', async (_event, payload?: { slug?: stri
   }
 })
 
-ipcMain.handle('kick-chat-refetch-history', async (_event, payload?: { slugs?: string[] }) => {
-  try {
-    const slugs = Array.isArray(payload?.slugs) ? payload?.slugs : []
-    if (!kickChatManager) return { success: false, error: 'KickChatManager not initialized' }
-    await kickChatManager.refetchHistory(slugs)
-    return { success: true }
-  } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : String(error) || 'Unknown error' }
-  }
-})
-
 /** GET Kick /api/v2/channels/{slug}/me — current user's relationship (following, mod, subscription, etc.). */
 ipcMain.handle('kick-channel-me', async (_event, payload: { slug: string }) => {
   try {
@@ -3522,149 +3965,32 @@ ipcMain.handle('kick-channel-me', async (_event, payload: { slug: string }) => {
   }
 })
 
-/** Get Kick chat user count for a channel (from API when available). */
-ipcMain.handle('get-kick-chat-user-count', async (_event, payload: { slug: string }) => {
-  try {
-    const slug = typeof payload?.slug === 'string' ? payload.slug.trim() : ''
-    if (!slug) return null
-    return await getKickChatUserCount(slug)
-  } catch {
-    return null
-  }
-})
-
-/** POST Kick /api/v2/messages/send/{chatroomId} — send a chat message to a Kick channel. */
-ipcMain.handle('kick-send-message', async (_event, payload: { slug: string; content: string }) => {
-  try {
-    const slug = typeof payload?.slug === 'string' ? payload.slug.trim() : ''
-    const content = typeof payload?.content === 'string' ? payload.content : ''
-    if (!slug) return { success: false, error: 'Missing slug' }
-    if (kickChatManager) return await kickChatManager.sendMessage(slug, content)
-    return await sendKickMessage(slug, content)
-  } catch (e) {
-    return { success: false, error: e instanceof Error ? e.message : String(e) }
-  }
-})
-
-/** YouTube live chat send_message — send a chat message to a YouTube live stream. */
-ipcMain.handle('youtube-send-message', async (_event, payload: { videoId: string; content: string }) => {
-  try {
-    const videoId = typeof payload?.videoId === 'string' ? payload.videoId.trim() : ''
-    const content = typeof payload?.content === 'string' ? payload.content : ''
-    if (!videoId) return { success: false, error: 'Missing videoId' }
-    if (!youTubeChatManager) return { success: false, error: 'YouTube chat not initialized' }
-    return await youTubeChatManager.sendMessage(videoId, content)
-  } catch (e) {
-    return { success: false, error: e instanceof Error ? e.message : String(e) }
-  }
-})
-
-// YouTube chat IPC handlers (polls youtubei live_chat endpoint)
-ipcMain.handle(
-  'youtube-chat-set-targets',
-  async (_event, payload: { videoIds: string[]; opts?: { delayMultiplier?: number } }) => {
+/**
+ * Badge images and (optionally) BTTV/FFZ/7TV emotes for a Twitch channel, used by Combined Chat to render
+ * the badges/emote tags on twitch-chat-message. Failures of one provider don't fail the whole call.
+ */
+ipcMain.handle('twitch-chat-get-channel-assets', async (_event, payload: { channel: string; thirdParty?: boolean }) => {
   try {
-    const videoIds = Array.isArray(payload?.videoIds) ? payload.videoIds : []
-    const opts = payload?.opts
-
-    if (!youTubeChatManager) {
-      youTubeChatManager = new YouTubeChatManager()
-
-      const safeSend = (channel: string, ...args: any[]) => {
-        try {
-          if (!win) return
-          let isDestroyed = false
-          try {
-            isDestroyed = win.isDestroyed()
-          } catch {
-            return
-          }
-          if (isDestroyed) return
-          if (!win.webContents) return
-          let webContentsDestroyed = false
-          try {
-            webContentsDestroyed = win.webContents.isDestroyed()
-          } catch {
-            return
-          }
-          if (webContentsDestroyed) return
-          win.webContents.send(channel, ...args)
-        } catch {
-          // ignore
-        }
-      }
+    const channel = typeof payload?.channel === 'string' ? payload.channel.trim().toLowerCase() : ''
+    if (!channel) return { success: false, error: 'Missing channel' }
 
-      youTubeChatManager.on('message', (msg) => safeSend('youtube-chat-message', msg))
+    const badgeResult = await fetchChatBadges(channel)
+    if ('error' in badgeResult) {
+      fileLogger.writeLog('warn', 'main', '[Twitch] chat_badges_failed', [channel, badgeResult.error])
     }
-
-    await youTubeChatManager.setTargets(videoIds, opts)
-    return { success: true }
-  } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : String(error) || 'Unknown error' }
-  }
-})
-
-// Twitch chat IPC handlers (IRC over WebSocket)
-ipcMain.handle('twitch-chat-set-targets', async (_event, payload: { channels: string[] }) => {
-  try {
-    const channels = Array.isArray(payload?.channels) ? payload.channels : []
-
-    if (!twitchChatManager) {
-      twitchChatManager = new TwitchChatManager()
-
-      const safeSend = (channel: string, ...args: any[]) => {
-        try {
-          if (!win) return
-          let isDestroyed = false
-          try {
-            isDestroyed = win.isDestroyed()
-          } catch {
-            return
-          }
-          if (isDestroyed) return
-          if (!win.webContents) return
-          let webContentsDestroyed = false
-          try {
-            webContentsDestroyed = win.webContents.isDestroyed()
-          } catch {
-            return
-          }
-          if (webContentsDestroyed) return
-          win.webContents.send(channel, ...args)
-        } catch {
-          // ignore
-        }
+    const badges = 'error' in badgeResult ? {} : badgeResult.badges
+    let channelId = 'error' in badgeResult ? undefined : badgeResult.channelId
+
+    let emotes: Awaited<ReturnType<typeof fetchThirdPartyEmotes>> = []
+    if (payload?.thirdParty) {
+      if (!channelId) {
+        const idResult = await getChannelIdByLogin(channel)
+        if (!('error' in idResult)) channelId = idResult.channelId
       }
-
-      twitchChatManager.on('message', (msg) => safeSend('twitch-chat-message', msg))
-    }
-
-    await twitchChatManager.setTargets(channels)
-    return { success: true }
-  } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : String(error) || 'Unknown error' }
-  }
-})
-
-/** Twitch chat send via GQL (gql.twitch.tv). Uses auth-token cookie from persist:main; login in Connections to send. */
-ipcMain.handle('twitch-send-message', async (_event, payload: { channel: string; content: string }) => {
-  try {
-    const channel = typeof payload?.channel === 'string' ? payload.channel.trim() : ''
-    const content = typeof payload?.content === 'string' ? payload.content : ''
-    if (!channel) return { success: false, error: 'Missing channel' }
-
-    const ses = getDefaultSession()
-    const cookies = await ses.cookies.get({ url: 'https://www.twitch.tv/' })
-    const authCookie = cookies.find((c) => c.name === 'auth-token')
-    const oauthToken = authCookie?.value?.trim()
-    if (!oauthToken) {
-      return { success: false, error: 'Not logged in to Twitch (add cookies in Connections)' }
+      if (channelId) emotes = await fetchThirdPartyEmotes(channelId)
     }
 
-    const channelResult = await getChannelIdByLogin(channel)
-    if ('error' in channelResult) return { success: false, error: channelResult.error }
-
-    return await sendTwitchChatMessageGql(oauthToken, channelResult.channelId, content)
+    return { success: true, channelId, badges, emotes }
   } catch (e) {
     return { success: false, error: e instanceof Error ? e.message : String(e) }
   }
@@ -3776,14 +4102,13 @@ process.on('unhandledRejection', (reason, _promise) => {
 
 // Cleanup on app quit
 app.on('before-quit', () => {
-  if (chatWebSocket) {
-    chatWebSocket.destroy()
-    chatWebSocket = null
-  }
+  destroyAllChatWebSockets()
   if (liveWebSocket) {
     liveWebSocket.destroy()
     liveWebSocket = null
   }
+  stopExtensions()
+  chatArchive.close()
   fileLogger.close()
 })
 
@@ -3860,6 +4185,7 @@ app.whenReady().then(() => {
     if (url) {
       try { fileLogger.writeLog('info', 'main', '[protocol] second-instance URL', [url.slice(0, 120)]) } catch { /* ignore */ }
       handleProtocolUrl(url, {
+        confirmInstall: confirmExtensionInstall,
         sendProtocolResult: (result) => {
           if (win && !win.isDestroyed()) win.webContents.send('protocol-result', result)
           try { fileLogger.writeLog('info', 'main', '[protocol] result sent to renderer', [result.ok ? 'ok' : result.message]) } catch { /* ignore */ }
@@ -3878,6 +4204,7 @@ app.whenReady().then(() => {
     event.preventDefault()
     if (parseProtocolUrl(url)) {
       handleProtocolUrl(url, {
+        confirmInstall: confirmExtensionInstall,
         sendProtocolResult: (result) => {
           if (win && !win.isDestroyed()) win.webContents.send('protocol-result', result)
         }
@@ -3885,8 +4212,15 @@ app.whenReady().then(() => {
     }
   })
 
-  // Load installed extensions (metadata only for now)
+  // Built-in chat providers first so extensions can't claim their ids
+  registerBuiltinChatProviders()
+
+  // Load installed extensions, each in its own extension host process. Their registrations arrive asynchronously,
+  // so the renderer refetches app config whenever one changes.
+  onExtensionsChanged(() => sendToChatWindows('extensions-reloaded'))
+  onExtensionDeactivating((_extensionId, chatSourceIds) => teardownChatSourceConnections(chatSourceIds))
   loadExtensions()
+  startExtensionUpdateChecks()
 
   // Clear expired cache entries on startup
   mentionCache.clearExpired()
@@ -3899,6 +4233,7 @@ app.whenReady().then(() => {
   if (argvUrl) {
     try { fileLogger.writeLog('info', 'main', '[protocol] launch URL (pending until load)', [argvUrl.slice(0, 120)]) } catch { /* ignore */ }
     handleProtocolUrl(argvUrl, {
+      confirmInstall: confirmExtensionInstall,
       sendProtocolResult: (result) => {
         pendingProtocolResults.push(result)
       }
@@ -1,6 +1,7 @@
 import WebSocket from 'ws'
 import { EventEmitter } from 'events'
 import { fileLogger } from './fileLogger'
+import type { ChatLine, ChatProvider, ChatSendResult } from './chatProvider'
 
 export type TwitchChatMessage = {
   platform: 'twitch'
@@ -11,6 +12,152 @@ export type TwitchChatMessage = {
   displayName: string
   userId?: string
   text: string
+  /** Twitch channel (broadcaster) id from the room-id tag; used to look up channel badges and third-party emotes. */
+  roomId?: string
+  /** Native Twitch emotes in text. start/end are UTF-16 indices into text (end exclusive). */
+  emotes?: TwitchEmotePosition[]
+  /** Chat badges from the badges tag (e.g. subscriber/12, moderator/1); resolved to images via fetchChatBadges. */
+  badges?: TwitchBadgeRef[]
+  /** /me message (CTCP ACTION); text has the ACTION wrapper stripped. */
+  action?: boolean
+}
+
+export type TwitchEmotePosition = { id: string; start: number; end: number }
+
+export type TwitchBadgeRef = { setId: string; version: string }
+
+/** Chat room modes from ROOMSTATE. Only fields present in the IRC line are set (changes carry a single field). */
+export type TwitchRoomModes = {
+  /** Slow mode seconds (0 = off). */
+  slowSec?: number
+  subsOnly?: boolean
+  emoteOnly?: boolean
+  /** Followers-only minimum follow age in minutes (-1 = off). */
+  followersOnlyMin?: number
+  uniqueChat?: boolean
+}
+
+/** USERNOTICE msg-id values we render with a dedicated style; others render as a generic notice. */
+export type TwitchUserNoticeKind = 'sub' | 'resub' | 'subgift' | 'submysterygift' | 'raid' | 'announcement' | 'other'
+
+/** Non-message IRC events (emitted as 'event'): moderation, deletions, subs/raids, room mode changes. */
+export type TwitchChatEvent =
+  | {
+      platform: 'twitch'
+      type: 'clearchat'
+      channel: string
+      tsMs: number
+      /** Missing when the whole chat was cleared. */
+      targetLogin?: string
+      targetUserId?: string
+      /** Present for timeouts; missing for permanent bans. */
+      banDurationSec?: number
+    }
+  | {
+      platform: 'twitch'
+      type: 'clearmsg'
+      channel: string
+      tsMs: number
+      targetMessageId: string
+      login?: string
+      text?: string
+    }
+  | {
+      platform: 'twitch'
+      type: 'usernotice'
+      channel: string
+      tsMs: number
+      kind: TwitchUserNoticeKind
+      /** Raw msg-id tag (e.g. sub, resub, subgift, raid, announcement, bitsbadgetier). */
+      msgId: string
+      displayName: string
+      login?: string
+      /** Twitch's human-readable summary (system-msg tag). */
+      systemMsg: string
+      /** Optional user message attached to the notice (e.g. resub message). */
+      text?: string
+      months?: number
+      recipientDisplayName?: string
+      giftCount?: number
+      viewerCount?: number
+      subPlan?: string
+      /** Shared by a submysterygift and the individual subgift notices it produces. */
+      communityGiftId?: string
+    }
+  | {
+      platform: 'twitch'
+      type: 'roomstate'
+      channel: string
+      tsMs: number
+      modes: TwitchRoomModes
+    }
+
+const USERNOTICE_KINDS: Record<string, TwitchUserNoticeKind> = {
+  sub: 'sub',
+  resub: 'resub',
+  subgift: 'subgift',
+  anonsubgift: 'subgift',
+  submysterygift: 'submysterygift',
+  anonsubmysterygift: 'submysterygift',
+  raid: 'raid',
+  announcement: 'announcement',
+}
+
+/** USERNOTICE msg-ids Twitch documents that we render generically (not logged as discrepancies). */
+const KNOWN_OTHER_USERNOTICE_IDS = new Set([
+  'giftpaidupgrade',
+  'anongiftpaidupgrade',
+  'primepaidupgrade',
+  'rewardgift',
+  'ritual',
+  'bitsbadgetier',
+  'unraid',
+  'viewermilestone',
+  'sharedchatnotice',
+  'onetapgiftredeemed',
+])
+
+/** OAuth identity for authenticated IRC (token from the twitch.tv auth-token cookie, login from /oauth2/validate). */
+export type TwitchIrcAuth = {
+  token: string
+  login: string
+}
+
+const tokenLoginCache = new Map<string, string>()
+
+/** How long a PRIVMSG waits for Twitch to accept (USERSTATE) or reject (NOTICE) it. */
+const SEND_ACK_TIMEOUT_MS = 5000
+
+/** Reply to a sent PRIVMSG: the accepting USERSTATE's tags, or the rejecting NOTICE's text. */
+type SendAck = { ok: true; tags: Record<string, string> | null } | { ok: false; error: string }
+
+/**
+ * Resolve the login name for an OAuth token via id.twitch.tv/oauth2/validate.
+ * Returns null when the token is invalid/expired (user must log in again in Connections).
+ */
+export async function fetchTwitchTokenLogin(token: string): Promise<string | null> {
+  const t = String(token || '').trim()
+  if (!t) return null
+  const cached = tokenLoginCache.get(t)
+  if (cached) return cached
+  try {
+    const res = await fetch('https://id.twitch.tv/oauth2/validate', {
+      method: 'GET',
+      headers: { Authorization: `OAuth ${t}`, Accept: 'application/json' },
+    })
+    if (!res.ok) {
+      fileLogger.writeLog('warn', 'main', '[Twitch] token_validate_failed', [res.status])
+      return null
+    }
+    const json = (await res.json().catch(() => null)) as { login?: string } | null
+    const login = safeLower(json?.login || '')
+    if (!login) return null
+    tokenLoginCache.set(t, login)
+    return login
+  } catch (e) {
+    fileLogger.writeLog('warn', 'main', '[Twitch] token_validate_error', [e instanceof Error ? e.message : String(e)])
+    return null
+  }
 }
 
 function randInt(min: number, max: number) {
@@ -21,6 +168,18 @@ function safeLower(s: string) {
   return String(s || '').trim().toLowerCase()
 }
 
+/** Undo IRCv3 tag value escaping (\s space, \: semicolon, \\ backslash, \r, \n). */
+function unescapeTagValue(v: string): string {
+  if (!v.includes('\\')) return v
+  return v.replace(/\\(.)/g, (_m, c: string) => {
+    if (c === 's') return ' '
+    if (c === ':') return ';'
+    if (c === 'r') return '\r'
+    if (c === 'n') return '\n'
+    return c
+  })
+}
+
 function parseIrcTags(tagStr: string): Record<string, string> {
   const out: Record<string, string> = {}
   const parts = tagStr.split(';')
@@ -28,29 +187,139 @@ function parseIrcTags(tagStr: string): Record<string, string> {
     if (!p) continue
     const eq = p.indexOf('=')
     if (eq < 0) out[p] = ''
-    else out[p.slice(0, eq)] = p.slice(eq + 1)
+    else out[p.slice(0, eq)] = unescapeTagValue(p.slice(eq + 1))
   }
   return out
 }
 
+/** Parse the badges tag: "subscriber/12,premium/1". */
+function parseBadgesTag(raw: string | undefined): TwitchBadgeRef[] | undefined {
+  if (!raw) return undefined
+  const out: TwitchBadgeRef[] = []
+  for (const part of raw.split(',')) {
+    const slash = part.indexOf('/')
+    if (slash <= 0) continue
+    out.push({ setId: part.slice(0, slash), version: part.slice(slash + 1) })
+  }
+  return out.length > 0 ? out : undefined
+}
+
+/**
+ * Parse the emotes tag: "25:0-4,12-16/1902:6-10". Twitch indices are code points (inclusive end);
+ * convert to UTF-16 indices with exclusive end so the renderer can slice the JS string directly.
+ */
+function parseEmotesTag(raw: string | undefined, text: string): TwitchEmotePosition[] | undefined {
+  if (!raw) return undefined
+  const codePoints = Array.from(text)
+  const utf16Offsets: number[] = new Array(codePoints.length + 1)
+  let offset = 0
+  for (let i = 0; i < codePoints.length; i++) {
+    utf16Offsets[i] = offset
+    offset += codePoints[i].length
+  }
+  utf16Offsets[codePoints.length] = offset
+
+  const out: TwitchEmotePosition[] = []
+  for (const group of raw.split('/')) {
+    const colon = group.indexOf(':')
+    if (colon <= 0) continue
+    const id = group.slice(0, colon)
+    for (const range of group.slice(colon + 1).split(',')) {
+      const [a, b] = range.split('-').map(Number)
+      if (!Number.isInteger(a) || !Number.isInteger(b) || a < 0 || b < a || b >= codePoints.length) continue
+      out.push({ id, start: utf16Offsets[a], end: utf16Offsets[b + 1] })
+    }
+  }
+  out.sort((x, y) => x.start - y.start)
+  return out.length > 0 ? out : undefined
+}
+
+/** Split "#channel :trailing" (trailing optional) into normalized channel + trailing text. */
+function parseChannelAndTrailing(afterCmd: string): { channel: string; trailing?: string } {
+  const sp = afterCmd.indexOf(' ')
+  const chanPart = sp >= 0 ? afterCmd.slice(0, sp) : afterCmd
+  const rest = sp >= 0 ? afterCmd.slice(sp + 1) : ''
+  const trailing = rest.startsWith(':') ? rest.slice(1) : rest || undefined
+  return { channel: safeLower(chanPart).replace(/^#/, ''), trailing }
+}
+
+function tagNumber(tags: Record<string, string> | null, key: string): number | undefined {
+  const raw = tags?.[key]
+  if (raw == null || raw === '') return undefined
+  const n = Number(raw)
+  return Number.isFinite(n) ? n : undefined
+}
+
+function tagTsMs(tags: Record<string, string> | null): number {
+  return tagNumber(tags, 'tmi-sent-ts') ?? Date.now()
+}
+
+function parseRoomModes(tags: Record<string, string> | null): TwitchRoomModes {
+  const modes: TwitchRoomModes = {}
+  const slow = tagNumber(tags, 'slow')
+  if (slow !== undefined) modes.slowSec = slow
+  const subs = tagNumber(tags, 'subs-only')
+  if (subs !== undefined) modes.subsOnly = subs === 1
+  const emote = tagNumber(tags, 'emote-only')
+  if (emote !== undefined) modes.emoteOnly = emote === 1
+  const followers = tagNumber(tags, 'followers-only')
+  if (followers !== undefined) modes.followersOnlyMin = followers
+  const r9k = tagNumber(tags, 'r9k')
+  if (r9k !== undefined) modes.uniqueChat = r9k === 1
+  return modes
+}
+
+function hasActiveRoomMode(modes: TwitchRoomModes): boolean {
+  return (
+    (modes.slowSec ?? 0) > 0 ||
+    modes.subsOnly === true ||
+    modes.emoteOnly === true ||
+    (modes.followersOnlyMin ?? -1) >= 0 ||
+    modes.uniqueChat === true
+  )
+}
+
 function splitLines(data: WebSocket.Data): string[] {
   const raw = data.toString()
   // ws frames can contain multiple lines
   return raw.split('\r\n').filter(Boolean)
 }
 
-export class TwitchChatManager extends EventEmitter {
+export class TwitchChatManager extends EventEmitter implements ChatProvider<TwitchChatMessage, TwitchChatEvent> {
+  readonly id = 'twitch'
+  readonly label = 'Twitch'
+  readonly rendererChannels = { message: 'twitch-chat-message', event: 'twitch-chat-event' }
+
   private ws: WebSocket | null = null
   private desiredChannels = new Set<string>()
   private joinedChannels = new Set<string>()
   private reconnectTimer: NodeJS.Timeout | null = null
   private intentionallyClosed = false
-  private nick: string = `justinfan${randInt(10000, 999999)}`
+  private anonymousNick: string = `justinfan${randInt(10000, 999999)}`
+  private nick: string = this.anonymousNick
+  private auth: TwitchIrcAuth | null = null
+  /** Set when Twitch rejects the token; we fall back to anonymous until setAuth is called with a new token. */
+  private authFailed = false
+  /** True after GLOBALUSERSTATE (login accepted); PRIVMSG is only sent when authenticated. */
+  private authenticated = false
+  /** Our own display name/color from GLOBALUSERSTATE/USERSTATE, used for the local echo of sent messages. */
+  private selfState: { displayName?: string; color?: string; userId?: string; badges?: TwitchBadgeRef[] } = {}
+  /** Last known ROOMSTATE per channel, so rejoins only emit real mode changes. */
+  private roomModes = new Map<string, TwitchRoomModes>()
+  /** Looks up the current login (auth-token cookie); resolved before the first connect and on refreshAuth. */
+  private authResolver: (() => Promise<TwitchIrcAuth | null>) | null = null
+  private authResolved = false
+  /** Sent PRIVMSGs waiting for their USERSTATE / NOTICE, oldest first per channel (Twitch replies in order). */
+  private pendingSends = new Map<string, Array<(ack: SendAck) => void>>()
+  /** Used by sendMessage when IRC isn't authenticated (main sets a GQL sender). */
+  private sendFallback: ((channel: string, text: string) => Promise<ChatSendResult>) | null = null
 
   private url = 'wss://irc-ws.chat.twitch.tv/'
 
   async setTargets(channels: string[]): Promise<void> {
     const next = new Set(channels.map(safeLower).filter(Boolean))
+    // First use: connect authenticated from the start instead of reconnecting once auth arrives.
+    if (!this.authResolved && next.size > 0) await this.refreshAuth().catch(() => {})
     // Part removed
     for (const ch of Array.from(this.desiredChannels.values())) {
       if (next.has(ch)) continue
@@ -72,6 +341,45 @@ export class TwitchChatManager extends EventEmitter {
     }
   }
 
+  /**
+   * Set (or clear) the OAuth identity. Reconnects when it changes so the new identity takes effect;
+   * with no auth the connection is anonymous (justinfan, read-only).
+   */
+  setAuth(auth: TwitchIrcAuth | null): void {
+    const next = auth?.token && auth?.login ? { token: auth.token.trim(), login: safeLower(auth.login) } : null
+    const prev = this.auth
+    if (prev?.token === next?.token && prev?.login === next?.login) return
+    this.auth = next
+    this.authFailed = false
+    this.authenticated = false
+    this.selfState = {}
+    fileLogger.writeLog('info', 'main', '[Twitch] auth_changed', [next ? next.login : 'anonymous'])
+    if (this.ws) {
+      this.disconnect()
+      if (this.desiredChannels.size > 0) this.connect()
+    }
+  }
+
+  setAuthResolver(resolver: (() => Promise<TwitchIrcAuth | null>) | null): void {
+    this.authResolver = resolver
+  }
+
+  /** Re-resolve the login via the auth resolver (e.g. after the auth-token cookie changed). */
+  async refreshAuth(): Promise<void> {
+    if (!this.authResolver) return
+    this.authResolved = true
+    this.setAuth(await this.authResolver())
+  }
+
+  setSendFallback(fallback: ((channel: string, text: string) => Promise<ChatSendResult>) | null): void {
+    this.sendFallback = fallback
+  }
+
+  /** True when connected with a login Twitch accepted (PRIVMSG will be delivered). */
+  isAuthenticated(): boolean {
+    return this.authenticated && !!this.ws && this.ws.readyState === WebSocket.OPEN
+  }
+
   connect(): void {
     if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) return
 
@@ -88,9 +396,15 @@ export class TwitchChatManager extends EventEmitter {
     this.ws = ws
 
     ws.on('open', () => {
-      // Anonymous login
       this.sendRaw('CAP REQ :twitch.tv/tags twitch.tv/commands twitch.tv/membership')
-      this.sendRaw('PASS SCHMOOPIIE')
+      if (this.auth && !this.authFailed) {
+        this.nick = this.auth.login
+        this.sendRaw(`PASS oauth:${this.auth.token}`)
+      } else {
+        // Anonymous login
+        this.nick = this.anonymousNick
+        this.sendRaw('PASS SCHMOOPIIE')
+      }
       this.sendRaw(`NICK ${this.nick}`)
 
       // Join desired channels NOW that socket is open.
@@ -120,8 +434,12 @@ export class TwitchChatManager extends EventEmitter {
 
     ws.on('close', (code, reason) => {
       const text = reason?.toString?.() || ''
+      // Replaced by a newer socket (e.g. setAuth reconnect); nothing to clean up.
+      if (this.ws !== ws) return
       this.ws = null
+      this.authenticated = false
       this.joinedChannels.clear()
+      this.settlePendingSends({ ok: false, error: 'Disconnected from Twitch chat before the message was confirmed' })
       if (!this.intentionallyClosed && this.desiredChannels.size > 0) this.scheduleReconnect()
       this.emit('disconnected', { code, reason: text })
     })
@@ -145,7 +463,26 @@ export class TwitchChatManager extends EventEmitter {
       // ignore
     }
     this.ws = null
+    this.authenticated = false
     this.joinedChannels.clear()
+    this.settlePendingSends({ ok: false, error: 'Disconnected from Twitch chat before the message was confirmed' })
+  }
+
+  /** Answer every PRIVMSG still waiting for Twitch's reply (socket closed). */
+  private settlePendingSends(ack: SendAck): void {
+    const pending = Array.from(this.pendingSends.values()).flat()
+    this.pendingSends.clear()
+    for (const settle of pending) settle(ack)
+  }
+
+  /** Hand Twitch's reply to the oldest PRIVMSG waiting in that channel; false when none is. */
+  private ackPendingSend(channel: string, ack: SendAck): boolean {
+    const queue = this.pendingSends.get(channel)
+    const settle = queue?.shift()
+    if (queue && queue.length === 0) this.pendingSends.delete(channel)
+    if (!settle) return false
+    settle(ack)
+    return true
   }
 
   private scheduleReconnect(): void {
@@ -184,19 +521,76 @@ export class TwitchChatManager extends EventEmitter {
     if (!this.joinedChannels.has(ch)) return
     this.sendRaw(`PART #${ch}`)
     this.joinedChannels.delete(ch)
+    this.roomModes.delete(ch)
   }
 
   /**
-   * Send a chat message to a channel. Current connection is anonymous (justinfan) so Twitch
-   * will not accept PRIVMSG. Returns stub error until OAuth/login is implemented.
+   * Send a chat message. Prefers authenticated IRC; falls back to the send fallback (GQL) when IRC isn't
+   * authenticated or the message couldn't be sent over IRC. Messages Twitch rejected (slow mode, followers-only, …)
+   * or didn't confirm in time are not sent again, so they can't show up twice.
    */
-  async sendMessage(channel: string, text: string): Promise<{ success: boolean; error?: string }> {
+  async sendMessage(channel: string, text: string): Promise<ChatSendResult> {
+    let ircResult: ChatSendResult | null = null
+    if (this.isAuthenticated()) {
+      const { sent, ...result } = await this.sendIrcMessage(channel, text)
+      ircResult = result
+      if (ircResult.success || sent || !this.sendFallback) return ircResult
+      fileLogger.writeLog('info', 'main', '[Twitch] send_message irc_failed_fallback_gql', [ircResult.error])
+    }
+    if (this.sendFallback) return await this.sendFallback(safeLower(String(channel || '').trim()).replace(/^#/, ''), text)
+    return ircResult ?? (await this.sendIrcMessage(channel, text))
+  }
+
+  /**
+   * Send a chat message to a joined channel over authenticated IRC and wait for Twitch to accept it (USERSTATE with
+   * the message id) or reject it (NOTICE). Fails without sending when the connection is anonymous, auth was rejected
+   * or the channel isn't joined. Twitch does not echo our own PRIVMSG back on the same connection, so once accepted a
+   * local copy is emitted as a 'message'. `sent` is true when the PRIVMSG went out.
+   */
+  private async sendIrcMessage(channel: string, text: string): Promise<ChatSendResult & { sent?: boolean }> {
     const ch = safeLower(String(channel || '').trim()).replace(/^#/, '')
-    const trimmed = String(text || '').trim()
+    const trimmed = String(text || '').replace(/[\r\n]+/g, ' ').trim()
     if (!ch) return { success: false, error: 'Missing channel' }
     if (!trimmed) return { success: false, error: 'Message is empty' }
-    // Stub: sending requires authenticated IRC (OAuth). When auth is added, send PRIVMSG here.
-    return { success: false, error: 'Twitch send requires login (not yet implemented)' }
+    if (!this.isAuthenticated()) {
+      return { success: false, error: this.authFailed ? 'Twitch login rejected (log in again in Connections)' : 'Twitch IRC not authenticated' }
+    }
+    if (!this.joinedChannels.has(ch)) return { success: false, error: `Not in #${ch} chat` }
+
+    const ack = await new Promise<SendAck>((resolve) => {
+      const timer = setTimeout(() => {
+        const queue = this.pendingSends.get(ch)
+        const i = queue?.indexOf(settle) ?? -1
+        if (queue && i >= 0) queue.splice(i, 1)
+        if (queue && queue.length === 0) this.pendingSends.delete(ch)
+        resolve({ ok: false, error: 'Twitch did not confirm the message' })
+      }, SEND_ACK_TIMEOUT_MS)
+      const settle = (result: SendAck) => {
+        clearTimeout(timer)
+        resolve(result)
+      }
+      this.pendingSends.set(ch, [...(this.pendingSends.get(ch) ?? []), settle])
+      this.sendRaw(`PRIVMSG #${ch} :${trimmed}`)
+    })
+    if (!ack.ok) {
+      fileLogger.writeLog('warn', 'main', '[Twitch] send_message irc_rejected', [ch, ack.error])
+      return { success: false, sent: true, error: ack.error }
+    }
+    fileLogger.writeLog('info', 'main', '[Twitch] send_message irc', [ch])
+
+    const msg: TwitchChatMessage = {
+      platform: 'twitch',
+      channel: ch,
+      id: ack.tags?.id || `local-${Date.now()}-${Math.random().toString(16).slice(2)}`,
+      tmiSentTs: tagTsMs(ack.tags),
+      color: this.selfState.color,
+      displayName: this.selfState.displayName || this.nick,
+      userId: this.selfState.userId,
+      text: trimmed,
+      badges: this.selfState.badges,
+    }
+    this.emit('message', msg)
+    return { success: true }
   }
 
   private handleLine(line: string): void {
@@ -230,6 +624,127 @@ export class TwitchChatManager extends EventEmitter {
     const command = firstSpace > 0 ? rest.slice(0, firstSpace) : rest
     const afterCmd = firstSpace > 0 ? rest.slice(firstSpace + 1) : ''
 
+    if (command === 'GLOBALUSERSTATE' || command === 'USERSTATE') {
+      if (command === 'GLOBALUSERSTATE' && this.auth && !this.authFailed && !this.authenticated) {
+        this.authenticated = true
+        fileLogger.writeLog('info', 'main', '[Twitch] irc_authenticated', [this.nick])
+      }
+      if (tags) {
+        this.selfState = {
+          displayName: tags['display-name'] || this.selfState.displayName,
+          color: tags.color || this.selfState.color,
+          userId: tags['user-id'] || this.selfState.userId,
+          badges: parseBadgesTag(tags.badges) ?? this.selfState.badges,
+        }
+      }
+      // A USERSTATE with a message id accepts our PRIVMSG (the one sent on JOIN has none)
+      if (command === 'USERSTATE' && tags?.id) this.ackPendingSend(parseChannelAndTrailing(afterCmd).channel, { ok: true, tags })
+      return
+    }
+
+    if (command === 'NOTICE') {
+      const colon = afterCmd.indexOf(' :')
+      const text = colon >= 0 ? afterCmd.slice(colon + 2) : afterCmd
+      if (/login authentication failed|improperly formatted auth/i.test(text)) {
+        // Twitch closes the socket after this; the reconnect goes anonymous.
+        this.authFailed = true
+        this.authenticated = false
+        fileLogger.writeLog('warn', 'main', '[Twitch] irc_auth_failed', [this.auth?.login ?? '', text])
+      } else {
+        // msg_* notices reject the PRIVMSG we sent (msg_slowmode, msg_followersonly, msg_banned, msg_duplicate, …)
+        const msgId = tags?.['msg-id'] ?? ''
+        const rejected = msgId.startsWith('msg_') && this.ackPendingSend(parseChannelAndTrailing(afterCmd).channel, { ok: false, error: text || msgId })
+        if (!rejected) fileLogger.writeLog('info', 'main', '[Twitch] notice', [msgId, text.slice(0, 200)])
+      }
+      return
+    }
+
+    if (command === 'CLEARCHAT') {
+      const { channel, trailing } = parseChannelAndTrailing(afterCmd)
+      if (!channel) return
+      const evt: TwitchChatEvent = {
+        platform: 'twitch',
+        type: 'clearchat',
+        channel,
+        tsMs: tagTsMs(tags),
+        targetLogin: trailing ? safeLower(trailing) : undefined,
+        targetUserId: tags?.['target-user-id'] || undefined,
+        banDurationSec: tagNumber(tags, 'ban-duration'),
+      }
+      this.emit('event', evt)
+      return
+    }
+
+    if (command === 'CLEARMSG') {
+      const { channel, trailing } = parseChannelAndTrailing(afterCmd)
+      const targetMessageId = tags?.['target-msg-id']
+      if (!channel || !targetMessageId) return
+      const evt: TwitchChatEvent = {
+        platform: 'twitch',
+        type: 'clearmsg',
+        channel,
+        tsMs: tagTsMs(tags),
+        targetMessageId,
+        login: tags?.login || undefined,
+        text: trailing,
+      }
+      this.emit('event', evt)
+      return
+    }
+
+    if (command === 'USERNOTICE') {
+      const { channel, trailing } = parseChannelAndTrailing(afterCmd)
+      if (!channel) return
+      const msgId = tags?.['msg-id'] || ''
+      const kind = USERNOTICE_KINDS[msgId] ?? 'other'
+      if (kind === 'other' && !KNOWN_OTHER_USERNOTICE_IDS.has(msgId)) {
+        fileLogger.writeWsDiscrepancy('twitch', 'usernotice_unknown_msg_id', { msgId, channel, raw: line })
+      }
+      const evt: TwitchChatEvent = {
+        platform: 'twitch',
+        type: 'usernotice',
+        channel,
+        tsMs: tagTsMs(tags),
+        kind,
+        msgId,
+        displayName: tags?.['display-name'] || tags?.login || 'twitch',
+        login: tags?.login || undefined,
+        systemMsg: tags?.['system-msg'] || '',
+        text: trailing,
+        months: tagNumber(tags, 'msg-param-cumulative-months') ?? tagNumber(tags, 'msg-param-months'),
+        recipientDisplayName: tags?.['msg-param-recipient-display-name'] || undefined,
+        giftCount: tagNumber(tags, 'msg-param-mass-gift-count'),
+        viewerCount: tagNumber(tags, 'msg-param-viewerCount'),
+        subPlan: tags?.['msg-param-sub-plan'] || undefined,
+        communityGiftId: tags?.['msg-param-community-gift-id'] || undefined,
+      }
+      this.emit('event', evt)
+      return
+    }
+
+    if (command === 'ROOMSTATE') {
+      const { channel } = parseChannelAndTrailing(afterCmd)
+      if (!channel) return
+      const modes = parseRoomModes(tags)
+      const prev = this.roomModes.get(channel)
+      this.roomModes.set(channel, { ...prev, ...modes })
+      // Full state on join: only surface it when some mode is active. Later partial lines are real changes.
+      let changed: TwitchRoomModes
+      if (!prev) {
+        if (!hasActiveRoomMode(modes)) return
+        changed = modes
+      } else {
+        changed = {}
+        for (const key of Object.keys(modes) as (keyof TwitchRoomModes)[]) {
+          if (modes[key] !== prev[key]) (changed as Record<string, unknown>)[key] = modes[key]
+        }
+        if (Object.keys(changed).length === 0) return
+      }
+      const evt: TwitchChatEvent = { platform: 'twitch', type: 'roomstate', channel, tsMs: Date.now(), modes: changed }
+      this.emit('event', evt)
+      return
+    }
+
     if (command === 'PRIVMSG') {
       // afterCmd: "#channel :message"
       const chanEnd = afterCmd.indexOf(' ')
@@ -237,7 +752,10 @@ export class TwitchChatManager extends EventEmitter {
       const chan = safeLower(afterCmd.slice(0, chanEnd)).replace(/^#/, '')
       const msgPart = afterCmd.slice(chanEnd + 1)
       const colon = msgPart.indexOf(' :')
-      const text = colon >= 0 ? msgPart.slice(colon + 2) : msgPart.startsWith(':') ? msgPart.slice(1) : msgPart
+      let text = colon >= 0 ? msgPart.slice(colon + 2) : msgPart.startsWith(':') ? msgPart.slice(1) : msgPart
+      // /me: "\u0001ACTION waves\u0001". Emote positions are relative to the inner text.
+      const isAction = text.startsWith('\u0001ACTION ')
+      if (isAction) text = text.slice('\u0001ACTION '.length, text.endsWith('\u0001') ? -1 : undefined)
 
       const id = tags?.id || `${Date.now()}-${Math.random().toString(16).slice(2)}`
       const displayName = tags?.['display-name'] || 'twitch'
@@ -254,11 +772,26 @@ export class TwitchChatManager extends EventEmitter {
         displayName,
         userId,
         text,
+        roomId: tags?.['room-id'] || undefined,
+        emotes: parseEmotesTag(tags?.emotes, text),
+        badges: parseBadgesTag(tags?.badges),
+        action: isAction || undefined,
       }
 
       this.emit('message', msg)
       return
     }
   }
-}
 
+  toChatLine(msg: TwitchChatMessage): ChatLine | null {
+    if (!msg || msg.platform !== 'twitch') return null
+    return {
+      source: 'twitch',
+      channel: msg.channel || 'unknown',
+      tsMs: typeof msg.tmiSentTs === 'number' && Number.isFinite(msg.tmiSentTs) ? msg.tmiSentTs : Date.now(),
+      nick: msg.displayName || 'twitch',
+      content: String(msg.text ?? ''),
+      id: msg.id != null ? String(msg.id) : undefined,
+    }
+  }
+}
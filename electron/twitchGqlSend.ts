@@ -2,6 +2,7 @@
  * Twitch chat send via GQL API (gql.twitch.tv).
  * Resolves channel login → channel ID via Helix, then sends via sendChatMessage mutation.
  * Requires OAuth token (e.g. from auth-token cookie when user is logged in on twitch.tv).
+ * Also: chat badge lookup (global + channel) via GQL, no OAuth required.
  */
 
 const TWITCH_GQL_URL = 'https://gql.twitch.tv/gql'
@@ -106,3 +107,57 @@ export async function sendChatMessage(
   if (err) return { success: false, error: String(err) }
   return { success: true }
 }
+
+/** Badge image + title keyed by "setID/version" (matches the IRC badges tag). */
+export type TwitchBadgeMap = Record<string, { url: string; title: string }>
+
+type GqlBadge = { setID?: string; version?: string; title?: string; imageURL?: string }
+
+/**
+ * Fetch global and channel chat badges for a channel login via GQL (anonymous).
+ * Channel badges (subscriber/bits) override global ones with the same key. Also returns the channel ID.
+ */
+export async function fetchChatBadges(login: string): Promise<{ channelId?: string; badges: TwitchBadgeMap } | { error: string }> {
+  const normalized = String(login || '').trim().toLowerCase().replace(/^#/, '')
+  if (!normalized) return { error: 'Missing channel login' }
+
+  const body = {
+    query:
+      'query ChatBadges($login: String!) { badges { setID version title imageURL(size: DOUBLE) } user(login: $login) { id broadcastBadges { setID version title imageURL(size: DOUBLE) } } }',
+    variables: { login: normalized },
+  }
+  const res = await fetch(TWITCH_GQL_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain;charset=UTF-8',
+      Accept: '*/*',
+      'Client-Id': TWITCH_CLIENT_ID,
+      'Client-Version': TWITCH_CLIENT_VERSION,
+      Origin: 'https://www.twitch.tv',
+      Referer: 'https://www.twitch.tv/',
+      'User-Agent':
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:147.0) Gecko/20100101 Firefox/147.0',
+    },
+    body: JSON.stringify(body),
+  })
+  if (!res.ok) {
+    await res.text().catch(() => '')
+    return { error: `Badge lookup failed (${res.status})` }
+  }
+  const json = (await res.json().catch(() => null)) as {
+    data?: { badges?: GqlBadge[] | null; user?: { id?: string; broadcastBadges?: GqlBadge[] | null } | null }
+    errors?: Array<{ message?: string }>
+  }
+  if (!json?.data) return { error: json?.errors?.[0]?.message ?? 'Badge lookup failed' }
+
+  const badges: TwitchBadgeMap = {}
+  const add = (list: GqlBadge[] | null | undefined) => {
+    for (const b of list ?? []) {
+      if (!b?.setID || b.version == null || !b.imageURL) continue
+      badges[`${b.setID}/${b.version}`] = { url: b.imageURL, title: b.title || b.setID }
+    }
+  }
+  add(json.data.badges)
+  add(json.data.user?.broadcastBadges)
+  return { channelId: json.data.user?.id || undefined, badges }
+}
@@ -0,0 +1,130 @@
+import { fileLogger } from './fileLogger'
+
+/**
+ * Third-party Twitch emotes (BetterTTV, FrankerFaceZ, 7TV): global sets + channel sets by Twitch channel ID.
+ * Public APIs, no auth. Results are cached so switching embeds doesn't refetch.
+ */
+
+export type ThirdPartyEmoteProvider = 'bttv' | 'ffz' | '7tv'
+
+export type ThirdPartyEmote = {
+  name: string
+  url: string
+  provider: ThirdPartyEmoteProvider
+}
+
+const CHANNEL_CACHE_MS = 30 * 60 * 1000
+const GLOBAL_CACHE_MS = 6 * 60 * 60 * 1000
+
+const channelCache = new Map<string, { at: number; emotes: ThirdPartyEmote[] }>()
+let globalCache: { at: number; emotes: ThirdPartyEmote[] } | null = null
+
+type BttvEmote = { id?: string; code?: string }
+type FfzSet = { emoticons?: Array<{ name?: string; urls?: Record<string, string> }> }
+type SevenTvEmote = { id?: string; name?: string }
+
+async function getJson<T>(url: string): Promise<T | null> {
+  const res = await fetch(url, { headers: { Accept: 'application/json' } })
+  // 404 = channel has no account with this provider; not an error worth logging.
+  if (res.status === 404) return null
+  if (!res.ok) throw new Error(`${url} (${res.status})`)
+  return (await res.json()) as T
+}
+
+function bttvEmotes(list: BttvEmote[] | null | undefined): ThirdPartyEmote[] {
+  if (!Array.isArray(list)) return []
+  return list
+    .filter((e) => e?.id && e?.code)
+    .map((e) => ({ name: String(e.code), url: `https://cdn.betterttv.net/emote/${e.id}/2x`, provider: 'bttv' as const }))
+}
+
+function ffzEmotes(sets: Record<string, FfzSet> | null | undefined, onlySetIds?: number[]): ThirdPartyEmote[] {
+  if (!sets || typeof sets !== 'object') return []
+  const out: ThirdPartyEmote[] = []
+  for (const [setId, set] of Object.entries(sets)) {
+    if (onlySetIds && !onlySetIds.includes(Number(setId))) continue
+    for (const e of set?.emoticons ?? []) {
+      const url = e?.urls?.['2'] ?? e?.urls?.['1']
+      if (!e?.name || !url) continue
+      out.push({ name: String(e.name), url: String(url).startsWith('//') ? `https:${url}` : String(url), provider: 'ffz' })
+    }
+  }
+  return out
+}
+
+function sevenTvEmotes(list: SevenTvEmote[] | null | undefined): ThirdPartyEmote[] {
+  if (!Array.isArray(list)) return []
+  return list
+    .filter((e) => e?.id && e?.name)
+    .map((e) => ({ name: String(e.name), url: `https://cdn.7tv.app/emote/${e.id}/2x.webp`, provider: '7tv' as const }))
+}
+
+/** Merge lists; later lists win on name collisions (so callers pass lowest precedence first). */
+function mergeByName(...lists: ThirdPartyEmote[][]): ThirdPartyEmote[] {
+  const byName = new Map<string, ThirdPartyEmote>()
+  for (const list of lists) for (const e of list) byName.set(e.name, e)
+  return Array.from(byName.values())
+}
+
+async function settled(label: string, p: Promise<ThirdPartyEmote[]>): Promise<ThirdPartyEmote[]> {
+  try {
+    return await p
+  } catch (e) {
+    fileLogger.writeLog('warn', 'main', '[Twitch] third_party_emotes_failed', [label, e instanceof Error ? e.message : String(e)])
+    return []
+  }
+}
+
+async function fetchGlobalEmotes(): Promise<ThirdPartyEmote[]> {
+  if (globalCache && Date.now() - globalCache.at < GLOBAL_CACHE_MS) return globalCache.emotes
+  const [ffz, bttv, stv] = await Promise.all([
+    settled(
+      'ffz_global',
+      getJson<{ sets?: Record<string, FfzSet>; default_sets?: number[] }>('https://api.frankerfacez.com/v1/set/global').then((j) =>
+        ffzEmotes(j?.sets, j?.default_sets)
+      )
+    ),
+    settled('bttv_global', getJson<BttvEmote[]>('https://api.betterttv.net/3/cached/emotes/global').then(bttvEmotes)),
+    settled('7tv_global', getJson<{ emotes?: SevenTvEmote[] }>('https://7tv.io/v3/emote-sets/global').then((j) => sevenTvEmotes(j?.emotes))),
+  ])
+  const emotes = mergeByName(ffz, bttv, stv)
+  globalCache = { at: Date.now(), emotes }
+  return emotes
+}
+
+/**
+ * Global + channel BTTV/FFZ/7TV emotes for a Twitch channel ID.
+ * Precedence on name collisions: channel over global; 7TV over BTTV over FFZ.
+ */
+export async function fetchThirdPartyEmotes(channelId: string): Promise<ThirdPartyEmote[]> {
+  const id = String(channelId || '').trim()
+  if (!id) return []
+  const cached = channelCache.get(id)
+  if (cached && Date.now() - cached.at < CHANNEL_CACHE_MS) return cached.emotes
+
+  const [globals, ffz, bttv, stv] = await Promise.all([
+    fetchGlobalEmotes(),
+    settled(
+      'ffz_channel',
+      getJson<{ sets?: Record<string, FfzSet> }>(`https://api.frankerfacez.com/v1/room/id/${encodeURIComponent(id)}`).then((j) => ffzEmotes(j?.sets))
+    ),
+    settled(
+      'bttv_channel',
+      getJson<{ channelEmotes?: BttvEmote[]; sharedEmotes?: BttvEmote[] }>(
+        `https://api.betterttv.net/3/cached/users/twitch/${encodeURIComponent(id)}`
+      ).then((j) => [
+        ...bttvEmotes(j?.channelEmotes),
+        ...bttvEmotes(j?.sharedEmotes),
+      ])
+    ),
+    settled(
+      '7tv_channel',
+      getJson<{ emote_set?: { emotes?: SevenTvEmote[] } }>(`https://7tv.io/v3/users/twitch/${encodeURIComponent(id)}`).then((j) =>
+        sevenTvEmotes(j?.emote_set?.emotes)
+      )
+    ),
+  ])
+  const emotes = mergeByName(globals, ffz, bttv, stv)
+  channelCache.set(id, { at: Date.now(), emotes })
+  return emotes
+}
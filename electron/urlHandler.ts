@@ -1,4 +1,4 @@
-import type { ProtocolHandleResult } from './extensions/types.js'
+import type { ExtensionInstallPrompt, ProtocolHandleResult } from './extensions/types.js'
 import { installFromManifestUrl } from './extensions/storage.js'
 
 export type { ProtocolHandleResult }
@@ -8,6 +8,8 @@ const PROTOCOL_SCHEME = 'omnichat'
 export interface UrlHandlerContext {
   /** Notify renderer of protocol result (e.g. install success). */
   sendProtocolResult?: (result: ProtocolHandleResult) => void
+  /** Ask the user to accept an extension's capabilities/publisher before it is installed. */
+  confirmInstall?: (prompt: ExtensionInstallPrompt) => Promise<boolean>
 }
 
 /**
@@ -85,9 +87,57 @@ function buildStreamerFromParams(params: Record<string, string>): Record<string,
   return streamer
 }
 
+const EMBED_KEY = /^[a-z0-9_-]+:\S+$/i
+
+function flagParam(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined) return fallback
+  return value === '1' || value === 'true'
+}
+
+function embedKeysParam(value: string | undefined): string[] {
+  return Array.from(new Set((value || '').split(',').map((k) => k.trim()).filter((k) => EMBED_KEY.test(k))))
+}
+
+/**
+ * Build a workspace object (shape matches renderer Workspace in src/utils/workspaces.ts) from protocol query params.
+ * Params: name, embeds, chats (comma-separated embed keys like kick:slug), chatOpen, side, width, overlay, opacity,
+ * cinema, dockTop, timestamps, labels, icons, sort, input. Shared embeds are all pinned for the receiver.
+ */
+function buildWorkspaceFromParams(params: Record<string, string>): Record<string, unknown> {
+  const embedKeys = embedKeysParam(params.embeds)
+  const chatEmbedKeys = embedKeysParam(params.chats)
+  if (embedKeys.length === 0 && chatEmbedKeys.length === 0) {
+    throw new Error('At least one embed (embeds or chats) is required')
+  }
+  const width = Number(params.width)
+  const opacity = Number(params.opacity)
+  return {
+    id: `workspace-${Date.now().toString(36)}`,
+    name: (params.name || '').trim() || 'Shared workspace',
+    snapshot: {
+      embedKeys,
+      pinnedEmbedKeys: embedKeys,
+      chatEmbedKeys,
+      chatPaneOpen: flagParam(params.chatOpen, true),
+      chatPaneSide: params.side === 'right' ? 'right' : 'left',
+      chatPaneWidth: Number.isFinite(width) && width > 0 ? Math.round(width) : 420,
+      chatOverlayMode: flagParam(params.overlay, false),
+      chatOverlayOpacity: Number.isFinite(opacity) && opacity >= 0 && opacity <= 1 ? opacity : 0.85,
+      cinemaMode: flagParam(params.cinema, false),
+      dockAtTop: flagParam(params.dockTop, false),
+      showTimestamps: flagParam(params.timestamps, true),
+      showLabels: flagParam(params.labels, true),
+      showPlatformIcons: flagParam(params.icons, false),
+      sortMode: params.sort === 'timestamp' ? 'timestamp' : 'arrival',
+      showChatInput: flagParam(params.input, true),
+    },
+  }
+}
+
 /**
  * Handle a protocol URL and return the result.
- * Operations: install (param: url = manifest URL), add-streamer (params: nickname, youtube, kick, twitch, colors, flags).
+ * Operations: install (param: url = manifest URL), add-streamer (params: nickname, youtube, kick, twitch, colors, flags),
+ * workspace (params: name, embeds, chats, layout and chat display options).
  */
 export async function handleProtocolUrl(url: string, context?: UrlHandlerContext): Promise<ProtocolHandleResult> {
   const parsed = parseProtocolUrl(url)
@@ -102,7 +152,7 @@ export async function handleProtocolUrl(url: string, context?: UrlHandlerContext
       if (!manifestUrl) {
         return { ok: false, operation: 'install', message: 'Missing url or manifest parameter' }
       }
-      const result = await installFromManifestUrl(manifestUrl)
+      const result = await installFromManifestUrl(manifestUrl, { confirm: context?.confirmInstall })
       if (result.ok && result.id) {
         const out: ProtocolHandleResult = { ok: true, operation: 'install', extensionId: result.id }
         context?.sendProtocolResult?.(out)
@@ -126,6 +176,19 @@ export async function handleProtocolUrl(url: string, context?: UrlHandlerContext
         return fail
       }
     }
+    case 'workspace': {
+      try {
+        const workspace = buildWorkspaceFromParams(params)
+        const out: ProtocolHandleResult = { ok: true, operation: 'workspace', workspace }
+        context?.sendProtocolResult?.(out)
+        return out
+      } catch (e) {
+        const message = e instanceof Error ? e.message : 'Invalid workspace params'
+        const fail: ProtocolHandleResult = { ok: false, operation: 'workspace', message }
+        context?.sendProtocolResult?.(fail)
+        return fail
+      }
+    }
     default:
       return { ok: false, operation, message: `Unknown operation: ${operation}` }
   }
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events'
 import { session } from 'electron'
 import { fileLogger } from './fileLogger'
+import type { ChatLine, ChatProvider, ChatSendResult } from './chatProvider'
 
 /** One segment of a YouTube message: either plain text or an emoji with optional image URL. */
 export type YouTubeMessageRun =
@@ -16,8 +17,72 @@ export type YouTubeChatMessage = {
   message: string
   /** When present, message content as runs (text + emoji with image URLs) for rendering emotes. */
   runs?: YouTubeMessageRun[]
+  /** Author's channel id (UC...); matches author_banned events. */
+  authorChannelId?: string
 }
 
+/** Super chat / super sticker colors from YouTube (tier colors), as #rrggbb. */
+export type YouTubePaidColors = { header?: string; body?: string; authorName?: string }
+
+/**
+ * Non-text live chat items and moderation actions (emitted as 'event'). Paid and membership items were previously
+ * folded into plain messages; they now carry amount/currency/tier colors so the renderer can style them.
+ */
+export type YouTubeChatEvent =
+  | {
+      platform: 'youtube'
+      type: 'superchat' | 'supersticker'
+      videoId: string
+      id: string
+      tsMs: number
+      authorName: string
+      authorChannelId?: string
+      /** Display amount as YouTube formats it (e.g. "$5.00", "¥500", "PHP 100.00"). */
+      amountText: string
+      /** Parsed numeric amount in currency units, when parseable. */
+      amount?: number
+      /** ISO 4217 code, when the symbol/code is recognized. */
+      currency?: string
+      message?: string
+      runs?: YouTubeMessageRun[]
+      /** Super sticker image + accessibility label. */
+      stickerUrl?: string
+      stickerLabel?: string
+      colors: YouTubePaidColors
+    }
+  | {
+      platform: 'youtube'
+      type: 'membership'
+      videoId: string
+      id: string
+      tsMs: number
+      authorName: string
+      authorChannelId?: string
+      /** True for "Member for N months" milestone chats; false for new members. */
+      milestone: boolean
+      /** e.g. "Member for 6 months" or "Welcome to <channel>!" */
+      headerText: string
+      /** Membership level name when YouTube provides it. */
+      tierText?: string
+      message?: string
+      runs?: YouTubeMessageRun[]
+    }
+  | {
+      platform: 'youtube'
+      type: 'membership_gift'
+      videoId: string
+      id: string
+      tsMs: number
+      authorName: string
+      authorChannelId?: string
+      count: number
+      /** e.g. "Gifted 5 <channel> memberships" */
+      text: string
+    }
+  | { platform: 'youtube'; type: 'message_deleted'; videoId: string; tsMs: number; targetId: string }
+  /** markChatItemsByAuthorAsDeletedAction: all messages by this author removed (ban or timeout; YouTube doesn't say which). */
+  | { platform: 'youtube'; type: 'author_banned'; videoId: string; tsMs: number; authorChannelId: string; authorName?: string }
+
 type PollState = {
   stopped: boolean
   abort?: AbortController
@@ -25,6 +90,8 @@ type PollState = {
   apiKey?: string
   context?: any
   seenIds: Set<string>
+  /** Recent author channel id -> display name, to name authors in author_banned events. */
+  authorNames: Map<string, string>
   pollNum?: number
   lastSummaryAtMs?: number
   sawAnyMessages?: boolean
@@ -178,11 +245,8 @@ function extractMessagesFromActions(videoId: string, actions: any[]): YouTubeCha
       a?.replaceChatItemAction?.replacementItem ??
       null
 
-    const r =
-      item?.liveChatTextMessageRenderer ??
-      item?.liveChatPaidMessageRenderer ??
-      item?.liveChatMembershipItemRenderer ??
-      null
+    // Paid and membership renderers are handled by extractEventsFromActions.
+    const r = item?.liveChatTextMessageRenderer ?? null
 
     if (!r) continue
 
@@ -210,12 +274,220 @@ function extractMessagesFromActions(videoId: string, actions: any[]): YouTubeCha
       authorName,
       message,
       runs: hasEmoji ? runs : undefined,
+      authorChannelId: typeof r?.authorExternalChannelId === 'string' ? r.authorExternalChannelId : undefined,
     })
   }
 
   return out
 }
 
+type YtText = { simpleText?: string; runs?: unknown[] }
+
+type YtPaidRenderer = {
+  id?: string
+  timestampUsec?: string
+  authorName?: YtText
+  authorExternalChannelId?: string
+  purchaseAmountText?: YtText
+  message?: YtText
+  headerBackgroundColor?: number
+  bodyBackgroundColor?: number
+  authorNameTextColor?: number
+  /** Super sticker colors. */
+  backgroundColor?: number
+  moneyChipBackgroundColor?: number
+  sticker?: { thumbnails?: Array<{ url?: string }>; accessibility?: { accessibilityData?: { label?: string } } }
+}
+
+type YtMembershipRenderer = {
+  id?: string
+  timestampUsec?: string
+  authorName?: YtText
+  authorExternalChannelId?: string
+  headerPrimaryText?: YtText
+  headerSubtext?: YtText
+  message?: YtText
+}
+
+type YtGiftPurchaseRenderer = {
+  id?: string
+  timestampUsec?: string
+  authorExternalChannelId?: string
+  header?: { liveChatSponsorshipsHeaderRenderer?: { authorName?: YtText; primaryText?: YtText } }
+}
+
+/** Live chat action shapes read by extractEventsFromActions (other keys are ignored). */
+type YtChatAction = {
+  addChatItemAction?: {
+    item?: {
+      liveChatPaidMessageRenderer?: YtPaidRenderer
+      liveChatPaidStickerRenderer?: YtPaidRenderer
+      liveChatMembershipItemRenderer?: YtMembershipRenderer
+      liveChatSponsorshipsGiftPurchaseAnnouncementRenderer?: YtGiftPurchaseRenderer
+    }
+  }
+  markChatItemAsDeletedAction?: { targetItemId?: string }
+  markChatItemsByAuthorAsDeletedAction?: { externalChannelId?: string }
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  US$: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW',
+  '₱': 'PHP',
+  '₽': 'RUB',
+  '₺': 'TRY',
+  '₫': 'VND',
+  '₪': 'ILS',
+  CA$: 'CAD',
+  A$: 'AUD',
+  R$: 'BRL',
+  MX$: 'MXN',
+  NZ$: 'NZD',
+  HK$: 'HKD',
+  NT$: 'TWD',
+}
+
+function ytText(t: YtText | undefined): string {
+  if (!t) return ''
+  if (typeof t.simpleText === 'string') return t.simpleText
+  return runsToText(t.runs ?? [])
+}
+
+/** YouTube colors are ARGB integers; return #rrggbb (alpha dropped). */
+function argbToHex(n: number | undefined): string | undefined {
+  if (typeof n !== 'number' || !Number.isFinite(n)) return undefined
+  return `#${(n >>> 0).toString(16).padStart(8, '0').slice(2)}`
+}
+
+function timestampUsecToMs(usec: string | undefined): number {
+  const n = Number(usec)
+  return Number.isFinite(n) && n > 0 ? Math.floor(n / 1000) : Date.now()
+}
+
+/** Parse "$5.00", "€2,50", "¥1,000", "PHP 100.00" into currency code + numeric value (best effort). */
+function parsePurchaseAmount(text: string): { currency?: string; amount?: number } {
+  const m = /^([^\d\s.,]*)\s*([\d.,\s\u00a0]+?)\s*([^\d\s.,]*)$/.exec(text.trim())
+  if (!m) return {}
+  const symbol = (m[1] || m[3] || '').trim()
+  const currency = /^[A-Z]{3}$/.test(symbol) ? symbol : CURRENCY_SYMBOLS[symbol]
+  let digits = m[2].replace(/[\s\u00a0]/g, '')
+  const lastComma = digits.lastIndexOf(',')
+  const lastDot = digits.lastIndexOf('.')
+  if (lastComma > lastDot && digits.length - lastComma - 1 === 2) {
+    // Comma is the decimal separator ("2,50", "1.000,00").
+    digits = digits.replace(/\./g, '').replace(',', '.')
+  } else {
+    digits = digits.replace(/,/g, '')
+  }
+  const amount = Number(digits)
+  return { currency, amount: Number.isFinite(amount) ? amount : undefined }
+}
+
+function extractEventsFromActions(videoId: string, actions: unknown[]): YouTubeChatEvent[] {
+  const out: YouTubeChatEvent[] = []
+  if (!Array.isArray(actions)) return out
+
+  for (const raw of actions) {
+    const a = raw as YtChatAction | null
+    if (!a || typeof a !== 'object') continue
+
+    const deleted = a.markChatItemAsDeletedAction
+    if (deleted?.targetItemId) {
+      out.push({ platform: 'youtube', type: 'message_deleted', videoId, tsMs: Date.now(), targetId: deleted.targetItemId })
+      continue
+    }
+    const byAuthor = a.markChatItemsByAuthorAsDeletedAction
+    if (byAuthor?.externalChannelId) {
+      out.push({ platform: 'youtube', type: 'author_banned', videoId, tsMs: Date.now(), authorChannelId: byAuthor.externalChannelId })
+      continue
+    }
+
+    const item = a.addChatItemAction?.item
+    if (!item) continue
+
+    const paid = item.liveChatPaidMessageRenderer ?? item.liveChatPaidStickerRenderer
+    if (paid?.id) {
+      const isSticker = !item.liveChatPaidMessageRenderer
+      const amountText = ytText(paid.purchaseAmountText)
+      const messageRuns = paid.message?.runs ?? []
+      const runs = runsToRuns(messageRuns)
+      const message = runsToText(messageRuns)
+      const thumbs = paid.sticker?.thumbnails ?? []
+      const stickerUrl = thumbs[thumbs.length - 1]?.url
+      out.push({
+        platform: 'youtube',
+        type: isSticker ? 'supersticker' : 'superchat',
+        videoId,
+        id: paid.id,
+        tsMs: timestampUsecToMs(paid.timestampUsec),
+        authorName: ytText(paid.authorName) || 'youtube',
+        authorChannelId: paid.authorExternalChannelId,
+        amountText,
+        ...parsePurchaseAmount(amountText),
+        message: message || undefined,
+        runs: runs.some((x) => 'emojiId' in x) ? runs : undefined,
+        stickerUrl: stickerUrl ? (stickerUrl.startsWith('//') ? `https:${stickerUrl}` : stickerUrl) : undefined,
+        stickerLabel: paid.sticker?.accessibility?.accessibilityData?.label,
+        colors: isSticker
+          ? { header: argbToHex(paid.moneyChipBackgroundColor), body: argbToHex(paid.backgroundColor), authorName: argbToHex(paid.authorNameTextColor) }
+          : { header: argbToHex(paid.headerBackgroundColor), body: argbToHex(paid.bodyBackgroundColor), authorName: argbToHex(paid.authorNameTextColor) },
+      })
+      continue
+    }
+
+    const member = item.liveChatMembershipItemRenderer
+    if (member?.id) {
+      const primary = ytText(member.headerPrimaryText)
+      const sub = ytText(member.headerSubtext)
+      const messageRuns = member.message?.runs ?? []
+      const message = runsToText(messageRuns)
+      const runs = runsToRuns(messageRuns)
+      // Milestones: headerPrimaryText "Member for 6 months", headerSubtext = level name. New members: only headerSubtext.
+      const milestone = !!primary
+      out.push({
+        platform: 'youtube',
+        type: 'membership',
+        videoId,
+        id: member.id,
+        tsMs: timestampUsecToMs(member.timestampUsec),
+        authorName: ytText(member.authorName) || 'youtube',
+        authorChannelId: member.authorExternalChannelId,
+        milestone,
+        headerText: milestone ? primary : sub || 'New member',
+        tierText: milestone && sub ? sub : undefined,
+        message: message || undefined,
+        runs: runs.some((x) => 'emojiId' in x) ? runs : undefined,
+      })
+      continue
+    }
+
+    const gift = item.liveChatSponsorshipsGiftPurchaseAnnouncementRenderer
+    if (gift?.id) {
+      const header = gift.header?.liveChatSponsorshipsHeaderRenderer
+      const text = ytText(header?.primaryText)
+      const count = Number(/\d+/.exec(text)?.[0] ?? 1)
+      out.push({
+        platform: 'youtube',
+        type: 'membership_gift',
+        videoId,
+        id: gift.id,
+        tsMs: timestampUsecToMs(gift.timestampUsec),
+        authorName: ytText(header?.authorName) || 'youtube',
+        authorChannelId: gift.authorExternalChannelId,
+        count: Number.isFinite(count) && count > 0 ? count : 1,
+        text,
+      })
+    }
+  }
+
+  return out
+}
+
 function getYouTubeSession() {
   return session.fromPartition('persist:main')
 }
@@ -248,7 +520,11 @@ async function fetchJson(url: string, headers: Record<string, string>, body: any
   return await res.json()
 }
 
-export class YouTubeChatManager extends EventEmitter {
+export class YouTubeChatManager extends EventEmitter implements ChatProvider<YouTubeChatMessage, YouTubeChatEvent> {
+  readonly id = 'youtube'
+  readonly label = 'YouTube'
+  readonly rendererChannels = { message: 'youtube-chat-message', event: 'youtube-chat-event' }
+
   private targets = new Set<string>()
   private states = new Map<string, PollState>()
   private delayMultiplier = 1
@@ -295,7 +571,7 @@ export class YouTubeChatManager extends EventEmitter {
   }
 
   private async startVideo(videoId: string): Promise<void> {
-    const state: PollState = { stopped: false, seenIds: new Set(), pollNum: 0, lastSummaryAtMs: 0, sawAnyMessages: false }
+    const state: PollState = { stopped: false, seenIds: new Set(), authorNames: new Map(), pollNum: 0, lastSummaryAtMs: 0, sawAnyMessages: false }
     this.states.set(videoId, state)
 
     await this.init(videoId, state)
@@ -453,6 +729,7 @@ export class YouTubeChatManager extends EventEmitter {
 
         const actions = json?.continuationContents?.liveChatContinuation?.actions ?? []
         const msgs = extractMessagesFromActions(videoId, actions)
+        const events = extractEventsFromActions(videoId, actions)
         if (!state.sawAnyMessages && msgs.length > 0) {
           state.sawAnyMessages = true
         }
@@ -469,9 +746,27 @@ export class YouTubeChatManager extends EventEmitter {
               state.seenIds.delete(n.value)
             }
           }
+          if (m.authorChannelId && m.authorName) {
+            state.authorNames.delete(m.authorChannelId)
+            state.authorNames.set(m.authorChannelId, m.authorName)
+            if (state.authorNames.size > 2000) {
+              const oldest = state.authorNames.keys().next().value
+              if (oldest !== undefined) state.authorNames.delete(oldest)
+            }
+          }
           this.emit('message', m)
         }
 
+        for (const evt of events) {
+          // Paid/membership items have ids and share the message dedupe set; moderation actions are idempotent.
+          if ('id' in evt) {
+            if (state.seenIds.has(evt.id)) continue
+            state.seenIds.add(evt.id)
+          }
+          if (evt.type === 'author_banned') evt.authorName = state.authorNames.get(evt.authorChannelId)
+          this.emit('event', evt)
+        }
+
         const conts = json?.continuationContents?.liveChatContinuation?.continuations
         let nextContinuation: string | null = null
         let timeoutMs: number | null = null
@@ -534,7 +829,7 @@ export class YouTubeChatManager extends EventEmitter {
    * Send a chat message to a live chat. Uses current context/continuation for that video.
    * Returns { success, error }. Requires the video to already be polled (state exists).
    */
-  async sendMessage(videoId: string, text: string): Promise<{ success: boolean; error?: string }> {
+  async sendMessage(videoId: string, text: string): Promise<ChatSendResult> {
     const state = this.states.get(videoId)
     if (!state?.context || !state.continuation) {
       return { success: false, error: 'Chat not loaded for this stream' }
@@ -584,5 +879,46 @@ export class YouTubeChatManager extends EventEmitter {
       return { success: false, error: msg }
     }
   }
-}
 
+  toChatLine(msg: YouTubeChatMessage): ChatLine | null {
+    if (!msg || msg.platform !== 'youtube') return null
+    const usec = typeof msg.timestampUsec === 'string' ? Number(msg.timestampUsec) : NaN
+    return {
+      source: 'youtube',
+      channel: msg.videoId || 'unknown',
+      tsMs: Number.isFinite(usec) ? Math.floor(usec / 1000) : Date.now(),
+      nick: msg.authorName || 'youtube',
+      content: String(msg.message ?? ''),
+      id: msg.id != null ? String(msg.id) : undefined,
+    }
+  }
+
+  /** Super chats / stickers / memberships as chat lines; moderation events aren't archived. */
+  eventToChatLine(evt: YouTubeChatEvent): ChatLine | null {
+    if (!evt || evt.platform !== 'youtube') return null
+    if (evt.type === 'superchat' || evt.type === 'supersticker') {
+      const text = evt.message || evt.stickerLabel || ''
+      return {
+        source: 'youtube',
+        channel: evt.videoId || 'unknown',
+        tsMs: evt.tsMs,
+        nick: evt.authorName,
+        content: text ? `[${evt.amountText}] ${text}` : `[${evt.amountText}]`,
+        id: evt.id,
+      }
+    }
+    if (evt.type === 'membership' || evt.type === 'membership_gift') {
+      const header = evt.type === 'membership' ? evt.headerText : evt.text
+      const message = evt.type === 'membership' ? evt.message : undefined
+      return {
+        source: 'youtube',
+        channel: evt.videoId || 'unknown',
+        tsMs: evt.tsMs,
+        nick: evt.authorName,
+        content: message ? `[${header}] ${message}` : `[${header}]`,
+        id: evt.id,
+      }
+    }
+    return null
+  }
+}
@@ -0,0 +1,7 @@
+function activate(context) {
+  context.log('info', 'Quote fixture activated')
+}
+
+function deactivate() {}
+
+module.exports = { activate, deactivate }
@@ -0,0 +1,3 @@
+omniScreen.registerMessageAction({ id: 'quote', label: 'Quote', title: 'Quote this message in the chat input' }, (msg) => {
+  omniScreen.appendToChatInput(`> ${msg.nick}: ${msg.text ?? ''} `)
+})
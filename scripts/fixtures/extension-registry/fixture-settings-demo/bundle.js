@@ -0,0 +1,35 @@
+let disposeSettingsListener = null
+
+async function activate(context) {
+  context.registerSettings([
+    {
+      id: 'general',
+      label: 'Settings demo',
+      placement: 'omni_screen',
+      fields: [
+        { key: 'enabled', type: 'boolean', label: 'Enabled', default: true },
+        { key: 'greeting', type: 'string', label: 'Greeting', default: 'Hello', placeholder: 'Hello' },
+        { key: 'limit', type: 'number', label: 'Limit', default: 10 },
+        { key: 'mode', type: 'select', label: 'Mode', default: 'a', options: [{ value: 'a', label: 'Mode A' }, { value: 'b', label: 'Mode B' }] },
+        { key: 'platforms', type: 'multi-select', label: 'Platforms', default: [], options: [{ value: 'kick', label: 'Kick' }, { value: 'twitch', label: 'Twitch' }, { value: 'youtube', label: 'YouTube' }] },
+        { key: 'accent', type: 'color', label: 'Accent', default: '' },
+        { key: 'token', type: 'secret', label: 'Token', default: '' },
+        { key: 'channels', type: 'list', label: 'Channels', default: [] },
+        { key: 'hotkey', type: 'keybind', label: 'Hotkey', default: null },
+      ],
+    },
+  ])
+  const activations = ((await context.storage.get('activations')) ?? 0) + 1
+  await context.storage.set('activations', activations)
+  context.log('info', `Settings demo activated (${activations} times)`, await context.settings.getAll())
+  disposeSettingsListener = context.settings.onDidChange((key, value) => {
+    context.log('info', `Setting ${key} changed`, key === 'token' ? '(secret)' : value)
+  })
+}
+
+function deactivate() {
+  disposeSettingsListener?.()
+  disposeSettingsListener = null
+}
+
+module.exports = { activate, deactivate }
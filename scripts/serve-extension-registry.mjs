@@ -0,0 +1,106 @@
+/**
+ * Serve a test extension registry for development.
+ * Every folder in scripts/fixtures/extension-registry is one extension: extension.json (manifest fields without
+ * URLs or checksums), bundle.js, and optionally renderer.js and icon.svg. Manifests are built on each request with
+ * URLs pointing at this server and sha256 computed from the files, so edits show up right away (bump a version in
+ * extension.json to test the update state).
+ *
+ * Run: node scripts/serve-extension-registry.mjs [port]
+ * Or: npm run registry:fixture
+ * Then set App Settings → Extensions → Registry URL to http://127.0.0.1:5175/registry.json
+ */
+
+import { createHash } from 'crypto'
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import { createServer } from 'http'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const fixturesDir = path.join(__dirname, 'fixtures', 'extension-registry')
+const port = Number(process.argv[2]) || 5175
+const origin = `http://127.0.0.1:${port}`
+
+const FILES = {
+  'bundle.js': 'text/javascript',
+  'renderer.js': 'text/javascript',
+  'icon.svg': 'image/svg+xml',
+}
+
+function sha256(file) {
+  return createHash('sha256').update(readFileSync(file)).digest('hex')
+}
+
+function listExtensions() {
+  return readdirSync(fixturesDir, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && existsSync(path.join(fixturesDir, d.name, 'extension.json')))
+    .map((d) => d.name)
+}
+
+function readFixture(id) {
+  return JSON.parse(readFileSync(path.join(fixturesDir, id, 'extension.json'), 'utf-8'))
+}
+
+function buildManifest(id) {
+  const dir = path.join(fixturesDir, id)
+  const manifest = {
+    ...readFixture(id),
+    id,
+    updateUrl: `${origin}/${id}/manifest.json`,
+    entry: `${origin}/${id}/bundle.js`,
+    sha256: sha256(path.join(dir, 'bundle.js')),
+  }
+  if (existsSync(path.join(dir, 'icon.svg'))) manifest.icon = `${origin}/${id}/icon.svg`
+  if (existsSync(path.join(dir, 'renderer.js'))) {
+    manifest.renderer = `${origin}/${id}/renderer.js`
+    manifest.rendererSha256 = sha256(path.join(dir, 'renderer.js'))
+  }
+  return manifest
+}
+
+function buildIndex() {
+  return {
+    name: 'Local test registry',
+    extensions: listExtensions().map((id) => {
+      const { name, version, description, tags, capabilities, icon } = buildManifest(id)
+      // Relative URLs are resolved against the index URL by the app
+      return { id, name, version, description, tags, capabilities, icon, updateUrl: `${id}/manifest.json` }
+    }),
+  }
+}
+
+function send(res, status, type, body) {
+  res.writeHead(status, { 'Content-Type': type, 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' })
+  res.end(body)
+}
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? '/', origin)
+  try {
+    if (pathname === '/' || pathname === '/registry.json') {
+      send(res, 200, 'application/json', JSON.stringify(buildIndex(), null, 2))
+      return
+    }
+    const [, id, file] = pathname.split('/')
+    if (id && listExtensions().includes(id)) {
+      if (file === 'manifest.json') {
+        send(res, 200, 'application/json', JSON.stringify(buildManifest(id), null, 2))
+        return
+      }
+      const filePath = path.join(fixturesDir, id, file ?? '')
+      if (FILES[file] && existsSync(filePath)) {
+        send(res, 200, FILES[file], readFileSync(filePath))
+        return
+      }
+    }
+    send(res, 404, 'text/plain', 'Not found')
+  } catch (e) {
+    console.error(e)
+    send(res, 500, 'text/plain', String(e instanceof Error ? e.message : e))
+  }
+})
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`Test extension registry: ${origin}/registry.json`)
+  console.log(`Extensions: ${listExtensions().join(', ') || '(none)'}`)
+})
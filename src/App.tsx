@@ -5,6 +5,7 @@ import OmniScreen from './components/OmniScreen'
 import DebugPage from './components/DebugPage'
 import TitleBar from './components/TitleBar'
 import { applyThemeToDocument, getAppPreferences } from './utils/appPreferences'
+import { WORKSPACES_CHANGED_EVENT, loadWorkspaces, normalizeWorkspace, saveWorkspaces } from './utils/workspaces'
 import './App.css'
 
 type Page = 'menu' | 'link-scroller' | 'omni-screen' | 'debug'
@@ -47,7 +48,7 @@ function App() {
     }
   }, [])
 
-  // Protocol add-streamer: merge into bookmarked streamers, notify OmniScreen, show toast
+  // Protocol add-streamer / workspace: merge into bookmarked streamers or workspaces, notify OmniScreen, show toast
   useEffect(() => {
     const showToast = (type: 'success' | 'error', message: string) => {
       if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current)
@@ -59,8 +60,23 @@ function App() {
     }
     const handler = (
       _event: unknown,
-      result: { operation?: string; ok?: boolean; message?: string; streamer?: Record<string, unknown> }
+      result: { operation?: string; ok?: boolean; message?: string; streamer?: Record<string, unknown>; workspace?: Record<string, unknown> }
     ) => {
+      if (result?.operation === 'workspace') {
+        if (result.ok === false) {
+          showToast('error', result.message || 'Failed to add workspace')
+          return
+        }
+        const workspace = normalizeWorkspace(result.workspace)
+        if (!workspace) {
+          showToast('error', 'Invalid workspace data')
+          return
+        }
+        saveWorkspaces([...loadWorkspaces(), workspace])
+        window.dispatchEvent(new CustomEvent(WORKSPACES_CHANGED_EVENT))
+        showToast('success', `Workspace "${workspace.name}" saved`)
+        return
+      }
       if (result?.operation !== 'add-streamer') return
       if (result.ok === false) {
         showToast('error', result.message || 'Failed to add bookmark')
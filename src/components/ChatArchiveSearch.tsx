@@ -0,0 +1,179 @@
+/**
+ * Search panel for the local chat archive (main process writes all combined chat traffic to disk; see electron/chatArchive.ts).
+ * Queries go through the `chat-archive-search` IPC; results are newest first.
+ */
+import { useCallback, useState } from 'react'
+import { createPortal } from 'react-dom'
+
+/** One archived line as returned by `chat-archive-search` (same fields as CombinedItem + channel). */
+export interface ArchivedChatItem {
+  source: string
+  channel: string
+  tsMs: number
+  nick: string
+  content: string
+  id?: string
+}
+
+const RANGE_OPTIONS: { label: string; ms: number }[] = [
+  { label: 'Last hour', ms: 60 * 60 * 1000 },
+  { label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+]
+
+const RESULT_LIMIT = 500
+
+export interface ChatArchiveSearchProps {
+  /** Primary chat source id (e.g. from config.chatSources), offered in the source filter. */
+  primaryChatSourceId?: string | null
+  /** Label for the primary chat source in the source filter and results. */
+  primaryChatSourceLabel?: string
+  onClose: () => void
+}
+
+function sourceLabel(source: string, primaryChatSourceId?: string | null, primaryChatSourceLabel?: string): string {
+  if (primaryChatSourceId && source === primaryChatSourceId) return primaryChatSourceLabel || source
+  if (source === 'kick') return 'Kick'
+  if (source === 'youtube') return 'YouTube'
+  if (source === 'twitch') return 'Twitch'
+  return source
+}
+
+export default function ChatArchiveSearch({ primaryChatSourceId, primaryChatSourceLabel, onClose }: ChatArchiveSearchProps) {
+  const [text, setText] = useState('')
+  const [nick, setNick] = useState('')
+  const [source, setSource] = useState('')
+  const [channel, setChannel] = useState('')
+  const [rangeMs, setRangeMs] = useState<number>(RANGE_OPTIONS[1].ms)
+  const [results, setResults] = useState<ArchivedChatItem[]>([])
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [searched, setSearched] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runSearch = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const now = Date.now()
+      const res = await window.ipcRenderer.invoke('chat-archive-search', {
+        text: text.trim() || undefined,
+        nick: nick.trim() || undefined,
+        source: source || undefined,
+        channel: channel.trim() || undefined,
+        sinceMs: now - rangeMs,
+        untilMs: now,
+        limit: RESULT_LIMIT,
+      })
+      if (res?.success) {
+        setResults(Array.isArray(res.data) ? res.data : [])
+        setTruncated(Boolean(res.truncated))
+      } else {
+        setResults([])
+        setTruncated(false)
+        setError(res?.error || 'Search failed')
+      }
+    } catch (e) {
+      setResults([])
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+      setSearched(true)
+    }
+  }, [text, nick, source, channel, rangeMs])
+
+  return createPortal(
+    <div className="modal modal-open z-[100]" role="dialog" aria-modal="true">
+      <div className="modal-box max-w-3xl h-[80vh] max-h-[80vh] overflow-hidden flex flex-col w-11/12">
+        <h3 className="font-bold text-lg mb-2">Search chat archive</h3>
+        <form
+          className="flex flex-col gap-2 flex-shrink-0"
+          onSubmit={(e) => {
+            e.preventDefault()
+            void runSearch()
+          }}
+        >
+          <input
+            type="text"
+            className="input input-sm input-bordered w-full"
+            placeholder="Words in message (all must match)"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            autoFocus
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              className="input input-sm input-bordered w-36"
+              placeholder="Nick"
+              value={nick}
+              onChange={(e) => setNick(e.target.value)}
+            />
+            <select className="select select-sm select-bordered w-32" value={source} onChange={(e) => setSource(e.target.value)}>
+              <option value="">All sources</option>
+              {primaryChatSourceId && <option value={primaryChatSourceId}>{primaryChatSourceLabel || primaryChatSourceId}</option>}
+              <option value="kick">Kick</option>
+              <option value="youtube">YouTube</option>
+              <option value="twitch">Twitch</option>
+            </select>
+            <input
+              type="text"
+              className="input input-sm input-bordered w-36"
+              placeholder="Channel / video id"
+              value={channel}
+              onChange={(e) => setChannel(e.target.value)}
+            />
+            <select className="select select-sm select-bordered w-36" value={rangeMs} onChange={(e) => setRangeMs(Number(e.target.value))}>
+              {RANGE_OPTIONS.map((r) => (
+                <option key={r.ms} value={r.ms}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="btn btn-sm btn-primary" disabled={loading}>
+              {loading ? <span className="loading loading-spinner loading-xs" /> : 'Search'}
+            </button>
+          </div>
+        </form>
+        <div className="flex-1 min-h-0 overflow-y-auto mt-3 border border-base-300 rounded">
+          {error ? (
+            <div className="text-sm text-error p-3">{error}</div>
+          ) : results.length === 0 ? (
+            <div className="text-sm text-base-content/60 p-3">{searched ? 'No matches.' : 'Enter a search and press Enter.'}</div>
+          ) : (
+            <ul className="divide-y divide-base-300">
+              {results.map((r, i) => (
+                <li key={`${r.source}:${r.id ?? i}:${r.tsMs}`} className="px-3 py-1.5 text-sm break-words">
+                  <span className="text-xs text-base-content/50 mr-2 whitespace-nowrap">{new Date(r.tsMs).toLocaleString()}</span>
+                  <span className="badge badge-ghost badge-xs mr-1">
+                    {sourceLabel(r.source, primaryChatSourceId, primaryChatSourceLabel)}
+                    {r.channel ? `:${r.channel}` : ''}
+                  </span>
+                  <span className="font-semibold mr-1">{r.nick}:</span>
+                  <span>{r.content}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="modal-action mt-3 flex-shrink-0 items-center">
+          {results.length > 0 && (
+            <span className="text-xs text-base-content/60 mr-auto">
+              {results.length} result{results.length === 1 ? '' : 's'}
+              {truncated ? ' (more available; narrow the search)' : ''}
+            </span>
+          )}
+          <button type="button" className="btn btn-ghost" onClick={() => window.ipcRenderer.invoke('chat-archive-open-directory')}>
+            Open archive folder
+          </button>
+          <button type="button" className="btn btn-primary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onClose} aria-hidden="true" />
+    </div>,
+    document.body
+  )
+}
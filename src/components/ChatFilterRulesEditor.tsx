@@ -0,0 +1,336 @@
+import { useRef, useState } from 'react'
+import {
+  CHAT_FILTER_ACTIONS,
+  CHAT_FILTER_PRIMARY_SOURCE,
+  DEFAULT_CHAT_FILTER_HIGHLIGHT_COLOR,
+  createChatFilterRuleId,
+  describeChatFilterMatch,
+  exportChatFilterRules,
+  getChatFilterRegexError,
+  hasChatFilterConditions,
+  parseChatFilterRulesImport,
+  type ChatFilterAction,
+  type ChatFilterRule,
+} from '../utils/chatFilters'
+
+/** Form state for one rule; text inputs stay strings until saved. */
+type RuleDraft = {
+  id: string | null
+  name: string
+  enabled: boolean
+  source: string
+  channel: string
+  nicks: string
+  contentRegex: string
+  emoteOnly: '' | 'yes' | 'no'
+  hasLink: '' | 'yes' | 'no'
+  minLength: string
+  maxLength: string
+  action: ChatFilterAction
+  color: string
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  id: null,
+  name: '',
+  enabled: true,
+  source: '',
+  channel: '',
+  nicks: '',
+  contentRegex: '',
+  emoteOnly: '',
+  hasLink: '',
+  minLength: '',
+  maxLength: '',
+  action: 'highlight',
+  color: DEFAULT_CHAT_FILTER_HIGHLIGHT_COLOR,
+}
+
+function draftFromRule(rule: ChatFilterRule): RuleDraft {
+  const m = rule.match
+  return {
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    source: m.source ?? '',
+    channel: m.channel ?? '',
+    nicks: (m.nicks ?? []).join(', '),
+    contentRegex: m.contentRegex ?? '',
+    emoteOnly: m.emoteOnly == null ? '' : m.emoteOnly ? 'yes' : 'no',
+    hasLink: m.hasLink == null ? '' : m.hasLink ? 'yes' : 'no',
+    minLength: m.minLength != null ? String(m.minLength) : '',
+    maxLength: m.maxLength != null ? String(m.maxLength) : '',
+    action: rule.action,
+    color: rule.color ?? DEFAULT_CHAT_FILTER_HIGHLIGHT_COLOR,
+  }
+}
+
+function parseLength(v: string): number | undefined {
+  const n = Number(v)
+  return v.trim() && Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined
+}
+
+function ruleFromDraft(draft: RuleDraft): ChatFilterRule {
+  const nicks = draft.nicks.split(',').map((n) => n.trim()).filter(Boolean)
+  return {
+    id: draft.id ?? createChatFilterRuleId(),
+    name: draft.name.trim(),
+    enabled: draft.enabled,
+    match: {
+      source: draft.source || undefined,
+      channel: draft.channel.trim() || undefined,
+      nicks: nicks.length > 0 ? nicks : undefined,
+      contentRegex: draft.contentRegex || undefined,
+      emoteOnly: draft.emoteOnly === '' ? undefined : draft.emoteOnly === 'yes',
+      hasLink: draft.hasLink === '' ? undefined : draft.hasLink === 'yes',
+      minLength: parseLength(draft.minLength),
+      maxLength: parseLength(draft.maxLength),
+    },
+    action: draft.action,
+    color: draft.action === 'highlight' ? draft.color : undefined,
+  }
+}
+
+/** Filter rules section of Settings > Chat: list, add/edit form, import/export. */
+export default function ChatFilterRulesEditor({
+  rules,
+  onChange,
+  sourceOptions,
+}: {
+  rules: ChatFilterRule[]
+  onChange: (rules: ChatFilterRule[]) => void
+  /** Chat sources besides primary/Kick/YouTube/Twitch (extension providers, additional chat sources). */
+  sourceOptions: Array<{ value: string; label: string }>
+}) {
+  const [draft, setDraft] = useState<RuleDraft | null>(null)
+  const [importStatus, setImportStatus] = useState<{ ok: boolean; message: string } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const regexError = draft?.contentRegex ? getChatFilterRegexError(draft.contentRegex) : null
+  const draftRule = draft ? ruleFromDraft(draft) : null
+  const canSave = !!draftRule && !regexError && hasChatFilterConditions(draftRule.match)
+
+  const saveDraft = () => {
+    if (!draftRule || !canSave) return
+    onChange(draft?.id ? rules.map((r) => (r.id === draftRule.id ? draftRule : r)) : [...rules, draftRule])
+    setDraft(null)
+  }
+
+  const moveRule = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= rules.length) return
+    const next = [...rules]
+    const [rule] = next.splice(index, 1)
+    next.splice(target, 0, rule!)
+    onChange(next)
+  }
+
+  const exportRules = () => {
+    const blob = new Blob([exportChatFilterRules(rules)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'omni-screen-chat-filters.json'
+    a.click()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
+  const importRules = async (file: File) => {
+    try {
+      const imported = parseChatFilterRulesImport(await file.text())
+      onChange([...rules, ...imported])
+      setImportStatus({ ok: true, message: `Imported ${imported.length} rule${imported.length === 1 ? '' : 's'}` })
+    } catch (e) {
+      setImportStatus({ ok: false, message: e instanceof Error ? e.message : String(e) })
+    }
+  }
+
+  const sources = [
+    { value: '', label: 'Any source' },
+    { value: CHAT_FILTER_PRIMARY_SOURCE, label: 'Primary chat' },
+    { value: 'kick', label: 'Kick' },
+    { value: 'youtube', label: 'YouTube' },
+    { value: 'twitch', label: 'Twitch' },
+    ...sourceOptions,
+  ]
+
+  return (
+    <div>
+      <p className="text-xs text-base-content/60 mb-2">
+        Every condition of a rule must match. Rules apply to chat messages, not events; a message matching several rules gets all their actions.
+      </p>
+      {rules.length > 0 && (
+        <ul className="space-y-1 mb-2">
+          {rules.map((rule, i) => (
+            <li key={rule.id} className="flex items-center gap-2 rounded border border-base-300 px-2 py-1 text-sm">
+              <input
+                type="checkbox"
+                className="toggle toggle-xs"
+                checked={rule.enabled}
+                onChange={(e) => onChange(rules.map((r) => (r.id === rule.id ? { ...r, enabled: e.target.checked } : r)))}
+                aria-label={`Enable ${rule.name || 'rule'}`}
+              />
+              <div className={`min-w-0 flex-1 ${rule.enabled ? '' : 'opacity-50'}`}>
+                <div className="flex items-center gap-1.5">
+                  <span className="font-medium truncate">{rule.name || 'Unnamed rule'}</span>
+                  <span className="badge badge-xs badge-ghost shrink-0">
+                    {CHAT_FILTER_ACTIONS.find((a) => a.value === rule.action)?.label ?? rule.action}
+                  </span>
+                  {rule.action === 'highlight' && rule.color && (
+                    <span className="inline-block w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: rule.color }} aria-hidden />
+                  )}
+                </div>
+                <div className="text-xs text-base-content/60 truncate" title={describeChatFilterMatch(rule.match)}>
+                  {describeChatFilterMatch(rule.match)}
+                </div>
+              </div>
+              <button type="button" className="btn btn-ghost btn-xs px-1" disabled={i === 0} onClick={() => moveRule(i, -1)} aria-label="Move up">↑</button>
+              <button type="button" className="btn btn-ghost btn-xs px-1" disabled={i === rules.length - 1} onClick={() => moveRule(i, 1)} aria-label="Move down">↓</button>
+              <button type="button" className="btn btn-ghost btn-xs" onClick={() => setDraft(draftFromRule(rule))}>Edit</button>
+              <button
+                type="button"
+                className="btn btn-ghost btn-xs text-error"
+                onClick={() => {
+                  onChange(rules.filter((r) => r.id !== rule.id))
+                  if (draft?.id === rule.id) setDraft(null)
+                }}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="rounded border border-base-300 p-2 space-y-2 text-sm">
+          <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1.5 items-center">
+            <span>Name</span>
+            <input
+              type="text"
+              className="input input-sm w-full"
+              placeholder="Optional"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+            <span>Source</span>
+            <select className="select select-sm w-full" value={draft.source} onChange={(e) => setDraft({ ...draft, source: e.target.value })}>
+              {sources.map((s) => (
+                <option key={s.value} value={s.value}>{s.label}</option>
+              ))}
+            </select>
+            <span>Channel</span>
+            <input
+              type="text"
+              className="input input-sm w-full"
+              placeholder="Kick slug, YouTube video id, Twitch login…"
+              value={draft.channel}
+              onChange={(e) => setDraft({ ...draft, channel: e.target.value })}
+            />
+            <span>Nicks</span>
+            <input
+              type="text"
+              className="input input-sm w-full"
+              placeholder="Comma-separated"
+              value={draft.nicks}
+              onChange={(e) => setDraft({ ...draft, nicks: e.target.value })}
+            />
+            <span>Content regex</span>
+            <input
+              type="text"
+              className={`input input-sm w-full font-mono ${regexError ? 'input-error' : ''}`}
+              placeholder="e.g. \bspoiler\b"
+              value={draft.contentRegex}
+              onChange={(e) => setDraft({ ...draft, contentRegex: e.target.value })}
+              title={regexError ?? 'Case-insensitive'}
+            />
+            <span>Emote-only</span>
+            <select className="select select-sm w-full" value={draft.emoteOnly} onChange={(e) => setDraft({ ...draft, emoteOnly: e.target.value as RuleDraft['emoteOnly'] })}>
+              <option value="">Either</option>
+              <option value="yes">Only emote-only messages</option>
+              <option value="no">Only messages with text</option>
+            </select>
+            <span>Links</span>
+            <select className="select select-sm w-full" value={draft.hasLink} onChange={(e) => setDraft({ ...draft, hasLink: e.target.value as RuleDraft['hasLink'] })}>
+              <option value="">Either</option>
+              <option value="yes">Contains a link</option>
+              <option value="no">No links</option>
+            </select>
+            <span>Length</span>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                className="input input-sm w-20"
+                placeholder="Min"
+                value={draft.minLength}
+                onChange={(e) => setDraft({ ...draft, minLength: e.target.value })}
+              />
+              <span className="text-base-content/60">–</span>
+              <input
+                type="number"
+                min={0}
+                className="input input-sm w-20"
+                placeholder="Max"
+                value={draft.maxLength}
+                onChange={(e) => setDraft({ ...draft, maxLength: e.target.value })}
+              />
+              <span className="text-xs text-base-content/60">characters</span>
+            </div>
+            <span>Action</span>
+            <div className="flex items-center gap-2">
+              <select className="select select-sm flex-1" value={draft.action} onChange={(e) => setDraft({ ...draft, action: e.target.value as ChatFilterAction })}>
+                {CHAT_FILTER_ACTIONS.map((a) => (
+                  <option key={a.value} value={a.value}>{a.label}</option>
+                ))}
+              </select>
+              {draft.action === 'highlight' && (
+                <input
+                  type="color"
+                  className="w-8 h-8 rounded cursor-pointer border border-base-300 shrink-0"
+                  value={draft.color}
+                  onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+                  aria-label="Highlight color"
+                />
+              )}
+            </div>
+          </div>
+          {regexError && <p className="text-xs text-error">Invalid regex: {regexError}</p>}
+          {!regexError && draftRule && !hasChatFilterConditions(draftRule.match) && (
+            <p className="text-xs text-base-content/60">Add at least one condition.</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button type="button" className="btn btn-ghost btn-sm" onClick={() => setDraft(null)}>Cancel</button>
+            <button type="button" className="btn btn-primary btn-sm" disabled={!canSave} onClick={saveDraft}>
+              {draft.id ? 'Save rule' : 'Add rule'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          <button type="button" className="btn btn-sm btn-ghost" onClick={() => { setDraft({ ...EMPTY_DRAFT }); setImportStatus(null) }}>
+            Add rule
+          </button>
+          <button type="button" className="btn btn-sm btn-ghost" onClick={() => fileInputRef.current?.click()}>
+            Import…
+          </button>
+          <button type="button" className="btn btn-sm btn-ghost" disabled={rules.length === 0} onClick={exportRules}>
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) void importRules(file)
+            }}
+          />
+        </div>
+      )}
+      {importStatus && <p className={`text-xs mt-1 ${importStatus.ok ? 'text-success' : 'text-error'}`}>{importStatus.message}</p>}
+    </div>
+  )
+}
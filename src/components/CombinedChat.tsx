@@ -1,7 +1,12 @@
 import { type ReactNode, useCallback, forwardRef, Fragment, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
 import { Icon } from './Icon'
-import { omniColorForKey, textColorOn } from '../utils/omniColors'
+import { omniColorForKey, textColorOn, withAlpha } from '../utils/omniColors'
+import { evaluateChatFilterRules, type ChatFilterMessage, type ChatFilterOutcome, type ChatFilterRule } from '../utils/chatFilters'
+import { IGNORE_DURATIONS, addIgnoredChatUser, isIgnoredChatUser, type IgnoredChatUser } from '../utils/chatIgnoreList'
+import { showDesktopNotification, type DesktopNotificationTarget } from '../utils/desktopNotifications'
+import { estimateChatDelays, makeChatDelayKey, type ChatDelayGroup, type ChatDelaySample } from '../utils/chatDelay'
+import { invokeExtensionUiItem, useExtensionUiItems } from '../utils/extensionUi'
 import PollView, { type PollData } from './PollView'
 import kickPlatformIcon from '../assets/icons/third-party/platforms/kick-favicon.ico'
 import youtubePlatformIcon from '../assets/icons/third-party/platforms/youtube-favicon.ico'
@@ -95,6 +100,66 @@ interface KickChatMessage {
   }
 }
 
+type KickUserRef = { id?: number; username: string; slug?: string }
+
+/** Kick Pusher non-message events from main (kick-chat-event); see KickChatEvent in electron/kickChatManager.ts. */
+type KickChatEvent =
+  | { platform: 'kick'; type: 'message_deleted'; slug: string; tsMs: number; messageId: string }
+  | { platform: 'kick'; type: 'chat_cleared'; slug: string; tsMs: number }
+  | { platform: 'kick'; type: 'user_banned'; slug: string; tsMs: number; user: KickUserRef; bannedBy?: KickUserRef; permanent: boolean; durationMin?: number }
+  | { platform: 'kick'; type: 'user_unbanned'; slug: string; tsMs: number; user: KickUserRef; unbannedBy?: KickUserRef }
+  | { platform: 'kick'; type: 'subscription'; slug: string; tsMs: number; username: string; months?: number }
+  | { platform: 'kick'; type: 'gifted_subscriptions'; slug: string; tsMs: number; gifterUsername: string; giftedUsernames: string[]; gifterTotal?: number }
+  | { platform: 'kick'; type: 'host'; slug: string; tsMs: number; hostUsername: string; viewers?: number; optionalMessage?: string }
+  | { platform: 'kick'; type: 'pinned_message'; slug: string; tsMs: number; message: KickChatMessage; pinnedBy?: KickUserRef; durationSec?: number }
+  | { platform: 'kick'; type: 'pinned_message_deleted'; slug: string; tsMs: number }
+  | {
+      platform: 'kick'
+      type: 'poll_update'
+      slug: string
+      tsMs: number
+      title: string
+      options: Array<{ id: number; label: string; votes: number }>
+      durationSec?: number
+      remainingSec?: number
+    }
+  | { platform: 'kick'; type: 'poll_deleted'; slug: string; tsMs: number }
+  | { platform: 'kick'; type: 'stream_start'; slug: string; tsMs: number; title?: string }
+  | { platform: 'kick'; type: 'stream_stop'; slug: string; tsMs: number }
+
+/** Max deleted message keys remembered for strike-through (kick:<id>, youtube:<id>, youtube-author:<channelId>, twitch:<id>). */
+const DELETED_MESSAGE_KEYS_MAX = 2000
+
+/**
+ * Remember a removal (key -> time of the moderation event). Author keys only strike messages sent up to that time, so
+ * an author's messages after a timeout ends are shown normally.
+ */
+function addDeletedMessageKey(prev: Map<string, number>, key: string, tsMs: number): Map<string, number> {
+  if ((prev.get(key) ?? -Infinity) >= tsMs) return prev
+  const next = new Map(prev)
+  next.delete(key)
+  next.set(key, tsMs)
+  if (next.size > DELETED_MESSAGE_KEYS_MAX) {
+    const first = next.keys().next().value
+    if (first !== undefined) next.delete(first)
+  }
+  return next
+}
+
+/** True when a Kick/YouTube/Twitch message was removed by a platform moderation event (deleted, or author banned). */
+function isDeletedMessage(m: CombinedItem, deleted: Map<string, number>): boolean {
+  if (deleted.size === 0) return false
+  if (m.source === 'kick') return deleted.has(`kick:${(m.raw as KickChatMessage).id}`)
+  if (m.source === 'youtube') {
+    const raw = m.raw as YouTubeChatMessage
+    if (deleted.has(`youtube:${raw.id}`)) return true
+    const bannedAt = raw.authorChannelId ? deleted.get(`youtube-author:${raw.authorChannelId}`) : undefined
+    return bannedAt != null && m.tsMs <= bannedAt
+  }
+  if (m.source === 'twitch') return deleted.has(`twitch:${(m.raw as TwitchChatMessage).id}`)
+  return false
+}
+
 type YouTubeMessageRun =
   | { text: string }
   | { emojiId: string; imageUrl: string; shortcut?: string }
@@ -107,8 +172,45 @@ interface YouTubeChatMessage {
   authorName?: string
   message: string
   runs?: YouTubeMessageRun[]
+  authorChannelId?: string
 }
 
+/** YouTube paid/membership items and moderation actions from main (youtube-chat-event); see electron/youtubeChatManager.ts. */
+type YouTubeChatEvent =
+  | {
+      platform: 'youtube'
+      type: 'superchat' | 'supersticker'
+      videoId: string
+      id: string
+      tsMs: number
+      authorName: string
+      amountText: string
+      amount?: number
+      currency?: string
+      message?: string
+      stickerUrl?: string
+      stickerLabel?: string
+      colors: { header?: string; body?: string; authorName?: string }
+    }
+  | {
+      platform: 'youtube'
+      type: 'membership'
+      videoId: string
+      id: string
+      tsMs: number
+      authorName: string
+      milestone: boolean
+      headerText: string
+      tierText?: string
+      message?: string
+    }
+  | { platform: 'youtube'; type: 'membership_gift'; videoId: string; id: string; tsMs: number; authorName: string; count: number; text: string }
+  | { platform: 'youtube'; type: 'message_deleted'; videoId: string; tsMs: number; targetId: string }
+  | { platform: 'youtube'; type: 'author_banned'; videoId: string; tsMs: number; authorChannelId: string; authorName?: string }
+
+/** YouTube's membership green, used as the accent for membership events. */
+const YOUTUBE_MEMBERSHIP_COLOR = '#0f9d58'
+
 interface TwitchChatMessage {
   platform: 'twitch'
   channel: string
@@ -118,6 +220,107 @@ interface TwitchChatMessage {
   displayName: string
   userId?: string
   text: string
+  roomId?: string
+  /** Native emote ranges; UTF-16 indices into text, end exclusive (converted in main). */
+  emotes?: Array<{ id: string; start: number; end: number }>
+  badges?: Array<{ setId: string; version: string }>
+  /** /me message. */
+  action?: boolean
+}
+
+/** Badge images and BTTV/FFZ/7TV emotes for one Twitch channel (twitch-chat-get-channel-assets). */
+type TwitchChannelAssets = {
+  /** Keyed by "setId/version". */
+  badges: Record<string, { url: string; title: string }>
+  /** Third-party emotes by exact name (case-sensitive, like Twitch). Empty when the setting is off. */
+  thirdParty: Map<string, { name: string; url: string; provider: 'bttv' | 'ffz' | '7tv' }>
+}
+
+/** Twitch IRC non-message events (CLEARCHAT, CLEARMSG, USERNOTICE, ROOMSTATE) from main (twitch-chat-event). */
+type TwitchChatEvent =
+  | { platform: 'twitch'; type: 'clearchat'; channel: string; tsMs: number; targetLogin?: string; banDurationSec?: number }
+  | { platform: 'twitch'; type: 'clearmsg'; channel: string; tsMs: number; targetMessageId: string; login?: string; text?: string }
+  | {
+      platform: 'twitch'
+      type: 'usernotice'
+      channel: string
+      tsMs: number
+      kind: 'sub' | 'resub' | 'subgift' | 'submysterygift' | 'raid' | 'announcement' | 'other'
+      msgId: string
+      displayName: string
+      systemMsg: string
+      text?: string
+      months?: number
+      recipientDisplayName?: string
+      giftCount?: number
+      viewerCount?: number
+      communityGiftId?: string
+    }
+  | {
+      platform: 'twitch'
+      type: 'roomstate'
+      channel: string
+      tsMs: number
+      modes: { slowSec?: number; subsOnly?: boolean; emoteOnly?: boolean; followersOnlyMin?: number; uniqueChat?: boolean }
+    }
+
+/** "10m", "1h 30m", "45s" for timeout durations. */
+function formatDurationShort(totalSec: number): string {
+  const sec = Math.max(0, Math.floor(totalSec))
+  const d = Math.floor(sec / 86400)
+  const h = Math.floor((sec % 86400) / 3600)
+  const m = Math.floor((sec % 3600) / 60)
+  const s = sec % 60
+  const parts: string[] = []
+  if (d) parts.push(`${d}d`)
+  if (h) parts.push(`${h}h`)
+  if (m) parts.push(`${m}m`)
+  if (s || parts.length === 0) parts.push(`${s}s`)
+  return parts.slice(0, 2).join(' ')
+}
+
+/** Human-readable text for a Twitch ROOMSTATE change. */
+function describeTwitchRoomModes(modes: Extract<TwitchChatEvent, { type: 'roomstate' }>['modes']): string {
+  const parts: string[] = []
+  if (modes.slowSec !== undefined) parts.push(modes.slowSec > 0 ? `Slow mode on (${formatDurationShort(modes.slowSec)})` : 'Slow mode off')
+  if (modes.subsOnly !== undefined) parts.push(`Subscriber-only mode ${modes.subsOnly ? 'on' : 'off'}`)
+  if (modes.emoteOnly !== undefined) parts.push(`Emote-only mode ${modes.emoteOnly ? 'on' : 'off'}`)
+  if (modes.followersOnlyMin !== undefined) {
+    parts.push(
+      modes.followersOnlyMin >= 0
+        ? `Followers-only mode on${modes.followersOnlyMin > 0 ? ` (${formatDurationShort(modes.followersOnlyMin * 60)})` : ''}`
+        : 'Followers-only mode off'
+    )
+  }
+  if (modes.uniqueChat !== undefined) parts.push(`Unique-chat mode ${modes.uniqueChat ? 'on' : 'off'}`)
+  return parts.join(', ')
+}
+
+/** Chat line from an extension chat provider (main: ChatLine on chat-provider-message / chat-provider-event). */
+type ChatProviderLine = {
+  source: string
+  channel: string
+  tsMs: number
+  nick: string
+  content: string
+  id?: string
+  color?: string
+}
+
+/** Chat source besides the primary one (each has its own chat WebSocket in main; events on chat-source:<id>:<event>). */
+export type AdditionalChatSource = {
+  id: string
+  /** Badge text (extension setting labelText, or the source id). */
+  label: string
+  iconUrl?: string
+}
+
+/** Extension chat provider with its enabled targets (OmniScreen: per-embed Chat toggles for that platform). */
+export type ExtensionChatSource = {
+  providerId: string
+  label: string
+  canSend: boolean
+  targets: string[]
 }
 
 interface EmoteData {
@@ -368,6 +571,86 @@ function getContentForHighlight(m: CombinedItem): string {
   return m.content ?? ''
 }
 
+/** True when the message has at least one emote and nothing but emotes and whitespace (filter rules). */
+function isEmoteOnlyMessage(m: CombinedItem, emotesMap: Map<string, string>, twitchAssets: Record<string, TwitchChannelAssets>): boolean {
+  if ('providerId' in m) return false
+  if (m.source === 'kick') {
+    const text = String((m.raw as KickChatMessage)?.content ?? m.content ?? '')
+    return /\[emote:\d+:[^\]]+\]/.test(text) && !text.replace(/\[emote:\d+:[^\]]+\]/g, '').trim()
+  }
+  if (m.source === 'youtube') {
+    const runs = (m.raw as YouTubeChatMessage).runs
+    return Array.isArray(runs) && runs.some((r) => 'emojiId' in r) && runs.every((r) => 'emojiId' in r || !r.text.trim())
+  }
+  if (m.source === 'twitch') {
+    const raw = m.raw as TwitchChatMessage
+    const ranges = [...(raw.emotes ?? [])].sort((a, b) => b.start - a.start)
+    let text = raw.text ?? ''
+    for (const e of ranges) text = `${text.slice(0, e.start)} ${text.slice(e.end)}`
+    const words = text.split(/\s+/).filter(Boolean)
+    const thirdParty = twitchAssets[raw.channel?.toLowerCase()]?.thirdParty
+    return (ranges.length > 0 || words.length > 0) && words.every((w) => thirdParty?.has(w))
+  }
+  const words = (m.content ?? '').trim().split(/\s+/).filter(Boolean)
+  return words.length > 0 && words.every((w) => emotesMap.has(w))
+}
+
+/** Platform key of a message for the ignore list and filter rules: provider id for chat provider lines, else the source. */
+function getMessagePlatform(m: CombinedItem): string {
+  return 'providerId' in m ? m.providerId : m.source
+}
+
+/** Stable default for the ignoredUsers prop (trimToLimit depends on it). */
+const NO_IGNORED_USERS: IgnoredChatUser[] = []
+
+/** Stable defaults for the chat delay props. */
+const NO_CHAT_DELAY_OFFSETS: Record<string, number> = {}
+const NO_CHAT_DELAY_GROUPS: ChatDelayGroup[] = []
+/** How often chat delays are estimated (chatDelayEstimateGroups). */
+const CHAT_DELAY_ESTIMATE_INTERVAL_MS = 15_000
+
+/** Chat delay key (utils/chatDelay) of a Kick/YouTube/Twitch message, event or system line; null for other sources. */
+function getChatDelayKey(m: CombinedItem): string | null {
+  const platform = m.source.split('-')[0]
+  if (platform !== 'kick' && platform !== 'youtube' && platform !== 'twitch') return null
+  const id = 'slug' in m ? m.slug : 'videoId' in m ? m.videoId : 'channel' in m ? m.channel : undefined
+  return typeof id === 'string' && id ? makeChatDelayKey(platform, id) : null
+}
+
+/** True for chat messages by an ignored user (events, system lines and broadcasts are kept). */
+function isIgnoredMessage(m: CombinedItem, ignoredUsers: IgnoredChatUser[], now: number): boolean {
+  if ('eventType' in m || 'kind' in m || !('nick' in m) || !m.nick) return false
+  if (m.source.endsWith('-event') || m.source.endsWith('-system') || m.source.endsWith('-broadcast')) return false
+  return isIgnoredChatUser(ignoredUsers, m.nick, getMessagePlatform(m), now)
+}
+
+/** What filter rules match against for a chat message; null for events, system lines and broadcasts. */
+function getChatFilterMessage(
+  m: CombinedItem,
+  primaryChatSourceId: string | null,
+  emotesMap: Map<string, string>,
+  twitchAssets: Record<string, TwitchChannelAssets>,
+): ChatFilterMessage | null {
+  if ('eventType' in m || 'kind' in m || !('nick' in m) || !m.nick) return null
+  if (m.source.endsWith('-event') || m.source.endsWith('-system') || m.source.endsWith('-broadcast')) return null
+  const channel =
+    m.source === 'kick' && 'slug' in m
+      ? m.slug
+      : m.source === 'youtube' && 'videoId' in m
+        ? m.videoId
+        : 'channel' in m
+          ? m.channel
+          : undefined
+  return {
+    source: getMessagePlatform(m),
+    isPrimary: m.source === primaryChatSourceId,
+    channel,
+    nick: m.nick,
+    text: getContentForHighlight(m),
+    emoteOnly: isEmoteOnlyMessage(m, emotesMap, twitchAssets),
+  }
+}
+
 /** Segment type for primary chat message content: plain text or a mentioned nick. */
 type PrimaryChatContentSegment = { type: 'text'; value: string } | { type: 'nick'; value: string }
 
@@ -860,20 +1143,38 @@ type CombinedItem =
       isHistory?: boolean
     }
   | {
+      /** Extension chat provider id. */
       source: string
-      eventType: 'giftsub' | 'massgift' | 'donation'
+      providerId: string
+      tsMs: number
+      nick: string
+      content: string
+      channel: string
+      raw: ChatProviderLine
+      isHistory?: boolean
+    }
+  | {
+      source: string
+      eventType: 'giftsub' | 'massgift' | 'donation' | 'sub' | 'raid' | 'notice' | 'pin' | 'poll' | 'live' | 'offline'
       tsMs: number
       nick: string
       content: string
       raw: unknown
+      /** Platform channel (e.g. Twitch login) for non-primary sources; shown before the content. */
+      channel?: string
+      /** Accent color (e.g. YouTube super chat tier color); renders as a tinted, bordered line. */
+      color?: string
+      /** Inline image after the content (e.g. YouTube super sticker). */
+      imageUrl?: string
       isHistory?: boolean
     }
   | {
       source: string
-      kind: 'mute' | 'ban' | 'unmute'
+      kind: 'mute' | 'ban' | 'unmute' | 'clear' | 'delete' | 'mode'
       tsMs: number
       content: string
       raw: unknown
+      channel?: string
       isHistory?: boolean
     }
   | {
@@ -889,7 +1190,7 @@ type CombinedItemWithSeq = CombinedItem & { seq: number }
 
 /** True only if the message is solely a single emote (nothing else). Combo grouping applies only to these. */
 function isSingleEmoteMessage(m: CombinedItem, emotesMap: Map<string, string>): boolean {
-  const isPrimaryChatMessage = !['kick', 'youtube', 'twitch'].includes(m.source) && !('eventType' in m) && !('kind' in m) && !m.source.endsWith('-broadcast')
+  const isPrimaryChatMessage = !['kick', 'youtube', 'twitch'].includes(m.source) && !('eventType' in m) && !('kind' in m) && !('providerId' in m) && !m.source.endsWith('-broadcast')
   if (isPrimaryChatMessage) {
     const trimmed = (m.content ?? '').trim()
     if (!trimmed) return false
@@ -906,7 +1207,7 @@ function isSingleEmoteMessage(m: CombinedItem, emotesMap: Map<string, string>):
 /** Emote key for combo grouping: same key = same emote. Returns null if not a single-emote message. */
 function getEmoteKey(m: CombinedItem, emotesMap: Map<string, string>): string | null {
   if (!isSingleEmoteMessage(m, emotesMap)) return null
-  const isPrimaryChatMessage = !['kick', 'youtube', 'twitch'].includes(m.source) && !('eventType' in m) && !('kind' in m) && !m.source.endsWith('-broadcast')
+  const isPrimaryChatMessage = !['kick', 'youtube', 'twitch'].includes(m.source) && !('eventType' in m) && !('kind' in m) && !('providerId' in m) && !m.source.endsWith('-broadcast')
   if (isPrimaryChatMessage) {
     const trimmed = (m.content ?? '').trim()
     return emotesMap.has(trimmed) ? trimmed : null
@@ -1038,6 +1339,65 @@ function renderKickContent(msg: KickChatMessage, onOpenLink?: (url: string) => v
   return parts.length ? parts : [renderTextWithLinks(text, null, new Map(), onOpenLink)]
 }
 
+function renderTwitchEmoteImg(src: string, name: string, key: string, title?: string) {
+  return (
+    <img
+      key={key}
+      src={src}
+      alt={name}
+      title={title ?? name}
+      loading="lazy"
+      className="inline-block align-middle mx-0.5"
+      style={{ height: THIRD_PARTY_EMOTE_HEIGHT_PX, width: 'auto' }}
+    />
+  )
+}
+
+/** Twitch message: native emotes from IRC positions, then BTTV/FFZ/7TV emotes by whole-word name in the remaining text. */
+function renderTwitchContent(
+  msg: TwitchChatMessage,
+  thirdParty: TwitchChannelAssets['thirdParty'] | undefined,
+  onOpenLink?: (url: string) => void,
+): (string | JSX.Element)[] {
+  const text = String(msg?.text ?? '')
+  if (!text) return ['']
+  const parts: (string | JSX.Element)[] = []
+  let k = 0
+
+  const pushText = (segment: string) => {
+    if (!segment) return
+    if (!thirdParty || thirdParty.size === 0) {
+      parts.push(renderTextWithLinks(segment, null, new Map(), onOpenLink))
+      return
+    }
+    let buf = ''
+    for (const token of segment.split(/(\s+)/)) {
+      const emote = token ? thirdParty.get(token) : undefined
+      if (!emote) {
+        buf += token
+        continue
+      }
+      if (buf) parts.push(renderTextWithLinks(buf, null, new Map(), onOpenLink))
+      buf = ''
+      parts.push(renderTwitchEmoteImg(emote.url, emote.name, `twitch-3p-${k++}`, `${emote.name} (${emote.provider.toUpperCase()})`))
+    }
+    if (buf) parts.push(renderTextWithLinks(buf, null, new Map(), onOpenLink))
+  }
+
+  let last = 0
+  for (const e of Array.isArray(msg.emotes) ? msg.emotes : []) {
+    if (e.start < last || e.end > text.length || e.end <= e.start) continue
+    if (e.start > last) pushText(text.slice(last, e.start))
+    const name = text.slice(e.start, e.end)
+    parts.push(
+      renderTwitchEmoteImg(`https://static-cdn.jtvnw.net/emoticons/v2/${encodeURIComponent(e.id)}/default/dark/2.0`, name, `twitch-emote-${k++}`),
+    )
+    last = e.end
+  }
+  if (last < text.length) pushText(text.slice(last))
+  return parts.length ? parts : [renderTextWithLinks(text, null, new Map(), onOpenLink)]
+}
+
 function renderYouTubeContent(msg: YouTubeChatMessage, onOpenLink?: (url: string) => void): ReactNode {
   const runs = msg.runs
   if (!runs || runs.length === 0) {
@@ -1088,7 +1448,12 @@ export type CombinedChatContextMenuConfig = {
     setShowPrimaryChatSourceFlairsAndColors: (v: boolean) => void
   }
   order: { sortMode: 'timestamp' | 'arrival'; setSortMode: (v: 'timestamp' | 'arrival') => void }
-  emotes: { pauseOffScreen: boolean; setPauseOffScreen: (v: boolean) => void }
+  emotes: {
+    pauseOffScreen: boolean
+    setPauseOffScreen: (v: boolean) => void
+    twitchThirdParty?: boolean
+    setTwitchThirdParty?: (v: boolean) => void
+  }
   linkAction: { value: 'none' | 'clipboard' | 'browser' | 'viewer'; setValue: (v: 'none' | 'clipboard' | 'browser' | 'viewer') => void }
   /** Chat pane side: left or right. */
   paneSide: { value: 'left' | 'right'; setPaneSide: (v: 'left' | 'right') => void }
@@ -1130,6 +1495,9 @@ export default function CombinedChat({
   showPlatformIcons = false,
   sortMode,
   highlightTerms = [],
+  filterRules = [],
+  ignoredUsers = NO_IGNORED_USERS,
+  onIgnoredUsersChange,
   pauseEmoteAnimationsOffScreen = false,
   showPrimaryChatSourceFlairsAndColors = true,
   contextMenuConfig,
@@ -1145,6 +1513,9 @@ export default function CombinedChat({
   enabledKickSlugs = [],
   enabledYoutubeVideoIds = [],
   enabledTwitchChannels = [],
+  twitchThirdPartyEmotes = false,
+  extensionChatSources = [],
+  additionalChatSources = [],
   overlayMode = false,
   overlayOpacity = 0.85,
   messagesClickThrough = false,
@@ -1152,6 +1523,9 @@ export default function CombinedChat({
   overlayCinemaMode,
   inputContainerRef,
   contextMenuRef,
+  chatDelayOffsets = NO_CHAT_DELAY_OFFSETS,
+  chatDelayEstimateGroups = NO_CHAT_DELAY_GROUPS,
+  onChatDelayEstimate,
 }: {
   /** Id of the primary chat source (from config.chatSources). Used for source badge and message source. */
   primaryChatSourceId: string | null
@@ -1180,6 +1554,12 @@ export default function CombinedChat({
   sortMode: 'timestamp' | 'arrival'
   /** When set, messages whose text contains any of these terms (case-insensitive) get a light blue background. */
   highlightTerms?: string[]
+  /** User filter rules (hide, highlight, collapse, notify, route to the Filtered pane); see utils/chatFilters. */
+  filterRules?: ChatFilterRule[]
+  /** Users whose messages are dropped before they enter the list (see utils/chatIgnoreList). */
+  ignoredUsers?: IgnoredChatUser[]
+  /** When set, the user popup offers to ignore the user (on that platform or everywhere). */
+  onIgnoredUsersChange?: (list: IgnoredChatUser[]) => void
   /** When true, pause CSS animations on primary chat emotes when they scroll out of view (reduces restart-on-scroll). */
   pauseEmoteAnimationsOffScreen?: boolean
   /** When false, primary chat usernames use a single accent color and no flair icons. Default true. */
@@ -1209,6 +1589,12 @@ export default function CombinedChat({
   enabledYoutubeVideoIds?: string[]
   /** Twitch channel names that have chat enabled (for channel cycling and sending). */
   enabledTwitchChannels?: string[]
+  /** When true, Twitch messages also render BTTV, FFZ and 7TV emotes (global + channel sets). */
+  twitchThirdPartyEmotes?: boolean
+  /** Extension chat providers with enabled targets (sendable ones join channel cycling). */
+  extensionChatSources?: ExtensionChatSource[]
+  /** Chat sources after the primary one: messages, own badge and sending (no whispers/polls/pins). */
+  additionalChatSources?: AdditionalChatSource[]
   /** When true, chat is overlaid on embed area; messages area uses semi-transparent background. */
   overlayMode?: boolean
   /** Opacity of the messages area background in overlay mode (0–1). Default 0.85. */
@@ -1223,6 +1609,14 @@ export default function CombinedChat({
   inputContainerRef?: React.RefObject<HTMLDivElement | null>
   /** When set, parent can call .openContextMenu(e) to show the same context menu as the message area (e.g. on header). */
   contextMenuRef?: React.MutableRefObject<{ openContextMenu: (e: React.MouseEvent) => void } | null>
+  /**
+   * Timestamp sort mode: ms added to a channel's message times (key: makeChatDelayKey) so a multistream's chats line
+   * up with the watched video; lines shifted into the future are held back until then. See utils/chatDelay.
+   */
+  chatDelayOffsets?: Record<string, number>
+  /** Channels whose relative delays are estimated from the chat every few seconds (reported to onChatDelayEstimate). */
+  chatDelayEstimateGroups?: ChatDelayGroup[]
+  onChatDelayEstimate?: (offsets: Record<string, number>) => void
 }) {
   const [emotesMap, setEmotesMap] = useState<Map<string, string>>(new Map())
   const [flairsList, setFlairsList] = useState<PrimaryChatFlair[]>([])
@@ -1239,15 +1633,18 @@ export default function CombinedChat({
   const [items, setItems] = useState<CombinedItemWithSeq[]>([])
   const [updateSeq, setUpdateSeq] = useState(0)
   const [primaryChatInputValue, setPrimaryChatInputValue] = useState('')
-  /** Ordered list of chat channels: primary, Kick, YouTube, Twitch. Ctrl+Tab cycles. */
+  /** Ordered list of chat channels: primary, Kick, YouTube, Twitch, extension providers. Ctrl+Tab cycles. */
   const chatChannels = useMemo(() => {
     const list: Array<
       | { type: string }
       | { type: 'kick'; slug: string }
       | { type: 'youtube'; videoId: string }
       | { type: 'twitch'; channel: string }
+      | { type: 'provider'; providerId: string; label: string; target: string }
+      | { type: 'chat-source'; sourceId: string; label: string }
     > = []
     if (enablePrimaryChat && primaryChatSourceId) list.push({ type: primaryChatSourceId })
+    for (const src of additionalChatSources) list.push({ type: 'chat-source', sourceId: src.id, label: src.label })
     for (const slug of enabledKickSlugs) {
       const s = String(slug || '').trim()
       if (s) list.push({ type: 'kick', slug: s })
@@ -1260,11 +1657,29 @@ export default function CombinedChat({
       const c = String(ch || '').trim()
       if (c) list.push({ type: 'twitch', channel: c })
     }
+    for (const src of extensionChatSources) {
+      if (!src.canSend) continue
+      for (const target of src.targets) list.push({ type: 'provider', providerId: src.providerId, label: src.label, target })
+    }
     return list
-  }, [enablePrimaryChat, enabledKickSlugs, enabledYoutubeVideoIds, enabledTwitchChannels])
+  }, [enablePrimaryChat, additionalChatSources, enabledKickSlugs, enabledYoutubeVideoIds, enabledTwitchChannels, extensionChatSources])
   const [activeChatChannelIndex, setActiveChatChannelIndex] = useState(0)
   const activeChatChannelIndexClamped = chatChannels.length > 0 ? Math.min(activeChatChannelIndex, chatChannels.length - 1) : 0
   const activeChannel = chatChannels[activeChatChannelIndexClamped] ?? null
+  const hasExtraChatChannels = chatChannels.some((c) => c.type === 'provider' || c.type === 'chat-source')
+  const additionalChatSourcesById = useMemo(() => new Map(additionalChatSources.map((src) => [src.id, src])), [additionalChatSources])
+  /** Display name of a platform key (see getMessagePlatform). */
+  const getPlatformLabel = (platform: string): string => {
+    if (platform === primaryChatSourceId) return primaryChatSourceLabelText?.trim() || platform
+    const builtin: Record<string, string> = { kick: 'Kick', youtube: 'YouTube', twitch: 'Twitch' }
+    return (
+      builtin[platform] ??
+      additionalChatSourcesById.get(platform)?.label ??
+      extensionChatSources.find((src) => src.providerId === platform)?.label ??
+      platform
+    )
+  }
+  const additionalChatSourceIdsKey = additionalChatSources.map((src) => src.id).join('\n')
   useEffect(() => {
     if (chatChannels.length > 0 && activeChatChannelIndex >= chatChannels.length) {
       setActiveChatChannelIndex(0)
@@ -1317,6 +1732,11 @@ export default function CombinedChat({
   /** Which parent menu item is hovered (shows that submenu). */
   const [contextMenuHover, setContextMenuHover] = useState<string | null>(null)
   const contextMenuDivRef = useRef<HTMLDivElement | null>(null)
+  /** Extension contributions (renderer.js): user tooltip message actions and context menu items. */
+  const extensionMessageActions = useExtensionUiItems('messageAction')
+  /** Index into IGNORE_DURATIONS for the user popup's Ignore buttons (default 24 hours). */
+  const [ignoreDurationIndex, setIgnoreDurationIndex] = useState(2)
+  const extensionContextMenuItems = useExtensionUiItems('contextMenu')
   /** Error from last whisper send attempt (e.g. not logged in, chat not connected). */
   const [whisperSendError, setWhisperSendError] = useState<string | null>(null)
   /** When in list view: recipient for "send to new person" (combobox value; can be any username). */
@@ -1342,6 +1762,11 @@ export default function CombinedChat({
     features?: string[]
     colorFlairName?: string
     matchingTerms?: string[]
+    /** Platform key for the ignore list (see getMessagePlatform). */
+    platform?: string
+    /** Message the tooltip was opened on (for extension message actions); unset when opened from a nick. */
+    text?: string
+    tsMs?: number
   } | null>(null)
   const [userTooltipPosition, setUserTooltipPosition] = useState({ x: 0, y: 0 })
   const userTooltipRef = useRef<HTMLDivElement | null>(null)
@@ -1406,14 +1831,20 @@ export default function CombinedChat({
 
   const effectiveCap = Math.min(maxKeep, hardCap)
 
-  /** Trim only when at bottom (soft limit). When scrolled up, only trim if over hard cap. */
+  /**
+   * Drop messages by ignored users (so they don't count against the limit), then trim only when at bottom
+   * (soft limit). When scrolled up, only trim if over hard cap.
+   */
   const trimToLimit = useCallback(
     (arr: CombinedItemWithSeq[], atBottom: boolean): CombinedItemWithSeq[] => {
+      const now = Date.now()
+      const kept = ignoredUsers.length > 0 ? arr.filter((m) => !isIgnoredMessage(m, ignoredUsers, now)) : arr
+      const list = kept.length === arr.length ? arr : kept
       const limit = atBottom ? effectiveCap : hardCap
-      if (arr.length <= limit) return arr
-      return arr.slice(arr.length - limit)
+      if (list.length <= limit) return list
+      return list.slice(list.length - limit)
     },
-    [effectiveCap, hardCap]
+    [effectiveCap, hardCap, ignoredUsers]
   )
 
   const trimToLimitRef = useRef(trimToLimit)
@@ -1424,11 +1855,12 @@ export default function CombinedChat({
     setUpdateSeq((v) => v + 1)
   }, [trimToLimit])
 
-  const appendItems = (newItems: CombinedItemWithSeq[]) => {
+  // Stable (reads trimToLimit through its ref) so chat subscriptions don't re-subscribe when the limits change
+  const appendItems = useCallback((newItems: CombinedItemWithSeq[]) => {
     if (newItems.length === 0) return
-    setItems((prev) => trimToLimit([...prev, ...newItems], wasAtBottomRef.current))
+    setItems((prev) => trimToLimitRef.current([...prev, ...newItems], wasAtBottomRef.current))
     setUpdateSeq((v) => v + 1)
-  }
+  }, [])
 
   const emotePattern = useMemo(() => {
     if (emotesMap.size === 0) return null
@@ -1666,6 +2098,9 @@ export default function CombinedChat({
         features: (raw as PrimaryChatMessage).features,
         colorFlairName: colorFlair?.name,
         matchingTerms: matchingTerms.length > 0 ? matchingTerms : undefined,
+        platform: getMessagePlatform(m),
+        text: contentForHighlight,
+        tsMs: m.tsMs,
       })
       setUserTooltipPosition({ x: e.clientX, y: e.clientY })
     },
@@ -1699,6 +2134,64 @@ export default function CombinedChat({
     setUpdateSeq((v) => v + 1)
   }, [enablePrimaryChat, primaryChatSourceId])
 
+  // Additional chat sources: one WebSocket each in main, messages/history on chat-source:<id>:message / :history
+  const additionalChatSourceIdsPrevRef = useRef<string[]>([])
+  useEffect(() => {
+    let alive = true
+    const ids = additionalChatSourceIdsKey ? additionalChatSourceIdsKey.split('\n') : []
+    const removed = additionalChatSourceIdsPrevRef.current.filter((id) => !ids.includes(id))
+    additionalChatSourceIdsPrevRef.current = ids
+    if (removed.length > 0) {
+      setItems((prev) => prev.filter((m) => !removed.includes(m.source)))
+      setUpdateSeq((v) => v + 1)
+    }
+
+    const cleanups = ids.map((sourceId) => {
+      const toItem = (m: PrimaryChatMessage, isHistory?: boolean): CombinedItemWithSeq => ({
+        source: sourceId,
+        tsMs: typeof m.timestamp === 'number' ? m.timestamp : Date.now(),
+        nick: m.nick,
+        content: m.data ?? '',
+        raw: m,
+        isHistory,
+        seq: seqRef.current++,
+      })
+      const handleMessage = (_event: unknown, data: PrimaryChatWsMessage) => {
+        if (!alive) return
+        if (!data || data.type !== 'MSG' || !data.message) return
+        appendItems([toItem(data.message)])
+      }
+      const handleHistory = (_event: unknown, history: PrimaryChatWsHistory) => {
+        if (!alive) return
+        if (!history || history.type !== 'HISTORY') return
+        const messages = Array.isArray(history.items)
+          ? history.items.flatMap((item) => (item.type === 'MSG' ? [item.message] : []))
+          : Array.isArray(history.messages)
+            ? history.messages
+            : []
+        const mapped = messages.slice(-hardCapRef.current).map((m) => toItem(m, true))
+        if (mapped.length === 0) return
+        markStickIfAtBottom()
+        setItems((prev) => trimToLimitRef.current([...prev.filter((m) => m.source !== sourceId), ...mapped], wasAtBottomRef.current))
+        setUpdateSeq((v) => v + 1)
+      }
+
+      window.ipcRenderer.on(`chat-source:${sourceId}:message`, handleMessage)
+      window.ipcRenderer.on(`chat-source:${sourceId}:history`, handleHistory)
+      window.ipcRenderer.invoke('chat-websocket-connect', { sourceId }).catch(() => {})
+      return () => {
+        window.ipcRenderer.off(`chat-source:${sourceId}:message`, handleMessage)
+        window.ipcRenderer.off(`chat-source:${sourceId}:history`, handleHistory)
+        window.ipcRenderer.invoke('chat-websocket-disconnect', { sourceId }).catch(() => {})
+      }
+    })
+
+    return () => {
+      alive = false
+      cleanups.forEach((cleanup) => cleanup())
+    }
+  }, [additionalChatSourceIdsKey, appendItems])
+
   // Primary chat WebSocket connection (via main process IPC)
   useEffect(() => {
     let alive = true
@@ -1867,10 +2360,11 @@ export default function CombinedChat({
     window.ipcRenderer.on('chat-websocket-names', handleNames)
     window.ipcRenderer.on('chat-websocket-user-event', handleUserEvent)
 
-    const handlePrivmsg = (_event: any, data: { type?: string; privmsg?: { nick?: string } } | null) => {
+    const handlePrivmsg = (_event: any, data: { type?: string; privmsg?: { nick?: string; data?: string } } | null) => {
       if (!alive) return
       const nick = data?.privmsg?.nick?.trim()
       if (!nick) return
+      showDesktopNotification('whisper', `Whisper from ${nick}`, data?.privmsg?.data ?? '', { type: 'whisper', nick })
       setWhisperUsernames((prev) => {
         const next = prev.includes(nick) ? prev : [...prev, nick]
         try {
@@ -2270,6 +2764,98 @@ export default function CombinedChat({
     }
   }, [])
 
+  // YouTube super chats/stickers, memberships and moderation actions; paid items get the donation treatment with YouTube's tier color
+  const getEmbedDisplayNameRef = useRef(getEmbedDisplayName)
+  getEmbedDisplayNameRef.current = getEmbedDisplayName
+  useEffect(() => {
+    let alive = true
+    const handleYouTubeEvent = (_event: unknown, evt: YouTubeChatEvent) => {
+      if (!alive) return
+      if (!evt || evt.platform !== 'youtube') return
+      const channel = getEmbedDisplayNameRef.current(`youtube:${evt.videoId}`) || evt.videoId
+      const tsMs = Number.isFinite(evt.tsMs) ? evt.tsMs : Date.now()
+      switch (evt.type) {
+        case 'superchat':
+        case 'supersticker': {
+          const what = evt.type === 'supersticker' ? `a Super Sticker (${evt.amountText})` : evt.amountText
+          const text = evt.type === 'supersticker' ? '' : (evt.message ?? '')
+          appendItems([
+            {
+              source: 'youtube-event',
+              eventType: 'donation',
+              tsMs,
+              nick: evt.authorName,
+              content: `${evt.authorName} sent ${what}${text ? `: ${text}` : ''}`,
+              channel,
+              color: evt.colors.body ?? evt.colors.header,
+              imageUrl: evt.stickerUrl,
+              raw: evt,
+              seq: seqRef.current++,
+            },
+          ])
+          return
+        }
+        case 'membership': {
+          const summary = evt.milestone
+            ? `${evt.authorName}: ${evt.headerText}${evt.tierText ? ` (${evt.tierText})` : ''}`
+            : `${evt.authorName} became a member — ${evt.headerText}`
+          appendItems([
+            {
+              source: 'youtube-event',
+              eventType: 'sub',
+              tsMs,
+              nick: evt.authorName,
+              content: evt.message ? `${summary} — ${evt.message}` : summary,
+              channel,
+              color: YOUTUBE_MEMBERSHIP_COLOR,
+              raw: evt,
+              seq: seqRef.current++,
+            },
+          ])
+          return
+        }
+        case 'membership_gift':
+          appendItems([
+            {
+              source: 'youtube-event',
+              eventType: 'massgift',
+              tsMs,
+              nick: evt.authorName,
+              content: `${evt.authorName} gifted ${evt.count} membership${evt.count !== 1 ? 's' : ''}`,
+              channel,
+              color: YOUTUBE_MEMBERSHIP_COLOR,
+              raw: evt,
+              seq: seqRef.current++,
+            },
+          ])
+          return
+        case 'message_deleted':
+          setDeletedMessageKeys((prev) => addDeletedMessageKey(prev, `youtube:${evt.targetId}`, tsMs))
+          return
+        case 'author_banned':
+          setDeletedMessageKeys((prev) => addDeletedMessageKey(prev, `youtube-author:${evt.authorChannelId}`, tsMs))
+          appendItems([
+            {
+              source: 'youtube-system',
+              kind: 'ban',
+              tsMs,
+              content: `Messages from ${evt.authorName ?? 'a user'} were removed by a moderator`,
+              channel,
+              raw: evt,
+              seq: seqRef.current++,
+            },
+          ])
+          return
+      }
+    }
+
+    window.ipcRenderer.on('youtube-chat-event', handleYouTubeEvent)
+    return () => {
+      alive = false
+      window.ipcRenderer.off('youtube-chat-event', handleYouTubeEvent)
+    }
+  }, [appendItems])
+
   // Twitch chat messages forwarded from main process (IRC over WebSocket)
   useEffect(() => {
     let alive = true
@@ -2297,6 +2883,264 @@ export default function CombinedChat({
     }
   }, [])
 
+  // Extension chat providers: normalized lines forwarded from main (built-ins use their own channels above)
+  useEffect(() => {
+    let alive = true
+    const handleProviderMessage = (_event: unknown, payload: { providerId?: string; line?: ChatProviderLine }) => {
+      if (!alive) return
+      const line = payload?.line
+      if (!payload?.providerId || !line) return
+      appendItems([
+        {
+          source: payload.providerId,
+          providerId: payload.providerId,
+          tsMs: Number.isFinite(line.tsMs) ? line.tsMs : Date.now(),
+          nick: line.nick || payload.providerId,
+          content: line.content ?? '',
+          channel: line.channel || '',
+          raw: line,
+          seq: seqRef.current++,
+        },
+      ])
+    }
+    const handleProviderEvent = (_event: unknown, payload: { providerId?: string; line?: ChatProviderLine }) => {
+      if (!alive) return
+      const line = payload?.line
+      if (!payload?.providerId || !line) return
+      appendItems([
+        {
+          source: `${payload.providerId}-event`,
+          eventType: 'notice',
+          tsMs: Number.isFinite(line.tsMs) ? line.tsMs : Date.now(),
+          nick: line.nick ?? '',
+          content: line.nick ? `${line.nick}: ${line.content ?? ''}` : line.content ?? '',
+          channel: line.channel || undefined,
+          color: line.color,
+          raw: line,
+          seq: seqRef.current++,
+        },
+      ])
+    }
+
+    window.ipcRenderer.on('chat-provider-message', handleProviderMessage)
+    window.ipcRenderer.on('chat-provider-event', handleProviderEvent)
+    return () => {
+      alive = false
+      window.ipcRenderer.off('chat-provider-message', handleProviderMessage)
+      window.ipcRenderer.off('chat-provider-event', handleProviderEvent)
+    }
+  }, [appendItems])
+
+  // Kick Pusher events (deletions, bans/timeouts, subs/gifts, hosts, pins, polls, stream start/stop)
+  const [deletedMessageKeys, setDeletedMessageKeys] = useState<Map<string, number>>(() => new Map())
+  const [kickPins, setKickPins] = useState<Record<string, { message: KickChatMessage; pinnedBy?: string; tsMs: number }>>({})
+  const [kickPinHidden, setKickPinHidden] = useState(false)
+  /** Most recent Kick pin across enabled channels (one pinned bar, like primary chat). */
+  const latestKickPin = useMemo(() => {
+    let latest: { slug: string; message: KickChatMessage; pinnedBy?: string; tsMs: number } | null = null
+    for (const [slug, pin] of Object.entries(kickPins)) {
+      if (!enabledKickSlugs.some((s) => s.toLowerCase() === slug.toLowerCase())) continue
+      if (!latest || pin.tsMs > latest.tsMs) latest = { slug, ...pin }
+    }
+    return latest
+  }, [kickPins, enabledKickSlugs])
+  useEffect(() => {
+    let alive = true
+    /** Last poll state per slug, so a poll start shows once and the result shows when it's removed. */
+    const activePolls = new Map<string, Extract<KickChatEvent, { type: 'poll_update' }>>()
+    const handleKickEvent = (_event: unknown, evt: KickChatEvent) => {
+      if (!alive) return
+      if (!evt || evt.platform !== 'kick') return
+      const channel = evt.slug || 'unknown'
+      const tsMs = Number.isFinite(evt.tsMs) ? evt.tsMs : Date.now()
+      const pushEvent = (eventType: 'giftsub' | 'massgift' | 'sub' | 'raid' | 'pin' | 'poll' | 'live' | 'offline', nick: string, content: string) =>
+        appendItems([{ source: 'kick-event', eventType, tsMs, nick, content, channel, raw: evt, seq: seqRef.current++ }])
+      const pushSystem = (kind: 'mute' | 'ban' | 'unmute' | 'clear', content: string) =>
+        appendItems([{ source: 'kick-system', kind, tsMs, content, channel, raw: evt, seq: seqRef.current++ }])
+
+      switch (evt.type) {
+        case 'message_deleted':
+          setDeletedMessageKeys((prev) => addDeletedMessageKey(prev, `kick:${evt.messageId}`, tsMs))
+          return
+        case 'chat_cleared':
+          pushSystem('clear', 'Chat was cleared by a moderator')
+          return
+        case 'user_banned': {
+          const by = evt.bannedBy ? ` by ${evt.bannedBy.username}` : ''
+          if (evt.permanent) pushSystem('ban', `${evt.user.username} was banned${by}`)
+          else pushSystem('mute', `${evt.user.username} was timed out for ${formatDurationShort((evt.durationMin ?? 0) * 60)}${by}`)
+          return
+        }
+        case 'user_unbanned':
+          pushSystem('unmute', `${evt.user.username} was unbanned${evt.unbannedBy ? ` by ${evt.unbannedBy.username}` : ''}`)
+          return
+        case 'subscription':
+          pushEvent('sub', evt.username, `${evt.username} subscribed${evt.months && evt.months > 1 ? ` (${evt.months} months)` : ''}`)
+          return
+        case 'gifted_subscriptions': {
+          const count = evt.giftedUsernames.length
+          if (count === 1) {
+            pushEvent('giftsub', evt.gifterUsername, `${evt.gifterUsername} gifted a subscription to ${evt.giftedUsernames[0]}`)
+          } else {
+            const total = evt.gifterTotal && evt.gifterTotal > count ? ` (${evt.gifterTotal} total)` : ''
+            pushEvent('massgift', evt.gifterUsername, `${evt.gifterUsername} gifted ${count} subscriptions${total}`)
+          }
+          return
+        }
+        case 'host': {
+          const viewers = evt.viewers != null ? ` with ${evt.viewers} viewers` : ''
+          pushEvent('raid', evt.hostUsername, `${evt.hostUsername} is hosting${viewers}${evt.optionalMessage ? ` — ${evt.optionalMessage}` : ''}`)
+          return
+        }
+        case 'pinned_message': {
+          const pinnedBy = evt.pinnedBy?.username
+          setKickPins((prev) => ({ ...prev, [channel]: { message: evt.message, pinnedBy, tsMs } }))
+          setKickPinHidden(false)
+          pushEvent('pin', pinnedBy ?? '', `${pinnedBy ?? 'A moderator'} pinned a message from ${evt.message.sender.username}`)
+          return
+        }
+        case 'pinned_message_deleted':
+          setKickPins((prev) => {
+            if (!(channel in prev)) return prev
+            const next = { ...prev }
+            delete next[channel]
+            return next
+          })
+          return
+        case 'poll_update': {
+          const prev = activePolls.get(channel)
+          activePolls.set(channel, evt)
+          if (prev && prev.title === evt.title) return
+          const options = evt.options.map((o) => o.label).filter(Boolean).join(' / ')
+          pushEvent('poll', '', `Poll: ${evt.title}${options ? ` (${options})` : ''}`)
+          return
+        }
+        case 'poll_deleted': {
+          const last = activePolls.get(channel)
+          activePolls.delete(channel)
+          if (!last) return
+          const winner = [...last.options].sort((a, b) => b.votes - a.votes)[0]
+          pushEvent('poll', '', `Poll ended: ${last.title}${winner ? ` — ${winner.label} (${winner.votes} votes)` : ''}`)
+          return
+        }
+        case 'stream_start':
+          pushEvent('live', channel, `${channel} is live${evt.title ? `: ${evt.title}` : ''}`)
+          return
+        case 'stream_stop':
+          pushEvent('offline', channel, `${channel} went offline`)
+          return
+      }
+    }
+
+    window.ipcRenderer.on('kick-chat-event', handleKickEvent)
+    return () => {
+      alive = false
+      window.ipcRenderer.off('kick-chat-event', handleKickEvent)
+    }
+  }, [appendItems])
+
+  // Twitch badge images + third-party emotes per enabled channel. Refetched when the third-party setting changes.
+  const [twitchAssets, setTwitchAssets] = useState<Record<string, TwitchChannelAssets>>({})
+  const twitchAssetsRequestedRef = useRef<Set<string>>(new Set())
+  useEffect(() => {
+    const withThirdParty = twitchThirdPartyEmotes
+    for (const raw of enabledTwitchChannels) {
+      const channel = String(raw || '').trim().toLowerCase()
+      if (!channel) continue
+      const requestKey = `${channel}:${withThirdParty ? 1 : 0}`
+      if (twitchAssetsRequestedRef.current.has(requestKey)) continue
+      twitchAssetsRequestedRef.current.add(requestKey)
+      window.ipcRenderer
+        .invoke('twitch-chat-get-channel-assets', { channel, thirdParty: withThirdParty })
+        .then((res: { success?: boolean; badges?: TwitchChannelAssets['badges']; emotes?: Array<{ name: string; url: string; provider: 'bttv' | 'ffz' | '7tv' }> }) => {
+          if (!res?.success) {
+            twitchAssetsRequestedRef.current.delete(requestKey)
+            return
+          }
+          const thirdParty: TwitchChannelAssets['thirdParty'] = new Map()
+          for (const e of res.emotes ?? []) thirdParty.set(e.name, e)
+          // A badges-only fetch must not wipe emotes from an earlier third-party fetch (setting toggled off and on).
+          setTwitchAssets((prev) => ({
+            ...prev,
+            [channel]: { badges: res.badges ?? {}, thirdParty: withThirdParty ? thirdParty : (prev[channel]?.thirdParty ?? thirdParty) },
+          }))
+        })
+        .catch(() => {
+          twitchAssetsRequestedRef.current.delete(requestKey)
+        })
+    }
+  }, [enabledTwitchChannels, twitchThirdPartyEmotes])
+
+  // Twitch IRC events (timeouts/bans, deletions, subs/raids, room modes); rendered like primary chat events/system lines
+  useEffect(() => {
+    let alive = true
+    const handleTwitchEvent = (_event: unknown, evt: TwitchChatEvent) => {
+      if (!alive) return
+      if (!evt || evt.platform !== 'twitch') return
+      const channel = evt.channel || 'unknown'
+      const tsMs = Number.isFinite(evt.tsMs) ? evt.tsMs : Date.now()
+      if (evt.type === 'clearchat') {
+        const target = evt.targetLogin
+        const kind = !target ? 'clear' : evt.banDurationSec != null ? 'mute' : 'ban'
+        const content = !target
+          ? 'Chat was cleared by a moderator'
+          : evt.banDurationSec != null
+            ? `${target} was timed out for ${formatDurationShort(evt.banDurationSec)}`
+            : `${target} was banned`
+        appendItems([{ source: 'twitch-system', kind, tsMs, content, channel, raw: evt, seq: seqRef.current++ }])
+        return
+      }
+      if (evt.type === 'clearmsg') {
+        if (evt.targetMessageId) setDeletedMessageKeys((prev) => addDeletedMessageKey(prev, `twitch:${evt.targetMessageId}`, tsMs))
+        const who = evt.login || 'someone'
+        const content = evt.text ? `Message from ${who} was deleted: ${evt.text}` : `Message from ${who} was deleted`
+        appendItems([{ source: 'twitch-system', kind: 'delete', tsMs, content, channel, raw: evt, seq: seqRef.current++ }])
+        return
+      }
+      if (evt.type === 'roomstate') {
+        const content = describeTwitchRoomModes(evt.modes)
+        if (!content) return
+        appendItems([{ source: 'twitch-system', kind: 'mode', tsMs, content, channel, raw: evt, seq: seqRef.current++ }])
+        return
+      }
+      if (evt.type === 'usernotice') {
+        // Individual gifts from a community (mystery) gift are summarized by the submysterygift notice.
+        if (evt.kind === 'subgift' && evt.communityGiftId) return
+        const eventType =
+          evt.kind === 'sub' || evt.kind === 'resub'
+            ? 'sub'
+            : evt.kind === 'subgift'
+              ? 'giftsub'
+              : evt.kind === 'submysterygift'
+                ? 'massgift'
+                : evt.kind === 'raid'
+                  ? 'raid'
+                  : 'notice'
+        const summary =
+          evt.systemMsg ||
+          (evt.kind === 'raid'
+            ? `${evt.displayName} is raiding with ${evt.viewerCount ?? 0} viewers`
+            : evt.kind === 'subgift'
+              ? `${evt.displayName} gifted a subscription to ${evt.recipientDisplayName ?? 'someone'}`
+              : evt.kind === 'submysterygift'
+                ? `${evt.displayName} is gifting ${evt.giftCount ?? 1} subscriptions`
+                : evt.kind === 'sub' || evt.kind === 'resub'
+                  ? `${evt.displayName} subscribed${evt.months ? ` (${evt.months} months)` : ''}`
+                  : evt.displayName)
+        const content = evt.text ? `${summary} — ${evt.text}` : summary
+        appendItems([
+          { source: 'twitch-event', eventType, tsMs, nick: evt.displayName, content, channel, raw: evt, seq: seqRef.current++ },
+        ])
+      }
+    }
+
+    window.ipcRenderer.on('twitch-chat-event', handleTwitchEvent)
+    return () => {
+      alive = false
+      window.ipcRenderer.off('twitch-chat-event', handleTwitchEvent)
+    }
+  }, [appendItems])
+
   /** Primary chat nicks for autocomplete: from NAMES/JOIN/QUIT (primaryChatUserNicks). Falls back to nicks seen in messages if WS list empty. */
   const primaryChatNicks = useMemo(() => {
     if (primaryChatUserNicks.length > 0) return primaryChatUserNicks
@@ -2351,7 +3195,7 @@ export default function CombinedChat({
     if (!activeChannel || activeChannel.type !== 'kick' || !('slug' in activeChannel)) return
     const slug = activeChannel.slug
     window.ipcRenderer
-      .invoke('get-kick-chat-user-count', { slug })
+      .invoke('chat-provider-user-count', { providerId: 'kick', target: slug })
       .then((count: number | null) => {
         setKickUserCountBySlug((prev) => (prev[slug] === count ? prev : { ...prev, [slug]: count }))
       })
@@ -2416,22 +3260,141 @@ export default function CombinedChat({
     return combined.filter((n) => n.toLowerCase().includes(q)).slice(0, 25)
   }, [whisperUsernames, primaryChatNicks, composeRecipient])
 
+  /** Filter rule outcome per message, cached per item until the rules (or emote sets) change. */
+  const getFilterOutcome = useMemo(() => {
+    const active = filterRules.some((r) => r.enabled)
+    const outcomes = new WeakMap<CombinedItem, ChatFilterOutcome | null>()
+    return (m: CombinedItem): ChatFilterOutcome | null => {
+      if (!active) return null
+      let outcome = outcomes.get(m)
+      if (outcome === undefined) {
+        const msg = getChatFilterMessage(m, primaryChatSourceId, emotesMap, twitchAssets)
+        outcome = msg ? evaluateChatFilterRules(filterRules, msg) : null
+        outcomes.set(m, outcome)
+      }
+      return outcome
+    }
+  }, [filterRules, primaryChatSourceId, emotesMap, twitchAssets])
+
+  // Chat delay: re-check held-back lines twice a second while any channel is shifted into the future.
+  const chatDelayActive = sortMode === 'timestamp' && Object.values(chatDelayOffsets).some((ms) => ms > 0)
+  const [chatDelayClock, setChatDelayClock] = useState(() => Date.now())
+  useEffect(() => {
+    if (!chatDelayActive) return
+    const timer = window.setInterval(() => setChatDelayClock(Date.now()), 500)
+    return () => window.clearInterval(timer)
+  }, [chatDelayActive])
+
   const displayItems = useMemo(() => {
+    const visible = items.filter((m) => {
+      const outcome = getFilterOutcome(m)
+      return !outcome || (!outcome.hide && !outcome.route)
+    })
     if (sortMode === 'timestamp') {
-      const copy = [...items]
-      copy.sort((a, b) => (a.tsMs - b.tsMs) || (a.seq - b.seq))
-      return copy
+      const now = Math.max(chatDelayClock, Date.now())
+      const shifted = new Map<CombinedItemWithSeq, number>()
+      const due = visible.filter((m) => {
+        const key = getChatDelayKey(m)
+        const offset = key ? (chatDelayOffsets[key] ?? 0) : 0
+        shifted.set(m, m.tsMs + offset)
+        return offset <= 0 || m.isHistory || m.tsMs + offset <= now
+      })
+      due.sort((a, b) => (shifted.get(a)! - shifted.get(b)!) || (a.seq - b.seq))
+      return due
     }
 
     // "Arrival" mode:
     // - keep live messages in arrival order (seq)
     // - but ALWAYS blend any history items (from any source) by timestamp so startup doesn't
     //   show separate "Primary chat history block" then "Kick history block".
-    const history = items.filter((m) => Boolean((m as any).isHistory))
-    const live = items.filter((m) => !Boolean((m as any).isHistory))
+    const history = visible.filter((m) => Boolean((m as any).isHistory))
+    const live = visible.filter((m) => !Boolean((m as any).isHistory))
     history.sort((a, b) => (a.tsMs - b.tsMs) || (a.seq - b.seq))
     return [...history, ...live]
-  }, [items, sortMode])
+  }, [items, sortMode, getFilterOutcome, chatDelayOffsets, chatDelayClock])
+
+  // Chat delay estimates from identical messages / emote bursts across the grouped chats.
+  const chatDelayItemsRef = useRef(items)
+  chatDelayItemsRef.current = items
+  const onChatDelayEstimateRef = useRef(onChatDelayEstimate)
+  onChatDelayEstimateRef.current = onChatDelayEstimate
+  const chatDelayGroupsKey = JSON.stringify(chatDelayEstimateGroups)
+  useEffect(() => {
+    const groups = JSON.parse(chatDelayGroupsKey) as ChatDelayGroup[]
+    if (groups.length === 0) return
+    const estimate = () => {
+      const samples: ChatDelaySample[] = []
+      for (const m of chatDelayItemsRef.current) {
+        if (m.source !== 'kick' && m.source !== 'youtube' && m.source !== 'twitch') continue
+        const key = getChatDelayKey(m)
+        if (!key) continue
+        // Kick emotes are [emote:id:name] in the content; compare by name
+        samples.push({ key, tsMs: m.tsMs, text: String(m.content ?? '').replace(/\[emote:\d+:([^\]]+)\]/g, '$1') })
+      }
+      const offsets: Record<string, number> = {}
+      for (const group of groups) Object.assign(offsets, estimateChatDelays(samples, group))
+      if (Object.keys(offsets).length > 0) onChatDelayEstimateRef.current?.(offsets)
+    }
+    const timer = window.setInterval(estimate, CHAT_DELAY_ESTIMATE_INTERVAL_MS)
+    return () => window.clearInterval(timer)
+  }, [chatDelayGroupsKey])
+
+  /** Messages routed to the Filtered pane by a rule, newest first. */
+  const routedItems = useMemo(() => {
+    const routed = items.filter((m) => {
+      const outcome = getFilterOutcome(m)
+      return !!outcome?.route && !outcome.hide
+    })
+    routed.sort((a, b) => (b.tsMs - a.tsMs) || (b.seq - a.seq))
+    return routed.slice(0, 100)
+  }, [items, getFilterOutcome])
+  const [filteredPaneOpen, setFilteredPaneOpen] = useState(true)
+  /** Collapsed (by a filter rule) messages the user expanded. */
+  const [expandedFilteredSeqs, setExpandedFilteredSeqs] = useState<Set<number>>(() => new Set())
+
+  // Clicking a whisper notification opens that conversation.
+  useEffect(() => {
+    const handler = (_event: unknown, target: DesktopNotificationTarget | null) => {
+      if (target?.type !== 'whisper' || !target.nick) return
+      setActiveWhisperUsername(target.nick)
+      setPrivViewOpen(true)
+    }
+    window.ipcRenderer.on('notification-clicked', handler)
+    return () => {
+      window.ipcRenderer.off('notification-clicked', handler)
+    }
+  }, [])
+
+  // Desktop notifications for live messages matching a notify rule or mentioning our nick / a highlight term
+  // (each message once; at most 3 per batch).
+  const notifiedSeqRef = useRef(-1)
+  useEffect(() => {
+    let maxSeq = notifiedSeqRef.current
+    let shown = 0
+    const meNick = primaryChatMeNick?.trim().toLowerCase()
+    const mentionTerms = [...(meNick ? [meNick] : []), ...highlightTerms.map((t) => t.trim().toLowerCase()).filter(Boolean)]
+    for (const m of items) {
+      if (m.seq <= notifiedSeqRef.current) continue
+      maxSeq = Math.max(maxSeq, m.seq)
+      if (m.isHistory || shown >= 3) continue
+      const outcome = getFilterOutcome(m)
+      if (outcome?.hide) continue
+      const msg = getChatFilterMessage(m, primaryChatSourceId, emotesMap, twitchAssets)
+      if (!msg) continue
+      if (outcome?.notify) {
+        showDesktopNotification('filter', `${msg.nick} · ${msg.channel ?? msg.source}`, msg.text, { type: 'chat' })
+        shown++
+        continue
+      }
+      if (mentionTerms.length === 0 || (meNick && msg.nick.toLowerCase() === meNick)) continue
+      const textLower = msg.text.toLowerCase()
+      if (mentionTerms.some((t) => textLower.includes(t))) {
+        showDesktopNotification('mention', `${msg.nick} mentioned you · ${msg.channel ?? msg.source}`, msg.text, { type: 'chat' })
+        shown++
+      }
+    }
+    notifiedSeqRef.current = maxSeq
+  }, [items, getFilterOutcome, primaryChatSourceId, primaryChatMeNick, highlightTerms, emotesMap, twitchAssets])
 
   type RenderEntry =
     | { type: 'message'; index: number; item: CombinedItemWithSeq }
@@ -2544,6 +3507,7 @@ export default function CombinedChat({
       setUserTooltip({
         nick: trimmed,
         source: primaryChatSourceId ?? 'chat',
+        platform: primaryChatSourceId ?? undefined,
         createdDate: cached?.createdDate,
         watching: cached?.watching ?? undefined,
         features: cached?.features,
@@ -2704,46 +3668,43 @@ export default function CombinedChat({
   const sendToActiveChannel = useCallback(() => {
     const text = primaryChatInputValue.trim()
     if (!text) return
-    if (activeChannel && 'slug' in activeChannel) {
-      window.ipcRenderer
-        .invoke('kick-send-message', { slug: activeChannel.slug, content: text })
-        .then((result: { success?: boolean; error?: string }) => {
-          if (result?.success) {
-            setPrimaryChatInputValue('')
-            setPrimaryChatPublicSendError(null)
-          } else {
-            setPrimaryChatPublicSendError(result?.error ?? 'Kick send failed')
-          }
-        })
-        .catch(() => setPrimaryChatPublicSendError('Kick send failed'))
-      return
-    }
-    if (activeChannel && 'videoId' in activeChannel && activeChannel.type === 'youtube') {
+    const target =
+      activeChannel && 'slug' in activeChannel
+        ? { providerId: 'kick', target: activeChannel.slug, label: 'Kick' }
+        : activeChannel && 'videoId' in activeChannel && activeChannel.type === 'youtube'
+          ? { providerId: 'youtube', target: activeChannel.videoId, label: 'YouTube' }
+          : activeChannel && 'channel' in activeChannel && activeChannel.type === 'twitch'
+            ? { providerId: 'twitch', target: activeChannel.channel, label: 'Twitch' }
+            : activeChannel && 'providerId' in activeChannel
+              ? { providerId: activeChannel.providerId, target: activeChannel.target, label: activeChannel.label }
+              : null
+    if (activeChannel && 'sourceId' in activeChannel) {
+      const label = activeChannel.label
       window.ipcRenderer
-        .invoke('youtube-send-message', { videoId: activeChannel.videoId, content: text })
+        .invoke('chat-websocket-send', { sourceId: activeChannel.sourceId, data: text })
         .then((result: { success?: boolean; error?: string }) => {
           if (result?.success) {
             setPrimaryChatInputValue('')
             setPrimaryChatPublicSendError(null)
           } else {
-            setPrimaryChatPublicSendError(result?.error ?? 'YouTube send failed')
+            setPrimaryChatPublicSendError(result?.error ?? `${label} send failed`)
           }
         })
-        .catch(() => setPrimaryChatPublicSendError('YouTube send failed'))
+        .catch(() => setPrimaryChatPublicSendError(`${label} send failed`))
       return
     }
-    if (activeChannel && 'channel' in activeChannel && activeChannel.type === 'twitch') {
+    if (target) {
       window.ipcRenderer
-        .invoke('twitch-send-message', { channel: activeChannel.channel, content: text })
+        .invoke('chat-provider-send-message', { providerId: target.providerId, target: target.target, content: text })
         .then((result: { success?: boolean; error?: string }) => {
           if (result?.success) {
             setPrimaryChatInputValue('')
             setPrimaryChatPublicSendError(null)
           } else {
-            setPrimaryChatPublicSendError(result?.error ?? 'Twitch send failed')
+            setPrimaryChatPublicSendError(result?.error ?? `${target.label} send failed`)
           }
         })
-        .catch(() => setPrimaryChatPublicSendError('Twitch send failed'))
+        .catch(() => setPrimaryChatPublicSendError(`${target.label} send failed`))
       return
     }
     sendPrimaryChatMessage()
@@ -2803,12 +3764,12 @@ export default function CombinedChat({
 
   const inputBlock = (
     <>
-      {enablePrimaryChat && showPrimaryChatInput && !primaryChatAuthenticated && enabledKickSlugs.length === 0 && enabledYoutubeVideoIds.length === 0 && enabledTwitchChannels.length === 0 && (
+      {enablePrimaryChat && showPrimaryChatInput && !primaryChatAuthenticated && enabledKickSlugs.length === 0 && enabledYoutubeVideoIds.length === 0 && enabledTwitchChannels.length === 0 && !hasExtraChatChannels && (
         <div className="flex-none px-2 py-2 text-sm text-base-content/60 border-t border-base-300">
           Login → Main menu → Connections
         </div>
       )}
-      {((enablePrimaryChat && showPrimaryChatInput && primaryChatAuthenticated) || enabledKickSlugs.length > 0 || enabledYoutubeVideoIds.length > 0 || enabledTwitchChannels.length > 0) && (
+      {((enablePrimaryChat && showPrimaryChatInput && primaryChatAuthenticated) || enabledKickSlugs.length > 0 || enabledYoutubeVideoIds.length > 0 || enabledTwitchChannels.length > 0 || hasExtraChatChannels) && (
         <div className="flex flex-col gap-1 min-w-0 flex-none">
           {primaryChatSourceId && activeChannel?.type === primaryChatSourceId && privViewOpen && !activeWhisperUsername && (
             <>
@@ -2868,7 +3829,7 @@ export default function CombinedChat({
                 onSend={sendToActiveChannel}
                 onKeyDown={onPrimaryChatInputKeyDown}
                 disabled={
-                  activeChannel?.type === 'kick'
+                  activeChannel?.type === 'kick' || activeChannel?.type === 'provider' || activeChannel?.type === 'chat-source'
                     ? false
                     : privViewOpen && !activeWhisperUsername
                       ? !primaryChatConnected || !composeRecipient.trim()
@@ -2887,7 +3848,11 @@ export default function CombinedChat({
                         })()
                       : activeChannel && 'channel' in activeChannel && activeChannel.type === 'twitch'
                         ? `Message Twitch / ${activeChannel.channel}...`
-                        : activeWhisperUsername
+                        : activeChannel && 'providerId' in activeChannel
+                          ? `Message ${activeChannel.label} / ${activeChannel.target}...`
+                          : activeChannel && 'sourceId' in activeChannel
+                            ? `Message ${activeChannel.label}...`
+                            : activeWhisperUsername
                           ? (primaryChatConnected ? `Whisper ${activeWhisperUsername}...` : 'Connecting...')
                           : privViewOpen
                             ? (primaryChatConnected ? 'whisper message..' : 'Connecting...')
@@ -3011,6 +3976,59 @@ export default function CombinedChat({
             <span aria-hidden>📍</span>
           </div>
         )}
+        {latestKickPin && !kickPinHidden && !(enablePrimaryChat && pinnedMessage && !pinnedHidden) && (
+          <div
+            className="absolute left-0 right-0 z-10 p-2 pointer-events-none"
+            style={overlayMode && overlayHeaderHeight != null ? { top: overlayHeaderHeight } : { top: 0 }}
+          >
+            <div className="bg-base-300 rounded-lg shadow-sm pointer-events-auto">
+              <div
+                className="msg-chat msg-pinned text-sm rounded-md flex flex-nowrap items-start gap-2 bg-base-100 m-2 p-2 cursor-pointer hover:bg-red-500/15 transition-colors"
+                role="button"
+                tabIndex={0}
+                title={latestKickPin.pinnedBy ? `Pinned by ${latestKickPin.pinnedBy}; click to close` : 'Click to close pinned message'}
+                onClick={() => {
+                  const sel = window.getSelection?.()
+                  if (!sel?.toString()?.trim()) setKickPinHidden(true)
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && setKickPinHidden(true)}
+                aria-label="Pinned Kick message; click to close"
+              >
+                <span className="flex-1 min-w-0 flex flex-col gap-y-1">
+                  <span className="shrink-0">
+                    <span className="text-xs text-base-content/50 mr-1.5">#{latestKickPin.slug}</span>
+                    <span
+                      className="font-semibold"
+                      style={{ color: getEmbedColor?.(`kick:${latestKickPin.slug}`) ?? omniColorForKey(`kick:${latestKickPin.slug}`, { primaryChatSourceId }) }}
+                    >
+                      {latestKickPin.message.sender.username}
+                    </span>
+                    <span className="ctrl">: </span>
+                  </span>
+                  <span className="msg-chat-content text whitespace-pre-wrap break-words">
+                    {renderKickContent(latestKickPin.message, onOpenLink).map((node, i) => (
+                      <Fragment key={`kick-pin-${i}`}>{node}</Fragment>
+                    ))}
+                  </span>
+                </span>
+              </div>
+            </div>
+          </div>
+        )}
+        {latestKickPin && kickPinHidden && !(enablePrimaryChat && pinnedMessage) && (
+          <div
+            className="active absolute right-2 z-20 btn btn-ghost btn-sm btn-circle text-base"
+            style={overlayMode && overlayHeaderHeight != null ? { top: overlayHeaderHeight + 8 } : { top: 8 }}
+            title="Show pinned Kick message"
+            onClick={() => setKickPinHidden(false)}
+            role="button"
+            tabIndex={0}
+            onKeyDown={(e) => e.key === 'Enter' && setKickPinHidden(false)}
+            aria-label="Show pinned Kick message"
+          >
+            <span aria-hidden>📍</span>
+          </div>
+        )}
         {enablePrimaryChat && currentPoll && (
           <div
             className="flex-shrink-0 p-2 relative z-10"
@@ -3035,6 +4053,37 @@ export default function CombinedChat({
             />
           </div>
         )}
+        {routedItems.length > 0 && !privViewOpen && (
+          <div
+            className="flex-shrink-0 relative z-10 border-b border-base-300 bg-base-200"
+            style={overlayMode && overlayHeaderHeight != null && !(enablePrimaryChat && currentPoll) ? { marginTop: overlayHeaderHeight } : undefined}
+          >
+            <button
+              type="button"
+              className="w-full flex items-center gap-2 px-2 py-1 text-xs font-medium text-base-content/70 hover:text-base-content"
+              onClick={() => setFilteredPaneOpen((v) => !v)}
+              aria-expanded={filteredPaneOpen}
+            >
+              <span aria-hidden>{filteredPaneOpen ? '▾' : '▸'}</span>
+              Filtered ({routedItems.length})
+            </button>
+            {filteredPaneOpen && (
+              <div className="max-h-32 overflow-y-auto px-2 pb-1 space-y-0.5">
+                {routedItems.map((m) => (
+                  <div key={`routed-${m.source}-${m.seq}`} className="msg-chat text-xs flex items-baseline gap-x-2 min-w-0">
+                    {showTimestamps ? (
+                      <span className="text-base-content/50 shrink-0">{Number.isFinite(m.tsMs) ? new Date(m.tsMs).toLocaleTimeString() : ''}</span>
+                    ) : null}
+                    <span className="font-semibold shrink-0">{'nick' in m ? m.nick : ''}</span>
+                    <span className="whitespace-pre-wrap break-words min-w-0 flex-1">
+                      {renderTextWithLinks(getContentForHighlight(m), emotePattern, emotesMap, onOpenLink)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         <div
           ref={scrollerRef}
           className={`chat-messages-scroll overflow-y-auto p-2 space-y-1 ${overlayMode && overlayHeaderHeight != null ? 'absolute inset-0 z-0' : 'flex-1 min-h-0'} ${scrollbarVisible ? 'chat-messages-scroll-visible' : ''} ${pauseEmoteAnimationsOffScreen ? 'emote-pause-offscreen' : ''} ${overlayMode ? 'combined-chat-overlay-messages' : ''} ${overlayMode && messagesClickThrough ? 'pointer-events-none' : ''} ${overlayMode && overlayCinemaMode === false ? 'rounded-lg' : ''}`}
@@ -3178,22 +4227,65 @@ export default function CombinedChat({
             if (m.source.endsWith('-event')) {
               const ts = Number.isFinite(m.tsMs) ? new Date(m.tsMs).toLocaleTimeString() : ''
               const eventType = 'eventType' in m ? m.eventType : ''
-              const icon = eventType === 'donation' ? '💰' : '🎁'
+              const icon =
+                eventType === 'donation'
+                  ? '💰'
+                  : eventType === 'sub'
+                    ? '⭐'
+                    : eventType === 'raid'
+                      ? '🚀'
+                      : eventType === 'notice'
+                        ? '📣'
+                        : eventType === 'pin'
+                          ? '📌'
+                          : eventType === 'poll'
+                            ? '📊'
+                            : eventType === 'live'
+                              ? '🔴'
+                              : eventType === 'offline'
+                                ? '⚫'
+                                : '🎁'
+              const eventChannel = 'channel' in m ? m.channel : undefined
+              const eventColor = 'color' in m ? m.color : undefined
+              const eventImageUrl = 'imageUrl' in m ? m.imageUrl : undefined
               return (
                 <div
                   key={`msg-primary-event-${(m as CombinedItemWithSeq).seq}-${m.tsMs}-${'nick' in m ? m.nick : ''}`}
-                  className="text-sm leading-snug px-2 py-0.5 -mx-2 text-base-content/80"
+                  className={`text-sm leading-snug px-2 py-0.5 -mx-2 text-base-content/80 ${eventColor ? 'border-l-[3px] rounded-sm my-0.5' : ''}`}
+                  style={eventColor ? { borderLeftColor: eventColor, backgroundColor: `${eventColor}26` } : undefined}
                 >
                   {showTimestamps ? <span className="text-xs text-base-content/50 mr-2">{ts}</span> : null}
                   <span className="mr-1.5" aria-hidden>{icon}</span>
+                  {eventChannel ? <span className="text-xs text-base-content/50 mr-1.5">#{eventChannel}</span> : null}
                   <span className="whitespace-pre-wrap break-words">{m.content}</span>
+                  {eventImageUrl ? (
+                    <img
+                      src={eventImageUrl}
+                      alt=""
+                      loading="lazy"
+                      className="inline-block align-middle ml-1.5"
+                      style={{ height: THIRD_PARTY_EMOTE_HEIGHT_PX * 2, width: 'auto' }}
+                    />
+                  ) : null}
                 </div>
               )
             }
             if (m.source.endsWith('-system')) {
               const ts = Number.isFinite(m.tsMs) ? new Date(m.tsMs).toLocaleTimeString() : ''
               const kind = 'kind' in m ? m.kind : 'mute'
-              const iconEl = kind === 'ban' ? <span aria-hidden>🔨</span> : kind === 'unmute' ? <Icon name="unlock" size={16} /> : <Icon name="volume-x" size={16} />
+              const iconEl =
+                kind === 'ban' ? (
+                  <span aria-hidden>🔨</span>
+                ) : kind === 'unmute' ? (
+                  <Icon name="unlock" size={16} />
+                ) : kind === 'clear' || kind === 'delete' ? (
+                  <Icon name="x" size={16} />
+                ) : kind === 'mode' ? (
+                  <Icon name="settings" size={16} />
+                ) : (
+                  <Icon name="volume-x" size={16} />
+                )
+              const systemChannel = 'channel' in m ? m.channel : undefined
               return (
                 <div
                   key={`msg-primary-system-${(m as CombinedItemWithSeq).seq}-${kind}-${m.tsMs}`}
@@ -3201,6 +4293,7 @@ export default function CombinedChat({
                 >
                   {showTimestamps ? <span className="text-xs text-base-content/50 mr-2">{ts}</span> : null}
                   <span className="mr-1.5 inline-flex items-center" aria-hidden>{iconEl}</span>
+                  {systemChannel ? <span className="text-xs text-base-content/50 mr-1.5">#{systemChannel}</span> : null}
                   <span className="whitespace-pre-wrap break-words">{m.content}</span>
                 </div>
               )
@@ -3224,14 +4317,19 @@ export default function CombinedChat({
               )
             }
             const ts = Number.isFinite(m.tsMs) ? new Date(m.tsMs).toLocaleTimeString() : ''
+            const additionalSource = additionalChatSourcesById.get(m.source)
             const colorKey =
               m.source === primaryChatSourceId
                 ? (primaryChatSourceId ?? 'chat')
-                : m.source === 'kick'
-                  ? `kick:${'slug' in m ? m.slug : ''}`
-                  : m.source === 'youtube'
-                    ? `youtube:${'videoId' in m ? m.videoId : ''}`
-                    : `twitch:${'channel' in m ? m.channel : ''}`
+                : additionalSource
+                  ? additionalSource.id
+                  : m.source === 'kick'
+                    ? `kick:${'slug' in m ? m.slug : ''}`
+                    : m.source === 'youtube'
+                      ? `youtube:${'videoId' in m ? m.videoId : ''}`
+                      : 'providerId' in m
+                        ? `${m.providerId}:${m.channel}`
+                        : `twitch:${'channel' in m ? m.channel : ''}`
             const displayName = getEmbedDisplayName(colorKey)
             const accent =
               m.source === primaryChatSourceId
@@ -3242,6 +4340,24 @@ export default function CombinedChat({
             const contentLower = contentForHighlight.toLowerCase()
             const matchingTerms = highlightTerms.filter((term) => term.trim() && contentLower.includes(term.trim().toLowerCase()))
             const isHighlighted = matchingTerms.length > 0
+            const filterOutcome = getFilterOutcome(m)
+            if (filterOutcome?.collapse && !expandedFilteredSeqs.has(m.seq)) {
+              return (
+                <div
+                  key={`msg-${m.source}-${m.seq}-${m.tsMs}-collapsed`}
+                  className="msg-chat text-xs px-2 py-0.5 -mx-2 flex items-center gap-x-2 text-base-content/50 italic cursor-pointer hover:text-base-content/80"
+                  role="button"
+                  tabIndex={0}
+                  title={`Collapsed by ${filterOutcome.ruleNames.join(', ')}`}
+                  onClick={() => setExpandedFilteredSeqs((prev) => new Set(prev).add(m.seq))}
+                  onKeyDown={(e) => e.key === 'Enter' && setExpandedFilteredSeqs((prev) => new Set(prev).add(m.seq))}
+                >
+                  {showTimestamps ? <span className="not-italic shrink-0">{ts}</span> : null}
+                  <span>Message from {'nick' in m ? m.nick : ''} collapsed · click to show</span>
+                </div>
+              )
+            }
+            const isDeleted = isDeletedMessage(m, deletedMessageKeys)
             const isOwn =
               m.source === primaryChatSourceId &&
               primaryChatMeNick != null &&
@@ -3259,6 +4375,7 @@ export default function CombinedChat({
               <div
                 key={`msg-${m.source}-${(m as CombinedItemWithSeq).seq}-${m.tsMs}-${'nick' in m ? m.nick : ''}`}
                 className={`msg-chat text-sm px-2 py-0.5 -mx-2 flex flex-wrap items-center gap-x-2 gap-y-1 ${isOwn ? 'msg-own' : ''} ${!isOwn && isHighlighted ? 'bg-blue-500/15' : ''}`}
+                style={!isOwn && filterOutcome?.highlightColor ? { backgroundColor: withAlpha(filterOutcome.highlightColor, 0.2) } : undefined}
               >
                 {showTimestamps ? <span className="text-xs text-base-content/50 shrink-0">{ts}</span> : null}
                 {showSourceLabels && (m.source === primaryChatSourceId ? (primaryChatSourceLabelText != null && primaryChatSourceLabelText.trim() !== '') : !getEmbedLabelHidden?.(colorKey)) ? (
@@ -3269,16 +4386,20 @@ export default function CombinedChat({
                     {m.source === primaryChatSourceId
                       ? (primaryChatSourceLabelText ?? '').trim()
                       : (displayName ||
-                          (m.source === 'kick'
-                            ? `K:${'slug' in m ? m.slug : ''}`
-                            : m.source === 'youtube'
-                              ? `Y:${'videoId' in m ? m.videoId : ''}`
-                              : `T:${'channel' in m ? m.channel : ''}`))}
+                          (additionalSource
+                            ? additionalSource.label
+                            : m.source === 'kick'
+                              ? `K:${'slug' in m ? m.slug : ''}`
+                              : m.source === 'youtube'
+                                ? `Y:${'videoId' in m ? m.videoId : ''}`
+                                : 'providerId' in m
+                                  ? colorKey
+                                  : `T:${'channel' in m ? m.channel : ''}`))}
                   </span>
                 ) : null}
-                {showPlatformIcons && getPlatformIcon(colorKey, primaryChatSourceIconUrl, primaryChatSourceId) ? (
+                {showPlatformIcons && (additionalSource?.iconUrl ?? getPlatformIcon(colorKey, primaryChatSourceIconUrl, primaryChatSourceId)) ? (
                   <img
-                    src={getPlatformIcon(colorKey, primaryChatSourceIconUrl, primaryChatSourceId)}
+                    src={additionalSource?.iconUrl ?? getPlatformIcon(colorKey, primaryChatSourceIconUrl, primaryChatSourceId)}
                     alt=""
                     className="w-4 h-4 shrink-0"
                     aria-hidden
@@ -3319,6 +4440,21 @@ export default function CombinedChat({
                     </>
                   ) : (
                     <span className="inline-flex items-center gap-0">
+                      {m.source === 'twitch'
+                        ? ((m.raw as TwitchChatMessage).badges ?? []).map((b) => {
+                            const badge = twitchAssets[(m as { channel: string }).channel?.toLowerCase()]?.badges[`${b.setId}/${b.version}`]
+                            return badge ? (
+                              <img
+                                key={`${b.setId}/${b.version}`}
+                                src={badge.url}
+                                alt={badge.title}
+                                title={badge.title}
+                                loading="lazy"
+                                className="inline-block w-[18px] h-[18px] mr-1"
+                              />
+                            ) : null
+                          })
+                        : null}
                       <span className="font-semibold" style={{ color: accent }}>
                         {'nick' in m ? m.nick : ''}
                       </span>
@@ -3332,12 +4468,33 @@ export default function CombinedChat({
                       {renderPrimaryChatMessageContent(m.content ?? '')}
                     </span>
                   ) : m.source === 'kick'
-                    ? renderKickContent(m.raw as KickChatMessage, onOpenLink).map((node, i) => (
-                        <Fragment key={`kick-${(m as CombinedItemWithSeq).seq}-${m.tsMs}-${i}`}>{node}</Fragment>
-                      ))
+                    ? (
+                        <span className={isDeleted ? 'line-through opacity-60' : undefined} title={isDeleted ? 'Message removed by a moderator' : undefined}>
+                          {renderKickContent(m.raw as KickChatMessage, onOpenLink).map((node, i) => (
+                            <Fragment key={`kick-${(m as CombinedItemWithSeq).seq}-${m.tsMs}-${i}`}>{node}</Fragment>
+                          ))}
+                        </span>
+                      )
                     : m.source === 'youtube'
-                      ? renderYouTubeContent(m.raw as YouTubeChatMessage, onOpenLink)
-                      : renderTextWithLinks(m.content ?? '', null, new Map(), onOpenLink)}
+                      ? (
+                          <span className={isDeleted ? 'line-through opacity-60' : undefined} title={isDeleted ? 'Message removed by a moderator' : undefined}>
+                            {renderYouTubeContent(m.raw as YouTubeChatMessage, onOpenLink)}
+                          </span>
+                        )
+                      : m.source === 'twitch'
+                        ? (
+                            <span className={(m.raw as TwitchChatMessage).action ? 'italic' : undefined}>
+                              {renderTwitchContent(
+                                m.raw as TwitchChatMessage,
+                                twitchThirdPartyEmotes ? twitchAssets[(m as { channel: string }).channel?.toLowerCase()]?.thirdParty : undefined,
+                                onOpenLink,
+                              ).map((node, i) => (
+                                <Fragment key={`twitch-${(m as CombinedItemWithSeq).seq}-${m.tsMs}-${i}`}>{node}</Fragment>
+                              ))}
+                            </span>
+                          )
+                        : renderTextWithLinks(m.content ?? '', null, new Map(), onOpenLink)}
+                  {isDeleted ? <span className="text-xs text-base-content/50 ml-1.5">(removed)</span> : null}
                 </span>
               </div>
             )
@@ -3523,7 +4680,59 @@ export default function CombinedChat({
             >
               Rustlesearch
             </a>
+            {extensionMessageActions.map((item) => (
+              <button
+                key={`${item.extensionId}:${item.id}`}
+                type="button"
+                className="btn btn-xs btn-ghost"
+                title={item.title}
+                onClick={() => {
+                  invokeExtensionUiItem(item, { source: userTooltip.source, nick: userTooltip.nick, text: userTooltip.text, timestamp: userTooltip.tsMs })
+                  closeUserTooltip()
+                }}
+              >
+                {item.icon && <img src={item.icon} alt="" className="w-4 h-4 object-contain" />}
+                {item.label}
+              </button>
+            ))}
           </div>
+          {onIgnoredUsersChange && (
+            <div className="flex flex-wrap items-center gap-1 pt-1 border-t border-base-300">
+              <span className="text-xs text-base-content/60 w-full">Ignore</span>
+              <select
+                className="select select-xs"
+                value={ignoreDurationIndex}
+                onChange={(e) => setIgnoreDurationIndex(Number(e.target.value))}
+                aria-label="Ignore for"
+              >
+                {IGNORE_DURATIONS.map((d, i) => (
+                  <option key={d.label} value={i}>{d.label}</option>
+                ))}
+              </select>
+              {userTooltip.platform && (
+                <button
+                  type="button"
+                  className="btn btn-xs btn-ghost"
+                  onClick={() => {
+                    onIgnoredUsersChange(addIgnoredChatUser(ignoredUsers, userTooltip.nick, userTooltip.platform ?? null, IGNORE_DURATIONS[ignoreDurationIndex]?.ms ?? null))
+                    closeUserTooltip()
+                  }}
+                >
+                  On {getPlatformLabel(userTooltip.platform)}
+                </button>
+              )}
+              <button
+                type="button"
+                className="btn btn-xs btn-ghost"
+                onClick={() => {
+                  onIgnoredUsersChange(addIgnoredChatUser(ignoredUsers, userTooltip.nick, null, IGNORE_DURATIONS[ignoreDurationIndex]?.ms ?? null))
+                  closeUserTooltip()
+                }}
+              >
+                Everywhere
+              </button>
+            </div>
+          )}
         </div>
       )}
       {contextMenuAt &&
@@ -3618,6 +4827,28 @@ export default function CombinedChat({
                     <span aria-hidden className="text-base-content/50">▸</span>
                   </div>
                 )}
+                {extensionContextMenuItems.length > 0 && (
+                  <>
+                    <div className="border-t border-base-300 my-1" />
+                    {extensionContextMenuItems.map((item) => (
+                      <button
+                        key={`${item.extensionId}:${item.id}`}
+                        type="button"
+                        role="menuitem"
+                        className="px-3 py-1.5 text-left hover:bg-base-300 w-full truncate flex items-center gap-2"
+                        title={item.title}
+                        onMouseEnter={() => setContextMenuHover(null)}
+                        onClick={() => {
+                          invokeExtensionUiItem(item, { selection: contextMenuSelection ?? '' })
+                          closeContextMenu()
+                        }}
+                      >
+                        {item.icon && <img src={item.icon} alt="" className="w-4 h-4 object-contain shrink-0" />}
+                        <span className="truncate">{item.label}</span>
+                      </button>
+                    ))}
+                  </>
+                )}
               </div>
               {contextMenuHover === 'display' && (
                 <div
@@ -3668,6 +4899,12 @@ export default function CombinedChat({
                     <span>Pause animations when off-screen</span>
                     {contextMenuConfig.emotes.pauseOffScreen && <span aria-hidden>✓</span>}
                   </button>
+                  {contextMenuConfig.emotes.setTwitchThirdParty && (
+                    <button type="button" role="menuitemcheckbox" aria-checked={!!contextMenuConfig.emotes.twitchThirdParty} className="w-full px-3 py-1.5 text-left hover:bg-base-300 flex items-center justify-between gap-2" onClick={() => { contextMenuConfig.emotes.setTwitchThirdParty?.(!contextMenuConfig.emotes.twitchThirdParty); closeContextMenu() }}>
+                      <span>Twitch: BTTV / FFZ / 7TV emotes</span>
+                      {contextMenuConfig.emotes.twitchThirdParty && <span aria-hidden>✓</span>}
+                    </button>
+                  )}
                 </div>
               )}
               {contextMenuHover === 'links' && (
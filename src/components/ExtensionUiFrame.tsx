@@ -0,0 +1,41 @@
+import { useCallback, useRef } from 'react'
+import { attachExtensionFrame, EXTENSION_FRAME_HTML, type RendererExtensionInfo } from '../utils/extensionUi'
+
+/**
+ * Sandboxed iframe running an extension's renderer.js (see utils/extensionUi). Without settingsTabId it is the
+ * extension's hidden background frame (registers contributions, runs their handlers); with it, the frame renders
+ * that Settings tab.
+ */
+export default function ExtensionUiFrame({
+  extension,
+  settingsTabId,
+  className,
+}: {
+  extension: RendererExtensionInfo
+  settingsTabId?: string
+  className?: string
+}) {
+  const { id, name, loadId } = extension
+  const detachRef = useRef<(() => void) | null>(null)
+  // Callback ref: the frame must be known before its bootstrap script posts 'bootstrap'
+  const setFrame = useCallback(
+    (el: HTMLIFrameElement | null) => {
+      detachRef.current?.()
+      detachRef.current = null
+      if (el?.contentWindow) {
+        detachRef.current = attachExtensionFrame(el.contentWindow, { id, name, loadId }, settingsTabId ? { point: 'settingsTab', id: settingsTabId } : null)
+      }
+    },
+    [id, name, loadId, settingsTabId],
+  )
+  return (
+    <iframe
+      ref={setFrame}
+      srcDoc={EXTENSION_FRAME_HTML}
+      sandbox="allow-scripts"
+      title={settingsTabId ? `${name} settings` : `${name} (extension)`}
+      className={settingsTabId ? className : 'hidden'}
+      aria-hidden={settingsTabId ? undefined : true}
+    />
+  )
+}
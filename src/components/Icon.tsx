@@ -17,6 +17,11 @@ import sidebarSvg from '../assets/icons/sidebar.svg?raw'
 import layersSvg from '../assets/icons/layers.svg?raw'
 import xSvg from '../assets/icons/x.svg?raw'
 import percentSvg from '../assets/icons/percent.svg?raw'
+import searchSvg from '../assets/icons/search.svg?raw'
+import layoutSvg from '../assets/icons/layout.svg?raw'
+import moveSvg from '../assets/icons/move.svg?raw'
+import maximize2Svg from '../assets/icons/maximize-2.svg?raw'
+import headphonesSvg from '../assets/icons/headphones.svg?raw'
 
 const ICONS: Record<string, string> = {
   'pie-chart': pieChartSvg,
@@ -38,6 +43,11 @@ const ICONS: Record<string, string> = {
   layers: layersSvg,
   x: xSvg,
   percent: percentSvg,
+  search: searchSvg,
+  layout: layoutSvg,
+  move: moveSvg,
+  'maximize-2': maximize2Svg,
+  headphones: headphonesSvg,
 }
 
 export type IconName = keyof typeof ICONS
@@ -13,17 +13,9 @@ import KickEmbed from './embeds/KickEmbed'
 import LSFEmbed from './embeds/LSFEmbed'
 import VideoEmbed from './embeds/VideoEmbed'
 import ImageEmbed from './embeds/ImageEmbed'
+import LinkTypeEmbed from './embeds/LinkTypeEmbed'
 import ListManager from './ListManager'
-import twitterIcon from '../assets/icons/third-party/twitter.png'
-import youtubeIcon from '../assets/icons/third-party/youtube.png'
-import tiktokIcon from '../assets/icons/third-party/tiktok.png'
-import kickIcon from '../assets/icons/third-party/kick.png'
-import twitchIcon from '../assets/icons/third-party/twitch.png'
-import redditIcon from '../assets/icons/third-party/reddit.png'
-import streamableIcon from '../assets/icons/third-party/streamable.ico'
-import imgurIcon from '../assets/icons/third-party/imgur.png'
-import wikipediaIcon from '../assets/icons/third-party/wikipedia.png'
-import blueskyIcon from '../assets/icons/third-party/bluesky.svg'
+import { findLinkType, getLinkTypeByName, getLinkTypes, useLinkTypes, type LinkTypeDefinition } from '../utils/linkTypes'
 import { Icon } from './Icon'
 import jorkingitGif from '../assets/media/jorkingit.gif'
 import feelswierdmanPng from '../assets/media/feelswierdman.png'
@@ -258,6 +250,15 @@ function getPlatformDisplayMode(linkType: string | undefined, platformSettings:
   return platformKey ? platformSettings[platformKey] : 'embed' // Default to embed if not found
 }
 
+// Default display mode ('embed') for every known link type
+function getDefaultPlatformSettings(): Record<string, PlatformDisplayMode> {
+  const out: Record<string, PlatformDisplayMode> = {}
+  getLinkTypes().forEach((t) => {
+    out[t.name] = 'embed'
+  })
+  return out
+}
+
 // Check if platform should be filtered out
 function isPlatformFiltered(linkType: string | undefined, platformSettings: Record<string, PlatformDisplayMode> | undefined): boolean {
   return getPlatformDisplayMode(linkType, platformSettings) === 'filter'
@@ -351,7 +352,7 @@ function loadSettings(): Settings {
       ]
       
       // Migrate old disabledPlatforms to new platformSettings
-      const allPlatforms = ['YouTube', 'Twitter', 'TikTok', 'Reddit', 'Kick', 'Twitch', 'Streamable', 'Imgur', 'Wikipedia', 'Bluesky', 'LSF']
+      const allPlatforms = getLinkTypes().map((t) => t.name)
       let platformSettings: Record<string, PlatformDisplayMode> = {}
       
       if (parsed.platformSettings && typeof parsed.platformSettings === 'object') {
@@ -445,19 +446,7 @@ function loadSettings(): Settings {
   ]
   
   // Default platform settings: all set to 'embed'
-  const defaultPlatformSettings: Record<string, PlatformDisplayMode> = {
-    'YouTube': 'embed',
-    'Twitter': 'embed',
-    'TikTok': 'embed',
-    'Reddit': 'embed',
-    'Kick': 'embed',
-    'Twitch': 'embed',
-    'Streamable': 'embed',
-    'Imgur': 'embed',
-    'Wikipedia': 'embed',
-    'Bluesky': 'embed',
-    'LSF': 'embed',
-  }
+  const defaultPlatformSettings = getDefaultPlatformSettings()
   
   const defaults: Settings = {
     filter: ['mrMouton'],
@@ -496,44 +485,20 @@ function saveSettings(settings: Settings) {
   }
 }
 
-// Detect link type for display
+// Detect link type for display (see utils/linkTypes for the registry)
 function getLinkType(url: string): string {
-  try {
-    const hostname = new URL(url).hostname.toLowerCase()
-    if (hostname.includes('twitter.com') || hostname.includes('x.com')) return 'Twitter'
-    if (hostname.includes('youtube.com') || hostname.includes('youtu.be')) return 'YouTube'
-    if (hostname.includes('tiktok.com')) return 'TikTok'
-    if (hostname.includes('kick.com')) return 'Kick'
-    if (hostname.includes('twitch.tv')) return 'Twitch'
-    if (hostname.includes('reddit.com')) return 'Reddit'
-    if (hostname.includes('streamable.com')) return 'Streamable'
-    if (hostname.includes('imgur.com')) return 'Imgur'
-    if (hostname.includes('wikipedia.org')) return 'Wikipedia'
-    if (hostname.includes('bsky.app')) return 'Bluesky'
-    if (hostname.includes('arazu.io')) return 'LSF'
-    return 'Link'
-  } catch {
-    return 'Link'
-  }
+  return findLinkType(url)?.name ?? 'Link'
 }
 
 // Get icon for link type
 function getLinkTypeIcon(linkType?: string): string | null {
-  if (!linkType) return null
-  const iconMap: Record<string, string> = {
-    'Twitter': twitterIcon,
-    'YouTube': youtubeIcon,
-    'TikTok': tiktokIcon,
-    'Kick': kickIcon,
-    'Twitch': twitchIcon,
-    'Reddit': redditIcon,
-    'Streamable': streamableIcon,
-    'Imgur': imgurIcon,
-    'Wikipedia': wikipediaIcon,
-    'Bluesky': blueskyIcon,
-    'LSF': redditIcon, // Use Reddit icon as placeholder for LSF (LSF is related to Reddit)
-  }
-  return iconMap[linkType] || null
+  return getLinkTypeByName(linkType)?.icon ?? null
+}
+
+// Registered (non built-in) link type that can embed this card, e.g. from an extension
+function getCustomLinkType(card: LinkCard): LinkTypeDefinition | undefined {
+  const linkType = getLinkTypeByName(card.linkType)
+  return linkType && !linkType.builtin && linkType.getEmbed && !card.isDirectMedia ? linkType : undefined
 }
 
 // Check if URL is a YouTube link
@@ -1062,6 +1027,8 @@ function renderLinkCardOverviewContent(
   const kickMode = getPlatformDisplayMode('Kick', platformSettings)
   const lsfMode = getPlatformDisplayMode('LSF', platformSettings)
   const imgurMode = getPlatformDisplayMode('Imgur', platformSettings)
+  const customLinkType = getCustomLinkType(card)
+  const customMode = getPlatformDisplayMode(card.linkType, platformSettings)
   
   // Check if card has an embed to show
   const hasEmbed = card.isDirectMedia || 
@@ -1074,7 +1041,8 @@ function renderLinkCardOverviewContent(
     (card.isBluesky && blueskyMode === 'embed') ||
     (card.isKick && kickMode === 'embed') ||
     (card.isLSF && lsfMode === 'embed') ||
-    (card.isImgur && imgurMode === 'embed')
+    (card.isImgur && imgurMode === 'embed') ||
+    (customLinkType && customMode === 'embed')
   
   const getEmbedTheme = _getEmbedTheme
   return (
@@ -1125,6 +1093,8 @@ function renderLinkCardOverviewContent(
           <KickEmbed key={`kick-${card.id}-${reloadKey}`} url={card.url} autoplay={embedAutoplay} mute={embedMuted} />
         ) : card.isLSF && lsfMode === 'embed' ? (
           <LSFEmbed key={`lsf-${card.id}-${reloadKey}`} url={card.url} autoplay={embedAutoplay} mute={embedMuted} />
+        ) : customLinkType && customMode === 'embed' ? (
+          <LinkTypeEmbed key={`lt-${card.id}-${reloadKey}`} url={card.url} linkType={customLinkType} onOpenLink={onOpenLink} />
         ) : null}
       </div>
       {/* Text content and metadata at bottom - always visible */}
@@ -1285,6 +1255,8 @@ export function LinkCardExpandedContent(props: {
             <KickEmbed url={card.url} autoplay={false} mute={true} />
           ) : card.isLSF ? (
             <LSFEmbed url={card.url} autoplay={false} mute={false} />
+          ) : getCustomLinkType(card) ? (
+            <LinkTypeEmbed url={card.url} linkType={getCustomLinkType(card)!} onOpenLink={onOpenLink} />
           ) : (
             <div className="bg-base-200 rounded-lg p-6">
               <a
@@ -1351,6 +1323,8 @@ function MasonryGrid({ cards, onCardClick, onOpenLink, getEmbedTheme, platformSe
       return baseHeight + 400 // Similar to Streamable
     } else if (card.isImgur) {
       return baseHeight + 100
+    } else if (getCustomLinkType(card)) {
+      return baseHeight + (getCustomLinkType(card)!.embedHeight ?? 400)
     } else {
       // Generic link - estimate based on text length
       return baseHeight + Math.min(card.text.length / 10, 200)
@@ -2048,6 +2022,9 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
     }).catch(() => {})
   }, [])
 
+  // Link types (built-in + extensions); extension types can arrive after mount
+  const linkTypes = useLinkTypes()
+
   // Load settings on mount
   const [settings, setSettings] = useState<Settings>(loadSettings)
   const [settingsOpen, setSettingsOpen] = useState(false)
@@ -2063,19 +2040,7 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
     bannedUsers: Array.isArray(settings.bannedUsers) ? settings.bannedUsers : [],
     bannedLinks: Array.isArray(settings.bannedLinks) ? settings.bannedLinks : [],
     bannedMessages: Array.isArray(settings.bannedMessages) ? settings.bannedMessages : [],
-    platformSettings: settings.platformSettings && typeof settings.platformSettings === 'object' ? settings.platformSettings : {
-      'YouTube': 'embed',
-      'Twitter': 'embed',
-      'TikTok': 'embed',
-      'Reddit': 'embed',
-      'Kick': 'embed',
-      'Twitch': 'embed',
-      'Streamable': 'embed',
-      'Imgur': 'embed',
-      'Wikipedia': 'embed',
-      'Bluesky': 'embed',
-      'LSF': 'embed',
-    },
+    platformSettings: settings.platformSettings && typeof settings.platformSettings === 'object' ? settings.platformSettings : getDefaultPlatformSettings(),
     linkOpenAction: settings.linkOpenAction || 'browser',
     trustedUsers: Array.isArray(settings.trustedUsers) ? settings.trustedUsers : [],
     mutedUsers: Array.isArray(settings.mutedUsers) ? cleanupExpiredMutes(settings.mutedUsers) : [],
@@ -2143,19 +2108,7 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
   useEffect(() => {
     if (settingsOpen) {
       // Ensure all fields are present with defaults
-      const defaultPlatformSettings: Record<string, PlatformDisplayMode> = {
-        'YouTube': 'embed',
-        'Twitter': 'embed',
-        'TikTok': 'embed',
-        'Reddit': 'embed',
-        'Kick': 'embed',
-        'Twitch': 'embed',
-        'Streamable': 'embed',
-        'Imgur': 'embed',
-        'Wikipedia': 'embed',
-        'Bluesky': 'embed',
-        'LSF': 'embed',
-      }
+      const defaultPlatformSettings = getDefaultPlatformSettings()
       setTempSettings({
         filter: Array.isArray(settings.filter) ? settings.filter : (settings.filter ? [settings.filter] : ['mrMouton']),
         showNSFW: settings.showNSFW ?? false,
@@ -2486,7 +2439,7 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
             else setRustlesearchSearchAfter(undefined)
             setHasMore(rustleResult.hasMore ?? false)
           } else {
-            // Preserve Kick messages that may have arrived from kick-chat-refetch-history during refresh
+            // Preserve Kick messages that may have arrived from a Kick history refetch during refresh
             setMentions(prev => {
               const kickOnly = prev.filter(m => m.platform === 'kick')
               const combined = [...mergedData, ...kickOnly].sort((a, b) => b.date - a.date)
@@ -3085,15 +3038,15 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
   const kickSlug = (settings.channels?.kick?.channelSlug || '').trim()
   useEffect(() => {
     if (!kickEnabled || !kickSlug) {
-      window.ipcRenderer.invoke('kick-chat-set-targets', { slugs: [] }).catch(() => {})
+      window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: 'kick', targets: [] }).catch(() => {})
       return
     }
-    window.ipcRenderer.invoke('kick-chat-set-targets', { slugs: [kickSlug] }).catch((err) => {
+    window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: 'kick', targets: [kickSlug] }).catch((err) => {
       logger.error('Failed to set Kick chat targets:', err)
     })
     // Delayed refetch so history is retried after initial fetch (e.g. if cookies weren't ready)
     const refetchTimer = window.setTimeout(() => {
-      window.ipcRenderer.invoke('kick-chat-refetch-history', { slugs: [kickSlug] }).catch(() => {})
+      window.ipcRenderer.invoke('chat-provider-refetch-history', { providerId: 'kick', targets: [kickSlug] }).catch(() => {})
     }, 4500)
     const handleKickMessage = (_event: any, msg: { platform: 'kick'; slug: string; content: string; createdAt: string; sender?: { username?: string; slug?: string }; isHistory?: boolean; emotes?: KickEmote[] }) => {
       if (!msg || msg.platform !== 'kick') return
@@ -3133,7 +3086,7 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
     return () => {
       window.clearTimeout(refetchTimer)
       window.ipcRenderer.off('kick-chat-message', handleKickMessage)
-      window.ipcRenderer.invoke('kick-chat-set-targets', { slugs: [] }).catch(() => {})
+      window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: 'kick', targets: [] }).catch(() => {})
     }
   }, [kickEnabled, kickSlug, filter])
 
@@ -3302,6 +3255,7 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
               cachedCard.nick === cardData.nick &&
               cachedCard.date === cardData.date &&
               cachedCard.isTrusted === cardData.isTrusted &&
+              cachedCard.linkType === cardData.linkType &&
               cachedCard.isStreaming === cardData.isStreaming) {
             card = cachedCard
           } else {
@@ -3356,7 +3310,7 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
     cardCacheRef.current = newCache
     
     return cards
-  }, [mentions, filter, showNSFW, showNSFL, showNonLinks, bannedTerms, bannedUsers, bannedLinks, bannedMessages, platformSettings, trustedUsers, mutedUsers])
+  }, [mentions, filter, showNSFW, showNSFL, showNonLinks, bannedTerms, bannedUsers, bannedLinks, bannedMessages, platformSettings, trustedUsers, mutedUsers, linkTypes])
 
   const highlightedCard = linkCards.find(card => card.id === highlightedCardId)
   const highlightedIndex = highlightedCardId ? linkCards.findIndex(card => card.id === highlightedCardId) : -1
@@ -3560,7 +3514,7 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
     if (settings.channels?.kick?.enabled) {
       const slug = (settings.channels?.kick?.channelSlug || '').trim()
       if (slug) {
-        window.ipcRenderer.invoke('kick-chat-refetch-history', { slugs: [slug] }).catch(() => {})
+        window.ipcRenderer.invoke('chat-provider-refetch-history', { providerId: 'kick', targets: [slug] }).catch(() => {})
       }
     }
     
@@ -3998,7 +3952,7 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
                   <span className="label-text">Platform Display Settings</span>
                 </label>
                 <div className="space-y-4">
-                  {['YouTube', 'Twitter', 'TikTok', 'Reddit', 'Kick', 'Twitch', 'Streamable', 'Imgur', 'Wikipedia', 'Bluesky', 'LSF'].map((platform) => {
+                  {linkTypes.map((t) => t.name).map((platform) => {
                     const currentMode = tempSettings.platformSettings?.[platform] || 'embed'
                     return (
                       <div key={platform} className="border border-base-300 rounded-lg p-3">
@@ -4371,6 +4325,10 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
                   mute={autoplayEnabled ? muteEnabled : false}
                 />
               </div>
+            ) : getCustomLinkType(highlightedCard) ? (
+              <div>
+                <LinkTypeEmbed url={highlightedCard.url} linkType={getCustomLinkType(highlightedCard)!} onOpenLink={handleOpenLink} />
+              </div>
             ) : highlightedCard.isImgur ? (
               <div>
                 {loadingImgurAlbum ? (
@@ -4878,7 +4836,8 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
               contextMenu.card.isBluesky ||
               contextMenu.card.isKick ||
               contextMenu.card.isLSF ||
-              contextMenu.card.isImgur
+              contextMenu.card.isImgur ||
+              !!getCustomLinkType(contextMenu.card)
             
             if (!hasEmbed) return null
             
@@ -5144,6 +5103,8 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
                     <KickEmbed url={expandedCard.url} autoplay={false} mute={true} />
                   ) : expandedCard.isLSF ? (
                     <LSFEmbed url={expandedCard.url} autoplay={false} mute={false} />
+                  ) : getCustomLinkType(expandedCard) ? (
+                    <LinkTypeEmbed url={expandedCard.url} linkType={getCustomLinkType(expandedCard)!} onOpenLink={handleOpenLink} />
                   ) : (
                     <div className="bg-base-200 rounded-lg p-6">
                       <a
@@ -5411,7 +5372,8 @@ function LinkScroller({ onBackToMenu }: { onBackToMenu?: () => void }) {
               contextMenu.card.isBluesky ||
               contextMenu.card.isKick ||
               contextMenu.card.isLSF ||
-              contextMenu.card.isImgur
+              contextMenu.card.isImgur ||
+              !!getCustomLinkType(contextMenu.card)
             
             if (!hasEmbed) return null
             
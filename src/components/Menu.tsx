@@ -60,7 +60,7 @@ const CONNECTIONS_PLATFORMS_BASE: Array<{
     label: 'Twitch',
     loginUrl: 'https://www.twitch.tv',
     loginService: 'twitch',
-    description: 'Used for Twitch embeds and Twitch chat in combined chat.',
+    description: 'Used for Twitch embeds and Twitch chat in combined chat. When logged in, Twitch chat connects as you so you can send messages.',
     cookieNames: ['auth-token', 'unique_id'],
     snippet: `(function(){var n=['auth-token','unique_id'];var c=document.cookie.split(';').map(function(s){var i=s.indexOf('=');return i>=0?[s.slice(0,i).trim(),s.slice(i+1).trim()]:null}).filter(Boolean);var o=c.filter(function(p){return n.indexOf(p[0])>=0}).map(function(p){return p[0]+'='+p[1]}).join('; ');console.log('Paste this into Omni Screen:',o);try{copy(JSON.stringify(o))}catch(e){}return o;})()`,
   },
@@ -192,12 +192,19 @@ function Menu({ onNavigate }: MenuProps) {
   const [settingsOpen, setSettingsOpen] = useState(false)
   const [connectionsOpen, setConnectionsOpen] = useState(false)
   const [extensionsOpen, setExtensionsOpen] = useState(false)
-  type InstalledExt = { id: string; name: string; version: string; updateUrl: string; enabled: boolean; description?: string; tags?: string[]; icon?: string }
+  type InstalledExt = { id: string; name: string; version: string; updateUrl: string; enabled: boolean; description?: string; tags?: string[]; icon?: string; capabilities?: string[]; publisherFingerprint?: string; updateAvailable?: boolean; latestVersion?: string; loadError?: string }
   const [extensionsList, setExtensionsList] = useState<InstalledExt[]>([])
   const [extensionInstallUrl, setExtensionInstallUrl] = useState('')
   const [extensionInstallStatus, setExtensionInstallStatus] = useState<{ ok: boolean; message?: string; extensionId?: string } | null>(null)
   /** Fetched manifests for community extensions (manifestUrl -> manifest or null). */
   const [communityManifests, setCommunityManifests] = useState<Record<string, { id: string; name: string; description?: string; icon?: string; tags?: string[] } | null>>({})
+  /** Registry index entries (App Settings > Extensions registry URL) with their installed/update state from main. */
+  type RegistryListing = { id: string; name: string; version: string; updateUrl: string; description?: string; tags?: string[]; icon?: string; capabilities?: string[]; state: 'available' | 'installed' | 'update'; installedVersion?: string }
+  const [registryUrl, setRegistryUrl] = useState('')
+  const [registry, setRegistry] = useState<{ name?: string; extensions: RegistryListing[] } | null>(null)
+  const [registryError, setRegistryError] = useState<string | null>(null)
+  const [registryLoading, setRegistryLoading] = useState(false)
+  const [registrySearch, setRegistrySearch] = useState('')
   const [extensionActionStatus, setExtensionActionStatus] = useState<string | null>(null)
   const [prefsDraft, setPrefsDraft] = useState<AppPreferences>(() => getAppPreferences())
 
@@ -319,6 +326,48 @@ function Menu({ onNavigate }: MenuProps) {
     return () => { cancelled = true }
   }, [extensionsOpen, COMMUNITY_EXTENSION_URLS])
 
+  const loadRegistry = useCallback(async (url: string, refresh: boolean) => {
+    setRegistryLoading(true)
+    try {
+      const result = await window.ipcRenderer.invoke('extension-registry-fetch', { url, refresh })
+      if (result?.ok) {
+        setRegistry({ name: result.name, extensions: Array.isArray(result.extensions) ? result.extensions : [] })
+        setRegistryError(null)
+      } else {
+        setRegistryError(result?.error ?? 'Failed to load registry')
+      }
+    } catch (e) {
+      setRegistryError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setRegistryLoading(false)
+    }
+  }, [])
+
+  // When Extensions modal opens, pick up the registry URL from App Settings
+  useEffect(() => {
+    if (!extensionsOpen) return
+    const url = getAppPreferences().extensions.registryUrl.trim()
+    setRegistryUrl(url)
+    setRegistry(null)
+    setRegistryError(null)
+    setRegistrySearch('')
+  }, [extensionsOpen])
+
+  // Load the registry, and recompute installed/update state whenever the installed list changes (index is cached in main)
+  useEffect(() => {
+    if (!extensionsOpen || !registryUrl) return
+    loadRegistry(registryUrl, false)
+  }, [extensionsOpen, registryUrl, extensionsList, loadRegistry])
+
+  const filteredRegistryExtensions = useMemo(() => {
+    const list = registry?.extensions ?? []
+    const q = registrySearch.trim().toLowerCase()
+    if (!q) return list
+    return list.filter((e) =>
+      [e.name, e.id, e.description ?? '', ...(e.tags ?? [])].some((text) => text.toLowerCase().includes(q)),
+    )
+  }, [registry, registrySearch])
+
   // When login window closes, refresh so manual fields and logged-in state stay in sync
   useEffect(() => {
     const handler = () => refreshConnectionsAll()
@@ -751,6 +800,137 @@ function Menu({ onNavigate }: MenuProps) {
                   </label>
                 </div>
               </div>
+
+              <div className="border border-base-200 rounded-lg p-5">
+                <div className="font-semibold mb-4">Extensions</div>
+
+                <label className="block">
+                  <div className="font-medium">Registry URL</div>
+                  <div className="text-xs text-base-content/60 mt-1 mb-2">
+                    Index JSON listing extension manifests. Browse and install them from the Extensions menu.
+                  </div>
+                  <input
+                    type="url"
+                    className="input input-bordered input-sm w-full"
+                    placeholder="https://.../registry.json"
+                    value={prefsDraft.extensions.registryUrl}
+                    onChange={(e) =>
+                      setPrefsDraft((p) => ({
+                        ...p,
+                        extensions: { ...p.extensions, registryUrl: e.target.value },
+                      }))
+                    }
+                  />
+                </label>
+              </div>
+
+              <div className="border border-base-200 rounded-lg p-5">
+                <div className="font-semibold mb-4">Notifications</div>
+
+                <div className="space-y-4">
+                  <label className="flex items-start justify-between gap-4 py-1">
+                    <div className="min-w-0 flex-1">
+                      <div className="font-medium">Mentions</div>
+                      <div className="text-xs text-base-content/60 mt-1">Combined chat messages that mention your nick or a highlight term.</div>
+                    </div>
+                    <input
+                      type="checkbox"
+                      className="toggle toggle-sm flex-shrink-0 mt-0.5"
+                      checked={prefsDraft.notifications.mentions}
+                      onChange={(e) =>
+                        setPrefsDraft((p) => ({
+                          ...p,
+                          notifications: { ...p.notifications, mentions: e.target.checked },
+                        }))
+                      }
+                    />
+                  </label>
+                  <label className="flex items-start justify-between gap-4 py-1">
+                    <div className="min-w-0 flex-1">
+                      <div className="font-medium">Whispers</div>
+                      <div className="text-xs text-base-content/60 mt-1">Private messages in the primary chat.</div>
+                    </div>
+                    <input
+                      type="checkbox"
+                      className="toggle toggle-sm flex-shrink-0 mt-0.5"
+                      checked={prefsDraft.notifications.whispers}
+                      onChange={(e) =>
+                        setPrefsDraft((p) => ({
+                          ...p,
+                          notifications: { ...p.notifications, whispers: e.target.checked },
+                        }))
+                      }
+                    />
+                  </label>
+                  <label className="flex items-start justify-between gap-4 py-1">
+                    <div className="min-w-0 flex-1">
+                      <div className="font-medium">Streamer goes live</div>
+                      <div className="text-xs text-base-content/60 mt-1">A bookmarked streamer goes live. Click to open the stream.</div>
+                    </div>
+                    <input
+                      type="checkbox"
+                      className="toggle toggle-sm flex-shrink-0 mt-0.5"
+                      checked={prefsDraft.notifications.goLive}
+                      onChange={(e) =>
+                        setPrefsDraft((p) => ({
+                          ...p,
+                          notifications: { ...p.notifications, goLive: e.target.checked },
+                        }))
+                      }
+                    />
+                  </label>
+                  <div className="py-1">
+                    <label className="flex items-start justify-between gap-4">
+                      <div className="min-w-0 flex-1">
+                        <div className="font-medium">Quiet hours</div>
+                        <div className="text-xs text-base-content/60 mt-1">No notifications during these hours (filter rule notifications included).</div>
+                      </div>
+                      <input
+                        type="checkbox"
+                        className="toggle toggle-sm flex-shrink-0 mt-0.5"
+                        checked={prefsDraft.notifications.quietHours.enabled}
+                        onChange={(e) =>
+                          setPrefsDraft((p) => ({
+                            ...p,
+                            notifications: { ...p.notifications, quietHours: { ...p.notifications.quietHours, enabled: e.target.checked } },
+                          }))
+                        }
+                      />
+                    </label>
+                    <div className="flex items-center gap-2 mt-2">
+                      <input
+                        type="time"
+                        className="input input-bordered input-sm"
+                        aria-label="Quiet hours start"
+                        disabled={!prefsDraft.notifications.quietHours.enabled}
+                        value={prefsDraft.notifications.quietHours.start}
+                        onChange={(e) =>
+                          e.target.value &&
+                          setPrefsDraft((p) => ({
+                            ...p,
+                            notifications: { ...p.notifications, quietHours: { ...p.notifications.quietHours, start: e.target.value } },
+                          }))
+                        }
+                      />
+                      <span className="text-sm text-base-content/60">to</span>
+                      <input
+                        type="time"
+                        className="input input-bordered input-sm"
+                        aria-label="Quiet hours end"
+                        disabled={!prefsDraft.notifications.quietHours.enabled}
+                        value={prefsDraft.notifications.quietHours.end}
+                        onChange={(e) =>
+                          e.target.value &&
+                          setPrefsDraft((p) => ({
+                            ...p,
+                            notifications: { ...p.notifications, quietHours: { ...p.notifications.quietHours, end: e.target.value } },
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
             </div>
 
             <div className="modal-action mt-6 pt-4 border-t border-base-200">
@@ -1134,6 +1314,99 @@ function Menu({ onNavigate }: MenuProps) {
                     )
                   })}
                 </ul>
+              </div>
+
+              {/* Registry: browse and search the index configured in App Settings */}
+              <div className="border-t border-base-200 pt-4">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <div className="font-medium text-sm truncate">{registry?.name ? `Registry: ${registry.name}` : 'Registry'}</div>
+                  {registryUrl && (
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs"
+                      disabled={registryLoading}
+                      onClick={() => loadRegistry(registryUrl, true)}
+                    >
+                      {registryLoading ? 'Loading…' : 'Refresh'}
+                    </button>
+                  )}
+                </div>
+                {!registryUrl ? (
+                  <p className="text-xs text-base-content/60">Set a registry URL in App Settings → Extensions to browse more extensions.</p>
+                ) : (
+                  <>
+                    <input
+                      type="search"
+                      className="input input-bordered input-sm w-full mb-2"
+                      placeholder="Search name, description or tag"
+                      value={registrySearch}
+                      onChange={(e) => setRegistrySearch(e.target.value)}
+                    />
+                    {registryError && <p className="text-xs text-error mb-2">{registryError}</p>}
+                    {!registry ? (
+                      !registryError && <p className="text-xs text-base-content/60">Loading…</p>
+                    ) : filteredRegistryExtensions.length === 0 ? (
+                      <p className="text-xs text-base-content/60">{registry.extensions.length === 0 ? 'This registry lists no extensions.' : 'No extensions match your search.'}</p>
+                    ) : (
+                      <ul className="space-y-3">
+                        {filteredRegistryExtensions.map((entry) => (
+                          <li key={entry.id} className="flex items-start gap-3 p-3 rounded-lg bg-base-200/50 border border-base-200">
+                            {entry.icon ? (
+                              <img src={entry.icon} alt="" className="w-10 h-10 rounded object-contain shrink-0 bg-base-100" />
+                            ) : (
+                              <div className="w-10 h-10 rounded bg-base-100 shrink-0 flex items-center justify-center text-base-content/40 text-lg" aria-hidden>📦</div>
+                            )}
+                            <div className="min-w-0 flex-1">
+                              <div className="font-medium text-sm">
+                                {entry.name}
+                                <span className="text-base-content/60 text-xs font-normal ml-1">v{entry.version}</span>
+                              </div>
+                              {entry.description && <p className="text-xs text-base-content/60 mt-0.5 line-clamp-2">{entry.description}</p>}
+                              {entry.tags && entry.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {entry.tags.map((t) => (
+                                    <button
+                                      key={t}
+                                      type="button"
+                                      className="badge badge-ghost badge-xs cursor-pointer"
+                                      title={`Show extensions tagged ${t}`}
+                                      onClick={() => setRegistrySearch(t)}
+                                    >
+                                      {t}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                              {entry.capabilities && entry.capabilities.length > 0 && (
+                                <span className="text-base-content/50 text-xs block truncate mt-1" title={entry.capabilities.join(', ')}>
+                                  {entry.capabilities.join(', ')}
+                                </span>
+                              )}
+                              <div className="mt-2">
+                                {entry.state === 'installed' ? (
+                                  <span className="text-xs text-success">Installed (v{entry.installedVersion})</span>
+                                ) : (
+                                  <button
+                                    type="button"
+                                    className="btn btn-primary btn-xs"
+                                    onClick={async () => {
+                                      setExtensionActionStatus(null)
+                                      const result = await window.ipcRenderer.invoke('extension-install-from-url', entry.updateUrl)
+                                      setExtensionActionStatus(result.ok ? `Installed: ${result.id}` : (result.error ?? 'Failed'))
+                                      if (result.ok) refreshInstalledExtensions()
+                                    }}
+                                  >
+                                    {entry.state === 'update' ? `Update from v${entry.installedVersion}` : 'Install'}
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
                 {extensionActionStatus && (
                   <p className={`text-xs mt-2 ${extensionActionStatus.startsWith('Installed') ? 'text-success' : 'text-error'}`}>
                     {extensionActionStatus}
@@ -1158,6 +1431,19 @@ function Menu({ onNavigate }: MenuProps) {
                         <div className="min-w-0 flex-1">
                           <span className="font-medium text-sm block truncate">{ext.name}</span>
                           <span className="text-base-content/60 text-xs">v{ext.version}</span>
+                          <span
+                            className={`badge badge-xs ml-2 ${ext.publisherFingerprint ? 'badge-success' : 'badge-ghost'}`}
+                            title={ext.publisherFingerprint ? `Publisher key ${ext.publisherFingerprint}` : 'Not signed by its publisher'}
+                          >
+                            {ext.publisherFingerprint ? 'Signed' : 'Unsigned'}
+                          </span>
+                          {ext.updateAvailable && <span className="badge badge-xs badge-info ml-1">v{ext.latestVersion} available</span>}
+                          {ext.loadError && <span className="badge badge-xs badge-error ml-1" title={ext.loadError}>Failed to load</span>}
+                          {ext.capabilities && ext.capabilities.length > 0 && (
+                            <span className="text-base-content/50 text-xs block truncate" title={ext.capabilities.join(', ')}>
+                              {ext.capabilities.join(', ')}
+                            </span>
+                          )}
                         </div>
                         <div className="flex items-center gap-2 shrink-0">
                           <label className="label cursor-pointer gap-1.5 py-0">
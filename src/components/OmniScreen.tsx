@@ -4,7 +4,8 @@ import * as d3 from 'd3'
 import KickEmbed from './embeds/KickEmbed'
 import TwitchEmbed from './embeds/TwitchEmbed'
 import YouTubeEmbed from './embeds/YouTubeEmbed'
-import CombinedChat, { type CombinedChatContextMenuConfig } from './CombinedChat'
+import CombinedChat, { type AdditionalChatSource, type CombinedChatContextMenuConfig, type ExtensionChatSource } from './CombinedChat'
+import ChatArchiveSearch from './ChatArchiveSearch'
 import { LiteLinkScroller, type LiteLinkScrollerSettings } from './LiteLinkScroller'
 import { buildLinkCardsFromMessage } from './LinkScroller'
 import type { LinkCard } from './LinkScroller'
@@ -12,7 +13,29 @@ import danTheBuilderBg from '../assets/media/DanTheBuilder.png'
 import autoplayIcon from '../assets/icons/autoplay.png'
 import autoplayPausedIcon from '../assets/icons/autoplay-paused.png'
 import { Icon } from './Icon'
+import ExtensionUiFrame from './ExtensionUiFrame'
+import ChatFilterRulesEditor from './ChatFilterRulesEditor'
+import type { ChatPopoutState, EmbedPopoutState, PopoutAction, PopoutState } from './PopoutWindow'
+import { invokeExtensionUiItem, setExtensionUiCommands, useExtensionUiItems, useRendererExtensions } from '../utils/extensionUi'
 import { omniColorForKey, textColorOn, withAlpha, COLOR_BOOKMARKED_DEFAULT } from '../utils/omniColors'
+import { loadChatFilterRules, type ChatFilterRule } from '../utils/chatFilters'
+import { showDesktopNotification, type DesktopNotificationTarget } from '../utils/desktopNotifications'
+import { DEFAULT_GRID_LAYOUT, MAX_GRID_COLUMNS, MAX_GRID_ROW_SPAN, computeGridPlacement, moveGridKey, normalizeGridLayout, orderGridKeys, type GridLayout, type GridLayoutMode } from '../utils/gridLayout'
+import { WORKSPACES_CHANGED_EVENT, buildWorkspaceUrl, createWorkspaceId, loadWorkspaces, saveWorkspaces, type Workspace, type WorkspaceSnapshot } from '../utils/workspaces'
+import { CHAT_POPOUT_ID, getPopoutEmbedKey, loadPopoutBounds, makeEmbedPopoutId, savePopoutBounds, type PopoutBounds } from '../utils/popouts'
+import { clampVolume, type EmbedAudio } from '../utils/embedAudio'
+import {
+  CHAT_DELAY_PLATFORMS,
+  DEFAULT_STREAMER_CHAT_DELAY,
+  MAX_CHAT_DELAY_MS,
+  clampChatDelay,
+  makeChatDelayKey,
+  normalizeStreamerChatDelay,
+  type ChatDelayGroup,
+  type ChatDelayPlatform,
+  type StreamerChatDelay,
+} from '../utils/chatDelay'
+import { formatIgnoreRemaining, loadIgnoredChatUsers, removeIgnoredChatUser, type IgnoredChatUser } from '../utils/chatIgnoreList'
 
 /** Log for bookmarked streamers (settings list: YT/Kick/Twitch poll and results). Not for pinned embeds. */
 function logBookmarked(message: string, detail?: unknown) {
@@ -120,15 +143,26 @@ interface InstalledExtensionInfo {
   id: string
   name: string
   version: string
+  enabled?: boolean
+  autoUpdate?: boolean
+  latestVersion?: string
+  updateAvailable?: boolean
+  lastUpdateCheckAt?: string
+  /** Version kept on disk by the last update (rollback target). */
+  previousVersion?: string
+  /** Set when the extension failed to load or kept crashing. */
+  loadError?: string
 }
 /** Extension settings section schema (from extension via registerSettings). */
+type ExtensionSettingValue = boolean | string | number | string[] | { key: string; ctrl: boolean; shift: boolean; alt: boolean } | null
 interface ExtensionSettingField {
   key: string
-  type: 'boolean' | 'string' | 'number'
+  type: 'boolean' | 'string' | 'number' | 'select' | 'multi-select' | 'color' | 'secret' | 'list' | 'keybind'
   label: string
-  default: boolean | string | number
+  default: ExtensionSettingValue
   description?: string
   placeholder?: string
+  options?: Array<{ value: string; label: string }>
 }
 interface ExtensionSettingsSection {
   id: string
@@ -137,6 +171,19 @@ interface ExtensionSettingsSection {
   fields: ExtensionSettingField[]
 }
 
+/** Embed platform added by an extension (get-app-config embedPlatforms); see registerEmbedPlatform in docs/Extensions.md. */
+interface EmbedPlatformInfo {
+  id: string
+  label: string
+  urlPatterns: string[]
+  embedUrlTemplate: string
+  pageUrlTemplate: string
+  iconUrl?: string
+  caseSensitiveIds?: boolean
+  chatProviderId?: string
+  hasLiveCheck: boolean
+}
+
 /** Live WebSocket message (generic; embeds/banned come via dedicated channels from extension). */
 type LiveWsMessage = { type: string; data: unknown }
 
@@ -170,6 +217,8 @@ export interface BookmarkedStreamer {
   youtubeChannelId?: string
   kickSlug?: string
   twitchLogin?: string
+  /** Channels on extension embed platforms (platform id -> embed id, e.g. { rumble: 'somechannel' }). */
+  channels?: Record<string, string>
   /** Hex color for dock button (e.g. #7dcf67). */
   color?: string
   /** Per-platform hex for combined chat; undefined = use dock color. */
@@ -180,6 +229,8 @@ export interface BookmarkedStreamer {
   openWhenLive?: boolean
   /** When true, hide the source label (badge) in combined chat for this streamer's messages. */
   hideLabelInCombinedChat?: boolean
+  /** Per-platform chat delay offsets when multistreaming (see utils/chatDelay). */
+  chatDelay?: StreamerChatDelay
 }
 
 const HEX_COLOR_REGEX = /^#[0-9A-Fa-f]{6}$/
@@ -202,11 +253,29 @@ function buildAddStreamerUrl(streamer: BookmarkedStreamer, includeColors: boolea
   return `omnichat://add-streamer?${params.toString()}`
 }
 
+/** Extension embed platforms by id. Set from app config so the module-level URL/key helpers can use them. */
+let extensionEmbedPlatforms = new Map<string, EmbedPlatformInfo>()
+
+function setExtensionEmbedPlatforms(list: EmbedPlatformInfo[]) {
+  extensionEmbedPlatforms = new Map(list.map((p) => [p.id.toLowerCase(), p]))
+}
+
+function getExtensionEmbedPlatform(platform: string): EmbedPlatformInfo | undefined {
+  return extensionEmbedPlatforms.get(String(platform || '').toLowerCase())
+}
+
+/** Replace {id} in an extension embed/page URL template. */
+function fillEmbedTemplate(template: string, id: string): string {
+  return template.split('{id}').join(encodeURIComponent(id))
+}
+
 function makeEmbedKey(platform: string, id: string) {
   const p = String(platform || '').toLowerCase()
   const rawId = String(id || '')
-  // YouTube video IDs are case-sensitive (11-char A-Za-z0-9_-); preserve exact casing. Other platforms normalize to lowercase.
-  const normalizedId = p === 'youtube' ? rawId : rawId.toLowerCase()
+  // YouTube video IDs are case-sensitive (11-char A-Za-z0-9_-); preserve exact casing. Other platforms normalize to lowercase
+  // unless the extension platform says its ids are case-sensitive.
+  const caseSensitive = p === 'youtube' || getExtensionEmbedPlatform(p)?.caseSensitiveIds === true
+  const normalizedId = caseSensitive ? rawId : rawId.toLowerCase()
   return `${p}:${normalizedId}`
 }
 
@@ -570,6 +639,38 @@ function formatKeybind(kb: { key: string; ctrl: boolean; shift: boolean; alt: bo
 }
 const formatPrimaryChatFocusKeybind = formatKeybind
 
+/**
+ * Extension settings saved by earlier versions in localStorage (omni-screen:ext-settings:${extId}, or the legacy
+ * chat-source keys before that). Only values matching a boolean/string/number field are kept; main stores them from then on.
+ */
+function readLocalExtensionSettings(extId: string, sections: ExtensionSettingsSection[]): Record<string, ExtensionSettingValue> {
+  const fields = new Map((Array.isArray(sections) ? sections : []).flatMap((sec) => (Array.isArray(sec.fields) ? sec.fields : [])).map((f) => [f.key, f]))
+  const out: Record<string, ExtensionSettingValue> = {}
+  const keep = (key: string, value: unknown) => {
+    if (fields.get(key)?.type === typeof value) out[key] = value as ExtensionSettingValue
+  }
+  try {
+    const raw = localStorage.getItem(`omni-screen:ext-settings:${extId}`)
+    if (raw) {
+      const parsed = JSON.parse(raw) as Record<string, unknown>
+      for (const [k, v] of Object.entries(parsed)) keep(k, v)
+    } else {
+      // Legacy keys from before ext-settings (show chat input is app-level, not extension)
+      const include = localStorage.getItem('omni-screen:combined-include-primary-chat')
+      const flairs = localStorage.getItem('omni-screen:combined-disable-primary-chat-flairs-colors')
+      const labelColor = localStorage.getItem('omni-screen:primary-chat-label-color-override')
+      const labelText = localStorage.getItem('omni-screen:primary-chat-label-text')
+      if (include === '0' || include === 'false') keep('includeInCombined', false)
+      if (flairs === '1' || flairs === 'true') keep('flairsAndColors', false)
+      if (typeof labelColor === 'string' && labelColor.trim() !== '') keep('labelColor', labelColor.trim())
+      if (typeof labelText === 'string') keep('labelText', labelText)
+    }
+  } catch {
+    // ignore
+  }
+  return out
+}
+
 function parseEmbedKey(key: string): { platform: string; id: string } | null {
   const k = String(key || '')
   const idx = k.indexOf(':')
@@ -586,6 +687,12 @@ function canonicalEmbedKey(key: string): string {
   return parsed ? makeEmbedKey(parsed.platform, parsed.id) : key
 }
 
+/** Chat provider that reads an embed platform's ids: the extension platform's chatProviderId, else the platform id itself. */
+function embedChatProviderId(platform: string, platforms: EmbedPlatformInfo[]): string {
+  const p = platform.toLowerCase()
+  return platforms.find((x) => x.id === p)?.chatProviderId ?? p
+}
+
 /** Find all bookmarked streamers that own this embed key (same key can belong to multiple streamers, e.g. same YT stream). */
 function findStreamersForKey(
   key: string,
@@ -600,6 +707,7 @@ function findStreamersForKey(
   for (const s of streamers) {
     if (platform === 'kick' && s.kickSlug && s.kickSlug.toLowerCase() === idLower) result.push(s)
     else if (platform === 'twitch' && s.twitchLogin && s.twitchLogin.toLowerCase() === idLower) result.push(s)
+    else if (s.channels?.[platform] && makeEmbedKey(platform, s.channels[platform]) === makeEmbedKey(platform, id)) result.push(s)
     else if (platform === 'youtube' && youtubeVideoToStreamerIds) {
       // YouTube video IDs are case-sensitive; use exact key only (no lowercase fallback).
       const ids = youtubeVideoToStreamerIds.get(key) ?? youtubeVideoToStreamerIds.get(`youtube:${id}`)
@@ -667,11 +775,12 @@ function isLikelyYouTubeId(id: string) {
   return /^[a-zA-Z0-9_-]{8,20}$/.test(id)
 }
 
-/** Hash-style # links: #kick/slug, #twitch/whatever, #youtube/videoId */
+/** Hash-style # links: #kick/slug, #twitch/whatever, #youtube/videoId, #<extension platform>/id */
 function parseHashLink(s: string): { platform: string; id: string } | null {
-  const m = String(s || '').trim().match(/^#(kick|twitch|youtube)\/([^\s]+)$/i)
+  const m = String(s || '').trim().match(/^#([a-z0-9_-]+)\/([^\s]+)$/i)
   if (!m) return null
   const platform = m[1].toLowerCase()
+  if (platform !== 'kick' && platform !== 'twitch' && platform !== 'youtube' && !getExtensionEmbedPlatform(platform)) return null
   const id = m[2].trim()
   return id ? { platform, id } : null
 }
@@ -683,6 +792,8 @@ function buildEmbedUrl(platform: string, id: string): string {
   if (p === 'youtube') return `https://www.youtube.com/watch?v=${cleanId}`
   if (p === 'kick') return `https://kick.com/${cleanId}`
   if (p === 'twitch') return `https://www.twitch.tv/${cleanId}`
+  const ext = getExtensionEmbedPlatform(p)
+  if (ext) return fillEmbedTemplate(ext.pageUrlTemplate, cleanId)
   return `https://${p}.com/${cleanId}`
 }
 
@@ -714,6 +825,19 @@ function parseEmbedUrl(url: string): { platform: string; id: string } | null {
       const m = (u.pathname || '').match(/^\/([^/]+)/)
       if (m && m[1]) return { platform: 'twitch', id: m[1].toLowerCase() }
     }
+    // Extension embed platforms: first matching urlPattern; `id` group or the first group is the embed id
+    for (const platform of extensionEmbedPlatforms.values()) {
+      for (const pattern of platform.urlPatterns) {
+        let m: RegExpMatchArray | null = null
+        try {
+          m = u.toString().match(new RegExp(pattern, 'i'))
+        } catch {
+          continue
+        }
+        const id = (m?.groups?.id ?? m?.[1] ?? '').trim()
+        if (id) return { platform: platform.id, id: platform.caseSensitiveIds ? id : id.toLowerCase() }
+      }
+    }
   } catch {
     // ignore
   }
@@ -802,15 +926,30 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
   const [primaryChatSourceId, setPrimaryChatSourceId] = useState<string | null>(null)
   const [primaryChatSourceAvailable, setPrimaryChatSourceAvailable] = useState<boolean>(false)
   const [primaryChatSourceIconUrl, setPrimaryChatSourceIconUrl] = useState<string | undefined>(undefined)
+  /** Chat sources after the first one (each gets its own chat WebSocket in main). */
+  const [otherChatSources, setOtherChatSources] = useState<Array<{ id: string; iconUrl?: string }>>([])
   const [installedExtensions, setInstalledExtensions] = useState<InstalledExtensionInfo[]>([])
   const [extensionSettingsSchemas, setExtensionSettingsSchemas] = useState<Record<string, ExtensionSettingsSection[]>>({})
-  /** Per-extension settings (keyed by ext id, then field key). Persisted in localStorage omni-screen:ext-settings:${extId}. */
-  const [extensionSettings, setExtensionSettings] = useState<Record<string, Record<string, boolean | string | number>>>({})
+  /** Per-extension settings (keyed by ext id, then field key). Saved by main (extension-settings-set), where the extension reads them. */
+  const [extensionSettings, setExtensionSettings] = useState<Record<string, Record<string, ExtensionSettingValue>>>({})
+  /** Secret setting keys that have a value, per extension (secret values never reach the renderer). */
+  const [extensionSecretsSet, setExtensionSecretsSet] = useState<Record<string, string[]>>({})
+  /** Chat providers registered by extensions (built-in Kick/YouTube/Twitch are handled by their own effects). */
+  const [extensionChatProviders, setExtensionChatProviders] = useState<Array<{ id: string; label: string; canSend: boolean }>>([])
+  /** Embed platforms registered by extensions (mirrored into the module-level registry used by parseEmbedUrl etc.). */
+  const [embedPlatforms, setEmbedPlatforms] = useState<EmbedPlatformInfo[]>([])
   const refetchAppConfig = useCallback(() => {
+    window.ipcRenderer
+      .invoke('chat-provider-list')
+      .then((list: Array<{ id: string; label: string; builtin: boolean; canSend: boolean }>) => {
+        setExtensionChatProviders(Array.isArray(list) ? list.filter((p) => !p.builtin) : [])
+      })
+      .catch(() => setExtensionChatProviders([]))
     window.ipcRenderer.invoke('get-app-config').then((config: {
       chatSources?: Record<string, { baseUrl?: string; platformIconUrl?: string }>
       extensions?: InstalledExtensionInfo[]
       extensionSettingsSchemas?: Record<string, ExtensionSettingsSection[]>
+      embedPlatforms?: EmbedPlatformInfo[]
     }) => {
       const chatSources = config?.chatSources ?? {}
       const primaryId = Object.keys(chatSources)[0] ?? null
@@ -818,14 +957,26 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
       setPrimaryChatSourceId(primaryId)
       setPrimaryChatSourceAvailable(!!primary?.baseUrl)
       setPrimaryChatSourceIconUrl(typeof primary?.platformIconUrl === 'string' ? primary.platformIconUrl : undefined)
+      setOtherChatSources(
+        Object.entries(chatSources)
+          .slice(1)
+          .filter(([, src]) => !!src?.baseUrl)
+          .map(([id, src]) => ({ id, iconUrl: typeof src.platformIconUrl === 'string' ? src.platformIconUrl : undefined })),
+      )
       setInstalledExtensions(Array.isArray(config?.extensions) ? config.extensions : [])
       setExtensionSettingsSchemas(config?.extensionSettingsSchemas && typeof config.extensionSettingsSchemas === 'object' ? config.extensionSettingsSchemas : {})
+      const platforms = Array.isArray(config?.embedPlatforms) ? config.embedPlatforms : []
+      setExtensionEmbedPlatforms(platforms)
+      setEmbedPlatforms(platforms)
     }).catch(() => {
       setPrimaryChatSourceId(null)
       setPrimaryChatSourceAvailable(false)
       setPrimaryChatSourceIconUrl(undefined)
+      setOtherChatSources([])
       setInstalledExtensions([])
       setExtensionSettingsSchemas({})
+      setExtensionEmbedPlatforms([])
+      setEmbedPlatforms([])
     })
   }, [])
   useEffect(() => {
@@ -837,65 +988,109 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     window.ipcRenderer.on('extensions-reloaded', handler)
     return () => { window.ipcRenderer.off('extensions-reloaded', handler) }
   }, [refetchAppConfig])
-  // Hydrate extension settings from localStorage (and migrate legacy chat-source keys into ext-settings when present).
+  // Hydrate extension settings from main (migrating the old localStorage copy / legacy chat-source keys once).
   useEffect(() => {
     const schemas = extensionSettingsSchemas
     const extIds = Object.keys(schemas)
     if (extIds.length === 0) return
-    const next: Record<string, Record<string, boolean | string | number>> = {}
-    for (const extId of extIds) {
-      const sections = schemas[extId]
-      if (!Array.isArray(sections)) continue
-      const defaults: Record<string, boolean | string | number> = {}
-      for (const sec of sections) {
-        if (!Array.isArray(sec.fields)) continue
-        for (const f of sec.fields) {
-          defaults[f.key] = f.default
+    let cancelled = false
+    Promise.all(
+      extIds.map(async (extId) => {
+        const res = (await window.ipcRenderer.invoke('extension-settings-get', extId)) as {
+          ok: boolean
+          values?: Record<string, ExtensionSettingValue>
+          secretsSet?: string[]
+          stored?: boolean
         }
-      }
-      try {
-        const raw = localStorage.getItem(`omni-screen:ext-settings:${extId}`)
-        if (raw) {
-          const parsed = JSON.parse(raw) as Record<string, unknown>
-          for (const [k, v] of Object.entries(parsed)) {
-            if (k in defaults && (typeof v === 'boolean' || typeof v === 'string' || typeof v === 'number')) {
-              defaults[k] = v
-            }
-          }
-        } else {
-          // One-time migration from legacy keys into ext-settings (show chat input is app-level, not extension)
-          const include = localStorage.getItem('omni-screen:combined-include-primary-chat')
-          const flairs = localStorage.getItem('omni-screen:combined-disable-primary-chat-flairs-colors')
-          const labelColor = localStorage.getItem('omni-screen:primary-chat-label-color-override')
-          const labelText = localStorage.getItem('omni-screen:primary-chat-label-text')
-          if (include === '0' || include === 'false') defaults['includeInCombined'] = false
-          if (flairs === '1' || flairs === 'true') defaults['flairsAndColors'] = false
-          if (typeof labelColor === 'string' && labelColor.trim() !== '') defaults['labelColor'] = labelColor.trim()
-          if (typeof labelText === 'string') defaults['labelText'] = labelText
-          try {
-            localStorage.setItem(`omni-screen:ext-settings:${extId}`, JSON.stringify(defaults))
-          } catch {
-            // ignore
+        if (!res?.ok) return null
+        const values = { ...(res.values ?? {}) }
+        if (!res.stored) {
+          const migrated = readLocalExtensionSettings(extId, schemas[extId])
+          if (Object.keys(migrated).length > 0) {
+            Object.assign(values, migrated)
+            void window.ipcRenderer.invoke('extension-settings-set', { id: extId, values: migrated })
           }
         }
-        next[extId] = defaults
-      } catch {
-        next[extId] = defaults
-      }
+        return { extId, values, secretsSet: Array.isArray(res.secretsSet) ? res.secretsSet : [] }
+      }),
+    )
+      .then((results) => {
+        if (cancelled) return
+        const loaded = results.filter((r): r is NonNullable<typeof r> => r !== null)
+        if (loaded.length === 0) return
+        setExtensionSettings((prev) => ({ ...prev, ...Object.fromEntries(loaded.map((r) => [r.extId, r.values])) }))
+        setExtensionSecretsSet((prev) => ({ ...prev, ...Object.fromEntries(loaded.map((r) => [r.extId, r.secretsSet])) }))
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
     }
-    setExtensionSettings((prev) => (Object.keys(next).length === 0 ? prev : { ...prev, ...next }))
   }, [extensionSettingsSchemas])
-  const setExtensionSetting = useCallback((extId: string, key: string, value: boolean | string | number) => {
-    setExtensionSettings((prev) => {
-      const ext = { ...(prev[extId] ?? {}), [key]: value }
-      const next = { ...prev, [extId]: ext }
-      try {
-        localStorage.setItem(`omni-screen:ext-settings:${extId}`, JSON.stringify(ext))
-      } catch {
-        // ignore
-      }
-      return next
-    })
+  const setExtensionSetting = useCallback((extId: string, key: string, value: ExtensionSettingValue) => {
+    setExtensionSettings((prev) => ({ ...prev, [extId]: { ...(prev[extId] ?? {}), [key]: value } }))
+    void window.ipcRenderer.invoke('extension-settings-set', { id: extId, values: { [key]: value } }).catch(() => {})
+  }, [])
+  /** Save or clear ('') a secret setting; it is encrypted by main and only readable by the extension. */
+  const setExtensionSecret = useCallback(async (extId: string, key: string, value: string) => {
+    const result = (await window.ipcRenderer.invoke('extension-settings-set', { id: extId, values: { [key]: value } })) as { ok: boolean; error?: string }
+    if (result?.ok) {
+      setExtensionSecretsSet((prev) => {
+        const keys = (prev[extId] ?? []).filter((k) => k !== key)
+        return { ...prev, [extId]: value ? [...keys, key] : keys }
+      })
+    }
+    return result
+  }, [])
+  const [extensionUpdateCheckRunning, setExtensionUpdateCheckRunning] = useState(false)
+  const [extensionUpdateStatus, setExtensionUpdateStatus] = useState<string | null>(null)
+  const checkExtensionUpdates = useCallback(() => {
+    setExtensionUpdateCheckRunning(true)
+    setExtensionUpdateStatus(null)
+    window.ipcRenderer
+      .invoke('extension-check-updates')
+      .then((r: { ok: boolean; results?: Array<{ updateAvailable: boolean; error?: string }>; error?: string }) => {
+        if (!r?.ok) {
+          setExtensionUpdateStatus(r?.error ?? 'Update check failed')
+          return
+        }
+        const results = r.results ?? []
+        const available = results.filter((x) => x.updateAvailable).length
+        const failed = results.filter((x) => x.error).length
+        setExtensionUpdateStatus(
+          `${available > 0 ? `${available} update${available === 1 ? '' : 's'} available` : 'All extensions are up to date'}${failed > 0 ? ` (${failed} could not be checked)` : ''}`
+        )
+        refetchAppConfig()
+      })
+      .catch(() => setExtensionUpdateStatus('Update check failed'))
+      .finally(() => setExtensionUpdateCheckRunning(false))
+  }, [refetchAppConfig])
+  const setExtensionEnabled = useCallback(
+    (extId: string, enabled: boolean) => {
+      window.ipcRenderer.invoke('extension-set-enabled', { id: extId, enabled }).then(() => refetchAppConfig()).catch(() => {})
+    },
+    [refetchAppConfig]
+  )
+  const setExtensionAutoUpdate = useCallback(
+    (extId: string, autoUpdate: boolean) => {
+      window.ipcRenderer.invoke('extension-set-auto-update', { id: extId, autoUpdate }).then(() => refetchAppConfig()).catch(() => {})
+    },
+    [refetchAppConfig]
+  )
+  const updateExtension = useCallback((ext: InstalledExtensionInfo) => {
+    setExtensionUpdateStatus(null)
+    window.ipcRenderer
+      .invoke('extension-reinstall', ext.id)
+      .then((r: { ok: boolean; error?: string }) => setExtensionUpdateStatus(r?.ok ? `Updated ${ext.name} to v${ext.latestVersion}` : (r?.error ?? 'Update failed')))
+      .catch(() => setExtensionUpdateStatus('Update failed'))
+  }, [])
+  const rollbackExtension = useCallback((ext: InstalledExtensionInfo) => {
+    setExtensionUpdateStatus(null)
+    window.ipcRenderer
+      .invoke('extension-rollback', ext.id)
+      .then((r: { ok: boolean; version?: string; error?: string }) =>
+        setExtensionUpdateStatus(r?.ok ? `Rolled ${ext.name} back to v${r.version}` : (r?.error ?? 'Rollback failed'))
+      )
+      .catch(() => setExtensionUpdateStatus('Rollback failed'))
   }, [])
   /** Primary chat source options from extension settings (Extensions tab). */
   const primaryExtSettings = primaryChatSourceId ? (extensionSettings[primaryChatSourceId] ?? {}) : {}
@@ -903,6 +1098,14 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
   const combinedDisablePrimaryChatFlairsAndColors = !((primaryExtSettings.flairsAndColors as boolean | undefined) ?? true)
   const primaryChatSourceLabelColorOverride = (primaryExtSettings.labelColor as string | undefined) ?? ''
   const primaryChatSourceLabelText = (primaryExtSettings.labelText as string | undefined) ?? (primaryChatSourceId ?? '')
+  /** Additional chat sources included in combined chat (same includeInCombined / labelText settings as the primary). */
+  const additionalChatSources = useMemo(
+    (): AdditionalChatSource[] =>
+      otherChatSources
+        .filter((src) => ((extensionSettings[src.id]?.includeInCombined as boolean | undefined) ?? true))
+        .map((src) => ({ id: src.id, label: (extensionSettings[src.id]?.labelText as string | undefined) || src.id, iconUrl: src.iconUrl })),
+    [otherChatSources, extensionSettings],
+  )
   const setPrimaryChatFlairsFromChat = useCallback((v: boolean) => primaryChatSourceId && setExtensionSetting(primaryChatSourceId, 'flairsAndColors', v), [primaryChatSourceId])
   /** Show chat input is app-level (combined chat input visibility), not part of any extension. */
   const [showChatInput, setShowChatInput] = useState<boolean>(() => {
@@ -968,11 +1171,18 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     }
   })
   const [combinedHighlightTermDraft, setCombinedHighlightTermDraft] = useState('')
+  const [combinedFilterRules, setCombinedFilterRules] = useState<ChatFilterRule[]>(() => loadChatFilterRules())
+  const [combinedIgnoredUsers, setCombinedIgnoredUsers] = useState<IgnoredChatUser[]>(() => loadIgnoredChatUsers())
   const [combinedPauseEmoteAnimationsOffScreen, setCombinedPauseEmoteAnimationsOffScreen] = useState<boolean>(() => {
     const saved = localStorage.getItem('omni-screen:combined-pause-emote-offscreen')
     if (saved === '1' || saved === 'true') return true
     return false
   })
+  const [combinedTwitchThirdPartyEmotes, setCombinedTwitchThirdPartyEmotes] = useState<boolean>(() => {
+    const saved = localStorage.getItem('omni-screen:combined-twitch-third-party-emotes')
+    if (saved === '1' || saved === 'true') return true
+    return false
+  })
   const [chatLinkOpenAction, setChatLinkOpenAction] = useState<'none' | 'clipboard' | 'browser' | 'viewer'>(() => {
     const saved = localStorage.getItem('omni-screen:chat-link-open-action')
     if (saved === 'none' || saved === 'clipboard' || saved === 'browser' || saved === 'viewer') return saved
@@ -1011,6 +1221,42 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     } catch {}
     return { key: 'Tab', ctrl: true, shift: false, alt: false }
   })
+  const [workspaceSwitchKeybind, setWorkspaceSwitchKeybind] = useState<KeybindModifiers>(() => {
+    try {
+      const saved = localStorage.getItem('omni-screen:workspace-switch-keybind')
+      if (!saved) return { key: 'W', ctrl: true, shift: true, alt: false }
+      const parsed = JSON.parse(saved)
+      if (parsed && typeof parsed.key === 'string') {
+        return {
+          key: parsed.key === ' ' ? ' ' : parsed.key,
+          ctrl: Boolean(parsed.ctrl),
+          shift: Boolean(parsed.shift),
+          alt: Boolean(parsed.alt),
+        }
+      }
+    } catch {
+      // ignore
+    }
+    return { key: 'W', ctrl: true, shift: true, alt: false }
+  })
+  const [audioCycleKeybind, setAudioCycleKeybind] = useState<KeybindModifiers>(() => {
+    try {
+      const saved = localStorage.getItem('omni-screen:audio-cycle-keybind')
+      if (!saved) return { key: 'A', ctrl: true, shift: true, alt: false }
+      const parsed = JSON.parse(saved)
+      if (parsed && typeof parsed.key === 'string') {
+        return {
+          key: parsed.key === ' ' ? ' ' : parsed.key,
+          ctrl: Boolean(parsed.ctrl),
+          shift: Boolean(parsed.shift),
+          alt: Boolean(parsed.alt),
+        }
+      }
+    } catch {
+      // ignore
+    }
+    return { key: 'A', ctrl: true, shift: true, alt: false }
+  })
   const primaryChatInputRef = useRef<HTMLTextAreaElement | null>(null)
   const primaryChatActionsRef = useRef<{ appendToInput: (text: string) => void } | null>(null)
 
@@ -1218,10 +1464,16 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
       return []
     }
   })
-  type SettingsTab = 'bookmarks' | 'chat' | 'liteLinkScroller' | 'extensions' | 'keybinds'
+  /** Extension tabs (registerSettingsTab in renderer.js) are `extension:<extension id>:<tab id>`. */
+  type SettingsTab = 'bookmarks' | 'chat' | 'liteLinkScroller' | 'workspaces' | 'extensions' | 'keybinds' | `extension:${string}`
   const [settingsModalOpen, setSettingsModalOpen] = useState(false)
+  const [chatArchiveSearchOpen, setChatArchiveSearchOpen] = useState(false)
   const [settingsTab, setSettingsTab] = useState<SettingsTab>('bookmarks')
   const settingsTabContentRef = useRef<HTMLDivElement>(null)
+  /** Extensions with a renderer.js and what they contributed (dock buttons, Settings tabs). */
+  const rendererExtensions = useRendererExtensions()
+  const extensionDockItems = useExtensionUiItems('dock')
+  const extensionSettingsTabs = useExtensionUiItems('settingsTab')
   const [editingStreamerId, setEditingStreamerId] = useState<string | null>(null)
   /** YouTube embed key -> bookmarked streamer ids that resolved to this video (multiple streamers can share same stream). */
   const [youtubeVideoToStreamerId, setYoutubeVideoToStreamerId] = useState<Map<string, string[]>>(() => new Map())
@@ -1230,6 +1482,24 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
   bookmarkedOriginatedEmbedsRef.current = bookmarkedOriginatedEmbeds
   /** Increment to trigger one immediate run of bookmarked streamer polls (e.g. Refresh button). */
   const [bookmarkedPollRefreshTrigger, setBookmarkedPollRefreshTrigger] = useState(0)
+  /** Platforms polled at least once; a platform's first poll only records who is already live (no notifications at startup). */
+  const bookmarkedPolledPlatformsRef = useRef<Set<string>>(new Set())
+  /** Called by the bookmarked streamer polls with their live embeds: go-live notification for each one not live at the previous poll. */
+  const notifyBookmarkedGoLiveRef = useRef<(platforms: string[], liveEmbeds: Map<string, LiveEmbed>) => void>(() => {})
+  notifyBookmarkedGoLiveRef.current = (platforms, liveEmbeds) => {
+    const polled = bookmarkedPolledPlatformsRef.current
+    liveEmbeds.forEach((embed, key) => {
+      const canonical = canonicalEmbedKey(key)
+      if (!polled.has(embed.platform) || bookmarkedOriginatedEmbedsRef.current.has(canonical)) return
+      const platformLabel =
+        ({ youtube: 'YouTube', kick: 'Kick', twitch: 'Twitch' } as Record<string, string>)[embed.platform] ??
+        embedPlatforms.find((p) => p.id === embed.platform)?.label ??
+        embed.platform
+      const name = embed.mediaItem?.metadata?.displayName || embed.id
+      showDesktopNotification('goLive', `${name} is live`, `Live on ${platformLabel}`, { type: 'embed', key: canonical })
+    })
+    platforms.forEach((p) => polled.add(p))
+  }
 
   /** Preferred platform order for "turn on" dock click: first matching platform's video is enabled. */
   const PREFERRED_PLATFORMS_DEFAULT: ('youtube' | 'kick' | 'twitch')[] = ['youtube', 'kick', 'twitch']
@@ -1325,6 +1595,8 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
       emotes: {
         pauseOffScreen: combinedPauseEmoteAnimationsOffScreen,
         setPauseOffScreen: setCombinedPauseEmoteAnimationsOffScreen,
+        twitchThirdParty: combinedTwitchThirdPartyEmotes,
+        setTwitchThirdParty: setCombinedTwitchThirdPartyEmotes,
       },
       linkAction: { value: chatLinkOpenAction, setValue: setChatLinkOpenAction },
       paneSide: { value: chatPaneSide, setPaneSide: setChatPaneSide },
@@ -1346,6 +1618,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
       combinedDisablePrimaryChatFlairsAndColors,
       combinedSortMode,
       combinedPauseEmoteAnimationsOffScreen,
+      combinedTwitchThirdPartyEmotes,
       chatLinkOpenAction,
       chatPaneSide,
       combinedIncludePrimaryChat,
@@ -1358,6 +1631,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
   const combinedHeaderText = useMemo(() => {
     const parts: string[] = []
     if (combinedIncludePrimaryChat && primaryChatSourceId) parts.push(primaryChatSourceId)
+    for (const src of additionalChatSources) parts.push(src.id)
 
     const extra: string[] = []
     selectedEmbedChatKeys.forEach((k) => {
@@ -1381,7 +1655,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     const remaining = parts.length - shown.length
     const summary = shown.length ? `${shown.join(', ')}${remaining > 0 ? ` +${remaining} others` : ''}` : 'none'
     return `Chat (combined: ${summary})`
-  }, [combinedIncludePrimaryChat, selectedEmbedChatKeys])
+  }, [combinedIncludePrimaryChat, additionalChatSources, selectedEmbedChatKeys])
 
 
   // ---- Center grid sizing (responsive to window size) ----
@@ -1489,6 +1763,152 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     prevCombinedEmbedsRef.current = new Map(current)
   }, [combinedAvailableEmbeds, selectedEmbedKeys, selectedEmbedChatKeys])
 
+  /** Notification clicks: a go-live notification turns on that embed; chat notifications open the chat pane. */
+  useEffect(() => {
+    const handler = (_event: unknown, target: DesktopNotificationTarget | null) => {
+      if (target?.type === 'embed' && target.key) {
+        setSelectedEmbedKeys((prev) => (prev.has(target.key) ? prev : new Set(prev).add(target.key)))
+      } else if (target?.type === 'chat' || target?.type === 'whisper') {
+        setChatPaneOpen(true)
+      }
+    }
+    window.ipcRenderer.on('notification-clicked', handler)
+    return () => {
+      window.ipcRenderer.off('notification-clicked', handler)
+    }
+  }, [])
+
+  // ---- Workspaces (named layout snapshots; see utils/workspaces) ----
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => loadWorkspaces())
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(() => localStorage.getItem('omni-screen:active-workspace'))
+  const [workspaceNameDraft, setWorkspaceNameDraft] = useState('')
+  const [gridLayout, setGridLayout] = useState<GridLayout>(() => {
+    try {
+      const raw = localStorage.getItem('omni-screen:grid-layout')
+      return raw ? normalizeGridLayout(JSON.parse(raw)) : DEFAULT_GRID_LAYOUT
+    } catch {
+      return DEFAULT_GRID_LAYOUT
+    }
+  })
+  /** When true, the grid shows the layout editor (drag to reorder, spans, main tile). */
+  const [gridLayoutEditing, setGridLayoutEditing] = useState(false)
+  const [draggingGridKey, setDraggingGridKey] = useState<string | null>(null)
+
+  useEffect(() => {
+    const handler = () => setWorkspaces(loadWorkspaces())
+    window.addEventListener(WORKSPACES_CHANGED_EVENT, handler)
+    return () => window.removeEventListener(WORKSPACES_CHANGED_EVENT, handler)
+  }, [])
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('omni-screen:grid-layout', JSON.stringify(gridLayout))
+    } catch {
+      // ignore
+    }
+  }, [gridLayout])
+
+  /** Change the grid layout; also saved to the active workspace. */
+  const changeGridLayout = (next: GridLayout) => {
+    setGridLayout(next)
+    if (activeWorkspaceId) {
+      setWorkspaces((prev) => prev.map((w) => (w.id === activeWorkspaceId ? { ...w, snapshot: { ...w.snapshot, gridLayout: next } } : w)))
+    }
+  }
+
+  useEffect(() => {
+    saveWorkspaces(workspaces)
+    try {
+      if (activeWorkspaceId) localStorage.setItem('omni-screen:active-workspace', activeWorkspaceId)
+      else localStorage.removeItem('omni-screen:active-workspace')
+    } catch {
+      // ignore
+    }
+  }, [workspaces, activeWorkspaceId])
+
+  const captureWorkspaceSnapshot = (): WorkspaceSnapshot => {
+    const embedKeys = Array.from(selectedEmbedKeys)
+    return {
+      embedKeys,
+      pinnedEmbedKeys: embedKeys.filter((k) => pinnedEmbeds.has(k)),
+      chatEmbedKeys: Array.from(selectedEmbedChatKeys),
+      gridLayout,
+      chatPaneOpen,
+      chatPaneSide,
+      chatPaneWidth,
+      chatOverlayMode: combinedChatOverlayMode,
+      chatOverlayOpacity: combinedChatOverlayOpacity,
+      cinemaMode,
+      dockAtTop,
+      showTimestamps: combinedShowTimestamps,
+      showLabels: combinedShowLabels,
+      showPlatformIcons: combinedShowPlatformIcons,
+      sortMode: combinedSortMode,
+      showChatInput,
+    }
+  }
+
+  /** Restore a workspace. Embeds that were pinned when it was saved are pinned again; others show when available. */
+  const applyWorkspace = useCallback((workspace: Workspace) => {
+    const s = workspace.snapshot
+    setPinnedEmbeds((prev) => {
+      const missing = s.pinnedEmbedKeys.map((k) => canonicalEmbedKey(k)).filter((k) => !prev.has(k))
+      if (missing.length === 0) return prev
+      const next = new Map(prev)
+      for (const key of missing) {
+        const parsed = parseEmbedKey(key)
+        if (parsed) next.set(key, { platform: parsed.platform, id: parsed.id, mediaItem: { metadata: { displayName: parsed.id, title: parsed.id } } })
+      }
+      return next
+    })
+    setSelectedEmbedKeys(new Set(s.embedKeys.map((k) => canonicalEmbedKey(k))))
+    setSelectedEmbedChatKeys(new Set(s.chatEmbedKeys.map((k) => canonicalEmbedKey(k))))
+    setGridLayout(s.gridLayout)
+    setChatPaneOpen(s.chatPaneOpen)
+    setChatPaneSide(s.chatPaneSide)
+    setChatPaneWidth(s.chatPaneWidth)
+    setCombinedChatOverlayMode(s.chatOverlayMode)
+    setCombinedChatOverlayOpacity(s.chatOverlayOpacity)
+    setCinemaMode(s.cinemaMode)
+    setDockAtTop(s.dockAtTop)
+    setCombinedShowTimestamps(s.showTimestamps)
+    setCombinedShowLabels(s.showLabels)
+    setCombinedShowPlatformIcons(s.showPlatformIcons)
+    setCombinedSortMode(s.sortMode)
+    setShowChatInput(s.showChatInput)
+    setActiveWorkspaceId(workspace.id)
+  }, [])
+
+  const saveCurrentAsWorkspace = (name: string) => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    const workspace: Workspace = { id: createWorkspaceId(), name: trimmed, snapshot: captureWorkspaceSnapshot() }
+    setWorkspaces((prev) => [...prev, workspace])
+    setActiveWorkspaceId(workspace.id)
+  }
+
+  const updateWorkspaceFromCurrent = (id: string) => {
+    const snapshot = captureWorkspaceSnapshot()
+    setWorkspaces((prev) => prev.map((w) => (w.id === id ? { ...w, snapshot } : w)))
+    setActiveWorkspaceId(id)
+  }
+
+  // Workspace switch keybind: cycle to the next saved workspace.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (settingsModalOpen || workspaces.length === 0) return
+      const target = e.target as Node
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return
+      const key = e.key === ' ' ? ' ' : e.key
+      if (workspaceSwitchKeybind.key.toLowerCase() !== key.toLowerCase() || workspaceSwitchKeybind.ctrl !== e.ctrlKey || workspaceSwitchKeybind.shift !== e.shiftKey || workspaceSwitchKeybind.alt !== e.altKey) return
+      e.preventDefault()
+      const index = workspaces.findIndex((w) => w.id === activeWorkspaceId)
+      applyWorkspace(workspaces[(index + 1) % workspaces.length])
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [settingsModalOpen, workspaces, activeWorkspaceId, workspaceSwitchKeybind, applyWorkspace])
+
   /** When a bookmarked streamer comes live and that streamer has openWhenLive, add preferred platform video to selection. */
   useEffect(() => {
     const prev = prevBookmarkedOriginatedRef.current
@@ -1627,10 +2047,15 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
       localStorage.setItem('omni-screen:show-chat-input', showChatInput ? '1' : '0')
       localStorage.setItem('omni-screen:combined-sort-mode', combinedSortMode)
       localStorage.setItem('omni-screen:combined-highlight-terms', JSON.stringify(combinedHighlightTerms))
+      localStorage.setItem('omni-screen:combined-filter-rules', JSON.stringify(combinedFilterRules))
+      localStorage.setItem('omni-screen:combined-ignored-users', JSON.stringify(combinedIgnoredUsers))
       localStorage.setItem('omni-screen:combined-pause-emote-offscreen', combinedPauseEmoteAnimationsOffScreen ? '1' : '0')
+      localStorage.setItem('omni-screen:combined-twitch-third-party-emotes', combinedTwitchThirdPartyEmotes ? '1' : '0')
       localStorage.setItem('omni-screen:chat-link-open-action', chatLinkOpenAction)
       localStorage.setItem('omni-screen:primary-chat-focus-keybind', JSON.stringify(primaryChatFocusKeybind))
       localStorage.setItem('omni-screen:channel-switch-keybind', JSON.stringify(channelSwitchKeybind))
+      localStorage.setItem('omni-screen:workspace-switch-keybind', JSON.stringify(workspaceSwitchKeybind))
+      localStorage.setItem('omni-screen:audio-cycle-keybind', JSON.stringify(audioCycleKeybind))
       localStorage.setItem('omni-screen:chat-pane-width', String(chatPaneWidth))
       localStorage.setItem('omni-screen:chat-pane-side', chatPaneSide)
       localStorage.setItem('omni-screen:combined-chat-overlay-mode', combinedChatOverlayMode ? '1' : '0')
@@ -1653,10 +2078,15 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     showChatInput,
     combinedSortMode,
     combinedHighlightTerms,
+    combinedFilterRules,
+    combinedIgnoredUsers,
     combinedPauseEmoteAnimationsOffScreen,
+    combinedTwitchThirdPartyEmotes,
     chatLinkOpenAction,
     primaryChatFocusKeybind,
     channelSwitchKeybind,
+    workspaceSwitchKeybind,
+    audioCycleKeybind,
     chatPaneWidth,
     chatPaneSide,
     combinedChatOverlayMode,
@@ -1939,13 +2369,14 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
       window.ipcRenderer.off('live-websocket-banned-embeds', handleBannedEmbeds)
       window.ipcRenderer.invoke('live-websocket-disconnect').catch(() => {})
     }
-  }, [])
+    // Extensions register asynchronously (extension host processes); reconnect once the primary source is available
+  }, [primaryChatSourceAvailable])
 
   // Subscribe Kick chatrooms for "Combined chat" based on per-embed Chat toggles.
   useEffect(() => {
     const shouldRun = chatPaneOpen
     if (!shouldRun) {
-      window.ipcRenderer.invoke('kick-chat-set-targets', { slugs: [] }).catch(() => {})
+      window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: 'kick', targets: [] }).catch(() => {})
       return
     }
 
@@ -1959,14 +2390,14 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
 
     // De-dupe and keep stable-ish order.
     const uniq = Array.from(new Set(slugs)).sort()
-    window.ipcRenderer.invoke('kick-chat-set-targets', { slugs: uniq }).catch(() => {})
+    window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: 'kick', targets: uniq }).catch(() => {})
   }, [chatPaneOpen, selectedEmbedChatKeys])
 
   // Subscribe YouTube live chat for "Combined chat" based on per-embed Chat toggles.
   useEffect(() => {
     const shouldRun = chatPaneOpen
     if (!shouldRun) {
-      window.ipcRenderer.invoke('youtube-chat-set-targets', { videoIds: [], opts: { delayMultiplier: youTubePollMultiplier } }).catch(() => {})
+      window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: 'youtube', targets: [], opts: { delayMultiplier: youTubePollMultiplier } }).catch(() => {})
       return
     }
 
@@ -1991,14 +2422,14 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     })
 
     const uniq = Array.from(new Set(ids)).sort()
-    window.ipcRenderer.invoke('youtube-chat-set-targets', { videoIds: uniq, opts: { delayMultiplier: youTubePollMultiplier } }).catch(() => {})
+    window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: 'youtube', targets: uniq, opts: { delayMultiplier: youTubePollMultiplier } }).catch(() => {})
   }, [combinedAvailableEmbeds, chatPaneOpen, selectedEmbedChatKeys, youTubePollMultiplier])
 
   // Subscribe Twitch IRC chat for "Combined chat" based on per-embed Chat toggles.
   useEffect(() => {
     const shouldRun = chatPaneOpen
     if (!shouldRun) {
-      window.ipcRenderer.invoke('twitch-chat-set-targets', { channels: [] }).catch(() => {})
+      window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: 'twitch', targets: [] }).catch(() => {})
       return
     }
 
@@ -2011,9 +2442,24 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     })
 
     const uniq = Array.from(new Set(chans)).sort()
-    window.ipcRenderer.invoke('twitch-chat-set-targets', { channels: uniq }).catch(() => {})
+    window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: 'twitch', targets: uniq }).catch(() => {})
   }, [chatPaneOpen, selectedEmbedChatKeys])
 
+  // Subscribe extension chat providers for "Combined chat": targets are Chat-toggled embeds whose platform is the provider id.
+  useEffect(() => {
+    for (const provider of extensionChatProviders) {
+      const targets: string[] = []
+      if (chatPaneOpen) {
+        selectedEmbedChatKeys.forEach((key) => {
+          const parsed = parseEmbedKey(key)
+          if (parsed && embedChatProviderId(parsed.platform, embedPlatforms) === provider.id) targets.push(String(parsed.id))
+        })
+      }
+      const uniq = Array.from(new Set(targets)).sort()
+      window.ipcRenderer.invoke('chat-provider-set-targets', { providerId: provider.id, targets: uniq }).catch(() => {})
+    }
+  }, [chatPaneOpen, extensionChatProviders, selectedEmbedChatKeys, embedPlatforms])
+
   // Poll bookmarked streamers' YouTube channels: add live embeds and youtubeVideoToStreamerId for grouping. No primary chat required.
   useEffect(() => {
     const withYt = bookmarkedStreamers.filter((s) => s.youtubeChannelId?.trim())
@@ -2059,6 +2505,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
       }
       if (cancelled) return
       logBookmarked('YT poll done', { youtubeVideoToStreamerId: Object.fromEntries(nextMap), newEmbedsCount: newEmbeds.size, newEmbedsKeys: Array.from(newEmbeds.keys()) })
+      notifyBookmarkedGoLiveRef.current(['youtube'], newEmbeds)
       setYoutubeVideoToStreamerId((prev) => {
         if (prev.size !== nextMap.size) return nextMap
         for (const [k, nextIds] of nextMap) {
@@ -2113,6 +2560,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
       }
       if (cancelled) return
       logBookmarked('Kick poll done', { newEmbedsCount: newEmbeds.size, newEmbedsKeys: Array.from(newEmbeds.keys()) })
+      notifyBookmarkedGoLiveRef.current(['kick'], newEmbeds)
       setBookmarkedOriginatedEmbeds((prev) => {
         const next = new Map(prev)
         for (const k of next.keys()) if (k.startsWith('kick:')) next.delete(k)
@@ -2159,6 +2607,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
       }
       if (cancelled) return
       logBookmarked('Twitch poll done', { newEmbedsCount: newEmbeds.size, newEmbedsKeys: Array.from(newEmbeds.keys()) })
+      notifyBookmarkedGoLiveRef.current(['twitch'], newEmbeds)
       setBookmarkedOriginatedEmbeds((prev) => {
         const next = new Map(prev)
         for (const k of next.keys()) if (k.startsWith('twitch:')) next.delete(k)
@@ -2174,6 +2623,61 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     }
   }, [bookmarkedStreamers, bookmarkedPollRefreshTrigger])
 
+  // Poll bookmarked streamers' channels on extension embed platforms that provide a live check (embed-platform-is-live).
+  useEffect(() => {
+    const polled = embedPlatforms.filter((p) => p.hasLiveCheck)
+    const isPolledKey = (k: string) => polled.some((p) => k.startsWith(`${p.id}:`))
+    const targets = bookmarkedStreamers.flatMap((s) =>
+      polled.flatMap((p) => (s.channels?.[p.id]?.trim() ? [{ streamer: s, platform: p, id: s.channels[p.id].trim() }] : [])),
+    )
+    logBookmarked('Extension platforms poll: bookmarked channels', { count: targets.length, channels: targets.map((t) => `${t.platform.id}:${t.id}`) })
+    if (targets.length === 0) {
+      setBookmarkedOriginatedEmbeds((prev) => {
+        const next = new Map(prev)
+        for (const k of next.keys()) if (isPolledKey(k)) next.delete(k)
+        return next.size === prev.size ? prev : next
+      })
+      return
+    }
+    const intervalMs = 60_000
+    let cancelled = false
+    const run = async () => {
+      const newEmbeds = new Map<string, LiveEmbed>()
+      for (const { streamer: s, platform, id } of targets) {
+        if (cancelled) return
+        try {
+          const r = await window.ipcRenderer.invoke('embed-platform-is-live', { platformId: platform.id, id }) as { live?: boolean; error?: string }
+          if (cancelled) return
+          logBookmarked('Extension platform result', { nickname: s.nickname || s.id, platform: platform.id, id, live: r?.live, error: r?.error })
+          if (r?.live) {
+            const key = makeEmbedKey(platform.id, id)
+            newEmbeds.set(key, {
+              platform: platform.id,
+              id,
+              mediaItem: { metadata: { displayName: s.nickname || id, title: s.nickname || id } },
+            })
+          }
+        } catch (e) {
+          logBookmarked('Extension platform error', { nickname: s.nickname || s.id, platform: platform.id, id, err: String(e) })
+        }
+      }
+      if (cancelled) return
+      notifyBookmarkedGoLiveRef.current(polled.map((p) => p.id), newEmbeds)
+      setBookmarkedOriginatedEmbeds((prev) => {
+        const next = new Map(prev)
+        for (const k of next.keys()) if (isPolledKey(k)) next.delete(k)
+        newEmbeds.forEach((embed, key) => next.set(canonicalEmbedKey(key), embed))
+        return next
+      })
+    }
+    run()
+    const t = setInterval(run, intervalMs)
+    return () => {
+      cancelled = true
+      clearInterval(t)
+    }
+  }, [bookmarkedStreamers, bookmarkedPollRefreshTrigger, embedPlatforms])
+
   const selectedEmbeds = useMemo(() => {
     const arr: { key: string; embed: LiveEmbed }[] = []
     selectedEmbedKeys.forEach((key) => {
@@ -2189,7 +2693,8 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     setPasteLinkError(null)
     const parsed = parseEmbedUrl(url)
     if (!parsed) {
-      setPasteLinkError('Unsupported URL. Use YouTube, Kick, or Twitch link.')
+      const labels = ['YouTube', 'Kick', 'Twitch', ...Array.from(extensionEmbedPlatforms.values()).map((p) => p.label)]
+      setPasteLinkError(`Unsupported URL. Use ${labels.slice(0, -1).join(', ')}, or ${labels[labels.length - 1]} link.`)
       return false
     }
     const key = makeEmbedKey(parsed.platform, parsed.id)
@@ -2282,6 +2787,14 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     },
     [chatLinkOpenAction, handleChatSourceLink],
   )
+  // omniScreen.openLink / appendToChatInput from extension renderer scripts
+  useEffect(() => {
+    setExtensionUiCommands({
+      openLink: handleChatOpenLink,
+      appendToChatInput: (text) => primaryChatActionsRef.current?.appendToInput(text),
+    })
+    return () => setExtensionUiCommands(null)
+  }, [handleChatOpenLink])
 
   const enabledKickSlugs = useMemo(() => {
     const slugs: string[] = []
@@ -2313,6 +2826,17 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     return Array.from(new Set(chans)).sort()
   }, [selectedEmbedChatKeys])
 
+  const extensionChatSources = useMemo((): ExtensionChatSource[] => {
+    return extensionChatProviders.map((provider) => {
+      const targets: string[] = []
+      selectedEmbedChatKeys.forEach((k) => {
+        const parsed = parseEmbedKey(k)
+        if (parsed && embedChatProviderId(parsed.platform, embedPlatforms) === provider.id) targets.push(parsed.id)
+      })
+      return { providerId: provider.id, label: provider.label, canSend: provider.canSend, targets: Array.from(new Set(targets)).sort() }
+    })
+  }, [extensionChatProviders, selectedEmbedChatKeys, embedPlatforms])
+
   /** User count cycle: 0 = total, 1 = primary, 2..n = Kick slugs. */
   const combinedUserCountCycleSteps = 1 + 1 + enabledKickSlugs.length
   const combinedDisplayedUserCount = useMemo(() => {
@@ -2350,7 +2874,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
   }, [enabledKickSlugs])
 
   const retryKickHistory = useCallback(() => {
-    window.ipcRenderer.invoke('kick-chat-refetch-history', { slugs: enabledKickSlugs }).catch(() => {})
+    window.ipcRenderer.invoke('chat-provider-refetch-history', { providerId: 'kick', targets: enabledKickSlugs }).catch(() => {})
   }, [enabledKickSlugs])
 
   const startResize = useCallback(
@@ -2380,63 +2904,509 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     [chatPaneOpen, chatPaneSide, chatPaneWidth],
   )
 
-  const renderEmbedTile = useCallback(
-    (item: { key: string; embed: LiveEmbed }) => {
-      const e = item.embed
-      const platform = (e.platform || '').toLowerCase()
-      const id = e.id
-
-      const title = e.mediaItem?.metadata?.title || e.mediaItem?.metadata?.displayName || `${e.platform}/${e.id}`
-      const viewers = e.mediaItem?.metadata?.viewers
-
-      const banned = bannedEmbeds.get(item.key)
-      const streamers = findStreamersForKey(item.key, bookmarkedStreamers, youtubeVideoToStreamerId)
+  /** Tile accent: bookmarked streamer color, else the default bookmarked color, else a color from the key. */
+  const getEmbedTileAccent = useCallback(
+    (key: string, embed: LiveEmbed) => {
+      const streamers = findStreamersForKey(key, bookmarkedStreamers, youtubeVideoToStreamerId)
       const streamerColor = streamers[0]?.color && /^#[0-9A-Fa-f]{6}$/.test(streamers[0].color) ? streamers[0].color : undefined
-      const accent = streamerColor ?? (streamers.length > 0 ? COLOR_BOOKMARKED_DEFAULT : omniColorForKey(item.key, { displayName: e.mediaItem?.metadata?.displayName }))
+      return streamerColor ?? (streamers.length > 0 ? COLOR_BOOKMARKED_DEFAULT : omniColorForKey(key, { displayName: embed.mediaItem?.metadata?.displayName }))
+    },
+    [bookmarkedStreamers, youtubeVideoToStreamerId],
+  )
 
-      let content: JSX.Element
-      if (platform === 'kick') {
-        content = <KickEmbed url={`https://kick.com/${id}`} autoplay={autoplay} mute={mute} fit="fill" />
-      } else if (platform === 'twitch') {
-        content = <TwitchEmbed url={`https://www.twitch.tv/${id}`} autoplay={autoplay} mute={mute} fit="fill" />
-      } else if (platform === 'youtube' && isLikelyYouTubeId(id)) {
-        const yt = buildYouTubeEmbed(id)
-        content = <YouTubeEmbed url={yt.url} embedUrl={yt.embedUrl} autoplay={autoplay} mute={mute} showLink={false} fit="fill" />
-      } else {
-        content = (
-          <div className="bg-base-200 rounded-lg p-3">
-            <div className="text-sm text-base-content/70">Unsupported embed: {platform}</div>
-            <div className="text-xs text-base-content/50 break-all">{id}</div>
-          </div>
-        )
+  // ---- Audio: per-tile volume, solo, audio follows hover (applied through each player's API, see utils/embedAudio) ----
+  const [embedVolumes, setEmbedVolumes] = useState<Record<string, number>>(() => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem('omni-screen:embed-volumes') ?? '{}')
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {}
+      const out: Record<string, number> = {}
+      for (const [key, v] of Object.entries(parsed)) {
+        if (typeof v === 'number') out[key] = clampVolume(v)
       }
+      return out
+    } catch {
+      return {}
+    }
+  })
+  /** While set, only this tile is audible (the others are muted, whatever the global mute). */
+  const [soloEmbedKey, setSoloEmbedKey] = useState<string | null>(null)
+  /** Hovering (or focusing) a tile solos it. */
+  const [audioFollowsHover, setAudioFollowsHover] = useState<boolean>(() => localStorage.getItem('omni-screen:audio-follows-hover') === '1')
 
-      const isShaking = shakeEmbedKey != null && canonicalEmbedKey(item.key) === shakeEmbedKey
-      // Single structure so toggling cinema mode only changes wrapper classes/header visibility; embed iframe does not remount.
-      return (
-        <div
-          key={item.key}
-          className={`embed-tile ${cinemaMode ? 'w-full h-full min-h-0 min-w-0 overflow-hidden' : 'card bg-base-200 shadow-md overflow-hidden flex flex-col min-h-0'} ${isShaking ? 'embed-tile-shake' : ''}`}
-          style={{ borderTop: cinemaMode ? undefined : `4px solid ${accent}`, viewTransitionName: makeViewTransitionNameForKey(item.key) } as any}
-        >
-          {!cinemaMode && (
-            <div className="p-2 flex items-center justify-between gap-2" style={{ background: withAlpha(accent, 0.08) }}>
-              <div className="min-w-0">
-                <div className="text-xs uppercase" style={{ color: accent }}>
-                  {platform}
-                </div>
-                <div className="text-sm font-semibold truncate" title={title}>
-                  {title}
-                </div>
-                <div className="text-xs text-base-content/60">
-                  {typeof viewers === 'number' ? `${viewers.toLocaleString()} viewers` : null}
-                  {typeof e.count === 'number' ? `  •  ${e.count} embeds` : null}
-                  {banned ? `  •  BANNED` : null}
-                </div>
-              </div>
-              <button className="btn btn-xs btn-ghost" onClick={() => toggleEmbed(item.key)} title="Remove from grid">
-                ✕
-              </button>
+  useEffect(() => {
+    try {
+      localStorage.setItem('omni-screen:embed-volumes', JSON.stringify(embedVolumes))
+      localStorage.setItem('omni-screen:audio-follows-hover', audioFollowsHover ? '1' : '0')
+    } catch {
+      // ignore
+    }
+  }, [embedVolumes, audioFollowsHover])
+
+  useEffect(() => {
+    if (soloEmbedKey && !selectedEmbeds.some((x) => x.key === soloEmbedKey)) setSoloEmbedKey(null)
+  }, [soloEmbedKey, selectedEmbeds])
+
+  const getEmbedAudio = useCallback(
+    (key: string): EmbedAudio => ({ volume: embedVolumes[key] ?? 100, muted: soloEmbedKey ? soloEmbedKey !== key : mute }),
+    [embedVolumes, soloEmbedKey, mute],
+  )
+
+  const setEmbedVolume = useCallback((key: string, volume: number) => {
+    setEmbedVolumes((prev) => ({ ...prev, [key]: clampVolume(volume) }))
+  }, [])
+
+  const toggleSoloEmbed = useCallback((key: string) => {
+    setSoloEmbedKey((prev) => (prev === key ? null : key))
+  }, [])
+
+  // Audio cycle keybind: solo the next selected embed in grid order.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (settingsModalOpen || selectedEmbeds.length === 0) return
+      const target = e.target as Node
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return
+      const key = e.key === ' ' ? ' ' : e.key
+      if (audioCycleKeybind.key.toLowerCase() !== key.toLowerCase() || audioCycleKeybind.ctrl !== e.ctrlKey || audioCycleKeybind.shift !== e.shiftKey || audioCycleKeybind.alt !== e.altKey) return
+      e.preventDefault()
+      const keys = orderGridKeys(
+        selectedEmbeds.map((x) => x.key),
+        gridLayout.order,
+      )
+      const index = soloEmbedKey ? keys.indexOf(soloEmbedKey) : -1
+      setSoloEmbedKey(keys[(index + 1) % keys.length])
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [settingsModalOpen, selectedEmbeds, gridLayout.order, soloEmbedKey, audioCycleKeybind])
+
+  /** Dock hover card row: volume slider and solo toggle for a selected embed. */
+  const renderEmbedAudioControls = (key: string) => {
+    const audio = getEmbedAudio(key)
+    return (
+      <div className="flex items-center gap-2">
+        <Icon name={audio.muted ? 'volume-x' : 'volume-2'} size={14} />
+        <input
+          type="range"
+          className="range range-xs flex-1"
+          min={0}
+          max={100}
+          step={5}
+          value={audio.volume}
+          onChange={(e) => setEmbedVolume(key, Number(e.target.value))}
+          title={`Volume ${audio.volume}%`}
+          aria-label="Volume"
+        />
+        <button
+          type="button"
+          className={`btn btn-xs ${soloEmbedKey === key ? 'btn-primary' : 'btn-ghost'}`}
+          onClick={() => toggleSoloEmbed(key)}
+          title={soloEmbedKey === key ? 'Stop solo' : 'Mute all other streams'}
+        >
+          Solo
+        </button>
+      </div>
+    )
+  }
+
+  // ---- Chat delay: line up a multistreaming streamer's chats with the watched video (see utils/chatDelay) ----
+  /** Latest estimates by chat delay key (streamers with auto chat delay). */
+  const [chatDelayEstimates, setChatDelayEstimates] = useState<Record<string, number>>({})
+
+  /** Offsets for CombinedChat and the groups to estimate, from the chat-enabled embeds of streamers with chat delay. */
+  const chatDelayConfig = useMemo(() => {
+    const byStreamer = new Map<string, { delay: StreamerChatDelay; keys: Partial<Record<ChatDelayPlatform, string>> }>()
+    selectedEmbedChatKeys.forEach((embedKey) => {
+      const parsed = parseEmbedKey(embedKey)
+      const platform = parsed?.platform
+      if (!parsed || (platform !== 'youtube' && platform !== 'kick' && platform !== 'twitch')) return
+      const streamer = findStreamersForKey(embedKey, bookmarkedStreamers, youtubeVideoToStreamerId).find((x) => x.chatDelay)
+      const delay = normalizeStreamerChatDelay(streamer?.chatDelay)
+      if (!streamer || !delay) return
+      const entry = byStreamer.get(streamer.id) ?? { delay, keys: {} }
+      entry.keys[platform] = makeChatDelayKey(platform, parsed.id)
+      byStreamer.set(streamer.id, entry)
+    })
+    const offsets: Record<string, number> = {}
+    const groups: ChatDelayGroup[] = []
+    byStreamer.forEach(({ delay, keys }) => {
+      for (const platform of CHAT_DELAY_PLATFORMS) {
+        const key = keys[platform]
+        const ms = key ? (delay.auto ? (chatDelayEstimates[key] ?? delay.offsetsMs[platform]) : delay.offsetsMs[platform]) : undefined
+        if (key && ms) offsets[key] = ms
+      }
+      const referenceKey = keys[delay.videoPlatform]
+      const groupKeys = Object.values(keys).filter((k): k is string => !!k)
+      if (delay.auto && referenceKey && groupKeys.length > 1) groups.push({ referenceKey, keys: groupKeys })
+    })
+    return { offsets, groups }
+  }, [selectedEmbedChatKeys, bookmarkedStreamers, youtubeVideoToStreamerId, chatDelayEstimates])
+
+  const handleChatDelayEstimate = useCallback((offsets: Record<string, number>) => {
+    setChatDelayEstimates((prev) => (Object.entries(offsets).every(([k, v]) => prev[k] === v) ? prev : { ...prev, ...offsets }))
+  }, [])
+
+  /** Change the chat delay of the given streamers; turning auto off keeps the current estimates as manual offsets. */
+  const updateStreamersChatDelay = useCallback(
+    (streamerIds: string[], embedKeys: string[], patch: Partial<Pick<StreamerChatDelay, 'videoPlatform' | 'auto'>>) => {
+      setBookmarkedStreamers((prev) =>
+        prev.map((x) => {
+          if (!streamerIds.includes(x.id)) return x
+          const current = normalizeStreamerChatDelay(x.chatDelay) ?? DEFAULT_STREAMER_CHAT_DELAY
+          const offsetsMs = { ...current.offsetsMs }
+          if (current.auto && patch.auto === false) {
+            for (const embedKey of embedKeys) {
+              const parsed = parseEmbedKey(embedKey)
+              const platform = parsed?.platform
+              if (!parsed || (platform !== 'youtube' && platform !== 'kick' && platform !== 'twitch')) continue
+              const estimate = chatDelayEstimates[makeChatDelayKey(platform, parsed.id)]
+              if (estimate != null) offsetsMs[platform] = estimate
+            }
+          }
+          return { ...x, chatDelay: { ...current, ...patch, offsetsMs } }
+        }),
+      )
+    },
+    [chatDelayEstimates],
+  )
+
+  /** Dock hover card (streamer group): which video the chats line up with, auto estimate and the current offsets. */
+  const renderChatDelayControls = (streamers: BookmarkedStreamer[], keys: string[]) => {
+    const platforms = CHAT_DELAY_PLATFORMS.filter((p) => keys.some((k) => parseEmbedKey(k)?.platform === p))
+    if (platforms.length < 2) return null
+    const delay = normalizeStreamerChatDelay(streamers.find((x) => x.chatDelay)?.chatDelay)
+    const ids = streamers.map((x) => x.id)
+    const platformLabel: Record<ChatDelayPlatform, string> = { youtube: 'YouTube', kick: 'Kick', twitch: 'Twitch' }
+    return (
+      <div className="border border-base-300 rounded p-2 flex flex-col gap-1" title="Shifts each platform's chat so it lines up with the video you watch (combined chat sorted by timestamp)">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs">Chat sync</span>
+          <select
+            className="select select-xs select-bordered"
+            value={delay?.videoPlatform ?? ''}
+            onChange={(e) => {
+              const value = e.target.value
+              if (value === '') setBookmarkedStreamers((prev) => prev.map((x) => (ids.includes(x.id) ? { ...x, chatDelay: undefined } : x)))
+              else updateStreamersChatDelay(ids, keys, { videoPlatform: value as ChatDelayPlatform })
+            }}
+          >
+            <option value="">Off</option>
+            {platforms.map((p) => (
+              <option key={p} value={p}>
+                Line up with {platformLabel[p]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {delay ? (
+          <>
+            <label className="flex items-center justify-between gap-2 text-xs">
+              <span>Estimate from chat</span>
+              <input type="checkbox" className="toggle toggle-xs" checked={delay.auto} onChange={(e) => updateStreamersChatDelay(ids, keys, { auto: e.target.checked })} />
+            </label>
+            <div className="text-xs text-base-content/60">
+              {platforms
+                .map((p) => {
+                  const embedKey = keys.find((k) => parseEmbedKey(k)?.platform === p)
+                  const parsed = embedKey ? parseEmbedKey(embedKey) : null
+                  const estimate = delay.auto && parsed ? chatDelayEstimates[makeChatDelayKey(p, parsed.id)] : undefined
+                  const ms = estimate ?? delay.offsetsMs[p] ?? 0
+                  return `${platformLabel[p]} ${ms > 0 ? '+' : ''}${(ms / 1000).toFixed(1)}s${delay.auto && estimate == null && p !== delay.videoPlatform ? ' (estimating…)' : ''}`
+                })
+                .join(' • ')}
+            </div>
+            {combinedSortMode !== 'timestamp' ? <div className="text-xs text-warning">Applies when chat is sorted by timestamp.</div> : null}
+          </>
+        ) : null}
+      </div>
+    )
+  }
+
+  // ---- Popout windows: embed tiles / combined chat in their own window (see utils/popouts) ----
+  const [poppedOutEmbedKeys, setPoppedOutEmbedKeys] = useState<Set<string>>(() => new Set())
+  const [chatPoppedOut, setChatPoppedOut] = useState(false)
+  /** Last state sent to each open popout (resent when a popout finishes loading). */
+  const popoutStatesRef = useRef<Map<string, PopoutState>>(new Map())
+
+  const openPopout = useCallback((popoutId: string, title: string) => {
+    window.ipcRenderer.invoke('popout-open', { id: popoutId, title, bounds: loadPopoutBounds(popoutId) }).catch(() => {})
+  }, [])
+
+  const popOutEmbed = useCallback(
+    (key: string, title: string) => {
+      setPoppedOutEmbedKeys((prev) => new Set(prev).add(key))
+      openPopout(makeEmbedPopoutId(key), title)
+    },
+    [openPopout],
+  )
+
+  // The pane stays open and shows the "open in a separate window" placeholder
+  const popOutChat = useCallback(() => {
+    setChatPoppedOut(true)
+    openPopout(CHAT_POPOUT_ID, 'Chat')
+  }, [openPopout])
+
+  const sendPopoutState = useCallback((popoutId: string, state: PopoutState) => {
+    popoutStatesRef.current.set(popoutId, state)
+    window.ipcRenderer.invoke('popout-send-state', { id: popoutId, state }).catch(() => {})
+  }, [])
+
+  // Embed popouts follow the tile (title, accent, autoplay/mute, audio); deselected embeds close their popout.
+  useEffect(() => {
+    poppedOutEmbedKeys.forEach((key) => {
+      const popoutId = makeEmbedPopoutId(key)
+      const item = selectedEmbeds.find((x) => x.key === key)
+      if (!item) {
+        window.ipcRenderer.invoke('popout-close', popoutId).catch(() => {})
+        return
+      }
+      const e = item.embed
+      const platform = (e.platform || '').toLowerCase()
+      const extPlatform = embedPlatforms.find((p) => p.id === platform)
+      const state: EmbedPopoutState = {
+        type: 'embed',
+        key,
+        platform,
+        id: e.id,
+        title: e.mediaItem?.metadata?.title || e.mediaItem?.metadata?.displayName || `${e.platform}/${e.id}`,
+        accent: getEmbedTileAccent(key, e),
+        autoplay,
+        mute,
+        audio: getEmbedAudio(key),
+        youtube: platform === 'youtube' && isLikelyYouTubeId(e.id) ? buildYouTubeEmbed(e.id) : undefined,
+        extension: extPlatform ? { url: fillEmbedTemplate(extPlatform.embedUrlTemplate, e.id), label: extPlatform.label } : undefined,
+      }
+      sendPopoutState(popoutId, state)
+    })
+  }, [poppedOutEmbedKeys, selectedEmbeds, embedPlatforms, autoplay, mute, getEmbedAudio, getEmbedTileAccent, sendPopoutState])
+
+  const chatPopoutState = useMemo((): ChatPopoutState | null => {
+    if (!chatPoppedOut) return null
+    const embeds: ChatPopoutState['embeds'] = {}
+    for (const key of new Set([...Object.keys(embedDisplayNameByKey), ...selectedEmbedChatKeys])) {
+      const name = getEmbedDisplayName(key)
+      embeds[key] = { name, color: getEmbedColor(key, name || undefined), labelHidden: getEmbedLabelHidden(key) }
+    }
+    return {
+      type: 'chat',
+      primaryChatSourceId,
+      enablePrimaryChat: combinedIncludePrimaryChat && primaryChatSourceAvailable,
+      showPrimaryChatInput: showChatInput,
+      enabledKickSlugs,
+      enabledYoutubeVideoIds,
+      enabledTwitchChannels,
+      embeds,
+      primaryChatSourceLabelColor: primaryChatSourceLabelColorOverride || undefined,
+      primaryChatSourceLabelText,
+      primaryChatSourceIconUrl,
+      maxMessages: combinedMaxMessages,
+      maxMessagesScroll: combinedMaxMessagesScroll,
+      showTimestamps: combinedShowTimestamps,
+      showSourceLabels: combinedShowLabels,
+      showPlatformIcons: combinedShowPlatformIcons,
+      sortMode: combinedSortMode,
+      highlightTerms: combinedHighlightTerms,
+      filterRules: combinedFilterRules,
+      ignoredUsers: combinedIgnoredUsers,
+      pauseEmoteAnimationsOffScreen: combinedPauseEmoteAnimationsOffScreen,
+      twitchThirdPartyEmotes: combinedTwitchThirdPartyEmotes,
+      extensionChatSources,
+      additionalChatSources,
+      showPrimaryChatSourceFlairsAndColors: !combinedDisablePrimaryChatFlairsAndColors,
+      channelSwitchKeybind,
+      channelSwitchShortcutLabel: formatKeybind(channelSwitchKeybind),
+      linkAction: chatLinkOpenAction,
+      paneSide: chatPaneSide,
+      chatDelayOffsets: chatDelayConfig.offsets,
+      chatDelayEstimateGroups: chatDelayConfig.groups,
+    }
+  }, [
+    chatPoppedOut,
+    embedDisplayNameByKey,
+    selectedEmbedChatKeys,
+    getEmbedDisplayName,
+    getEmbedColor,
+    getEmbedLabelHidden,
+    primaryChatSourceId,
+    combinedIncludePrimaryChat,
+    primaryChatSourceAvailable,
+    showChatInput,
+    enabledKickSlugs,
+    enabledYoutubeVideoIds,
+    enabledTwitchChannels,
+    primaryChatSourceLabelColorOverride,
+    primaryChatSourceLabelText,
+    primaryChatSourceIconUrl,
+    combinedMaxMessages,
+    combinedMaxMessagesScroll,
+    combinedShowTimestamps,
+    combinedShowLabels,
+    combinedShowPlatformIcons,
+    combinedSortMode,
+    combinedHighlightTerms,
+    combinedFilterRules,
+    combinedIgnoredUsers,
+    combinedPauseEmoteAnimationsOffScreen,
+    combinedTwitchThirdPartyEmotes,
+    extensionChatSources,
+    additionalChatSources,
+    combinedDisablePrimaryChatFlairsAndColors,
+    channelSwitchKeybind,
+    chatLinkOpenAction,
+    chatPaneSide,
+    chatDelayConfig,
+  ])
+
+  useEffect(() => {
+    if (chatPopoutState) sendPopoutState(CHAT_POPOUT_ID, chatPopoutState)
+  }, [chatPopoutState, sendPopoutState])
+
+  /** Apply an action from a popout (the chat popout's menu uses the same setters as the pane's). */
+  const handlePopoutActionRef = useRef<(action: PopoutAction) => void>(() => {})
+  handlePopoutActionRef.current = (action: PopoutAction) => {
+    if (action.type === 'open-link') {
+      handleChatOpenLink(action.url)
+    } else if (action.type === 'ignored-users') {
+      setCombinedIgnoredUsers(action.list)
+    } else if (action.type === 'highlight-terms') {
+      setCombinedHighlightTerms(action.terms)
+    } else if (action.type === 'chat-delay-estimate') {
+      handleChatDelayEstimate(action.offsets)
+    } else if (action.type === 'chat-setting') {
+      const menu = combinedChatContextMenuConfig
+      const s = action.setting
+      if (s.name === 'showTimestamps') menu.display.setShowTimestamps(s.value)
+      else if (s.name === 'showLabels') menu.display.setShowLabels(s.value)
+      else if (s.name === 'showPlatformIcons') menu.display.setShowPlatformIcons(s.value)
+      else if (s.name === 'showPrimaryChatSourceFlairsAndColors') menu.display.setShowPrimaryChatSourceFlairsAndColors(s.value)
+      else if (s.name === 'pauseEmoteAnimationsOffScreen') menu.emotes.setPauseOffScreen(s.value)
+      else if (s.name === 'twitchThirdPartyEmotes') menu.emotes.setTwitchThirdParty?.(s.value)
+      else if (s.name === 'showInput') menu.primaryChat?.setShowInput(s.value)
+      else if (s.name === 'sortMode') menu.order.setSortMode(s.value)
+      else if (s.name === 'linkAction') menu.linkAction.setValue(s.value)
+      else if (s.name === 'paneSide') menu.paneSide.setPaneSide(s.value)
+    }
+  }
+
+  useEffect(() => {
+    const onReady = (_e: unknown, popoutId: string) => {
+      const state = popoutStatesRef.current.get(popoutId)
+      if (state) window.ipcRenderer.invoke('popout-send-state', { id: popoutId, state }).catch(() => {})
+    }
+    const onAction = (_e: unknown, payload: { id?: string; action?: PopoutAction } | null) => {
+      if (payload?.action) handlePopoutActionRef.current(payload.action)
+    }
+    // Closing a popout returns the tile / chat to this window
+    const onClosed = (_e: unknown, payload: { id?: string; bounds?: PopoutBounds } | null) => {
+      const popoutId = payload?.id
+      if (!popoutId) return
+      popoutStatesRef.current.delete(popoutId)
+      if (payload.bounds) savePopoutBounds(popoutId, payload.bounds)
+      if (popoutId === CHAT_POPOUT_ID) {
+        setChatPoppedOut(false)
+        setChatPaneOpen(true)
+        return
+      }
+      const key = getPopoutEmbedKey(popoutId)
+      if (key) {
+        setPoppedOutEmbedKeys((prev) => {
+          if (!prev.has(key)) return prev
+          const next = new Set(prev)
+          next.delete(key)
+          return next
+        })
+      }
+    }
+    const unsubs = [
+      window.ipcRenderer.on('popout-ready', onReady),
+      window.ipcRenderer.on('popout-action', onAction),
+      window.ipcRenderer.on('popout-closed', onClosed),
+    ] as unknown as Array<() => void>
+    const states = popoutStatesRef.current
+    return () => {
+      unsubs.forEach((unsub) => unsub())
+      // Leaving OmniScreen closes its popouts
+      states.forEach((_state, popoutId) => {
+        window.ipcRenderer.invoke('popout-close', popoutId).catch(() => {})
+      })
+    }
+  }, [])
+
+  const renderEmbedTile = useCallback(
+    (item: { key: string; embed: LiveEmbed }, gridPlacement?: { gridColumn: string; gridRow: string }) => {
+      const e = item.embed
+      const platform = (e.platform || '').toLowerCase()
+      const id = e.id
+      const extPlatform = embedPlatforms.find((p) => p.id === platform)
+
+      const title = e.mediaItem?.metadata?.title || e.mediaItem?.metadata?.displayName || `${e.platform}/${e.id}`
+      const viewers = e.mediaItem?.metadata?.viewers
+
+      const banned = bannedEmbeds.get(item.key)
+      const accent = getEmbedTileAccent(item.key, e)
+      const audio = getEmbedAudio(item.key)
+
+      let content: JSX.Element
+      if (platform === 'kick') {
+        content = <KickEmbed url={`https://kick.com/${id}`} autoplay={autoplay} mute={mute} fit="fill" audio={audio} />
+      } else if (platform === 'twitch') {
+        content = <TwitchEmbed url={`https://www.twitch.tv/${id}`} autoplay={autoplay} mute={mute} fit="fill" audio={audio} />
+      } else if (platform === 'youtube' && isLikelyYouTubeId(id)) {
+        const yt = buildYouTubeEmbed(id)
+        content = <YouTubeEmbed url={yt.url} embedUrl={yt.embedUrl} autoplay={autoplay} mute={mute} showLink={false} fit="fill" audio={audio} />
+      } else if (extPlatform) {
+        content = (
+          <div className="bg-base-200 rounded-lg overflow-hidden w-full h-full">
+            <iframe
+              src={fillEmbedTemplate(extPlatform.embedUrlTemplate, id)}
+              className="w-full h-full border-0"
+              allowFullScreen
+              allow={autoplay && !mute ? 'autoplay; fullscreen' : 'fullscreen'}
+              title={`${extPlatform.label} stream`}
+            />
+          </div>
+        )
+      } else {
+        content = (
+          <div className="bg-base-200 rounded-lg p-3">
+            <div className="text-sm text-base-content/70">Unsupported embed: {platform}</div>
+            <div className="text-xs text-base-content/50 break-all">{id}</div>
+          </div>
+        )
+      }
+
+      const isShaking = shakeEmbedKey != null && canonicalEmbedKey(item.key) === shakeEmbedKey
+      // Single structure so toggling cinema mode only changes wrapper classes/header visibility; embed iframe does not remount.
+      return (
+        <div
+          key={item.key}
+          className={`embed-tile ${cinemaMode ? 'w-full h-full min-h-0 min-w-0 overflow-hidden' : 'card bg-base-200 shadow-md overflow-hidden flex flex-col min-h-0'} ${isShaking ? 'embed-tile-shake' : ''}`}
+          style={{ borderTop: cinemaMode ? undefined : `4px solid ${accent}`, viewTransitionName: makeViewTransitionNameForKey(item.key), ...gridPlacement } as any}
+          onMouseEnter={audioFollowsHover ? () => setSoloEmbedKey(item.key) : undefined}
+          onFocus={audioFollowsHover ? () => setSoloEmbedKey(item.key) : undefined}
+        >
+          {!cinemaMode && (
+            <div className="p-2 flex items-center justify-between gap-2" style={{ background: withAlpha(accent, 0.08) }}>
+              <div className="min-w-0">
+                <div className="text-xs uppercase" style={{ color: accent }}>
+                  {platform}
+                </div>
+                <div className="text-sm font-semibold truncate" title={title}>
+                  {title}
+                </div>
+                <div className="text-xs text-base-content/60">
+                  {typeof viewers === 'number' ? `${viewers.toLocaleString()} viewers` : null}
+                  {typeof e.count === 'number' ? `  •  ${e.count} embeds` : null}
+                  {banned ? `  •  BANNED` : null}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button className="btn btn-xs btn-ghost" onClick={() => popOutEmbed(item.key, title)} title="Pop out into a separate window" aria-label="Pop out">
+                  <Icon name="maximize-2" size={14} />
+                </button>
+                <button className="btn btn-xs btn-ghost" onClick={() => toggleEmbed(item.key)} title="Remove from grid">
+                  ✕
+                </button>
+              </div>
             </div>
           )}
           <div className={cinemaMode ? 'w-full h-full min-h-0' : 'px-2 pb-2 flex-1 min-h-0'}>
@@ -2445,7 +3415,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
         </div>
       )
     },
-    [autoplay, bannedEmbeds, cinemaMode, mute, bookmarkedStreamers, shakeEmbedKey, toggleEmbed, youtubeVideoToStreamerId],
+    [audioFollowsHover, autoplay, bannedEmbeds, cinemaMode, embedPlatforms, getEmbedAudio, getEmbedTileAccent, mute, popOutEmbed, shakeEmbedKey, toggleEmbed],
   )
 
   /** Dock item: merged bookmarked group (same keys = one button) or single embed. */
@@ -2524,7 +3494,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
   const dockCloseTimerRef = useRef<number | null>(null)
   /** Right-click on dock bar: context menu position. */
   const [dockContextMenuAt, setDockContextMenuAt] = useState<{ x: number; y: number } | null>(null)
-  const [dockContextMenuHover, setDockContextMenuHover] = useState<'preferred' | 'dockPosition' | null>(null)
+  const [dockContextMenuHover, setDockContextMenuHover] = useState<'preferred' | 'dockPosition' | 'workspaces' | null>(null)
   const dockContextMenuRef = useRef<HTMLDivElement | null>(null)
   /** Which embed key is currently "watching" in the live embed view (shows 👀 in dock). Only one at a time. */
   const [watchedEmbedKey, setWatchedEmbedKey] = useState<string | null>(null)
@@ -2758,15 +3728,39 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
     [selectedEmbedKeys, selectedEmbedChatKeys, preferredPlatformOrder],
   )
 
+  /** Selected embeds shown in the grid (popped-out ones are in their own window). */
+  const gridEmbeds = useMemo(
+    () => (poppedOutEmbedKeys.size === 0 ? selectedEmbeds : selectedEmbeds.filter((x) => !poppedOutEmbedKeys.has(x.key))),
+    [selectedEmbeds, poppedOutEmbedKeys],
+  )
+
   const gridCols = useMemo(() => {
     return getBestGridColumns({
-      count: selectedEmbeds.length,
+      count: gridEmbeds.length,
       width: gridHostSize.width,
       height: gridHostSize.height,
       gapPx: cinemaMode ? 0 : 12,
       headerHeightPx: cinemaMode ? 0 : 56,
     })
-  }, [cinemaMode, gridHostSize.height, gridHostSize.width, selectedEmbeds.length])
+  }, [cinemaMode, gridHostSize.height, gridHostSize.width, gridEmbeds.length])
+
+  const gridPlacement = useMemo(
+    () => computeGridPlacement(gridEmbeds.map((x) => x.key), gridLayout, gridCols),
+    [gridEmbeds, gridLayout, gridCols],
+  )
+
+  const setGridLayoutMode = (mode: GridLayoutMode) => {
+    const keys = gridEmbeds.map((x) => x.key)
+    const mainKey = mode === 'focus' && (!gridLayout.mainKey || !keys.includes(gridLayout.mainKey)) ? (orderGridKeys(keys, gridLayout.order)[0] ?? null) : gridLayout.mainKey
+    changeGridLayout({ ...gridLayout, mode, mainKey, columns: mode === 'manual' && gridLayout.mode !== 'manual' ? gridCols : gridLayout.columns })
+  }
+
+  const changeGridTileSpan = (key: string, dCol: number, dRow: number) => {
+    const span = gridLayout.spans[key] ?? { colSpan: 1, rowSpan: 1 }
+    const colSpan = Math.min(gridLayout.columns, MAX_GRID_COLUMNS, Math.max(1, span.colSpan + dCol))
+    const rowSpan = Math.min(MAX_GRID_ROW_SPAN, Math.max(1, span.rowSpan + dRow))
+    changeGridLayout({ ...gridLayout, spans: { ...gridLayout.spans, [key]: { colSpan, rowSpan } } })
+  }
 
   return (
     // Full-height layout; only the bottom embed bar is always visible.
@@ -2776,6 +3770,19 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
         {/* Single CombinedChat instance portaled into active container (avoids flash when toggling overlay) */}
         {chatPaneOpen &&
           chatPortalTarget &&
+          chatPoppedOut &&
+          createPortal(
+            <div className="h-full flex flex-col items-center justify-center gap-2 p-4 text-center text-sm text-base-content/70">
+              <div>Chat is open in a separate window.</div>
+              <button type="button" className="btn btn-sm" onClick={() => window.ipcRenderer.invoke('popout-close', CHAT_POPOUT_ID).catch(() => {})}>
+                Return chat to this window
+              </button>
+            </div>,
+            chatPortalTarget
+          )}
+        {chatPaneOpen &&
+          chatPortalTarget &&
+          !chatPoppedOut &&
           createPortal(
             <CombinedChat
               primaryChatSourceId={primaryChatSourceId}
@@ -2798,7 +3805,13 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
               showPlatformIcons={combinedShowPlatformIcons}
               sortMode={combinedSortMode}
               highlightTerms={combinedHighlightTerms}
+              filterRules={combinedFilterRules}
+              ignoredUsers={combinedIgnoredUsers}
+              onIgnoredUsersChange={setCombinedIgnoredUsers}
               pauseEmoteAnimationsOffScreen={combinedPauseEmoteAnimationsOffScreen}
+              twitchThirdPartyEmotes={combinedTwitchThirdPartyEmotes}
+              extensionChatSources={extensionChatSources}
+              additionalChatSources={additionalChatSources}
               showPrimaryChatSourceFlairsAndColors={!combinedDisablePrimaryChatFlairsAndColors}
               contextMenuConfig={combinedChatContextMenuConfig}
               onCountChange={setCombinedMsgCount}
@@ -2816,6 +3829,9 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
               overlayCinemaMode={combinedChatOverlayMode ? cinemaMode : undefined}
               inputContainerRef={combinedChatOverlayMode ? chatOverlayInputContainerRef : undefined}
               contextMenuRef={combinedChatContextMenuRef}
+              chatDelayOffsets={chatDelayConfig.offsets}
+              chatDelayEstimateGroups={chatDelayConfig.groups}
+              onChatDelayEstimate={handleChatDelayEstimate}
             />,
             chatPortalTarget
           )}
@@ -2874,6 +3890,15 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                         primaryLabel={primaryChatSourceLabelText ?? ''}
                         enabledKickSlugs={enabledKickSlugs}
                       />
+                      <button
+                        type="button"
+                        className="btn btn-xs btn-ghost"
+                        title="Search chat archive"
+                        onClick={() => setChatArchiveSearchOpen(true)}
+                        aria-label="Search chat archive"
+                      >
+                        <Icon name="search" size={14} />
+                      </button>
                       <button
                         type="button"
                         className="btn btn-xs btn-ghost"
@@ -2883,6 +3908,16 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                       >
                         <Icon name="layers" size={14} />
                       </button>
+                      <button
+                        type="button"
+                        className="btn btn-xs btn-ghost"
+                        title="Pop out into a separate window"
+                        onClick={popOutChat}
+                        disabled={chatPoppedOut}
+                        aria-label="Pop out chat"
+                      >
+                        <Icon name="maximize-2" size={14} />
+                      </button>
                       <button
                         type="button"
                         className="btn btn-xs btn-ghost btn-circle"
@@ -2918,30 +3953,140 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
 
           {/* Embed grid area (measured by ResizeObserver) */}
           <div ref={gridAreaRef} className={`relative z-10 flex-1 min-h-0 overflow-hidden ${dockAtTop ? 'order-1' : 'order-0'}`}>
-            {selectedEmbeds.length === 0 ? (
+            {gridEmbeds.length === 0 ? (
               <div className="h-full flex items-center justify-center">
                 <div className="text-center">
-                  <div className="text-xl font-bold mb-2">No embeds selected</div>
-                  <div className="text-base-content/70">Use the dock to toggle streams on.</div>
+                  {selectedEmbeds.length === 0 ? (
+                    <>
+                      <div className="text-xl font-bold mb-2">No embeds selected</div>
+                      <div className="text-base-content/70">Use the dock to toggle streams on.</div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-xl font-bold mb-2">All selected embeds are popped out</div>
+                      <div className="text-base-content/70">Close a popout window to bring its stream back here.</div>
+                    </>
+                  )}
                 </div>
               </div>
             ) : (
-              (() => {
-                const rows = Math.max(1, Math.ceil(selectedEmbeds.length / Math.max(1, gridCols)))
-                return (
-                  <div className="embed-grid-layer h-full min-h-0">
-                    <div
-                      className={`grid h-full min-h-0 ${cinemaMode ? 'gap-0' : 'gap-3'}`}
-                      style={{
-                        gridTemplateColumns: `repeat(${gridCols}, minmax(0, 1fr))`,
-                        gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
-                      }}
+              <div className="embed-grid-layer h-full min-h-0">
+                <div
+                  className={`grid h-full min-h-0 ${cinemaMode ? 'gap-0' : 'gap-3'}`}
+                  style={{
+                    gridTemplateColumns: gridPlacement.templateColumns,
+                    gridTemplateRows: gridPlacement.templateRows,
+                  }}
+                >
+                  {gridEmbeds.map((item) => renderEmbedTile(item, gridPlacement.tiles.get(item.key)))}
+                  {/* Layout editor: one overlay per tile in the same grid cell (tiles stay in place so iframes don't reload) */}
+                  {gridLayoutEditing &&
+                    gridEmbeds.map(({ key, embed }) => {
+                      const span = gridLayout.spans[key] ?? { colSpan: 1, rowSpan: 1 }
+                      const isMain = gridLayout.mode === 'focus' && gridLayout.mainKey === key
+                      return (
+                        <div
+                          key={`layout-${key}`}
+                          className={`z-20 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed bg-base-300/80 p-2 text-center cursor-move ${draggingGridKey && draggingGridKey !== key ? 'border-primary' : 'border-base-content/40'}`}
+                          style={gridPlacement.tiles.get(key)}
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.setData('text/plain', key)
+                            e.dataTransfer.effectAllowed = 'move'
+                            setDraggingGridKey(key)
+                          }}
+                          onDragEnd={() => setDraggingGridKey(null)}
+                          onDragOver={(e) => {
+                            e.preventDefault()
+                            e.dataTransfer.dropEffect = 'move'
+                          }}
+                          onDrop={(e) => {
+                            e.preventDefault()
+                            const from = e.dataTransfer.getData('text/plain') || draggingGridKey
+                            if (from) changeGridLayout(moveGridKey(gridLayout, gridEmbeds.map((x) => x.key), from, key))
+                            setDraggingGridKey(null)
+                          }}
+                        >
+                          <Icon name="move" size={20} />
+                          <div className="text-sm font-semibold truncate max-w-full">{embed.mediaItem?.metadata?.displayName || `${embed.platform}/${embed.id}`}</div>
+                          {gridLayout.mode === 'manual' && (
+                            <div className="flex flex-wrap items-center justify-center gap-1 text-xs">
+                              <span>Width</span>
+                              <button type="button" className="btn btn-xs" disabled={span.colSpan <= 1} onClick={() => changeGridTileSpan(key, -1, 0)} aria-label="Narrower">−</button>
+                              <span className="w-4">{span.colSpan}</span>
+                              <button type="button" className="btn btn-xs" disabled={span.colSpan >= gridLayout.columns} onClick={() => changeGridTileSpan(key, 1, 0)} aria-label="Wider">+</button>
+                              <span className="ml-2">Height</span>
+                              <button type="button" className="btn btn-xs" disabled={span.rowSpan <= 1} onClick={() => changeGridTileSpan(key, 0, -1)} aria-label="Shorter">−</button>
+                              <span className="w-4">{span.rowSpan}</span>
+                              <button type="button" className="btn btn-xs" disabled={span.rowSpan >= MAX_GRID_ROW_SPAN} onClick={() => changeGridTileSpan(key, 0, 1)} aria-label="Taller">+</button>
+                            </div>
+                          )}
+                          {gridLayout.mode === 'focus' && (
+                            <button
+                              type="button"
+                              className={`btn btn-xs ${isMain ? 'btn-primary' : ''}`}
+                              disabled={isMain}
+                              onClick={() => changeGridLayout({ ...gridLayout, mainKey: key })}
+                            >
+                              {isMain ? 'Main stream' : 'Make main'}
+                            </button>
+                          )}
+                        </div>
+                      )
+                    })}
+                </div>
+              </div>
+            )}
+
+            {/* Layout editor toolbar */}
+            {gridLayoutEditing && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-30 flex flex-wrap items-center gap-2 rounded-lg border border-base-300 bg-base-200 shadow-xl px-3 py-2 text-sm">
+                <div className="join">
+                  {(['auto', 'manual', 'focus'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      className={`btn btn-xs join-item ${gridLayout.mode === mode ? 'btn-primary' : ''}`}
+                      onClick={() => setGridLayoutMode(mode)}
                     >
-                      {selectedEmbeds.map(renderEmbedTile)}
-                    </div>
-                  </div>
-                )
-              })()
+                      {mode === 'auto' ? 'Auto' : mode === 'manual' ? 'Manual' : 'Main + strip'}
+                    </button>
+                  ))}
+                </div>
+                {gridLayout.mode === 'manual' && (
+                  <label className="flex items-center gap-1">
+                    <span>Columns</span>
+                    <select
+                      className="select select-xs"
+                      value={gridLayout.columns}
+                      onChange={(e) => changeGridLayout({ ...gridLayout, columns: Number(e.target.value) })}
+                    >
+                      {Array.from({ length: MAX_GRID_COLUMNS }, (_, i) => i + 1).map((n) => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {gridLayout.mode === 'focus' && (
+                  <label className="flex items-center gap-1">
+                    <span>Strip</span>
+                    <select
+                      className="select select-xs"
+                      value={gridLayout.stripPosition}
+                      onChange={(e) => changeGridLayout({ ...gridLayout, stripPosition: e.target.value === 'bottom' ? 'bottom' : 'right' })}
+                    >
+                      <option value="right">Right</option>
+                      <option value="bottom">Bottom</option>
+                    </select>
+                  </label>
+                )}
+                <button type="button" className="btn btn-xs btn-ghost" onClick={() => changeGridLayout(DEFAULT_GRID_LAYOUT)}>
+                  Reset
+                </button>
+                <button type="button" className="btn btn-xs btn-primary" onClick={() => setGridLayoutEditing(false)}>
+                  Done
+                </button>
+              </div>
             )}
 
             {/* Combined chat overlay: memoized so it does not re-render when only embed/dock data updates (avoids flash timed with [OmniScreen:pinned]). */}
@@ -3053,8 +4198,13 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                     {!chatPaneOpen && <button type="button" className={`${EMBED_DOCK_ICON_BTN} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title="Chat pane" onClick={() => setChatPaneOpen(true)} aria-label="Show chat pane"><Icon name="message-circle" size={20} /></button>}
                     {!liteLinkScrollerOpen && <button type="button" className={`${EMBED_DOCK_ICON_BTN} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title="Lite link scroller (links from chat)" onClick={() => setLiteLinkScrollerOpen(true)} aria-label="Open lite link scroller"><Icon name="image" size={20} /></button>}
                     <button type="button" className={`${EMBED_DOCK_ICON_BTN} ${autoplay ? 'btn-primary' : ''} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title="Autoplay" onClick={() => setAutoplay((v) => !v)} aria-label="Toggle autoplay"><span className="inline-block bg-current w-5 h-5" style={{ maskImage: `url(${autoplay ? autoplayIcon : autoplayPausedIcon})`, WebkitMaskImage: `url(${autoplay ? autoplayIcon : autoplayPausedIcon})`, maskSize: 'contain', maskRepeat: 'no-repeat', maskPosition: 'center', WebkitMaskSize: 'contain', WebkitMaskRepeat: 'no-repeat', WebkitMaskPosition: 'center' }} aria-hidden /></button>
-                    <button type="button" className={`${EMBED_DOCK_ICON_BTN} ${mute ? 'btn-primary' : ''} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title="Mute" onClick={() => setMute((v) => !v)} aria-label="Toggle mute"><Icon name={mute ? 'volume-x' : 'volume-2'} size={20} /></button>
+                    <button type="button" className={`${EMBED_DOCK_ICON_BTN} ${mute ? 'btn-primary' : ''} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title="Mute (also ends solo)" onClick={() => { setSoloEmbedKey(null); setMute((v) => !v) }} aria-label="Toggle mute"><Icon name={mute ? 'volume-x' : 'volume-2'} size={20} /></button>
+                    <button type="button" className={`${EMBED_DOCK_ICON_BTN} ${audioFollowsHover ? 'btn-primary' : ''} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title={`Audio follows hover (${formatKeybind(audioCycleKeybind)} cycles the audible stream)`} onClick={() => setAudioFollowsHover((v) => !v)} aria-label="Toggle audio follows hover"><Icon name="headphones" size={20} /></button>
                     <button type="button" className={`${EMBED_DOCK_ICON_BTN} ${cinemaMode ? `btn-primary ${EMBED_DOCK_ICON_BTN_CINEMA}` : ''}`} title="Cinema mode" onClick={() => setCinemaMode((v) => !v)} aria-label="Toggle cinema mode"><Icon name="film" size={20} /></button>
+                    <button type="button" className={`${EMBED_DOCK_ICON_BTN} ${gridLayoutEditing ? 'btn-primary' : ''} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title="Edit layout" onClick={() => setGridLayoutEditing((v) => !v)} aria-label="Toggle layout editor"><Icon name="layout" size={20} /></button>
+                    {extensionDockItems.map((item) => (
+                      <button key={`${item.extensionId}:${item.id}`} type="button" className={`${EMBED_DOCK_ICON_BTN} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title={item.title || item.label} onClick={() => invokeExtensionUiItem(item, {})} aria-label={item.label}>{item.icon ? <img src={item.icon} alt="" className="w-5 h-5 object-contain" /> : <span className="text-xs font-semibold">{item.label.slice(0, 2)}</span>}</button>
+                    ))}
                     <button type="button" className={`${EMBED_DOCK_ICON_BTN} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title="Settings" onClick={() => setSettingsModalOpen(true)} aria-label="Open settings"><Icon name="settings" size={20} /></button>
                     <button className={`${EMBED_DOCK_ICON_BTN} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`} title="Back" onClick={onBackToMenu} aria-label="Back"><Icon name="log-out" size={20} /></button>
                   </div>
@@ -3318,12 +4468,24 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
               <button
                 type="button"
                 className={`${EMBED_DOCK_ICON_BTN} ${mute ? 'btn-primary' : ''} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`}
-                title="Mute"
-                onClick={() => setMute((v) => !v)}
+                title="Mute (also ends solo)"
+                onClick={() => {
+                  setSoloEmbedKey(null)
+                  setMute((v) => !v)
+                }}
                 aria-label="Toggle mute"
               >
                 <Icon name={mute ? 'volume-x' : 'volume-2'} size={20} />
               </button>
+              <button
+                type="button"
+                className={`${EMBED_DOCK_ICON_BTN} ${audioFollowsHover ? 'btn-primary' : ''} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`}
+                title={`Audio follows hover (${formatKeybind(audioCycleKeybind)} cycles the audible stream)`}
+                onClick={() => setAudioFollowsHover((v) => !v)}
+                aria-label="Toggle audio follows hover"
+              >
+                <Icon name="headphones" size={20} />
+              </button>
               <button
                 type="button"
                 className={`${EMBED_DOCK_ICON_BTN} ${cinemaMode ? `btn-primary ${EMBED_DOCK_ICON_BTN_CINEMA}` : ''}`}
@@ -3333,6 +4495,27 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
               >
                 <Icon name="film" size={20} />
               </button>
+              <button
+                type="button"
+                className={`${EMBED_DOCK_ICON_BTN} ${gridLayoutEditing ? 'btn-primary' : ''} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`}
+                title="Edit layout"
+                onClick={() => setGridLayoutEditing((v) => !v)}
+                aria-label="Toggle layout editor"
+              >
+                <Icon name="layout" size={20} />
+              </button>
+              {extensionDockItems.map((item) => (
+                <button
+                  key={`${item.extensionId}:${item.id}`}
+                  type="button"
+                  className={`${EMBED_DOCK_ICON_BTN} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`}
+                  title={item.title || item.label}
+                  onClick={() => invokeExtensionUiItem(item, {})}
+                  aria-label={item.label}
+                >
+                  {item.icon ? <img src={item.icon} alt="" className="w-5 h-5 object-contain" /> : <span className="text-xs font-semibold">{item.label.slice(0, 2)}</span>}
+                </button>
+              ))}
               <button
                 type="button"
                 className={`${EMBED_DOCK_ICON_BTN} ${cinemaMode ? EMBED_DOCK_ICON_BTN_CINEMA : ''}`}
@@ -3391,6 +4574,14 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                     <span>Dock position</span>
                     <span aria-hidden className="text-base-content/50">▸</span>
                   </div>
+                  <div
+                    className="px-3 py-1.5 text-left hover:bg-base-300 flex items-center justify-between gap-2 cursor-default"
+                    onMouseEnter={() => setDockContextMenuHover('workspaces')}
+                    role="menuitem"
+                  >
+                    <span>Workspaces</span>
+                    <span aria-hidden className="text-base-content/50">▸</span>
+                  </div>
                 </div>
                 {dockContextMenuHover === 'preferred' && (
                   <div
@@ -3439,6 +4630,42 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                     </button>
                   </div>
                 )}
+                {dockContextMenuHover === 'workspaces' && (
+                  <div
+                    className={`w-[200px] shrink-0 bg-base-200 py-1 max-h-80 overflow-y-auto ${showSubmenuLeft ? 'border-r border-base-300 rounded-l-lg' : 'border-l border-base-300 rounded-r-lg'}`}
+                    onMouseEnter={() => setDockContextMenuHover('workspaces')}
+                  >
+                    {workspaces.length === 0 && <div className="px-3 py-1 text-xs text-base-content/50">No saved workspaces</div>}
+                    {workspaces.map((w) => (
+                      <button
+                        key={w.id}
+                        type="button"
+                        role="menuitemradio"
+                        aria-checked={activeWorkspaceId === w.id}
+                        className="w-full px-3 py-1.5 text-left hover:bg-base-300 flex items-center justify-between gap-2"
+                        onClick={() => {
+                          applyWorkspace(w)
+                          closeDockContextMenu()
+                        }}
+                      >
+                        <span className="truncate">{w.name}</span>
+                        {activeWorkspaceId === w.id && <span aria-hidden>✓</span>}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      role="menuitem"
+                      className="w-full px-3 py-1.5 text-left hover:bg-base-300 border-t border-base-300 mt-1 text-base-content/70"
+                      onClick={() => {
+                        setSettingsTab('workspaces')
+                        setSettingsModalOpen(true)
+                        closeDockContextMenu()
+                      }}
+                    >
+                      Manage workspaces…
+                    </button>
+                  </div>
+                )}
               </div>
             )
           })()}
@@ -3536,6 +4763,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                         ...(p === 'kick' && { kickSlug: id }),
                         ...(p === 'twitch' && { twitchLogin: id }),
                         ...(p === 'youtube' && { youtubeChannelId: buildEmbedUrl('youtube', id) }),
+                        ...(getExtensionEmbedPlatform(p) && { channels: { [p]: id } }),
                       }
                       setBookmarkedStreamers((prev) => [...prev, newStreamer])
                       setBookmarkedPollRefreshTrigger((t) => t + 1)
@@ -3657,9 +4885,21 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                                 onChange={() => toggleEmbedChat(key)}
                               />
                             </div>
+                            {videoOn && renderEmbedAudioControls(key)}
+                            {videoOn && (
+                              <button
+                                type="button"
+                                className="btn btn-xs btn-ghost"
+                                disabled={poppedOutEmbedKeys.has(key)}
+                                onClick={() => popOutEmbed(key, title)}
+                              >
+                                {poppedOutEmbedKeys.has(key) ? 'Popped out' : 'Pop out'}
+                              </button>
+                            )}
                           </div>
                         )
                       })}
+                      {renderChatDelayControls(streamers, keys)}
                       {keys.some((k) => isPinnedEmbedKey(k)) ? (
                         <button
                           type="button"
@@ -3727,6 +4967,17 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                               onChange={() => toggleEmbedChat(key)}
                             />
                           </label>
+                          {videoOn && renderEmbedAudioControls(key)}
+                          {videoOn && (
+                            <button
+                              type="button"
+                              className="btn btn-xs btn-ghost"
+                              disabled={poppedOutEmbedKeys.has(key)}
+                              onClick={() => popOutEmbed(key, title)}
+                            >
+                              {poppedOutEmbedKeys.has(key) ? 'Popped out' : 'Pop out into a separate window'}
+                            </button>
+                          )}
                           {isPinnedEmbedKey(key) ? (
                             <button
                               type="button"
@@ -3873,6 +5124,15 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                       primaryLabel={primaryChatSourceLabelText ?? ''}
                       enabledKickSlugs={enabledKickSlugs}
                     />
+                    <button
+                      type="button"
+                      className="btn btn-xs btn-ghost"
+                      title="Search chat archive"
+                      onClick={() => setChatArchiveSearchOpen(true)}
+                      aria-label="Search chat archive"
+                    >
+                      <Icon name="search" size={14} />
+                    </button>
                     <button
                       type="button"
                       className="btn btn-xs btn-ghost"
@@ -3882,6 +5142,16 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                     >
                       <Icon name="layers" size={14} />
                     </button>
+                    <button
+                      type="button"
+                      className="btn btn-xs btn-ghost"
+                      title="Pop out into a separate window"
+                      onClick={popOutChat}
+                      disabled={chatPoppedOut}
+                      aria-label="Pop out chat"
+                    >
+                      <Icon name="maximize-2" size={14} />
+                    </button>
                     <button
                       type="button"
                       className="btn btn-xs btn-ghost btn-circle"
@@ -3900,6 +5170,14 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
         )}
       </div>
 
+      {chatArchiveSearchOpen && (
+        <ChatArchiveSearch
+          primaryChatSourceId={primaryChatSourceId}
+          primaryChatSourceLabel={primaryChatSourceLabelText}
+          onClose={() => setChatArchiveSearchOpen(false)}
+        />
+      )}
+
       {/* Unified Settings modal (portal so embed/live updates don't cause flicker) */}
       {settingsModalOpen && createPortal(
         <div className="modal modal-open z-[100]" role="dialog" aria-modal="true">
@@ -3927,6 +5205,13 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
               >
                 <span className="inline-flex items-center gap-1.5"><Icon name="image" size={16} /> Lite link scroller</span>
               </button>
+              <button
+                type="button"
+                className={`tab ${settingsTab === 'workspaces' ? 'tab-active' : ''}`}
+                onClick={() => setSettingsTab('workspaces')}
+              >
+                Workspaces
+              </button>
               <button
                 type="button"
                 className={`tab ${settingsTab === 'extensions' ? 'tab-active' : ''}`}
@@ -3941,6 +5226,17 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
               >
                 Keybinds
               </button>
+              {extensionSettingsTabs.map((item) => (
+                <button
+                  key={`${item.extensionId}:${item.id}`}
+                  type="button"
+                  className={`tab ${settingsTab === `extension:${item.extensionId}:${item.id}` ? 'tab-active' : ''}`}
+                  title={item.title}
+                  onClick={() => setSettingsTab(`extension:${item.extensionId}:${item.id}`)}
+                >
+                  {item.label}
+                </button>
+              ))}
             </div>
             <div
               ref={settingsTabContentRef}
@@ -4087,6 +5383,15 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                                 url: platformChannelUrl(s.twitchLogin, 'twitch'),
                                 title: s.twitchLogin,
                               },
+                              ...Object.entries(s.channels ?? {}).map(
+                                ([platformId, channelId]) =>
+                                  !!channelId && {
+                                    platform: embedPlatforms.find((p) => p.id === platformId)?.label ?? platformId,
+                                    label: channelId.length <= CHANNEL_LABEL_MAX ? channelId : channelId.slice(0, CHANNEL_LABEL_MAX) + '…',
+                                    url: buildEmbedUrl(platformId, channelId),
+                                    title: channelId,
+                                  },
+                              ),
                             ]
                               .filter(Boolean)
                               .map((item, i) => (
@@ -4168,6 +5473,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                         {editingStreamerId === s.id && (
                           <BookmarkedStreamerForm
                             streamer={s}
+                            embedPlatforms={embedPlatforms}
                             onSave={(next) => {
                               setBookmarkedStreamers((prev) => prev.map((x) => (x.id === s.id ? next : x)))
                               setEditingStreamerId(null)
@@ -4191,6 +5497,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                           color: undefined,
                           openWhenLive: false,
                         }}
+                        embedPlatforms={embedPlatforms}
                         onSave={(next) => {
                           setBookmarkedStreamers((prev) => [...prev, { ...next, id: `streamer-${Date.now()}` }])
                           setEditingStreamerId(null)
@@ -4432,6 +5739,56 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                       </div>
                     </div>
 
+                    <div className="mb-4">
+                      <div className="text-xs font-medium text-base-content/60 uppercase tracking-wide mb-2">Filter rules</div>
+                      <ChatFilterRulesEditor
+                        rules={combinedFilterRules}
+                        onChange={setCombinedFilterRules}
+                        sourceOptions={[
+                          ...additionalChatSources.map((s) => ({ value: s.id, label: s.label })),
+                          ...extensionChatSources.map((s) => ({ value: s.providerId, label: s.label })),
+                        ]}
+                      />
+                    </div>
+
+                    <div className="mb-4">
+                      <div className="text-xs font-medium text-base-content/60 uppercase tracking-wide mb-2">Ignored users</div>
+                      {combinedIgnoredUsers.length === 0 ? (
+                        <p className="text-xs text-base-content/60">Right-click a nick in chat to ignore that user on one platform or everywhere.</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {combinedIgnoredUsers.map((u) => {
+                            const platformLabel =
+                              u.platform == null
+                                ? 'any platform'
+                                : u.platform === primaryChatSourceId
+                                  ? primaryChatSourceLabelText || u.platform
+                                  : ({ kick: 'Kick', youtube: 'YouTube', twitch: 'Twitch' } as Record<string, string>)[u.platform] ??
+                                    additionalChatSources.find((s) => s.id === u.platform)?.label ??
+                                    extensionChatSources.find((s) => s.providerId === u.platform)?.label ??
+                                    u.platform
+                            return (
+                              <span
+                                key={`${u.platform ?? '*'}:${u.nick}`}
+                                className="badge badge-sm badge-ghost gap-1 pr-1"
+                              >
+                                {u.nick}
+                                <span className="text-base-content/50">({platformLabel}, {formatIgnoreRemaining(u)})</span>
+                                <button
+                                  type="button"
+                                  className="btn btn-ghost btn-xs p-0 min-h-0 h-4 w-4 rounded-full"
+                                  onClick={() => setCombinedIgnoredUsers((prev) => removeIgnoredChatUser(prev, u))}
+                                  aria-label={`Unignore ${u.nick}`}
+                                >
+                                  ×
+                                </button>
+                              </span>
+                            )
+                          })}
+                        </div>
+                      )}
+                    </div>
+
                     {/* Emotes */}
                     <div className="mb-4">
                       <div className="text-xs font-medium text-base-content/60 uppercase tracking-wide mb-2">Emotes</div>
@@ -4445,6 +5802,16 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                         />
                       </label>
                       <span className="label-text-alt text-base-content/60 block">Reduces chat emote animation restarts when scrolling.</span>
+                      <label className="flex items-center justify-between gap-2 text-sm mt-2">
+                        <span>Twitch: BTTV / FFZ / 7TV emotes</span>
+                        <input
+                          type="checkbox"
+                          className="toggle toggle-sm"
+                          checked={combinedTwitchThirdPartyEmotes}
+                          onChange={(e) => setCombinedTwitchThirdPartyEmotes(e.target.checked)}
+                        />
+                      </label>
+                      <span className="label-text-alt text-base-content/60 block">Loads global and channel third-party emote sets for Twitch chats.</span>
                     </div>
 
                     {/* Links */}
@@ -4553,11 +5920,103 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                   <span className="label-text-alt text-base-content/60 block">For embeds that don&apos;t fire an end event (YouTube, TikTok, etc.), advance to the next card after this many seconds.</span>
                 </div>
               )}
-              {settingsTab === 'extensions' && (
-                <div className="space-y-6">
+              {settingsTab === 'workspaces' && (
+                <div className="space-y-4">
                   <p className="text-sm text-base-content/60">
-                    Installed extensions can add chat sources and options. Configure them below.
+                    A workspace saves the selected embeds and their chat toggles, the chat pane (side, width, overlay), cinema mode, dock position and combined chat display options. Switch workspaces from the dock&apos;s right-click menu or with {formatKeybind(workspaceSwitchKeybind)}. Copy link shares a workspace as an omnichat://workspace link.
                   </p>
+                  <div className="flex gap-1">
+                    <input
+                      type="text"
+                      className="input input-sm flex-1"
+                      placeholder="Workspace name..."
+                      value={workspaceNameDraft}
+                      onChange={(e) => setWorkspaceNameDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && workspaceNameDraft.trim()) {
+                          e.preventDefault()
+                          saveCurrentAsWorkspace(workspaceNameDraft)
+                          setWorkspaceNameDraft('')
+                        }
+                      }}
+                    />
+                    <button
+                      type="button"
+                      className="btn btn-sm btn-primary"
+                      disabled={!workspaceNameDraft.trim()}
+                      onClick={() => {
+                        saveCurrentAsWorkspace(workspaceNameDraft)
+                        setWorkspaceNameDraft('')
+                      }}
+                    >
+                      Save current layout
+                    </button>
+                  </div>
+                  {workspaces.length === 0 ? (
+                    <p className="text-xs text-base-content/60">No workspaces yet.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {workspaces.map((w) => (
+                        <li key={w.id} className="flex items-center gap-2 border border-base-300 rounded-lg px-3 py-2">
+                          <input
+                            type="text"
+                            className="input input-ghost input-sm flex-1 min-w-0 font-medium"
+                            value={w.name}
+                            aria-label="Workspace name"
+                            onChange={(e) => setWorkspaces((prev) => prev.map((x) => (x.id === w.id ? { ...x, name: e.target.value } : x)))}
+                            onBlur={(e) => !e.target.value.trim() && setWorkspaces((prev) => prev.map((x) => (x.id === w.id ? { ...x, name: 'Workspace' } : x)))}
+                          />
+                          <span className="text-xs text-base-content/60 shrink-0">
+                            {w.snapshot.embedKeys.length} embed{w.snapshot.embedKeys.length !== 1 ? 's' : ''}, {w.snapshot.chatEmbedKeys.length} chat{w.snapshot.chatEmbedKeys.length !== 1 ? 's' : ''}
+                          </span>
+                          {activeWorkspaceId === w.id && <span className="badge badge-sm badge-primary shrink-0">Active</span>}
+                          <button type="button" className="btn btn-xs btn-primary" onClick={() => applyWorkspace(w)}>
+                            Switch
+                          </button>
+                          <button type="button" className="btn btn-xs btn-ghost" title="Replace with the current layout" onClick={() => updateWorkspaceFromCurrent(w.id)}>
+                            Update
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-xs btn-ghost"
+                            onClick={() => navigator.clipboard.writeText(buildWorkspaceUrl(w)).then(() => {}, () => {})}
+                          >
+                            Copy link
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-xs btn-ghost text-error"
+                            onClick={() => {
+                              setWorkspaces((prev) => prev.filter((x) => x.id !== w.id))
+                              if (activeWorkspaceId === w.id) setActiveWorkspaceId(null)
+                            }}
+                          >
+                            Delete
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {settingsTab === 'extensions' && (
+                <div className="space-y-6">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-base-content/60">
+                      Installed extensions can add chat sources and options. Configure them below.
+                    </p>
+                    {installedExtensions.length > 0 && (
+                      <button
+                        type="button"
+                        className="btn btn-ghost btn-xs shrink-0"
+                        disabled={extensionUpdateCheckRunning}
+                        onClick={checkExtensionUpdates}
+                      >
+                        {extensionUpdateCheckRunning ? 'Checking…' : 'Check for updates'}
+                      </button>
+                    )}
+                  </div>
+                  {extensionUpdateStatus && <p className="text-xs text-base-content/60">{extensionUpdateStatus}</p>}
                   {installedExtensions.length === 0 ? (
                     <p className="text-sm text-base-content/70">No extensions installed. Use the extension install URL (e.g. from the app menu) to add one.</p>
                   ) : (
@@ -4567,76 +6026,67 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                         const extValues = extensionSettings[ext.id] ?? {}
                         return (
                           <div key={ext.id} className="border border-base-300 rounded-lg p-4 space-y-4">
-                            <div className="font-medium text-base-content">
-                              {ext.name}
-                              <span className="text-sm font-normal text-base-content/60 ml-2">v{ext.version}</span>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="font-medium text-base-content">{ext.name}</span>
+                              <span className="text-sm text-base-content/60">v{ext.version}</span>
+                              {ext.updateAvailable && <span className="badge badge-sm badge-info">Update available: v{ext.latestVersion}</span>}
+                              {ext.loadError && <span className="badge badge-sm badge-error" title={ext.loadError}>Failed to load</span>}
+                              <div className="flex items-center gap-2 ml-auto">
+                                <label className="label cursor-pointer gap-1.5 py-0" title="Turn the extension on/off (takes effect immediately)">
+                                  <span className="label-text text-xs">Enabled</span>
+                                  <input
+                                    type="checkbox"
+                                    className="toggle toggle-xs"
+                                    checked={ext.enabled !== false}
+                                    onChange={(e) => setExtensionEnabled(ext.id, e.target.checked)}
+                                  />
+                                </label>
+                                <label className="label cursor-pointer gap-1.5 py-0" title="Install new versions automatically">
+                                  <span className="label-text text-xs">Auto-update</span>
+                                  <input
+                                    type="checkbox"
+                                    className="toggle toggle-xs"
+                                    checked={ext.autoUpdate === true}
+                                    onChange={(e) => setExtensionAutoUpdate(ext.id, e.target.checked)}
+                                  />
+                                </label>
+                                {ext.updateAvailable && (
+                                  <button type="button" className="btn btn-primary btn-xs" onClick={() => updateExtension(ext)}>
+                                    Update
+                                  </button>
+                                )}
+                                {ext.previousVersion && (
+                                  <button
+                                    type="button"
+                                    className={`btn btn-xs ${ext.loadError ? 'btn-error' : 'btn-ghost'}`}
+                                    title={`Restore v${ext.previousVersion}`}
+                                    onClick={() => rollbackExtension(ext)}
+                                  >
+                                    Roll back to v{ext.previousVersion}
+                                  </button>
+                                )}
+                              </div>
                             </div>
-                            {sections.length === 0 ? (
+                            {ext.loadError && <p className="text-xs text-error">{ext.loadError}</p>}
+                            {ext.enabled === false ? (
+                              <p className="text-sm text-base-content/60">Disabled. Turn it on to configure it.</p>
+                            ) : sections.length === 0 ? (
                               <p className="text-sm text-base-content/60">No settings for this extension.</p>
                             ) : (
                               sections.map((sec) => (
                                 <div key={sec.id} className="space-y-3">
                                   <div className="text-xs font-medium text-base-content/60 uppercase tracking-wide">{sec.label}</div>
                                   <div className="space-y-2 pl-0">
-                                    {sec.fields.map((field) => {
-                                      const value = extValues[field.key] ?? field.default
-                                      return (
-                                        <div key={field.key}>
-                                          <label className="flex items-center justify-between gap-2 text-sm">
-                                            <span>{field.label}</span>
-                                            {field.type === 'boolean' && (
-                                              <input
-                                                type="checkbox"
-                                                className="toggle toggle-sm"
-                                                checked={value === true}
-                                                onChange={(e) => setExtensionSetting(ext.id, field.key, e.target.checked)}
-                                              />
-                                            )}
-                                            {field.type === 'string' && (
-                                              <input
-                                                type="text"
-                                                className="input input-sm input-bordered w-40"
-                                                placeholder={field.placeholder}
-                                                value={String(value)}
-                                                onChange={(e) => setExtensionSetting(ext.id, field.key, e.target.value)}
-                                              />
-                                            )}
-                                            {field.type === 'number' && (
-                                              <input
-                                                type="number"
-                                                className="input input-sm input-bordered w-24"
-                                                value={Number(value)}
-                                                onChange={(e) => {
-                                                  const n = Number(e.target.value)
-                                                  if (Number.isFinite(n)) setExtensionSetting(ext.id, field.key, n)
-                                                }}
-                                              />
-                                            )}
-                                          </label>
-                                          {field.description && (
-                                            <span className="label-text-alt text-base-content/60 block">{field.description}</span>
-                                          )}
-                                          {field.type === 'string' && field.key === 'labelColor' && (
-                                            <div className="flex items-center gap-1 mt-1">
-                                              <input
-                                                type="color"
-                                                className="w-7 h-7 rounded border border-base-300 cursor-pointer"
-                                                value={/^#[0-9A-Fa-f]{6}$/.test(String(value)) ? String(value) : '#ffffff'}
-                                                onChange={(e) => setExtensionSetting(ext.id, field.key, e.target.value)}
-                                              />
-                                              <button
-                                                type="button"
-                                                className="btn btn-ghost btn-xs"
-                                                title="Clear (theme default)"
-                                                onClick={() => setExtensionSetting(ext.id, field.key, '')}
-                                              >
-                                                ✕
-                                              </button>
-                                            </div>
-                                          )}
-                                        </div>
-                                      )
-                                    })}
+                                    {sec.fields.map((field) => (
+                                      <ExtensionSettingFieldRow
+                                        key={field.key}
+                                        field={field}
+                                        value={extValues[field.key] ?? field.default}
+                                        secretSet={extensionSecretsSet[ext.id]?.includes(field.key) ?? false}
+                                        onChange={(value) => setExtensionSetting(ext.id, field.key, value)}
+                                        onSecretChange={(value) => setExtensionSecret(ext.id, field.key, value)}
+                                      />
+                                    ))}
                                   </div>
                                 </div>
                               ))
@@ -4651,7 +6101,7 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
               {settingsTab === 'keybinds' && (
                 <div className="space-y-4">
                   <p className="text-sm text-base-content/60 mb-4">
-                    Focus primary chat input when the chat pane is open. Switch chat channel when the chat input is focused and multiple channels are enabled.
+                    Focus primary chat input when the chat pane is open. Switch chat channel when the chat input is focused and multiple channels are enabled. Next workspace cycles through saved workspaces. Cycle audible stream solos the next video in grid order.
                   </p>
                   <div className="flex flex-col gap-4">
                     <div className="flex items-center gap-4">
@@ -4696,9 +6146,58 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
                         onClick={(e) => (e.currentTarget as HTMLInputElement).focus()}
                       />
                     </div>
+                    <div className="flex items-center gap-4">
+                      <label className="text-sm font-medium shrink-0">Next workspace</label>
+                      <input
+                        type="text"
+                        readOnly
+                        className="input input-bordered input-sm w-40 font-mono"
+                        value={formatKeybind(workspaceSwitchKeybind)}
+                        title="Click then press the keys you want"
+                        onKeyDown={(e) => {
+                          e.preventDefault()
+                          const key = e.key === ' ' ? ' ' : e.key
+                          setWorkspaceSwitchKeybind({
+                            key,
+                            ctrl: e.ctrlKey,
+                            shift: e.shiftKey,
+                            alt: e.altKey,
+                          })
+                        }}
+                        onClick={(e) => (e.currentTarget as HTMLInputElement).focus()}
+                      />
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <label className="text-sm font-medium shrink-0">Cycle audible stream</label>
+                      <input
+                        type="text"
+                        readOnly
+                        className="input input-bordered input-sm w-40 font-mono"
+                        value={formatKeybind(audioCycleKeybind)}
+                        title="Click then press the keys you want"
+                        onKeyDown={(e) => {
+                          e.preventDefault()
+                          const key = e.key === ' ' ? ' ' : e.key
+                          setAudioCycleKeybind({
+                            key,
+                            ctrl: e.ctrlKey,
+                            shift: e.shiftKey,
+                            alt: e.altKey,
+                          })
+                        }}
+                        onClick={(e) => (e.currentTarget as HTMLInputElement).focus()}
+                      />
+                    </div>
                   </div>
                 </div>
               )}
+              {settingsTab.startsWith('extension:') &&
+                (() => {
+                  const item = extensionSettingsTabs.find((t) => settingsTab === `extension:${t.extensionId}:${t.id}`)
+                  const ext = item && rendererExtensions.find((x) => x.id === item.extensionId)
+                  if (!item || !ext) return <p className="text-sm text-base-content/60">This extension tab is no longer available.</p>
+                  return <ExtensionUiFrame key={`${ext.id}:${ext.loadId}:${item.id}`} extension={ext} settingsTabId={item.id} className="w-full h-full min-h-[60vh] border-0" />
+                })()}
             </div>
             <div className="modal-action mt-4 flex-shrink-0">
               <button className="btn btn-primary" onClick={() => setSettingsModalOpen(false)}>
@@ -4710,18 +6209,197 @@ export default function OmniScreen({ onBackToMenu }: { onBackToMenu?: () => void
         </div>,
         document.body
       )}
+      {/* Extension renderer scripts (hidden sandboxed frames; see utils/extensionUi) */}
+      {rendererExtensions.map((ext) => (
+        <ExtensionUiFrame key={`${ext.id}:${ext.loadId}`} extension={ext} />
+      ))}
 
     </div>
   )
 }
 
-/** Inline form for add/edit bookmarked streamer (nickname + YT/Kick/Twitch + color). */
+/** One extension setting in Settings > Extensions (control for each ExtensionSettingField type). */
+function ExtensionSettingFieldRow({
+  field,
+  value,
+  secretSet,
+  onChange,
+  onSecretChange,
+}: {
+  field: ExtensionSettingField
+  value: ExtensionSettingValue
+  /** Secret fields: whether a value is saved (the value itself stays in main). */
+  secretSet: boolean
+  onChange: (value: ExtensionSettingValue) => void
+  onSecretChange: (value: string) => Promise<{ ok: boolean; error?: string }>
+}) {
+  const [secretDraft, setSecretDraft] = useState('')
+  const [secretError, setSecretError] = useState<string | null>(null)
+  const options = Array.isArray(field.options) ? field.options : []
+  const selected = Array.isArray(value) ? value : []
+  const keybind = value && typeof value === 'object' && !Array.isArray(value) ? value : null
+  const saveSecret = (next: string) => {
+    setSecretError(null)
+    onSecretChange(next)
+      .then((result) => {
+        if (result?.ok) setSecretDraft('')
+        else setSecretError(result?.error || 'Failed to save')
+      })
+      .catch(() => setSecretError('Failed to save'))
+  }
+  return (
+    <div>
+      <label className="flex items-center justify-between gap-2 text-sm">
+        <span>{field.label}</span>
+        {field.type === 'boolean' && (
+          <input type="checkbox" className="toggle toggle-sm" checked={value === true} onChange={(e) => onChange(e.target.checked)} />
+        )}
+        {field.type === 'string' && (
+          <input
+            type="text"
+            className="input input-sm input-bordered w-40"
+            placeholder={field.placeholder}
+            value={String(value ?? '')}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        )}
+        {field.type === 'number' && (
+          <input
+            type="number"
+            className="input input-sm input-bordered w-24"
+            value={Number(value)}
+            onChange={(e) => {
+              const n = Number(e.target.value)
+              if (Number.isFinite(n)) onChange(n)
+            }}
+          />
+        )}
+        {field.type === 'select' && (
+          <select className="select select-sm select-bordered w-40" value={String(value ?? '')} onChange={(e) => onChange(e.target.value)}>
+            {options.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        )}
+        {field.type === 'color' && (
+          <span className="flex items-center gap-1">
+            <input
+              type="color"
+              className="w-7 h-7 rounded border border-base-300 cursor-pointer"
+              value={/^#[0-9A-Fa-f]{6}$/.test(String(value)) ? String(value) : '#ffffff'}
+              onChange={(e) => onChange(e.target.value)}
+            />
+            <button type="button" className="btn btn-ghost btn-xs" title="Clear" onClick={() => onChange('')}>
+              ✕
+            </button>
+          </span>
+        )}
+        {field.type === 'secret' && (
+          <span className="flex items-center gap-1">
+            <input
+              type="password"
+              className="input input-sm input-bordered w-40"
+              autoComplete="off"
+              placeholder={secretSet ? 'Saved (type to replace)' : field.placeholder}
+              value={secretDraft}
+              onChange={(e) => setSecretDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && secretDraft) saveSecret(secretDraft)
+              }}
+            />
+            <button type="button" className="btn btn-primary btn-xs" disabled={!secretDraft} onClick={() => saveSecret(secretDraft)}>
+              Save
+            </button>
+            {secretSet && (
+              <button type="button" className="btn btn-ghost btn-xs" title="Remove saved value" onClick={() => saveSecret('')}>
+                ✕
+              </button>
+            )}
+          </span>
+        )}
+        {field.type === 'keybind' && (
+          <span className="flex items-center gap-1">
+            <input
+              type="text"
+              readOnly
+              className="input input-bordered input-sm w-40 font-mono"
+              value={keybind ? formatKeybind(keybind) : ''}
+              placeholder="None"
+              title="Click then press the keys you want"
+              onKeyDown={(e) => {
+                e.preventDefault()
+                onChange({ key: e.key, ctrl: e.ctrlKey, shift: e.shiftKey, alt: e.altKey })
+              }}
+            />
+            {keybind && (
+              <button type="button" className="btn btn-ghost btn-xs" title="Clear" onClick={() => onChange(null)}>
+                ✕
+              </button>
+            )}
+          </span>
+        )}
+      </label>
+      {field.type === 'multi-select' && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+          {options.map((o) => (
+            <label key={o.value} className="label cursor-pointer gap-1.5 py-0">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-xs"
+                checked={selected.includes(o.value)}
+                onChange={(e) => onChange(e.target.checked ? [...selected, o.value] : selected.filter((v) => v !== o.value))}
+              />
+              <span className="label-text text-sm">{o.label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+      {field.type === 'list' && (
+        <textarea
+          className="textarea textarea-bordered textarea-sm w-full mt-1 font-mono"
+          rows={3}
+          placeholder={field.placeholder ?? 'One per line'}
+          value={selected.join('\n')}
+          onChange={(e) => onChange(e.target.value.split('\n'))}
+        />
+      )}
+      {field.description && <span className="label-text-alt text-base-content/60 block">{field.description}</span>}
+      {secretError && <span className="text-xs text-error block">{secretError}</span>}
+      {field.type === 'string' && field.key === 'labelColor' && (
+        <div className="flex items-center gap-1 mt-1">
+          <input
+            type="color"
+            className="w-7 h-7 rounded border border-base-300 cursor-pointer"
+            value={/^#[0-9A-Fa-f]{6}$/.test(String(value)) ? String(value) : '#ffffff'}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          <button type="button" className="btn btn-ghost btn-xs" title="Clear (theme default)" onClick={() => onChange('')}>
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Edit form text for a streamer's manual chat delay offsets (seconds; empty = 0). */
+function chatDelaySecondsDraft(raw: unknown): Record<ChatDelayPlatform, string> {
+  const offsetsMs = normalizeStreamerChatDelay(raw)?.offsetsMs ?? {}
+  const draft = (platform: ChatDelayPlatform) => (offsetsMs[platform] ? String(offsetsMs[platform]! / 1000) : '')
+  return { youtube: draft('youtube'), kick: draft('kick'), twitch: draft('twitch') }
+}
+
+/** Inline form for add/edit bookmarked streamer (nickname + YT/Kick/Twitch + extension platforms + color). */
 function BookmarkedStreamerForm({
   streamer,
+  embedPlatforms,
   onSave,
   onCancel,
 }: {
   streamer: BookmarkedStreamer
+  embedPlatforms: EmbedPlatformInfo[]
   onSave: (next: BookmarkedStreamer) => void
   onCancel: () => void
 }) {
@@ -4729,47 +6407,66 @@ function BookmarkedStreamerForm({
   const [youtubeChannelId, setYoutubeChannelId] = useState(streamer.youtubeChannelId ?? '')
   const [kickSlug, setKickSlug] = useState(streamer.kickSlug ?? '')
   const [twitchLogin, setTwitchLogin] = useState(streamer.twitchLogin ?? '')
+  const [channels, setChannels] = useState<Record<string, string>>(streamer.channels ?? {})
   const [color, setColor] = useState(streamer.color && /^#[0-9A-Fa-f]{6}$/.test(streamer.color) ? streamer.color : '')
   const [youtubeColor, setYoutubeColor] = useState(streamer.youtubeColor && /^#[0-9A-Fa-f]{6}$/.test(streamer.youtubeColor) ? streamer.youtubeColor : '')
   const [kickColor, setKickColor] = useState(streamer.kickColor && /^#[0-9A-Fa-f]{6}$/.test(streamer.kickColor) ? streamer.kickColor : '')
   const [twitchColor, setTwitchColor] = useState(streamer.twitchColor && /^#[0-9A-Fa-f]{6}$/.test(streamer.twitchColor) ? streamer.twitchColor : '')
   const [openWhenLive, setOpenWhenLive] = useState(streamer.openWhenLive === true)
   const [hideLabelInCombinedChat, setHideLabelInCombinedChat] = useState(streamer.hideLabelInCombinedChat === true)
+  /** Manual chat delay offsets in seconds, as typed (see utils/chatDelay). */
+  const [chatDelaySeconds, setChatDelaySeconds] = useState<Record<ChatDelayPlatform, string>>(() => chatDelaySecondsDraft(streamer.chatDelay))
 
   useEffect(() => {
     setNickname(streamer.nickname)
     setYoutubeChannelId(streamer.youtubeChannelId ?? '')
     setKickSlug(streamer.kickSlug ?? '')
     setTwitchLogin(streamer.twitchLogin ?? '')
+    setChannels(streamer.channels ?? {})
     setColor(streamer.color && /^#[0-9A-Fa-f]{6}$/.test(streamer.color) ? streamer.color : '')
     setYoutubeColor(streamer.youtubeColor && /^#[0-9A-Fa-f]{6}$/.test(streamer.youtubeColor) ? streamer.youtubeColor : '')
     setKickColor(streamer.kickColor && /^#[0-9A-Fa-f]{6}$/.test(streamer.kickColor) ? streamer.kickColor : '')
     setTwitchColor(streamer.twitchColor && /^#[0-9A-Fa-f]{6}$/.test(streamer.twitchColor) ? streamer.twitchColor : '')
     setOpenWhenLive(streamer.openWhenLive === true)
     setHideLabelInCombinedChat(streamer.hideLabelInCombinedChat === true)
-  }, [streamer.id, streamer.nickname, streamer.youtubeChannelId, streamer.kickSlug, streamer.twitchLogin, streamer.color, streamer.youtubeColor, streamer.kickColor, streamer.twitchColor, streamer.openWhenLive, streamer.hideLabelInCombinedChat])
+    setChatDelaySeconds(chatDelaySecondsDraft(streamer.chatDelay))
+  }, [streamer.id, streamer.nickname, streamer.youtubeChannelId, streamer.kickSlug, streamer.twitchLogin, streamer.channels, streamer.color, streamer.youtubeColor, streamer.kickColor, streamer.twitchColor, streamer.openWhenLive, streamer.hideLabelInCombinedChat, streamer.chatDelay])
 
   const handleSave = () => {
     const nick = nickname.trim() || 'Unnamed'
     const yt = youtubeChannelId.trim() || undefined
     const kick = kickSlug.trim().toLowerCase() || undefined
     const twitch = twitchLogin.trim().toLowerCase() || undefined
+    // Keep channels of platforms whose extension is currently off
+    const nextChannels: Record<string, string> = {}
+    for (const [platformId, value] of Object.entries(channels)) {
+      const v = value.trim()
+      if (v) nextChannels[platformId] = embedPlatforms.find((p) => p.id === platformId)?.caseSensitiveIds ? v : v.toLowerCase()
+    }
     const hex = color.trim()
     const ytHex = youtubeColor.trim()
     const kickHex = kickColor.trim()
     const twitchHex = twitchColor.trim()
+    const offsetsMs: StreamerChatDelay['offsetsMs'] = {}
+    for (const platform of CHAT_DELAY_PLATFORMS) {
+      const seconds = Number(chatDelaySeconds[platform].trim().replace(',', '.'))
+      if (Number.isFinite(seconds) && seconds !== 0) offsetsMs[platform] = clampChatDelay(seconds * 1000)
+    }
+    const currentChatDelay = normalizeStreamerChatDelay(streamer.chatDelay)
     onSave({
       ...streamer,
       nickname: nick,
       youtubeChannelId: yt || undefined,
       kickSlug: kick,
       twitchLogin: twitch,
+      channels: Object.keys(nextChannels).length > 0 ? nextChannels : undefined,
       color: /^#[0-9A-Fa-f]{6}$/.test(hex) ? hex : undefined,
       youtubeColor: /^#[0-9A-Fa-f]{6}$/.test(ytHex) ? ytHex : undefined,
       kickColor: /^#[0-9A-Fa-f]{6}$/.test(kickHex) ? kickHex : undefined,
       twitchColor: /^#[0-9A-Fa-f]{6}$/.test(twitchHex) ? twitchHex : undefined,
       openWhenLive: openWhenLive,
       hideLabelInCombinedChat: hideLabelInCombinedChat,
+      chatDelay: currentChatDelay || Object.keys(offsetsMs).length > 0 ? { ...(currentChatDelay ?? DEFAULT_STREAMER_CHAT_DELAY), offsetsMs } : undefined,
     })
   }
 
@@ -4814,6 +6511,23 @@ function BookmarkedStreamerForm({
         <input type="checkbox" className="toggle toggle-sm" checked={hideLabelInCombinedChat} onChange={(e) => setHideLabelInCombinedChat(e.target.checked)} />
         <span>Hide source label in combined chat</span>
       </label>
+      <div className="flex items-end gap-2 flex-wrap" title="When multistreaming: seconds added to each platform's chat so it lines up with the video you watch (combined chat sorted by timestamp). The line-up video and the estimate from chat are in the dock hover card.">
+        {CHAT_DELAY_PLATFORMS.map((platform) => (
+          <label key={platform} className="flex flex-col gap-0.5 text-xs w-28">
+            <span>{platform === 'youtube' ? 'YouTube' : platform === 'kick' ? 'Kick' : 'Twitch'} chat delay (s)</span>
+            <input
+              type="number"
+              className="input input-sm input-bordered"
+              step={0.5}
+              min={-MAX_CHAT_DELAY_MS / 1000}
+              max={MAX_CHAT_DELAY_MS / 1000}
+              placeholder="0"
+              value={chatDelaySeconds[platform]}
+              onChange={(e) => setChatDelaySeconds((prev) => ({ ...prev, [platform]: e.target.value }))}
+            />
+          </label>
+        ))}
+      </div>
       <div className="flex items-center gap-2 flex-wrap">
         <label className="flex flex-col gap-0.5 text-xs flex-1 min-w-[140px]">
           <span>YouTube channel</span>
@@ -4844,6 +6558,18 @@ function BookmarkedStreamerForm({
           <button type="button" className="btn btn-ghost btn-xs" title="Clear" onClick={() => setTwitchColor('')}>✕</button>
         </div>
       </div>
+      {embedPlatforms.map((platform) => (
+        <label key={platform.id} className="flex flex-col gap-0.5 text-xs">
+          <span>{platform.label} channel</span>
+          <input
+            type="text"
+            className="input input-sm input-bordered"
+            placeholder="e.g. streamer"
+            value={channels[platform.id] ?? ''}
+            onChange={(e) => setChannels((prev) => ({ ...prev, [platform.id]: e.target.value }))}
+          />
+        </label>
+      ))}
       <div className="flex gap-2 mt-1">
         <button type="button" className="btn btn-sm btn-primary" onClick={handleSave}>
           Save
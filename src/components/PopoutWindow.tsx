@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import KickEmbed from './embeds/KickEmbed'
+import TwitchEmbed from './embeds/TwitchEmbed'
+import YouTubeEmbed from './embeds/YouTubeEmbed'
+import CombinedChat, { type AdditionalChatSource, type CombinedChatContextMenuConfig, type ExtensionChatSource } from './CombinedChat'
+import { Icon } from './Icon'
+import { omniColorForKey } from '../utils/omniColors'
+import type { ChatFilterRule } from '../utils/chatFilters'
+import type { IgnoredChatUser } from '../utils/chatIgnoreList'
+import { CHAT_POPOUT_ID } from '../utils/popouts'
+import type { EmbedAudio } from '../utils/embedAudio'
+import type { ChatDelayGroup } from '../utils/chatDelay'
+
+type ChatLinkOpenAction = 'none' | 'clipboard' | 'browser' | 'viewer'
+
+/** One embed tile in its own window (sent by OmniScreen). */
+export type EmbedPopoutState = {
+  type: 'embed'
+  key: string
+  platform: string
+  id: string
+  title: string
+  accent: string
+  autoplay: boolean
+  mute: boolean
+  /** The tile's volume/mute (per-tile volume and solo included). */
+  audio: EmbedAudio
+  /** YouTube watch/embed URLs (when the id looks like a video id). */
+  youtube?: { url: string; embedUrl: string }
+  /** Extension embed platform: embed URL with the id filled in. */
+  extension?: { url: string; label: string }
+}
+
+/** CombinedChat props that can go over IPC; callbacks come back as PopoutActions. */
+export type ChatPopoutState = {
+  type: 'chat'
+  primaryChatSourceId: string | null
+  enablePrimaryChat: boolean
+  showPrimaryChatInput: boolean
+  enabledKickSlugs: string[]
+  enabledYoutubeVideoIds: string[]
+  enabledTwitchChannels: string[]
+  /** Display name, color and hidden label per embed key (replaces the getEmbed* callbacks). */
+  embeds: Record<string, { name: string; color: string; labelHidden: boolean }>
+  primaryChatSourceLabelColor?: string
+  primaryChatSourceLabelText?: string
+  primaryChatSourceIconUrl?: string
+  maxMessages: number
+  maxMessagesScroll: number
+  showTimestamps: boolean
+  showSourceLabels: boolean
+  showPlatformIcons: boolean
+  sortMode: 'timestamp' | 'arrival'
+  highlightTerms: string[]
+  filterRules: ChatFilterRule[]
+  ignoredUsers: IgnoredChatUser[]
+  pauseEmoteAnimationsOffScreen: boolean
+  twitchThirdPartyEmotes: boolean
+  extensionChatSources: ExtensionChatSource[]
+  additionalChatSources: AdditionalChatSource[]
+  showPrimaryChatSourceFlairsAndColors: boolean
+  channelSwitchKeybind: { key: string; ctrl: boolean; shift: boolean; alt: boolean }
+  channelSwitchShortcutLabel: string
+  linkAction: ChatLinkOpenAction
+  paneSide: 'left' | 'right'
+  chatDelayOffsets: Record<string, number>
+  chatDelayEstimateGroups: ChatDelayGroup[]
+}
+
+export type PopoutState = EmbedPopoutState | ChatPopoutState
+
+/** Chat settings changed from the popout's context menu; OmniScreen applies them like its own menu. */
+export type ChatPopoutSetting =
+  | {
+      name: 'showTimestamps' | 'showLabels' | 'showPlatformIcons' | 'showPrimaryChatSourceFlairsAndColors' | 'pauseEmoteAnimationsOffScreen' | 'twitchThirdPartyEmotes' | 'showInput'
+      value: boolean
+    }
+  | { name: 'sortMode'; value: 'timestamp' | 'arrival' }
+  | { name: 'linkAction'; value: ChatLinkOpenAction }
+  | { name: 'paneSide'; value: 'left' | 'right' }
+
+/** Sent from a popout to OmniScreen (via main) with 'popout-action'. */
+export type PopoutAction =
+  | { type: 'chat-setting'; setting: ChatPopoutSetting }
+  | { type: 'ignored-users'; list: IgnoredChatUser[] }
+  | { type: 'highlight-terms'; terms: string[] }
+  | { type: 'open-link'; url: string }
+  | { type: 'chat-delay-estimate'; offsets: Record<string, number> }
+
+const ALWAYS_ON_TOP_STORAGE_KEY = 'omni-screen:popout-always-on-top'
+
+function sendAction(action: PopoutAction) {
+  window.ipcRenderer.invoke('popout-action', action).catch(() => {})
+}
+
+function EmbedPopout({ state }: { state: EmbedPopoutState }) {
+  const platform = state.platform.toLowerCase()
+  if (platform === 'kick') return <KickEmbed url={`https://kick.com/${state.id}`} autoplay={state.autoplay} mute={state.mute} fit="fill" audio={state.audio} />
+  if (platform === 'twitch') return <TwitchEmbed url={`https://www.twitch.tv/${state.id}`} autoplay={state.autoplay} mute={state.mute} fit="fill" audio={state.audio} />
+  if (platform === 'youtube' && state.youtube) {
+    return <YouTubeEmbed url={state.youtube.url} embedUrl={state.youtube.embedUrl} autoplay={state.autoplay} mute={state.mute} showLink={false} fit="fill" audio={state.audio} />
+  }
+  if (state.extension) {
+    return (
+      <iframe
+        src={state.extension.url}
+        className="w-full h-full border-0"
+        allowFullScreen
+        allow={state.autoplay && !state.mute ? 'autoplay; fullscreen' : 'fullscreen'}
+        title={`${state.extension.label} stream`}
+      />
+    )
+  }
+  return <div className="p-3 text-sm text-base-content/70">Unsupported embed: {platform}</div>
+}
+
+function ChatPopout({ state }: { state: ChatPopoutState }) {
+  const primaryChatInputRef = useRef<HTMLTextAreaElement | null>(null)
+  const primaryChatActionsRef = useRef<{ appendToInput: (text: string) => void } | null>(null)
+
+  const embedsByLowerKey = useMemo(() => {
+    const m = new Map<string, ChatPopoutState['embeds'][string]>()
+    for (const [k, v] of Object.entries(state.embeds)) m.set(k.toLowerCase(), v)
+    return m
+  }, [state.embeds])
+  const lookup = useCallback((key: string) => state.embeds[key] ?? embedsByLowerKey.get(key.toLowerCase()), [state.embeds, embedsByLowerKey])
+
+  const getEmbedDisplayName = useCallback((key: string) => lookup(key)?.name ?? '', [lookup])
+  const getEmbedColor = useCallback((key: string, displayName?: string) => lookup(key)?.color ?? omniColorForKey(key, { displayName }), [lookup])
+  const getEmbedLabelHidden = useCallback((key: string) => lookup(key)?.labelHidden === true, [lookup])
+  const setIgnoredUsers = useCallback((list: IgnoredChatUser[]) => sendAction({ type: 'ignored-users', list }), [])
+  const openLink = useCallback((url: string) => sendAction({ type: 'open-link', url }), [])
+  const reportChatDelayEstimate = useCallback((offsets: Record<string, number>) => sendAction({ type: 'chat-delay-estimate', offsets }), [])
+
+  const setting = (s: ChatPopoutSetting) => sendAction({ type: 'chat-setting', setting: s })
+  const contextMenuConfig: CombinedChatContextMenuConfig = {
+    display: {
+      showTimestamps: state.showTimestamps,
+      setShowTimestamps: (value) => setting({ name: 'showTimestamps', value }),
+      showLabels: state.showSourceLabels,
+      setShowLabels: (value) => setting({ name: 'showLabels', value }),
+      showPlatformIcons: state.showPlatformIcons,
+      setShowPlatformIcons: (value) => setting({ name: 'showPlatformIcons', value }),
+      showPrimaryChatSourceFlairsAndColors: state.showPrimaryChatSourceFlairsAndColors,
+      setShowPrimaryChatSourceFlairsAndColors: (value) => setting({ name: 'showPrimaryChatSourceFlairsAndColors', value }),
+    },
+    order: { sortMode: state.sortMode, setSortMode: (value) => setting({ name: 'sortMode', value }) },
+    emotes: {
+      pauseOffScreen: state.pauseEmoteAnimationsOffScreen,
+      setPauseOffScreen: (value) => setting({ name: 'pauseEmoteAnimationsOffScreen', value }),
+      twitchThirdParty: state.twitchThirdPartyEmotes,
+      setTwitchThirdParty: (value) => setting({ name: 'twitchThirdPartyEmotes', value }),
+    },
+    linkAction: { value: state.linkAction, setValue: (value) => setting({ name: 'linkAction', value }) },
+    paneSide: { value: state.paneSide, setPaneSide: (value) => setting({ name: 'paneSide', value }) },
+    primaryChat: state.enablePrimaryChat ? { showInput: state.showPrimaryChatInput, setShowInput: (value) => setting({ name: 'showInput', value }) } : undefined,
+    highlightTerms: state.highlightTerms,
+    addHighlightTerm: (term) => {
+      const t = term.trim()
+      if (t && !state.highlightTerms.includes(t)) sendAction({ type: 'highlight-terms', terms: [...state.highlightTerms, t] })
+    },
+    removeHighlightTerm: (term) => sendAction({ type: 'highlight-terms', terms: state.highlightTerms.filter((x) => x !== term) }),
+  }
+
+  return (
+    <CombinedChat
+      primaryChatSourceId={state.primaryChatSourceId}
+      enablePrimaryChat={state.enablePrimaryChat}
+      showPrimaryChatInput={state.showPrimaryChatInput}
+      enabledKickSlugs={state.enabledKickSlugs}
+      enabledYoutubeVideoIds={state.enabledYoutubeVideoIds}
+      enabledTwitchChannels={state.enabledTwitchChannels}
+      getEmbedDisplayName={getEmbedDisplayName}
+      getEmbedColor={getEmbedColor}
+      getEmbedLabelHidden={getEmbedLabelHidden}
+      primaryChatSourceLabelColor={state.primaryChatSourceLabelColor}
+      primaryChatSourceLabelText={state.primaryChatSourceLabelText}
+      primaryChatSourceIconUrl={state.primaryChatSourceIconUrl}
+      onOpenLink={openLink}
+      maxMessages={state.maxMessages}
+      maxMessagesScroll={state.maxMessagesScroll}
+      showTimestamps={state.showTimestamps}
+      showSourceLabels={state.showSourceLabels}
+      showPlatformIcons={state.showPlatformIcons}
+      sortMode={state.sortMode}
+      highlightTerms={state.highlightTerms}
+      filterRules={state.filterRules}
+      ignoredUsers={state.ignoredUsers}
+      onIgnoredUsersChange={setIgnoredUsers}
+      pauseEmoteAnimationsOffScreen={state.pauseEmoteAnimationsOffScreen}
+      twitchThirdPartyEmotes={state.twitchThirdPartyEmotes}
+      extensionChatSources={state.extensionChatSources}
+      additionalChatSources={state.additionalChatSources}
+      showPrimaryChatSourceFlairsAndColors={state.showPrimaryChatSourceFlairsAndColors}
+      contextMenuConfig={contextMenuConfig}
+      primaryChatInputRef={primaryChatInputRef}
+      primaryChatActionsRef={primaryChatActionsRef}
+      channelSwitchKeybind={state.channelSwitchKeybind}
+      channelSwitchShortcutLabel={state.channelSwitchShortcutLabel}
+      chatDelayOffsets={state.chatDelayOffsets}
+      chatDelayEstimateGroups={state.chatDelayEstimateGroups}
+      onChatDelayEstimate={reportChatDelayEstimate}
+    />
+  )
+}
+
+/** Root of a popout window (main.tsx renders it instead of App when loaded with ?popout=<id>). */
+export default function PopoutWindow({ popoutId }: { popoutId: string }) {
+  const [state, setState] = useState<PopoutState | null>(null)
+  const [alwaysOnTop, setAlwaysOnTop] = useState(() => {
+    try {
+      return localStorage.getItem(ALWAYS_ON_TOP_STORAGE_KEY) === 'true'
+    } catch {
+      return false
+    }
+  })
+
+  useEffect(() => {
+    const handler = (_event: unknown, next: PopoutState) => {
+      if (next && (next.type === 'chat' || next.type === 'embed')) setState(next)
+    }
+    const unsub = window.ipcRenderer.on('popout-state', handler) as unknown as () => void
+    // Ask OmniScreen for the current state (it only pushes changes otherwise)
+    window.ipcRenderer.invoke('popout-ready').catch(() => {})
+    return () => unsub()
+  }, [])
+
+  useEffect(() => {
+    window.ipcRenderer.invoke('popout-set-always-on-top', alwaysOnTop).catch(() => {})
+    try {
+      localStorage.setItem(ALWAYS_ON_TOP_STORAGE_KEY, String(alwaysOnTop))
+    } catch {
+      // ignore
+    }
+  }, [alwaysOnTop])
+
+  const title = popoutId === CHAT_POPOUT_ID ? 'Chat' : state?.type === 'embed' ? state.title : 'Embed'
+  useEffect(() => {
+    document.title = `${title} – Omni Screen`
+  }, [title])
+
+  const accent = state?.type === 'embed' ? state.accent : undefined
+
+  return (
+    <div className="h-full min-h-0 flex flex-col bg-base-100 text-base-content">
+      <header
+        className="flex items-center justify-between h-8 flex-shrink-0 bg-base-200 border-b border-base-content/10 select-none"
+        style={{ WebkitAppRegion: 'drag', borderTop: accent ? `3px solid ${accent}` : undefined } as React.CSSProperties}
+      >
+        <div className="pl-3 pr-2 text-sm font-medium text-base-content/80 truncate min-w-0">{title}</div>
+        <div className="flex items-center h-full" style={{ WebkitAppRegion: 'no-drag' } as React.CSSProperties}>
+          <button
+            type="button"
+            className={`h-full w-10 flex items-center justify-center hover:bg-base-content/10 transition-colors ${alwaysOnTop ? 'text-primary' : 'text-base-content/70'}`}
+            onClick={() => setAlwaysOnTop((v) => !v)}
+            title={alwaysOnTop ? 'Always on top (on)' : 'Always on top (off)'}
+            aria-label="Toggle always on top"
+            aria-pressed={alwaysOnTop}
+          >
+            <Icon name="map-pin" size={14} />
+          </button>
+          <button
+            type="button"
+            className="h-full w-12 flex items-center justify-center hover:bg-base-content/10 transition-colors"
+            onClick={() => window.ipcRenderer.invoke('window-minimize')}
+            title="Minimize"
+            aria-label="Minimize"
+          >
+            <span className="text-base-content/70 text-lg leading-none">−</span>
+          </button>
+          <button
+            type="button"
+            className="h-full w-12 flex items-center justify-center hover:bg-error hover:text-error-content transition-colors"
+            onClick={() => window.ipcRenderer.invoke('window-close')}
+            title="Return to main window"
+            aria-label="Close and return to main window"
+          >
+            <Icon name="x" size={14} />
+          </button>
+        </div>
+      </header>
+      <main className="flex-1 min-h-0 overflow-hidden">
+        {state == null ? (
+          <div className="h-full flex items-center justify-center text-sm text-base-content/60">Waiting for the main window…</div>
+        ) : state.type === 'embed' ? (
+          <EmbedPopout state={state} />
+        ) : (
+          <ChatPopout state={state} />
+        )}
+      </main>
+    </div>
+  )
+}
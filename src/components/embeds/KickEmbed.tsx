@@ -1,5 +1,6 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { getAppPreferences } from '../../utils/appPreferences'
+import { applyEmbedAudioRepeatedly, videoElementAudioScript, type EmbedAudio } from '../../utils/embedAudio'
 
 interface KickEmbedProps {
   url: string
@@ -9,6 +10,11 @@ interface KickEmbedProps {
   fit?: 'aspect' | 'fill'
   /** When true, always use iframe (no webview/userscript). Use in overview mode to avoid autoplay. */
   useIframeOnly?: boolean
+  /**
+   * Volume/mute set on the player's video element without reloading (mute only sets the initial state). Kick has no
+   * player API: the Kickstiny webview runs the script itself, the iframe asks main to run it in the frame.
+   */
+  audio?: EmbedAudio
 }
 
 // Extract username from Kick livestream URL (clips are not supported)
@@ -44,9 +50,14 @@ function parseKickUrl(url: string): { username: string | null } {
   }
 }
 
-export default function KickEmbed({ url, autoplay = false, mute = false, onError, fit = 'aspect', useIframeOnly = false }: KickEmbedProps) {
+export default function KickEmbed({ url, autoplay = false, mute = false, onError, fit = 'aspect', useIframeOnly = false, audio }: KickEmbedProps) {
   const [embedUrl, setEmbedUrl] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const webviewRef = useRef<Electron.WebviewTag | null>(null)
+  const [loadCount, setLoadCount] = useState(0)
+  const hasAudio = audio != null
+  const volume = audio?.volume ?? 100
+  const muted = audio?.muted ?? mute
   const kickstinyEnabled = (() => {
     if (useIframeOnly) return false
     try {
@@ -89,6 +100,31 @@ export default function KickEmbed({ url, autoplay = false, mute = false, onError
     }
   }, [url, autoplay, mute, onError, useIframeOnly])
 
+  useEffect(() => {
+    const el = webviewRef.current
+    if (!el || !kickstinyEnabled) return
+    const onReady = () => setLoadCount((c) => c + 1)
+    el.addEventListener('dom-ready', onReady)
+    return () => {
+      el.removeEventListener('dom-ready', onReady)
+    }
+  }, [embedUrl, kickstinyEnabled])
+
+  useEffect(() => {
+    if (!hasAudio || !embedUrl) return
+    return applyEmbedAudioRepeatedly(() => {
+      if (kickstinyEnabled) {
+        try {
+          webviewRef.current?.executeJavaScript(videoElementAudioScript({ volume, muted }), true).catch(() => {})
+        } catch {
+          // webview not ready yet (dom-ready applies it again)
+        }
+      } else {
+        window.ipcRenderer.invoke('embed-frame-set-audio', { url: embedUrl, volume, muted }).catch(() => {})
+      }
+    })
+  }, [hasAudio, embedUrl, kickstinyEnabled, volume, muted, loadCount])
+
   if (error) {
     return (
       <div className="bg-base-200 rounded-lg p-3">
@@ -156,6 +192,7 @@ export default function KickEmbed({ url, autoplay = false, mute = false, onError
             allowpopups={"true" as unknown as boolean}
             partition="persist:main"
             ref={(el: any) => {
+              webviewRef.current = el
               if (!el) return
               const key = '__omni_kickstiny_injected'
               const inject = async () => {
@@ -186,6 +223,7 @@ export default function KickEmbed({ url, autoplay = false, mute = false, onError
           />
         ) : (
           <iframe
+            onLoad={() => setLoadCount((c) => c + 1)}
             src={embedUrl}
             width="100%"
             height="100%"
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react'
+import type { LinkTypeDefinition, LinkTypeEmbed as LinkTypeEmbedData } from '../../utils/linkTypes'
+
+interface LinkTypeEmbedProps {
+  url: string
+  linkType: LinkTypeDefinition
+  /** Fill the parent height instead of using the link type's embedHeight. */
+  fill?: boolean
+  onOpenLink?: (url: string) => void
+}
+
+/** Embed for a registered (non built-in) link type: iframe URL or sandboxed HTML from linkType.getEmbed. */
+export default function LinkTypeEmbed({ url, linkType, fill = false, onOpenLink }: LinkTypeEmbedProps) {
+  const [embed, setEmbed] = useState<LinkTypeEmbedData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    setEmbed(null)
+    Promise.resolve()
+      .then(() => linkType.getEmbed?.(url) ?? null)
+      .then((result) => {
+        if (cancelled) return
+        // Only https iframe URLs: a javascript: URL would run in the app's own origin
+        const embedUrl = result?.embedUrl && /^https:\/\//i.test(result.embedUrl) ? result.embedUrl : undefined
+        if (!embedUrl && !result?.html) setError(`No ${linkType.name} embed for this link`)
+        else setEmbed({ embedUrl, html: result?.html })
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : `Failed to load ${linkType.name} embed`)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [url, linkType])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12 bg-base-200 rounded-lg">
+        <span className="loading loading-spinner loading-lg"></span>
+      </div>
+    )
+  }
+
+  if (error || !embed) {
+    return (
+      <div className="bg-base-200 rounded-lg p-3">
+        <p className="text-sm text-base-content/70">Failed to load {linkType.name} content</p>
+        {error && <p className="text-xs text-error mb-1">{error}</p>}
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="link link-primary text-xs break-all"
+          onClick={(e) => {
+            if (!onOpenLink) return
+            e.preventDefault()
+            e.stopPropagation()
+            onOpenLink(url)
+          }}
+        >
+          {url}
+        </a>
+      </div>
+    )
+  }
+
+  const height = fill ? '100%' : `${linkType.embedHeight ?? 400}px`
+  return (
+    <div className="bg-base-200 rounded-lg overflow-hidden w-full" style={{ height }}>
+      {embed.embedUrl ? (
+        <iframe src={embed.embedUrl} className="w-full h-full border-0" allowFullScreen allow="fullscreen" title={`${linkType.name} embed`} />
+      ) : (
+        // Extension-provided HTML: no same-origin access to the app
+        <iframe srcDoc={embed.html} sandbox="allow-scripts allow-popups" className="w-full h-full border-0" title={`${linkType.name} embed`} />
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { applyEmbedAudioRepeatedly, postTwitchAudio, type EmbedAudio } from '../../utils/embedAudio'
 
 interface TwitchEmbedProps {
   url: string
@@ -6,6 +7,8 @@ interface TwitchEmbedProps {
   mute?: boolean
   onError?: (error: string) => void
   fit?: 'aspect' | 'fill'
+  /** Volume/mute applied through the embed player proxy without reloading (mute only sets the initial state). */
+  audio?: EmbedAudio
 }
 
 function parseTwitchUrl(url: string): { channel: string | null } {
@@ -41,9 +44,19 @@ function getTwitchParentParams(): string[] {
   return ['localhost', '127.0.0.1']
 }
 
-export default function TwitchEmbed({ url, autoplay = true, mute = true, onError, fit = 'aspect' }: TwitchEmbedProps) {
+export default function TwitchEmbed({ url, autoplay = true, mute = true, onError, fit = 'aspect', audio }: TwitchEmbedProps) {
   const [embedUrl, setEmbedUrl] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const frameRef = useRef<HTMLIFrameElement | null>(null)
+  const [loadCount, setLoadCount] = useState(0)
+  const hasAudio = audio != null
+  const volume = audio?.volume ?? 100
+  const muted = audio?.muted ?? mute
+
+  useEffect(() => {
+    if (!hasAudio || !embedUrl) return
+    return applyEmbedAudioRepeatedly(() => postTwitchAudio(frameRef.current, { volume, muted }))
+  }, [hasAudio, embedUrl, volume, muted, loadCount])
 
   useEffect(() => {
     if (!url) {
@@ -116,6 +129,8 @@ export default function TwitchEmbed({ url, autoplay = true, mute = true, onError
         }
       >
         <iframe
+          ref={frameRef}
+          onLoad={() => setLoadCount((c) => c + 1)}
           src={embedUrl}
           width="100%"
           height="100%"
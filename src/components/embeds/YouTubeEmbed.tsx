@@ -1,4 +1,5 @@
-import { memo } from 'react'
+import { memo, useEffect, useRef, useState } from 'react'
+import { applyEmbedAudioRepeatedly, postYouTubeAudio, type EmbedAudio } from '../../utils/embedAudio'
 
 interface YouTubeEmbedProps {
   url: string
@@ -7,9 +8,22 @@ interface YouTubeEmbedProps {
   mute?: boolean
   showLink?: boolean
   fit?: 'aspect' | 'fill'
+  /** Volume/mute applied through the IFrame API without reloading (mute only sets the initial state). */
+  audio?: EmbedAudio
 }
 
-function YouTubeEmbed({ url, embedUrl, autoplay = false, mute = false, showLink = true, fit = 'aspect' }: YouTubeEmbedProps) {
+function YouTubeEmbed({ url, embedUrl, autoplay = false, mute = false, showLink = true, fit = 'aspect', audio }: YouTubeEmbedProps) {
+  const frameRef = useRef<HTMLIFrameElement | null>(null)
+  const [loadCount, setLoadCount] = useState(0)
+  const hasAudio = audio != null
+  const volume = audio?.volume ?? 100
+  const muted = audio?.muted ?? mute
+
+  useEffect(() => {
+    if (!hasAudio) return
+    return applyEmbedAudioRepeatedly(() => postYouTubeAudio(frameRef.current, { volume, muted }))
+  }, [hasAudio, volume, muted, loadCount])
+
   // Validate embedUrl before using it
   if (!embedUrl || typeof embedUrl !== 'string' || embedUrl.trim() === '') {
     return (
@@ -56,6 +70,9 @@ function YouTubeEmbed({ url, embedUrl, autoplay = false, mute = false, showLink
       
       // Add origin parameter to help YouTube verify the embedder
       urlObj.searchParams.set('origin', 'https://com.nickmarcha.omni-screen')
+
+      // IFrame API commands (volume/mute) over postMessage
+      if (audio) urlObj.searchParams.set('enablejsapi', '1')
       
       return urlObj.toString()
     } catch (error) {
@@ -89,6 +106,8 @@ function YouTubeEmbed({ url, embedUrl, autoplay = false, mute = false, showLink
     <div className={isFill ? 'w-full h-full' : ''}>
       <div className={`${isFill ? 'w-full h-full' : 'aspect-video w-full mb-4'} rounded-lg overflow-hidden bg-base-200`}>
         <iframe
+          ref={frameRef}
+          onLoad={() => setLoadCount((c) => c + 1)}
           width="100%"
           height="100%"
           src={finalEmbedUrl}
@@ -116,6 +135,8 @@ export default memo(YouTubeEmbed, (prevProps, nextProps) => {
     prevProps.embedUrl === nextProps.embedUrl &&
     prevProps.autoplay === nextProps.autoplay &&
     prevProps.mute === nextProps.mute &&
-    prevProps.showLink === nextProps.showLink
+    prevProps.showLink === nextProps.showLink &&
+    prevProps.audio?.volume === nextProps.audio?.volume &&
+    prevProps.audio?.muted === nextProps.audio?.muted
   )
 })
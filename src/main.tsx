@@ -1,8 +1,10 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import PopoutWindow from './components/PopoutWindow'
 import './index.css'
 import { logger } from './utils/logger'
+import { getPopoutIdFromLocation } from './utils/popouts'
 
 // Apply theme immediately on load (before React renders)
 function applyInitialTheme() {
@@ -42,9 +44,12 @@ function applyInitialTheme() {
 // Apply theme before React renders
 applyInitialTheme()
 
+// Popout windows (embed or chat moved out of OmniScreen) load the same page with ?popout=<id>
+const popoutId = getPopoutIdFromLocation()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {popoutId ? <PopoutWindow popoutId={popoutId} /> : <App />}
   </React.StrictMode>,
 )
 
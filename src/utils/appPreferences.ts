@@ -51,9 +51,27 @@ export interface UserscriptSettings {
   kickstiny: boolean
 }
 
+export interface ExtensionPreferences {
+  /** Registry index JSON browsed in the Extensions menu; empty hides the registry. */
+  registryUrl: string
+}
+
+export interface NotificationPreferences {
+  /** Combined chat messages mentioning our nick or a highlight term. */
+  mentions: boolean
+  /** Primary chat whispers. */
+  whispers: boolean
+  /** Bookmarked streamers going live. */
+  goLive: boolean
+  /** No notifications between start and end (local time, HH:MM; may span midnight). */
+  quietHours: { enabled: boolean; start: string; end: string }
+}
+
 export interface AppPreferences {
   theme: ThemeSettings
   userscripts: UserscriptSettings
+  extensions: ExtensionPreferences
+  notifications: NotificationPreferences
 }
 
 const STORAGE_KEY = 'omni-screen:app-preferences'
@@ -103,6 +121,19 @@ export const darkThemes: DarkTheme[] = [
 export const defaultPreferences: AppPreferences = {
   theme: { mode: 'system', lightTheme: 'retro', darkTheme: 'business', embedTheme: 'follow' },
   userscripts: { kickstiny: true },
+  extensions: { registryUrl: '' },
+  notifications: {
+    mentions: true,
+    whispers: true,
+    goLive: true,
+    quietHours: { enabled: false, start: '23:00', end: '08:00' },
+  },
+}
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function parseBoolean(v: unknown, fallback: boolean): boolean {
+  return typeof v === 'boolean' ? v : fallback
 }
 
 export function getAppPreferences(): AppPreferences {
@@ -123,6 +154,26 @@ export function getAppPreferences(): AppPreferences {
             ? parsed.userscripts.kickstiny
             : defaultPreferences.userscripts.kickstiny,
       },
+      extensions: {
+        registryUrl:
+          typeof parsed?.extensions?.registryUrl === 'string'
+            ? parsed.extensions.registryUrl
+            : defaultPreferences.extensions.registryUrl,
+      },
+      notifications: {
+        mentions: parseBoolean(parsed?.notifications?.mentions, defaultPreferences.notifications.mentions),
+        whispers: parseBoolean(parsed?.notifications?.whispers, defaultPreferences.notifications.whispers),
+        goLive: parseBoolean(parsed?.notifications?.goLive, defaultPreferences.notifications.goLive),
+        quietHours: {
+          enabled: parseBoolean(parsed?.notifications?.quietHours?.enabled, defaultPreferences.notifications.quietHours.enabled),
+          start: TIME_REGEX.test(parsed?.notifications?.quietHours?.start)
+            ? parsed.notifications.quietHours.start
+            : defaultPreferences.notifications.quietHours.start,
+          end: TIME_REGEX.test(parsed?.notifications?.quietHours?.end)
+            ? parsed.notifications.quietHours.end
+            : defaultPreferences.notifications.quietHours.end,
+        },
+      },
     }
   } catch {
     return defaultPreferences
@@ -0,0 +1,157 @@
+/**
+ * Chat delay alignment for multistreams
+ *
+ * A streamer live on YouTube, Kick and Twitch at once (one BookmarkedStreamer) has a different stream latency on each
+ * platform, so each chat reacts to a moment at a different time. Offsets (ms, per channel) are added to a chat's
+ * message times in CombinedChat's timestamp sort mode so the chats line up with the video being watched; messages
+ * shifted into the future are held back until then.
+ *
+ * Offsets are set per platform on the streamer (manual), or estimated from the chat itself: the same text showing up
+ * in two chats (emote bursts, copypastas) gives the time difference between them; the estimate is the median over the
+ * recent matches, relative to the chat of the watched video's platform.
+ */
+
+export type ChatDelayPlatform = 'youtube' | 'kick' | 'twitch'
+
+export const CHAT_DELAY_PLATFORMS: ChatDelayPlatform[] = ['youtube', 'kick', 'twitch']
+
+/** Chat delay settings of a bookmarked streamer. */
+export interface StreamerChatDelay {
+  /** Platform whose video the chats are lined up with (the reference for estimates). */
+  videoPlatform: ChatDelayPlatform
+  /** Offset per platform, in ms (added to that platform's message times). */
+  offsetsMs: Partial<Record<ChatDelayPlatform, number>>
+  /** When true, offsets are estimated from the chats (turning it off keeps the last estimate as manual offsets). */
+  auto: boolean
+}
+
+export const DEFAULT_STREAMER_CHAT_DELAY: StreamerChatDelay = { videoPlatform: 'youtube', offsetsMs: {}, auto: false }
+
+/** Channels estimated together: the watched video's chat and the streamer's other chats (chat delay keys). */
+export interface ChatDelayGroup {
+  referenceKey: string
+  keys: string[]
+}
+
+/** Chat message used for estimates (CombinedChat: Kick/YouTube/Twitch chat messages). */
+export interface ChatDelaySample {
+  key: string
+  tsMs: number
+  text: string
+}
+
+/** Largest offset accepted (manual or estimated). */
+export const MAX_CHAT_DELAY_MS = 60_000
+/** Only messages this recent are used for estimates. */
+const ESTIMATE_WINDOW_MS = 5 * 60_000
+/** Messages with the same text closer than this belong to one burst. */
+const BURST_GAP_MS = 4_000
+const MIN_BURST_SIZE = 3
+/** Texts at least this long count on their own (copypastas). */
+const MIN_COPYPASTA_LENGTH = 20
+const MIN_MATCHES = 3
+
+function isChatDelayPlatform(v: unknown): v is ChatDelayPlatform {
+  return v === 'youtube' || v === 'kick' || v === 'twitch'
+}
+
+export function clampChatDelay(ms: number): number {
+  return Number.isFinite(ms) ? Math.max(-MAX_CHAT_DELAY_MS, Math.min(MAX_CHAT_DELAY_MS, Math.round(ms))) : 0
+}
+
+/** Key of a chat channel for offsets (YouTube video ids keep their case). */
+export function makeChatDelayKey(platform: ChatDelayPlatform, id: string): string {
+  return `${platform}:${platform === 'youtube' ? id : id.toLowerCase()}`
+}
+
+/** Clean up a stored streamer setting; undefined when it isn't one. */
+export function normalizeStreamerChatDelay(raw: unknown): StreamerChatDelay | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined
+  const r = raw as Record<string, unknown>
+  const offsetsMs: StreamerChatDelay['offsetsMs'] = {}
+  if (r.offsetsMs && typeof r.offsetsMs === 'object') {
+    for (const [platform, v] of Object.entries(r.offsetsMs as Record<string, unknown>)) {
+      if (isChatDelayPlatform(platform) && typeof v === 'number' && Number.isFinite(v)) offsetsMs[platform] = clampChatDelay(v)
+    }
+  }
+  return {
+    videoPlatform: isChatDelayPlatform(r.videoPlatform) ? r.videoPlatform : 'youtube',
+    offsetsMs,
+    auto: r.auto === true,
+  }
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/** When each text "happened" in one chat: the start of each burst, or every message of a long text. */
+function findMoments(samples: ChatDelaySample[]): Map<string, number[]> {
+  const byText = new Map<string, number[]>()
+  for (const s of samples) {
+    const text = normalizeText(s.text)
+    if (!text) continue
+    const list = byText.get(text) ?? []
+    list.push(s.tsMs)
+    byText.set(text, list)
+  }
+  const moments = new Map<string, number[]>()
+  byText.forEach((times, text) => {
+    times.sort((a, b) => a - b)
+    if (text.length >= MIN_COPYPASTA_LENGTH) {
+      moments.set(text, times)
+      return
+    }
+    const starts: number[] = []
+    let start = times[0]
+    let size = 0
+    let last = -Infinity
+    for (const t of times) {
+      if (t - last > BURST_GAP_MS) {
+        if (size >= MIN_BURST_SIZE) starts.push(start)
+        start = t
+        size = 0
+      }
+      size++
+      last = t
+    }
+    if (size >= MIN_BURST_SIZE) starts.push(start)
+    if (starts.length > 0) moments.set(text, starts)
+  })
+  return moments
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Estimated offset of each of the group's channels (0 for the reference); channels without enough matches are left
+ * out. Rounded to 100 ms.
+ */
+export function estimateChatDelays(samples: ChatDelaySample[], group: ChatDelayGroup): Record<string, number> {
+  const newest = samples.reduce((max, s) => Math.max(max, s.tsMs), 0)
+  const recent = samples.filter((s) => s.tsMs >= newest - ESTIMATE_WINDOW_MS)
+  const momentsOf = (key: string) => findMoments(recent.filter((s) => s.key === key))
+  const reference = momentsOf(group.referenceKey)
+  const result: Record<string, number> = { [group.referenceKey]: 0 }
+  for (const key of group.keys) {
+    if (key === group.referenceKey) continue
+    const diffs: number[] = []
+    momentsOf(key).forEach((times, text) => {
+      const refTimes = reference.get(text)
+      if (!refTimes) return
+      for (const t of times) {
+        let best: number | null = null
+        for (const r of refTimes) {
+          if (Math.abs(r - t) <= MAX_CHAT_DELAY_MS && (best == null || Math.abs(r - t) < Math.abs(best - t))) best = r
+        }
+        if (best != null) diffs.push(best - t)
+      }
+    })
+    if (diffs.length >= MIN_MATCHES) result[key] = clampChatDelay(Math.round(median(diffs) / 100) * 100)
+  }
+  return result
+}
@@ -0,0 +1,244 @@
+/**
+ * Combined Chat filter rules
+ *
+ * User-defined rules (Settings > Chat > Filter rules) matched against every chat message in Combined Chat.
+ * All conditions of a rule must match; a rule without conditions matches nothing. Each matching enabled rule
+ * applies its action: hide, highlight (custom color), collapse (click to expand), notify (desktop notification
+ * for live messages) or route (moved to the Filtered pane above the feed). Rules are kept in localStorage with the
+ * other omni-screen:combined-* settings and can be exported/imported as JSON.
+ */
+
+export type ChatFilterAction = 'hide' | 'highlight' | 'collapse' | 'notify' | 'route'
+
+export const CHAT_FILTER_ACTIONS: Array<{ value: ChatFilterAction; label: string }> = [
+  { value: 'hide', label: 'Hide' },
+  { value: 'highlight', label: 'Highlight' },
+  { value: 'collapse', label: 'Collapse' },
+  { value: 'notify', label: 'Notify' },
+  { value: 'route', label: 'Move to Filtered pane' },
+]
+
+/** Source value matching the primary chat source, whatever its id. */
+export const CHAT_FILTER_PRIMARY_SOURCE = 'primary'
+
+export interface ChatFilterMatch {
+  /** 'kick', 'youtube', 'twitch', 'primary', an extension chat provider id or chat source id. Unset: any source. */
+  source?: string
+  /** Kick slug, YouTube video id, Twitch login or provider channel (case-insensitive). */
+  channel?: string
+  /** Any of these nicks (case-insensitive). */
+  nicks?: string[]
+  /** Regular expression tested against the message text (case-insensitive). */
+  contentRegex?: string
+  /** true: only emote-only messages; false: only messages with text. */
+  emoteOnly?: boolean
+  /** true: only messages with a link; false: only messages without one. */
+  hasLink?: boolean
+  /** Message text length bounds (inclusive). */
+  minLength?: number
+  maxLength?: number
+}
+
+export interface ChatFilterRule {
+  id: string
+  name: string
+  enabled: boolean
+  match: ChatFilterMatch
+  action: ChatFilterAction
+  /** Highlight color (#rrggbb). */
+  color?: string
+}
+
+/** What a filter sees of a message (computed by CombinedChat). */
+export interface ChatFilterMessage {
+  source: string
+  isPrimary: boolean
+  channel?: string
+  nick: string
+  text: string
+  emoteOnly: boolean
+}
+
+/** Combined effect of all rules matching one message. */
+export interface ChatFilterOutcome {
+  hide: boolean
+  route: boolean
+  collapse: boolean
+  notify: boolean
+  /** Color of the first matching highlight rule. */
+  highlightColor?: string
+  /** Names of the matching rules (shown on collapsed messages and notifications). */
+  ruleNames: string[]
+}
+
+export const DEFAULT_CHAT_FILTER_HIGHLIGHT_COLOR = '#f59e0b'
+
+const STORAGE_KEY = 'omni-screen:combined-filter-rules'
+const EXPORT_FORMAT = 'omni-screen-chat-filter-rules'
+const LINK_TEST_REGEX = /(https?:\/\/\S+|#(?:kick|twitch|youtube)\/\S+)/i
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+function optionalLength(v: unknown): number | undefined {
+  return typeof v === 'number' && Number.isFinite(v) && v >= 0 ? Math.floor(v) : undefined
+}
+
+export function createChatFilterRuleId(): string {
+  return `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/** Error message when the pattern is not a valid regular expression, otherwise null. */
+export function getChatFilterRegexError(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'i')
+    return null
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e)
+  }
+}
+
+/** Clean up one rule (stored or imported); null when it isn't a rule. */
+export function normalizeChatFilterRule(raw: unknown): ChatFilterRule | null {
+  if (!isRecord(raw) || !isRecord(raw.match)) return null
+  const action = CHAT_FILTER_ACTIONS.find((a) => a.value === raw.action)?.value
+  if (!action) return null
+  const m = raw.match
+  const match: ChatFilterMatch = {}
+  if (typeof m.source === 'string' && m.source.trim()) match.source = m.source.trim()
+  if (typeof m.channel === 'string' && m.channel.trim()) match.channel = m.channel.trim()
+  if (Array.isArray(m.nicks)) {
+    const nicks = m.nicks.flatMap((n) => (typeof n === 'string' && n.trim() ? [n.trim()] : []))
+    if (nicks.length > 0) match.nicks = nicks
+  }
+  if (typeof m.contentRegex === 'string' && m.contentRegex && getChatFilterRegexError(m.contentRegex) == null) match.contentRegex = m.contentRegex
+  if (typeof m.emoteOnly === 'boolean') match.emoteOnly = m.emoteOnly
+  if (typeof m.hasLink === 'boolean') match.hasLink = m.hasLink
+  const minLength = optionalLength(m.minLength)
+  const maxLength = optionalLength(m.maxLength)
+  if (minLength != null) match.minLength = minLength
+  if (maxLength != null) match.maxLength = maxLength
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createChatFilterRuleId(),
+    name: typeof raw.name === 'string' ? raw.name : '',
+    enabled: raw.enabled !== false,
+    match,
+    action,
+    color: action === 'highlight' ? (typeof raw.color === 'string' && /^#[0-9a-fA-F]{6}$/.test(raw.color) ? raw.color : DEFAULT_CHAT_FILTER_HIGHLIGHT_COLOR) : undefined,
+  }
+}
+
+export function normalizeChatFilterRules(raw: unknown): ChatFilterRule[] {
+  if (!Array.isArray(raw)) return []
+  const rules: ChatFilterRule[] = []
+  for (const item of raw) {
+    const rule = normalizeChatFilterRule(item)
+    if (rule && !rules.some((r) => r.id === rule.id)) rules.push(rule)
+  }
+  return rules
+}
+
+/** Saved rules (OmniScreen writes them back with the other combined chat settings). */
+export function loadChatFilterRules(): ChatFilterRule[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? normalizeChatFilterRules(JSON.parse(raw)) : []
+  } catch {
+    return []
+  }
+}
+
+/** JSON file contents for Export. */
+export function exportChatFilterRules(rules: ChatFilterRule[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: 1, rules }, null, 2)
+}
+
+/**
+ * Rules from an exported file (or a plain array of rules). Imported rules get new ids so they never replace
+ * existing ones. Throws when the text is not a rules export.
+ */
+export function parseChatFilterRulesImport(text: string): ChatFilterRule[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+  const list = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.rules) ? parsed.rules : null
+  if (!list) throw new Error('File does not contain filter rules')
+  const rules = normalizeChatFilterRules(list)
+  if (rules.length === 0 && list.length > 0) throw new Error('No valid filter rules in file')
+  return rules.map((r) => ({ ...r, id: createChatFilterRuleId() }))
+}
+
+/** True when the rule has at least one condition (rules without conditions never match). */
+export function hasChatFilterConditions(match: ChatFilterMatch): boolean {
+  return Object.values(match).some((v) => v !== undefined)
+}
+
+/** Short description of a rule's conditions for lists. */
+export function describeChatFilterMatch(match: ChatFilterMatch): string {
+  const parts: string[] = []
+  if (match.source) parts.push(match.source === CHAT_FILTER_PRIMARY_SOURCE ? 'primary chat' : match.source)
+  if (match.channel) parts.push(`channel ${match.channel}`)
+  if (match.nicks?.length) parts.push(`nick ${match.nicks.join(', ')}`)
+  if (match.contentRegex) parts.push(`/${match.contentRegex}/`)
+  if (match.emoteOnly != null) parts.push(match.emoteOnly ? 'emote-only' : 'not emote-only')
+  if (match.hasLink != null) parts.push(match.hasLink ? 'with link' : 'without link')
+  if (match.minLength != null) parts.push(`≥ ${match.minLength} chars`)
+  if (match.maxLength != null) parts.push(`≤ ${match.maxLength} chars`)
+  return parts.length > 0 ? parts.join(' · ') : 'no conditions'
+}
+
+const regexCache = new Map<string, RegExp | null>()
+
+function getRegex(pattern: string): RegExp | null {
+  let re = regexCache.get(pattern)
+  if (re === undefined) {
+    try {
+      re = new RegExp(pattern, 'i')
+    } catch {
+      re = null
+    }
+    if (regexCache.size > 200) regexCache.clear()
+    regexCache.set(pattern, re)
+  }
+  return re
+}
+
+function ruleMatches(match: ChatFilterMatch, msg: ChatFilterMessage): boolean {
+  if (!hasChatFilterConditions(match)) return false
+  if (match.source && !(match.source === CHAT_FILTER_PRIMARY_SOURCE ? msg.isPrimary : match.source === msg.source)) return false
+  if (match.channel && match.channel.toLowerCase() !== (msg.channel ?? '').toLowerCase()) return false
+  if (match.nicks?.length) {
+    const nick = msg.nick.toLowerCase()
+    if (!match.nicks.some((n) => n.toLowerCase() === nick)) return false
+  }
+  if (match.contentRegex) {
+    const re = getRegex(match.contentRegex)
+    if (!re || !re.test(msg.text)) return false
+  }
+  if (match.emoteOnly != null && match.emoteOnly !== msg.emoteOnly) return false
+  if (match.hasLink != null && match.hasLink !== LINK_TEST_REGEX.test(msg.text)) return false
+  const length = msg.text.trim().length
+  if (match.minLength != null && length < match.minLength) return false
+  if (match.maxLength != null && length > match.maxLength) return false
+  return true
+}
+
+/** Apply all enabled rules to a message; null when none match. */
+export function evaluateChatFilterRules(rules: ChatFilterRule[], msg: ChatFilterMessage): ChatFilterOutcome | null {
+  let outcome: ChatFilterOutcome | null = null
+  for (const rule of rules) {
+    if (!rule.enabled || !ruleMatches(rule.match, msg)) continue
+    outcome ??= { hide: false, route: false, collapse: false, notify: false, ruleNames: [] }
+    outcome.ruleNames.push(rule.name || describeChatFilterMatch(rule.match))
+    if (rule.action === 'hide') outcome.hide = true
+    else if (rule.action === 'route') outcome.route = true
+    else if (rule.action === 'collapse') outcome.collapse = true
+    else if (rule.action === 'notify') outcome.notify = true
+    else if (rule.action === 'highlight') outcome.highlightColor ??= rule.color ?? DEFAULT_CHAT_FILTER_HIGHLIGHT_COLOR
+  }
+  return outcome
+}
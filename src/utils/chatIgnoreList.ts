@@ -0,0 +1,88 @@
+/**
+ * Combined Chat ignore list
+ *
+ * Users whose messages are dropped from Combined Chat before they enter the message list (so they don't use up the
+ * max messages budget). An entry is for one platform ('kick', 'youtube', 'twitch', a chat source or chat provider
+ * id) or for any platform, and can expire like Link Scroller mutes. Added from the user popup (right-click a nick),
+ * listed in Settings > Chat.
+ */
+
+export interface IgnoredChatUser {
+  nick: string
+  /** Platform key of the messages to drop; null for any platform. */
+  platform: string | null
+  /** Timestamp when the entry expires; null for permanent. */
+  until: number | null
+}
+
+export const IGNORE_DURATIONS: Array<{ label: string; ms: number | null }> = [
+  { label: '10 minutes', ms: 10 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Permanently', ms: null },
+]
+
+const STORAGE_KEY = 'omni-screen:combined-ignored-users'
+
+function sameEntry(a: IgnoredChatUser, nick: string, platform: string | null): boolean {
+  return a.platform === platform && a.nick.toLowerCase() === nick.toLowerCase()
+}
+
+/** Drop entries whose expiry has passed. */
+export function cleanupExpiredIgnores(list: IgnoredChatUser[], now = Date.now()): IgnoredChatUser[] {
+  const kept = list.filter((u) => u.until == null || u.until > now)
+  return kept.length === list.length ? list : kept
+}
+
+/** Saved entries without expired ones (OmniScreen writes them back with the other combined chat settings). */
+export function loadIgnoredChatUsers(): IgnoredChatUser[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(parsed)) return []
+    return cleanupExpiredIgnores(
+      parsed.flatMap((u): IgnoredChatUser[] =>
+        u && typeof u.nick === 'string' && u.nick.trim()
+          ? [{
+              nick: u.nick.trim(),
+              platform: typeof u.platform === 'string' && u.platform ? u.platform : null,
+              until: typeof u.until === 'number' && Number.isFinite(u.until) ? u.until : null,
+            }]
+          : [],
+      ),
+    )
+  } catch {
+    return []
+  }
+}
+
+/** Add (or replace the expiry of) an entry; durationMs null ignores permanently. */
+export function addIgnoredChatUser(list: IgnoredChatUser[], nick: string, platform: string | null, durationMs: number | null): IgnoredChatUser[] {
+  const trimmed = nick.trim()
+  if (!trimmed) return list
+  const until = durationMs == null ? null : Date.now() + durationMs
+  return [...cleanupExpiredIgnores(list).filter((u) => !sameEntry(u, trimmed, platform)), { nick: trimmed, platform, until }]
+}
+
+export function removeIgnoredChatUser(list: IgnoredChatUser[], entry: IgnoredChatUser): IgnoredChatUser[] {
+  return list.filter((u) => !sameEntry(u, entry.nick, entry.platform))
+}
+
+/** True when a message by nick on platform is ignored by an unexpired entry. */
+export function isIgnoredChatUser(list: IgnoredChatUser[], nick: string, platform: string, now = Date.now()): boolean {
+  if (list.length === 0 || !nick) return false
+  const lower = nick.toLowerCase()
+  return list.some((u) => (u.platform == null || u.platform === platform) && u.nick.toLowerCase() === lower && (u.until == null || u.until > now))
+}
+
+/** "permanent", or the remaining time like "3h 20m" / "2d 4h". */
+export function formatIgnoreRemaining(entry: IgnoredChatUser, now = Date.now()): string {
+  if (entry.until == null) return 'permanent'
+  const totalMin = Math.max(0, Math.ceil((entry.until - now) / 60000))
+  const days = Math.floor(totalMin / 1440)
+  const hours = Math.floor((totalMin % 1440) / 60)
+  const minutes = totalMin % 60
+  if (days > 0) return `${days}d ${hours}h left`
+  if (hours > 0) return `${hours}h ${minutes}m left`
+  return `${minutes}m left`
+}
@@ -0,0 +1,43 @@
+/**
+ * Desktop notifications
+ *
+ * Native notifications (shown by main with Electron's Notification) for combined chat mentions, primary chat
+ * whispers, bookmarked streamers going live and chat filter rules with the Notify action. The per-type toggles and
+ * quiet hours are in App Settings → Notifications. Clicking a notification focuses the window and sends the
+ * notification's target back as 'notification-clicked' (OmniScreen opens the embed or chat, CombinedChat opens the
+ * whisper conversation).
+ */
+
+import { getAppPreferences, type NotificationPreferences } from './appPreferences'
+
+export type DesktopNotificationKind = 'mention' | 'whisper' | 'goLive' | 'filter'
+
+export type DesktopNotificationTarget =
+  | { type: 'chat' }
+  | { type: 'whisper'; nick: string }
+  | { type: 'embed'; key: string }
+
+function minutesOfDay(time: string): number {
+  const [h, m] = time.split(':').map(Number)
+  return (h || 0) * 60 + (m || 0)
+}
+
+/** True when quiet hours are on and now is inside them (start > end spans midnight). */
+export function isInQuietHours(prefs: NotificationPreferences, now = new Date()): boolean {
+  if (!prefs.quietHours.enabled) return false
+  const start = minutesOfDay(prefs.quietHours.start)
+  const end = minutesOfDay(prefs.quietHours.end)
+  const current = now.getHours() * 60 + now.getMinutes()
+  if (start === end) return false
+  return start < end ? current >= start && current < end : current >= start || current < end
+}
+
+/** Show a notification unless its type is turned off or it's quiet hours (filter rule notifications have no toggle). */
+export function showDesktopNotification(kind: DesktopNotificationKind, title: string, body: string, target?: DesktopNotificationTarget): void {
+  const prefs = getAppPreferences().notifications
+  if (kind === 'mention' && !prefs.mentions) return
+  if (kind === 'whisper' && !prefs.whispers) return
+  if (kind === 'goLive' && !prefs.goLive) return
+  if (isInQuietHours(prefs)) return
+  window.ipcRenderer.invoke('show-notification', { title, body: body.slice(0, 200), target }).catch(() => {})
+}
@@ -0,0 +1,51 @@
+/**
+ * Embed audio control
+ *
+ * Volume and mute for stream players without reloading them (the embed URLs' mute params only set the initial state):
+ * - YouTube: IFrame API commands over postMessage (the embed URL has enablejsapi=1);
+ * - Twitch: the embed player proxy messages that Twitch's embed script uses;
+ * - Kick: no player API, so the video element is set by script (in the Kickstiny webview, or in the iframe's frame by
+ *   main via 'embed-frame-set-audio').
+ * Players only accept commands once loaded, so the state is sent again a few times after (re)load.
+ * OmniScreen decides each tile's audio (per-tile volume, solo, audio follows hover); see getEmbedAudio there.
+ */
+
+export interface EmbedAudio {
+  /** 0–100. */
+  volume: number
+  muted: boolean
+}
+
+/** Delays after load at which the audio state is sent again (players ignore commands until they're ready). */
+const APPLY_DELAYS_MS = [0, 1000, 3000, 6000]
+
+export function clampVolume(v: number): number {
+  return Number.isFinite(v) ? Math.min(100, Math.max(0, Math.round(v))) : 100
+}
+
+export function postYouTubeAudio(frame: HTMLIFrameElement | null, audio: EmbedAudio): void {
+  const target = frame?.contentWindow
+  if (!target) return
+  const command = (func: string, args: unknown[] = []) => target.postMessage(JSON.stringify({ event: 'command', func, args }), '*')
+  command('setVolume', [clampVolume(audio.volume)])
+  command(audio.muted ? 'mute' : 'unMute')
+}
+
+export function postTwitchAudio(frame: HTMLIFrameElement | null, audio: EmbedAudio): void {
+  const target = frame?.contentWindow
+  if (!target) return
+  const command = (eventName: string, params: unknown) => target.postMessage({ eventName, params, namespace: 'twitch-embed-player-proxy' }, '*')
+  command('setVolume', clampVolume(audio.volume) / 100)
+  command('setMuted', audio.muted)
+}
+
+/** Script that sets volume/muted on every video element of a page (Kick player). */
+export function videoElementAudioScript(audio: EmbedAudio): string {
+  return `document.querySelectorAll('video').forEach((v) => { v.volume = ${clampVolume(audio.volume) / 100}; v.muted = ${audio.muted ? 'true' : 'false'}; });`
+}
+
+/** Run apply now and again after the player had time to load; returns a cleanup that cancels pending runs. */
+export function applyEmbedAudioRepeatedly(apply: () => void): () => void {
+  const timers = APPLY_DELAYS_MS.map((ms) => setTimeout(apply, ms))
+  return () => timers.forEach((t) => clearTimeout(t))
+}
@@ -0,0 +1,259 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * Renderer extension UI
+ *
+ * Extensions can ship a renderer.js next to their bundle. It runs in sandboxed iframes (scripts only: no access to
+ * the app's DOM, storage or IPC) and talks to the app over postMessage through the `omniScreen` global the bootstrap
+ * below sets up. A hidden frame per extension registers contributions (CombinedChat message actions, dock buttons,
+ * chat context menu items, Settings tabs) and runs their handlers; each open Settings tab gets its own frame that
+ * runs the same script and renders into its body.
+ */
+
+export type ExtensionUiPoint = 'messageAction' | 'dock' | 'contextMenu' | 'settingsTab'
+
+export interface ExtensionUiItem {
+  extensionId: string
+  point: ExtensionUiPoint
+  /** Unique per extension and point. */
+  id: string
+  label: string
+  /** Image URL (dock buttons; optional elsewhere). */
+  icon?: string
+  title?: string
+}
+
+/** Settings tab (or other surface) a frame renders; null for an extension's background frame. */
+export interface ExtensionUiView {
+  point: 'settingsTab'
+  id: string
+}
+
+/** Commands frames can send to the app (omniScreen.openLink / appendToChatInput). */
+export interface ExtensionUiCommands {
+  openLink: (url: string) => void
+  appendToChatInput: (text: string) => void
+}
+
+/** A running extension's renderer script; loadId changes on every reload so frames start over with the new script. */
+export interface RendererExtensionInfo {
+  id: string
+  name: string
+  loadId: number
+}
+
+interface RendererExtension extends RendererExtensionInfo {
+  script: string
+}
+
+const POINTS: ExtensionUiPoint[] = ['messageAction', 'dock', 'contextMenu', 'settingsTab']
+
+/** Runs inside each frame before the extension's script. */
+const BOOTSTRAP_SCRIPT = `(function () {
+  var view = null
+  var handlers = {}
+  function send(msg) {
+    msg.source = 'omni-screen-ext'
+    parent.postMessage(msg, '*')
+  }
+  function report(err) {
+    send({ type: 'error', error: String((err && err.message) || err) })
+  }
+  function register(point, item, handler) {
+    if (!item || typeof item.id !== 'string' || !item.id) throw new Error('Contribution id is required')
+    handlers[point + ':' + item.id] = handler
+    if (!view) {
+      send({ type: 'register', point: point, item: { id: item.id, label: String(item.label || item.id), icon: typeof item.icon === 'string' ? item.icon : undefined, title: typeof item.title === 'string' ? item.title : undefined } })
+    } else if (view.point === point && view.id === item.id && typeof handler === 'function') {
+      try { handler(document.body) } catch (err) { report(err) }
+    }
+  }
+  var api = {
+    registerMessageAction: function (item, handler) { register('messageAction', item, handler) },
+    registerDockButton: function (item, handler) { register('dock', item, handler) },
+    registerContextMenuItem: function (item, handler) { register('contextMenu', item, handler) },
+    registerSettingsTab: function (item, render) { register('settingsTab', item, render) },
+    unregister: function (point, id) {
+      delete handlers[point + ':' + id]
+      if (!view) send({ type: 'unregister', point: point, id: String(id) })
+    },
+    openLink: function (url) { send({ type: 'command', command: 'openLink', args: [String(url)] }) },
+    appendToChatInput: function (text) { send({ type: 'command', command: 'appendToChatInput', args: [String(text)] }) },
+  }
+  window.omniScreen = api
+  window.addEventListener('message', function (e) {
+    var msg = e.data
+    if (e.source !== parent || !msg || msg.source !== 'omni-screen') return
+    if (msg.type === 'load') {
+      view = msg.view || null
+      api.view = view
+      try { new Function('omniScreen', msg.script)(api) } catch (err) { report(err) }
+    } else if (msg.type === 'invoke') {
+      var handler = handlers[msg.point + ':' + msg.id]
+      if (typeof handler !== 'function') return
+      try {
+        var result = handler(msg.payload)
+        if (result && typeof result.catch === 'function') result.catch(report)
+      } catch (err) { report(err) }
+    }
+  })
+  send({ type: 'bootstrap' })
+})()`
+
+/** srcDoc of every extension frame; the extension's script arrives in a 'load' message. */
+export const EXTENSION_FRAME_HTML = `<!doctype html><html><head><meta charset="utf-8"><style>html,body{margin:0;background:transparent;font:14px system-ui,sans-serif;color-scheme:dark light}</style></head><body><script>${BOOTSTRAP_SCRIPT}</script></body></html>`
+
+let rendererExtensions: RendererExtension[] = []
+let items: ExtensionUiItem[] = []
+const listeners = new Set<() => void>()
+/** Frame window -> which extension (and view) it runs; messages from other windows are ignored. */
+const frames = new Map<Window, { extensionId: string; loadId: number; view: ExtensionUiView | null }>()
+let commands: ExtensionUiCommands | null = null
+let extensionLoad: Promise<void> | null = null
+let nextLoadId = 1
+
+function notify() {
+  listeners.forEach((l) => l())
+}
+
+function isHttpUrl(url: string): boolean {
+  try {
+    const u = new URL(url)
+    return u.protocol === 'http:' || u.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function handleFrameMessage(e: MessageEvent) {
+  const frame = e.source ? frames.get(e.source as Window) : undefined
+  const msg = e.data as { source?: string; type?: string; point?: string; id?: string; item?: Record<string, unknown>; command?: string; args?: unknown[]; error?: string }
+  if (!frame || !msg || msg.source !== 'omni-screen-ext') return
+  // Frames of a previous load may still be mounted for a moment; ignore them
+  const ext = rendererExtensions.find((x) => x.id === frame.extensionId && x.loadId === frame.loadId)
+  if (!ext) return
+  switch (msg.type) {
+    case 'bootstrap': {
+      const win = e.source as Window
+      win.postMessage({ source: 'omni-screen', type: 'load', script: ext.script, view: frame.view }, '*')
+      break
+    }
+    case 'register': {
+      // Only the background frame registers; view frames run the same script to render
+      const point = msg.point as ExtensionUiPoint
+      const id = typeof msg.item?.id === 'string' ? msg.item.id : ''
+      if (frame.view || !POINTS.includes(point) || !id) return
+      const item: ExtensionUiItem = {
+        extensionId: ext.id,
+        point,
+        id,
+        label: typeof msg.item?.label === 'string' && msg.item.label ? msg.item.label : id,
+        icon: typeof msg.item?.icon === 'string' ? msg.item.icon : undefined,
+        title: typeof msg.item?.title === 'string' ? msg.item.title : undefined,
+      }
+      items = [...items.filter((x) => !(x.extensionId === ext.id && x.point === point && x.id === id)), item]
+      notify()
+      break
+    }
+    case 'unregister':
+      if (frame.view) return
+      items = items.filter((x) => !(x.extensionId === ext.id && x.point === msg.point && x.id === msg.id))
+      notify()
+      break
+    case 'command': {
+      const arg = Array.isArray(msg.args) ? String(msg.args[0] ?? '') : ''
+      if (msg.command === 'openLink' && arg) {
+        // Only #platform/id embed links and web links (no file:, javascript: or custom protocol handlers)
+        if (arg.trim().startsWith('#') || isHttpUrl(arg.trim())) commands?.openLink(arg)
+        else console.warn(`[Extensions] ${ext.id} renderer: openLink only opens #platform/id and http(s) links`)
+      }
+      else if (msg.command === 'appendToChatInput' && arg) commands?.appendToChatInput(arg)
+      break
+    }
+    case 'error':
+      console.warn(`[Extensions] ${ext.id} renderer:`, msg.error)
+      break
+  }
+}
+
+/** Replace renderer extensions (and drop their contributions) with the ones main currently runs. */
+function loadRendererExtensions(): Promise<void> {
+  extensionLoad = window.ipcRenderer
+    .invoke('get-app-config')
+    .then(async (config: { rendererExtensions?: Array<{ id: string; name: string }> }) => {
+      const list = Array.isArray(config?.rendererExtensions) ? config.rendererExtensions : []
+      const loadId = nextLoadId++
+      const loaded = await Promise.all(
+        list.map(async (ext) => {
+          const r = (await window.ipcRenderer.invoke('extension-renderer-script', ext.id)) as { success: boolean; data?: string }
+          return r?.success && typeof r.data === 'string' ? [{ id: ext.id, name: ext.name, loadId, script: r.data }] : []
+        }),
+      )
+      rendererExtensions = loaded.flat()
+      items = []
+      notify()
+    })
+    .catch(() => {})
+  return extensionLoad
+}
+
+/** Load renderer extensions once, and again whenever extensions are reloaded or toggled. */
+function ensureRendererExtensions() {
+  if (extensionLoad) return
+  window.addEventListener('message', handleFrameMessage)
+  void loadRendererExtensions()
+  window.ipcRenderer.on('extensions-reloaded', () => void loadRendererExtensions())
+}
+
+/** Track a frame's window so its messages are accepted. Returns a function that forgets it. */
+export function attachExtensionFrame(win: Window, ext: RendererExtensionInfo, view: ExtensionUiView | null): () => void {
+  frames.set(win, { extensionId: ext.id, loadId: ext.loadId, view })
+  return () => {
+    frames.delete(win)
+  }
+}
+
+/** Handlers for omniScreen.openLink / appendToChatInput (set by OmniScreen). */
+export function setExtensionUiCommands(next: ExtensionUiCommands | null) {
+  commands = next
+}
+
+/** Run a contribution's handler in its extension's background frame. payload must be structured-cloneable. */
+export function invokeExtensionUiItem(item: ExtensionUiItem, payload: unknown) {
+  const ext = rendererExtensions.find((x) => x.id === item.extensionId)
+  for (const [win, frame] of frames) {
+    if (frame.extensionId !== item.extensionId || frame.loadId !== ext?.loadId || frame.view) continue
+    win.postMessage({ source: 'omni-screen', type: 'invoke', point: item.point, id: item.id, payload }, '*')
+    return
+  }
+}
+
+/** Extensions with a renderer script (one background frame each); re-renders when extensions reload. */
+export function useRendererExtensions(): RendererExtensionInfo[] {
+  const [list, setList] = useState<RendererExtensionInfo[]>([])
+  useEffect(() => {
+    const listener = () => setList(rendererExtensions.map((x) => ({ id: x.id, name: x.name, loadId: x.loadId })))
+    listeners.add(listener)
+    listener()
+    ensureRendererExtensions()
+    return () => {
+      listeners.delete(listener)
+    }
+  }, [])
+  return list
+}
+
+/** Contributions registered for a point, in registration order. */
+export function useExtensionUiItems(point: ExtensionUiPoint): ExtensionUiItem[] {
+  const [list, setList] = useState<ExtensionUiItem[]>([])
+  useEffect(() => {
+    const listener = () => setList(items.filter((x) => x.point === point))
+    listeners.add(listener)
+    listener()
+    ensureRendererExtensions()
+    return () => {
+      listeners.delete(listener)
+    }
+  }, [point])
+  return list
+}
@@ -0,0 +1,157 @@
+/**
+ * OmniScreen embed grid layout
+ *
+ * How the selected embeds are arranged in the grid: 'auto' (column count from getBestGridColumns, equal tiles),
+ * 'manual' (fixed column count; each tile can span several columns/rows) or 'focus' (one main tile with the others
+ * in a strip on the right or at the bottom). Tiles are keyed by embed key (makeEmbedKey) and keep their place in
+ * `order` while deselected. Tiles get explicit grid-row/grid-column from computeGridPlacement, so rearranging never
+ * moves (and reloads) the embed iframes in the DOM. Edited with the dock's layout button; saved with the workspace.
+ */
+
+export type GridLayoutMode = 'auto' | 'manual' | 'focus'
+
+export interface GridTileSpan {
+  colSpan: number
+  rowSpan: number
+}
+
+export interface GridLayout {
+  mode: GridLayoutMode
+  /** Tile order by embed key; selected embeds not listed go last. */
+  order: string[]
+  /** Manual mode column count. */
+  columns: number
+  /** Manual mode spans by embed key (default 1×1). */
+  spans: Record<string, GridTileSpan>
+  /** Focus mode main tile; other modes ignore it. */
+  mainKey: string | null
+  /** Focus mode: where the other tiles go. */
+  stripPosition: 'right' | 'bottom'
+}
+
+export interface GridPlacement {
+  templateColumns: string
+  templateRows: string
+  /** CSS grid-column / grid-row per embed key. */
+  tiles: Map<string, { gridColumn: string; gridRow: string }>
+}
+
+export const MAX_GRID_COLUMNS = 6
+export const MAX_GRID_ROW_SPAN = 4
+
+export const DEFAULT_GRID_LAYOUT: GridLayout = {
+  mode: 'auto',
+  order: [],
+  columns: 2,
+  spans: {},
+  mainKey: null,
+  stripPosition: 'right',
+}
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.floor(n)))
+}
+
+/** Clean up a stored layout; the default layout when it isn't one. */
+export function normalizeGridLayout(raw: unknown): GridLayout {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return DEFAULT_GRID_LAYOUT
+  const r = raw as Record<string, unknown>
+  const spans: Record<string, GridTileSpan> = {}
+  if (r.spans && typeof r.spans === 'object') {
+    for (const [key, v] of Object.entries(r.spans as Record<string, unknown>)) {
+      const span = v as Partial<GridTileSpan> | null
+      const colSpan = Number(span?.colSpan)
+      const rowSpan = Number(span?.rowSpan)
+      if (!Number.isFinite(colSpan) || !Number.isFinite(rowSpan)) continue
+      spans[key] = { colSpan: clamp(colSpan, 1, MAX_GRID_COLUMNS), rowSpan: clamp(rowSpan, 1, MAX_GRID_ROW_SPAN) }
+    }
+  }
+  const columns = Number(r.columns)
+  return {
+    mode: r.mode === 'manual' || r.mode === 'focus' ? r.mode : 'auto',
+    order: Array.isArray(r.order) ? Array.from(new Set(r.order.filter((k): k is string => typeof k === 'string' && k.length > 0))) : [],
+    columns: Number.isFinite(columns) ? clamp(columns, 1, MAX_GRID_COLUMNS) : DEFAULT_GRID_LAYOUT.columns,
+    spans,
+    mainKey: typeof r.mainKey === 'string' && r.mainKey ? r.mainKey : null,
+    stripPosition: r.stripPosition === 'bottom' ? 'bottom' : 'right',
+  }
+}
+
+/** Keys in layout order (unlisted keys keep their given order, after the listed ones). */
+export function orderGridKeys(keys: string[], order: string[]): string[] {
+  const rank = new Map(order.map((k, i) => [k, i]))
+  return keys
+    .map((k, i) => ({ k, i }))
+    .sort((a, b) => (rank.get(a.k) ?? order.length + a.i) - (rank.get(b.k) ?? order.length + b.i))
+    .map((x) => x.k)
+}
+
+/** Layout with `key` moved to where `targetKey` is (drag and drop), keeping deselected keys' places. */
+export function moveGridKey(layout: GridLayout, keys: string[], key: string, targetKey: string): GridLayout {
+  if (key === targetKey) return layout
+  const ordered = orderGridKeys(Array.from(new Set([...layout.order, ...keys])), layout.order)
+  const from = ordered.indexOf(key)
+  const to = ordered.indexOf(targetKey)
+  if (from < 0 || to < 0) return layout
+  ordered.splice(from, 1)
+  ordered.splice(to, 0, key)
+  return { ...layout, order: ordered }
+}
+
+/** First-fit packing (like CSS grid-auto-flow: dense): 1-based row/column of each tile and the row count. */
+function packTiles(tiles: Array<{ key: string; colSpan: number; rowSpan: number }>, columns: number) {
+  const occupied: boolean[][] = []
+  const isFree = (row: number, col: number, rowSpan: number, colSpan: number) => {
+    for (let r = row; r < row + rowSpan; r++) {
+      for (let c = col; c < col + colSpan; c++) if (occupied[r]?.[c]) return false
+    }
+    return true
+  }
+  const positions = new Map<string, { row: number; col: number; rowSpan: number; colSpan: number }>()
+  let rows = 0
+  for (const tile of tiles) {
+    const colSpan = clamp(tile.colSpan, 1, columns)
+    const rowSpan = clamp(tile.rowSpan, 1, MAX_GRID_ROW_SPAN)
+    let placed = false
+    for (let row = 0; !placed; row++) {
+      for (let col = 0; col + colSpan <= columns; col++) {
+        if (!isFree(row, col, rowSpan, colSpan)) continue
+        for (let r = row; r < row + rowSpan; r++) {
+          occupied[r] ??= []
+          for (let c = col; c < col + colSpan; c++) occupied[r][c] = true
+        }
+        positions.set(tile.key, { row: row + 1, col: col + 1, rowSpan, colSpan })
+        rows = Math.max(rows, row + rowSpan)
+        placed = true
+        break
+      }
+    }
+  }
+  return { positions, rows }
+}
+
+/** Grid template and tile positions for the selected embed keys. autoColumns is used in 'auto' mode. */
+export function computeGridPlacement(keys: string[], layout: GridLayout, autoColumns: number): GridPlacement {
+  const ordered = orderGridKeys(keys, layout.order)
+  const tiles = new Map<string, { gridColumn: string; gridRow: string }>()
+  const mainKey = layout.mode === 'focus' && layout.mainKey && ordered.includes(layout.mainKey) ? layout.mainKey : null
+  if (mainKey && ordered.length > 1) {
+    const others = ordered.filter((k) => k !== mainKey)
+    if (layout.stripPosition === 'bottom') {
+      tiles.set(mainKey, { gridColumn: `1 / span ${others.length}`, gridRow: '1' })
+      others.forEach((k, i) => tiles.set(k, { gridColumn: String(i + 1), gridRow: '2' }))
+      return { templateColumns: `repeat(${others.length}, minmax(0, 1fr))`, templateRows: 'minmax(0, 4fr) minmax(0, 1fr)', tiles }
+    }
+    tiles.set(mainKey, { gridColumn: '1', gridRow: `1 / span ${others.length}` })
+    others.forEach((k, i) => tiles.set(k, { gridColumn: '2', gridRow: String(i + 1) }))
+    return { templateColumns: 'minmax(0, 4fr) minmax(0, 1fr)', templateRows: `repeat(${others.length}, minmax(0, 1fr))`, tiles }
+  }
+  const manual = layout.mode === 'manual'
+  const columns = clamp(manual ? layout.columns : autoColumns, 1, MAX_GRID_COLUMNS)
+  const { positions, rows } = packTiles(
+    ordered.map((key) => ({ key, colSpan: manual ? (layout.spans[key]?.colSpan ?? 1) : 1, rowSpan: manual ? (layout.spans[key]?.rowSpan ?? 1) : 1 })),
+    columns,
+  )
+  positions.forEach((p, key) => tiles.set(key, { gridColumn: `${p.col} / span ${p.colSpan}`, gridRow: `${p.row} / span ${p.rowSpan}` }))
+  return { templateColumns: `repeat(${columns}, minmax(0, 1fr))`, templateRows: `repeat(${Math.max(1, rows)}, minmax(0, 1fr))`, tiles }
+}
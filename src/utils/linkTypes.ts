@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react'
+import twitterIcon from '../assets/icons/third-party/twitter.png'
+import youtubeIcon from '../assets/icons/third-party/youtube.png'
+import tiktokIcon from '../assets/icons/third-party/tiktok.png'
+import kickIcon from '../assets/icons/third-party/kick.png'
+import twitchIcon from '../assets/icons/third-party/twitch.png'
+import redditIcon from '../assets/icons/third-party/reddit.png'
+import streamableIcon from '../assets/icons/third-party/streamable.ico'
+import imgurIcon from '../assets/icons/third-party/imgur.png'
+import wikipediaIcon from '../assets/icons/third-party/wikipedia.png'
+import blueskyIcon from '../assets/icons/third-party/bluesky.svg'
+
+/**
+ * Link Scroller link types
+ *
+ * Registry of the link types Link Scroller recognizes (label, icon, platform display setting). Built-in types are
+ * rendered by their own embed components; other types (extensions via registerLinkType) resolve an embed URL or
+ * HTML with getEmbed and are rendered by LinkTypeEmbed.
+ */
+
+/** Embed for a link: an iframe URL, or HTML rendered in a sandboxed iframe. */
+export interface LinkTypeEmbed {
+  embedUrl?: string
+  html?: string
+}
+
+export interface LinkTypeDefinition {
+  /** Display name; also the key in Link Scroller platform display settings (filter / text / embed). */
+  name: string
+  matches: (url: URL) => boolean
+  icon?: string
+  /** Built-in types are rendered by their own embed component in LinkScroller. */
+  builtin?: boolean
+  /** Resolve the embed for a link. Types without it only get a label, icon and display setting. */
+  getEmbed?: (url: string) => Promise<LinkTypeEmbed | null>
+  /** Embed height in px (masonry layout and iframe); default 400. */
+  embedHeight?: number
+  /** Set for types registered by an extension (replaced when extensions reload). */
+  extensionId?: string
+}
+
+/** Link type as sent by main (get-app-config linkTypes). */
+interface ExtensionLinkTypeInfo {
+  name: string
+  urlPatterns: string[]
+  iconUrl?: string
+  embedUrlTemplate?: string
+  embedHeight?: number
+  hasFetchEmbed: boolean
+  extensionId: string
+}
+
+function hostMatches(...hosts: string[]) {
+  return (url: URL) => {
+    const hostname = url.hostname.toLowerCase()
+    return hosts.some((h) => hostname.includes(h))
+  }
+}
+
+// Order matters: first match wins (e.g. x.com before others).
+const BUILTIN_LINK_TYPES: LinkTypeDefinition[] = [
+  { name: 'Twitter', matches: hostMatches('twitter.com', 'x.com'), icon: twitterIcon, builtin: true },
+  { name: 'YouTube', matches: hostMatches('youtube.com', 'youtu.be'), icon: youtubeIcon, builtin: true },
+  { name: 'TikTok', matches: hostMatches('tiktok.com'), icon: tiktokIcon, builtin: true },
+  { name: 'Kick', matches: hostMatches('kick.com'), icon: kickIcon, builtin: true },
+  { name: 'Twitch', matches: hostMatches('twitch.tv'), icon: twitchIcon, builtin: true },
+  { name: 'Reddit', matches: hostMatches('reddit.com'), icon: redditIcon, builtin: true },
+  { name: 'Streamable', matches: hostMatches('streamable.com'), icon: streamableIcon, builtin: true },
+  { name: 'Imgur', matches: hostMatches('imgur.com'), icon: imgurIcon, builtin: true },
+  { name: 'Wikipedia', matches: hostMatches('wikipedia.org'), icon: wikipediaIcon, builtin: true },
+  { name: 'Bluesky', matches: hostMatches('bsky.app'), icon: blueskyIcon, builtin: true },
+  // Reddit icon as placeholder for LSF (LSF is related to Reddit)
+  { name: 'LSF', matches: hostMatches('arazu.io'), icon: redditIcon, builtin: true },
+]
+
+let linkTypes: LinkTypeDefinition[] = [...BUILTIN_LINK_TYPES]
+const listeners = new Set<() => void>()
+
+function notify() {
+  listeners.forEach((l) => l())
+}
+
+/** Add a link type after the built-ins. Returns false if the name is taken by a built-in type. */
+export function registerLinkType(def: LinkTypeDefinition): boolean {
+  const lower = def.name.toLowerCase()
+  if (BUILTIN_LINK_TYPES.some((t) => t.name.toLowerCase() === lower)) return false
+  linkTypes = [...linkTypes.filter((t) => t.name.toLowerCase() !== lower), def]
+  notify()
+  return true
+}
+
+export function getLinkTypes(): LinkTypeDefinition[] {
+  return linkTypes
+}
+
+export function getLinkTypeByName(name: string | undefined): LinkTypeDefinition | undefined {
+  if (!name) return undefined
+  const lower = name.toLowerCase()
+  return linkTypes.find((t) => t.name.toLowerCase() === lower)
+}
+
+/** First link type whose matcher accepts the URL. */
+export function findLinkType(url: string): LinkTypeDefinition | undefined {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return undefined
+  }
+  return linkTypes.find((t) => {
+    try {
+      return t.matches(parsed)
+    } catch {
+      return false
+    }
+  })
+}
+
+function fillTemplate(template: string, url: string, id: string): string {
+  return template.split('{url}').join(encodeURIComponent(url)).split('{id}').join(encodeURIComponent(id))
+}
+
+function toLinkTypeDefinition(info: ExtensionLinkTypeInfo): LinkTypeDefinition {
+  const patterns = info.urlPatterns.flatMap((p) => {
+    try {
+      return [new RegExp(p, 'i')]
+    } catch {
+      return []
+    }
+  })
+  const matchUrl = (url: string) => {
+    for (const re of patterns) {
+      const m = url.match(re)
+      if (m) return m
+    }
+    return null
+  }
+  return {
+    name: info.name,
+    matches: (url) => matchUrl(url.toString()) !== null,
+    icon: info.iconUrl,
+    embedHeight: info.embedHeight,
+    extensionId: info.extensionId,
+    getEmbed:
+      info.hasFetchEmbed || info.embedUrlTemplate
+        ? async (url) => {
+            if (info.hasFetchEmbed) {
+              const r = (await window.ipcRenderer.invoke('link-type-fetch-embed', { name: info.name, url })) as {
+                success: boolean
+                data?: LinkTypeEmbed | null
+                error?: string
+              }
+              if (!r?.success) throw new Error(r?.error || 'Failed to load embed')
+              if (r.data?.embedUrl || r.data?.html) return r.data
+            }
+            if (!info.embedUrlTemplate) return null
+            const m = matchUrl(url)
+            return { embedUrl: fillTemplate(info.embedUrlTemplate, url, (m?.groups?.id ?? m?.[1] ?? '').trim()) }
+          }
+        : undefined,
+  }
+}
+
+let extensionLoad: Promise<void> | null = null
+
+/** Replace extension link types with the ones main currently has registered. */
+function loadExtensionLinkTypes(): Promise<void> {
+  extensionLoad = window.ipcRenderer
+    .invoke('get-app-config')
+    .then((config: { linkTypes?: ExtensionLinkTypeInfo[] }) => {
+      const list = Array.isArray(config?.linkTypes) ? config.linkTypes : []
+      const builtinNames = new Set(BUILTIN_LINK_TYPES.map((t) => t.name.toLowerCase()))
+      linkTypes = [
+        ...linkTypes.filter((t) => !t.extensionId),
+        ...list.filter((info) => info?.name && !builtinNames.has(info.name.toLowerCase())).map(toLinkTypeDefinition),
+      ]
+      notify()
+    })
+    .catch(() => {})
+  return extensionLoad
+}
+
+/** Load extension link types once, and again whenever extensions are reloaded or toggled. */
+function ensureExtensionLinkTypes() {
+  if (extensionLoad) return
+  void loadExtensionLinkTypes()
+  window.ipcRenderer.on('extensions-reloaded', () => void loadExtensionLinkTypes())
+}
+
+/** Current link types; re-renders when extensions add or remove link types. */
+export function useLinkTypes(): LinkTypeDefinition[] {
+  const [types, setTypes] = useState(linkTypes)
+  useEffect(() => {
+    const listener = () => setTypes(linkTypes)
+    listeners.add(listener)
+    listener()
+    ensureExtensionLinkTypes()
+    return () => {
+      listeners.delete(listener)
+    }
+  }, [])
+  return types
+}
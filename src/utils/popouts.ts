@@ -0,0 +1,64 @@
+/**
+ * Pop-out windows
+ *
+ * OmniScreen can move an embed tile or the combined chat into its own frameless window (e.g. streams on one
+ * monitor, chat on another). Main creates the window, loading this renderer with ?popout=<id> (main.tsx then renders
+ * PopoutWindow instead of App), and relays between the two renderers:
+ * - OmniScreen sends the popout's state with 'popout-send-state' whenever it changes (and on 'popout-ready');
+ * - the popout sends user actions back with 'popout-action' (e.g. a chat setting changed in its context menu);
+ * - main sends 'popout-closed' with the window bounds when it closes, so the tile/chat returns to the main window.
+ * Chat events are sent to the chat popout as well as the main window, so CombinedChat works there unchanged.
+ */
+
+export const CHAT_POPOUT_ID = 'chat'
+const EMBED_POPOUT_PREFIX = 'embed:'
+const BOUNDS_STORAGE_KEY = 'omni-screen:popout-bounds'
+
+export interface PopoutBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export function makeEmbedPopoutId(embedKey: string): string {
+  return `${EMBED_POPOUT_PREFIX}${embedKey}`
+}
+
+/** Embed key of an embed popout id; null for the chat popout. */
+export function getPopoutEmbedKey(popoutId: string): string | null {
+  return popoutId.startsWith(EMBED_POPOUT_PREFIX) ? popoutId.slice(EMBED_POPOUT_PREFIX.length) : null
+}
+
+/** Popout id when this renderer was loaded in a popout window, otherwise null. */
+export function getPopoutIdFromLocation(): string | null {
+  try {
+    const id = new URLSearchParams(window.location.search).get('popout')
+    return id && (id === CHAT_POPOUT_ID || getPopoutEmbedKey(id)) ? id : null
+  } catch {
+    return null
+  }
+}
+
+/** Last bounds of the chat popout and of embed popouts (one entry for all embeds), so windows reopen where they were. */
+export function loadPopoutBounds(popoutId: string): PopoutBounds | undefined {
+  try {
+    const all = JSON.parse(localStorage.getItem(BOUNDS_STORAGE_KEY) ?? '{}')
+    const b = all?.[popoutId === CHAT_POPOUT_ID ? 'chat' : 'embed']
+    if (!b || ![b.x, b.y, b.width, b.height].every((n) => typeof n === 'number' && Number.isFinite(n))) return undefined
+    return { x: b.x, y: b.y, width: b.width, height: b.height }
+  } catch {
+    return undefined
+  }
+}
+
+export function savePopoutBounds(popoutId: string, bounds: PopoutBounds): void {
+  try {
+    const all = JSON.parse(localStorage.getItem(BOUNDS_STORAGE_KEY) ?? '{}')
+    const next = all && typeof all === 'object' && !Array.isArray(all) ? all : {}
+    next[popoutId === CHAT_POPOUT_ID ? 'chat' : 'embed'] = bounds
+    localStorage.setItem(BOUNDS_STORAGE_KEY, JSON.stringify(next))
+  } catch {
+    // ignore
+  }
+}
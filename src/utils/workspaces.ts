@@ -0,0 +1,141 @@
+/**
+ * OmniScreen workspaces
+ *
+ * Named snapshots of the OmniScreen layout: selected embeds and their Chat toggles, the grid layout, the chat pane
+ * (open, side, width, overlay), cinema mode, dock position and the combined chat display options. Saved and managed in
+ * Settings > Workspaces, switched from the dock right-click menu or the "Next workspace" keybind, and shared as
+ * omnichat://workspace?... links (parsed in electron/urlHandler.ts; App saves received workspaces).
+ */
+
+import { normalizeGridLayout, type GridLayout } from './gridLayout'
+
+export interface WorkspaceSnapshot {
+  /** Selected embed keys (makeEmbedKey). */
+  embedKeys: string[]
+  /** Selected embeds that are pinned embeds; applying the workspace pins them again if they were unpinned. */
+  pinnedEmbedKeys: string[]
+  /** Embed keys with Chat on. */
+  chatEmbedKeys: string[]
+  /** Embed grid arrangement; edits while the workspace is active are saved to it right away. */
+  gridLayout: GridLayout
+  chatPaneOpen: boolean
+  chatPaneSide: 'left' | 'right'
+  chatPaneWidth: number
+  chatOverlayMode: boolean
+  chatOverlayOpacity: number
+  cinemaMode: boolean
+  dockAtTop: boolean
+  showTimestamps: boolean
+  showLabels: boolean
+  showPlatformIcons: boolean
+  sortMode: 'arrival' | 'timestamp'
+  showChatInput: boolean
+}
+
+export interface Workspace {
+  id: string
+  name: string
+  snapshot: WorkspaceSnapshot
+}
+
+const STORAGE_KEY = 'omni-screen:workspaces'
+const EMBED_KEY_REGEX = /^[a-z0-9_-]+:\S+$/i
+
+/** Fired on window when the saved workspaces change outside OmniScreen (e.g. a workspace link was opened). */
+export const WORKSPACES_CHANGED_EVENT = 'workspaces-changed'
+
+export function createWorkspaceId(): string {
+  return `workspace-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+function embedKeys(v: unknown): string[] {
+  if (!Array.isArray(v)) return []
+  return Array.from(new Set(v.filter((k): k is string => typeof k === 'string' && EMBED_KEY_REGEX.test(k))))
+}
+
+function bool(v: unknown, fallback: boolean): boolean {
+  return typeof v === 'boolean' ? v : fallback
+}
+
+/** Clean up a stored or received workspace; null when it isn't one. */
+export function normalizeWorkspace(raw: unknown): Workspace | null {
+  if (!isRecord(raw) || !isRecord(raw.snapshot)) return null
+  const s = raw.snapshot
+  const keys = embedKeys(s.embedKeys)
+  const width = Number(s.chatPaneWidth)
+  const opacity = Number(s.chatOverlayOpacity)
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createWorkspaceId(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Workspace',
+    snapshot: {
+      embedKeys: keys,
+      pinnedEmbedKeys: embedKeys(s.pinnedEmbedKeys).filter((k) => keys.includes(k)),
+      chatEmbedKeys: embedKeys(s.chatEmbedKeys),
+      gridLayout: normalizeGridLayout(s.gridLayout),
+      chatPaneOpen: bool(s.chatPaneOpen, true),
+      chatPaneSide: s.chatPaneSide === 'right' ? 'right' : 'left',
+      chatPaneWidth: Number.isFinite(width) && width > 0 ? Math.round(width) : 420,
+      chatOverlayMode: bool(s.chatOverlayMode, false),
+      chatOverlayOpacity: Number.isFinite(opacity) && opacity >= 0 && opacity <= 1 ? opacity : 0.85,
+      cinemaMode: bool(s.cinemaMode, false),
+      dockAtTop: bool(s.dockAtTop, false),
+      showTimestamps: bool(s.showTimestamps, true),
+      showLabels: bool(s.showLabels, true),
+      showPlatformIcons: bool(s.showPlatformIcons, false),
+      sortMode: s.sortMode === 'timestamp' ? 'timestamp' : 'arrival',
+      showChatInput: bool(s.showChatInput, true),
+    },
+  }
+}
+
+export function loadWorkspaces(): Workspace[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(parsed)) return []
+    const list: Workspace[] = []
+    for (const item of parsed) {
+      const w = normalizeWorkspace(item)
+      if (w && !list.some((x) => x.id === w.id)) list.push(w)
+    }
+    return list
+  } catch {
+    return []
+  }
+}
+
+export function saveWorkspaces(list: Workspace[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(list))
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * omnichat://workspace?... link for sharing. Every selected embed is listed in `embeds` (the receiver pins them,
+ * since they may not have the same bookmarks); see README "Workspace protocol" for the params.
+ */
+export function buildWorkspaceUrl(workspace: Workspace): string {
+  const s = workspace.snapshot
+  const params = new URLSearchParams()
+  params.set('name', workspace.name)
+  if (s.embedKeys.length > 0) params.set('embeds', s.embedKeys.join(','))
+  if (s.chatEmbedKeys.length > 0) params.set('chats', s.chatEmbedKeys.join(','))
+  params.set('chatOpen', s.chatPaneOpen ? '1' : '0')
+  params.set('side', s.chatPaneSide)
+  params.set('width', String(s.chatPaneWidth))
+  params.set('overlay', s.chatOverlayMode ? '1' : '0')
+  params.set('opacity', String(s.chatOverlayOpacity))
+  params.set('cinema', s.cinemaMode ? '1' : '0')
+  params.set('dockTop', s.dockAtTop ? '1' : '0')
+  params.set('timestamps', s.showTimestamps ? '1' : '0')
+  params.set('labels', s.showLabels ? '1' : '0')
+  params.set('icons', s.showPlatformIcons ? '1' : '0')
+  params.set('sort', s.sortMode)
+  params.set('input', s.showChatInput ? '1' : '0')
+  return `omnichat://workspace?${params.toString()}`
+}
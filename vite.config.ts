@@ -11,8 +11,11 @@ export default defineConfig({
     react(),
     electron({
       main: {
-        // Shortcut of `build.lib.entry`.
-        entry: 'electron/main.ts',
+        // Shortcut of `build.lib.entry`. extension-host runs each extension in a utility process (electron/extensions/extensionHost.ts).
+        entry: {
+          main: 'electron/main.ts',
+          'extension-host': 'electron/extensions/host.ts',
+        },
         vite: {
           build: {
             rollupOptions: {